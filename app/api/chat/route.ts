@@ -9,6 +9,10 @@ import { log } from '@/lib/logger';
 const chatSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID format'),
   message: z.string().min(1, 'Message cannot be empty').max(2000, 'Message too long'),
+  // Plan workflows without running them (they are saved for review in the workflow editor)
+  planOnly: z.boolean().optional(),
+  // Return the requests the message would send (credentials redacted) without sending them
+  dryRun: z.boolean().optional(),
 });
 
 // GET /api/chat - Get message history for a session with cursor-based pagination
@@ -82,12 +86,14 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('Invalid input', fields);
     }
 
-    const { sessionId, message } = validation.data;
+    const { sessionId, message, planOnly, dryRun } = validation.data;
 
-    log.info('Processing chat message', { sessionId, messageLength: message.length });
+    log.info('Processing chat message', { sessionId, messageLength: message.length, dryRun });
 
-    // Try streaming first (for workflows)
-    const streamResult = await chatService.processMessageStreaming({ sessionId, message });
+    // Try streaming first (for workflows); dry runs answer at once, nothing runs
+    const streamResult = dryRun
+      ? null
+      : await chatService.processMessageStreaming({ sessionId, message, planOnly });
     if (streamResult) {
       return new Response(streamResult.stream, {
         headers: {
@@ -99,7 +105,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Non-streaming fallback for regular responses
-    const response = await chatService.processMessage({ sessionId, message });
+    const response = await chatService.processMessage({ sessionId, message, dryRun });
 
     log.info('Chat message processed', {
       sessionId,
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+
+import { jobQueueService } from '@/lib/services/job-queue';
+import { handleApiError, createSuccessResponse, ConflictError, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// POST /api/job/[id]/cancel - Cancel a queued or running job
+// Running jobs are cancelled like their workflow; responds once the job stopped
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const job = await jobQueueService.findById(id);
+    if (!job) {
+      throw new NotFoundError('Job', id);
+    }
+
+    if (jobQueueService.isFinished(job)) {
+      throw new ConflictError(
+        `Only queued or running jobs can be cancelled; this job is ${job.status}`
+      );
+    }
+
+    const cancelled = await jobQueueService.cancel(id);
+
+    log.info('Job cancelled', { jobId: id, workflowId: job.workflowId });
+
+    return createSuccessResponse({ job: cancelled });
+  } catch (error) {
+    log.error('Failed to cancel job', error, { route: 'POST /api/job/[id]/cancel' });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+
+import { JobEvent, jobQueueService } from '@/lib/services/job-queue';
+import { handleApiError, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// GET /api/job/[id]/events - SSE stream of a job's progress
+// Events sent so far are replayed; the stream ends with a job_finished event holding the result
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const job = await jobQueueService.findById(id);
+    if (!job) {
+      throw new NotFoundError('Job', id);
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let unsubscribe = () => {};
+
+    const stream = new ReadableStream({
+      start: async controller => {
+        const send = (event: JobEvent) => {
+          if (closed) {
+            return;
+          }
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          if (event.type === 'job_finished') {
+            closed = true;
+            unsubscribe();
+            controller.close();
+          }
+        };
+        const sendFinished = async () => {
+          const finished = await jobQueueService.findById(id);
+          if (finished && jobQueueService.isFinished(finished)) {
+            send({
+              type: 'job_finished',
+              jobId: id,
+              status: finished.status,
+              ...(finished.result && { result: finished.result }),
+              ...(finished.error && { error: finished.error }),
+            });
+          }
+        };
+
+        if (jobQueueService.isFinished(job)) {
+          await sendFinished();
+          return;
+        }
+
+        unsubscribe = jobQueueService.subscribe(id, send);
+        if (closed) {
+          unsubscribe();
+          return;
+        }
+        // The job may have finished before the subscription started
+        await sendFinished();
+      },
+      cancel: () => {
+        closed = true;
+        unsubscribe();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    log.error('Failed to stream job events', error, { route: 'GET /api/job/[id]/events' });
+    return handleApiError(error);
+  }
+}
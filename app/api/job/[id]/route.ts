@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+
+import { jobQueueService } from '@/lib/services/job-queue';
+import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// GET /api/job/[id] - Status of a background workflow execution, with its result once finished
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const job = await jobQueueService.findById(id);
+    if (!job) {
+      throw new NotFoundError('Job', id);
+    }
+
+    return createSuccessResponse({ job });
+  } catch (error) {
+    log.error('Failed to get job', error, { route: 'GET /api/job/[id]' });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+import { scheduleService } from '@/lib/services/schedule';
+import { workflowService } from '@/lib/services/workflow';
+import {
+  handleApiError,
+  createSuccessResponse,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { log } from '@/lib/logger';
+import { validateCron } from '@/lib/utils/cron';
+import { resolveInputValues } from '@/lib/utils/workflow-inputs';
+
+const updateScheduleSchema = z.object({
+  cron: z
+    .string()
+    .superRefine((cron, ctx) => {
+      const error = validateCron(cron);
+      if (error) {
+        ctx.addIssue({ code: 'custom', message: error });
+      }
+    })
+    .optional(),
+  enabled: z.boolean().optional(),
+  inputs: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+// GET /api/schedule/[id] - Get a schedule with the status of its last run
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const schedule = await scheduleService.findById(id);
+    if (!schedule) {
+      throw new NotFoundError('Schedule', id);
+    }
+
+    return createSuccessResponse({ schedule });
+  } catch (error) {
+    log.error('Failed to get schedule', error, { route: 'GET /api/schedule/[id]' });
+    return handleApiError(error);
+  }
+}
+
+// PATCH /api/schedule/[id] - Change the cron expression or inputs, or enable/disable the schedule
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+
+    const validation = updateScheduleSchema.safeParse(body);
+    if (!validation.success) {
+      const fields: Record<string, string[]> = {};
+      validation.error.issues.forEach(err => {
+        const path = err.path.map(String).join('.');
+        if (!fields[path]) {
+          fields[path] = [];
+        }
+        fields[path].push(err.message);
+      });
+      throw new ValidationError('Invalid input', fields);
+    }
+
+    const existing = await scheduleService.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Schedule', id);
+    }
+
+    if (validation.data.inputs !== undefined) {
+      const workflow = await workflowService.findById(existing.workflowId);
+      if (!workflow) {
+        throw new NotFoundError('Workflow', existing.workflowId);
+      }
+      const inputErrors = resolveInputValues(
+        workflowService.getInputs(workflow),
+        validation.data.inputs ?? undefined
+      ).errors;
+      if (Object.keys(inputErrors).length > 0) {
+        throw new ValidationError(
+          'Invalid inputs',
+          Object.fromEntries(
+            Object.entries(inputErrors).map(([name, messages]) => [`inputs.${name}`, messages])
+          )
+        );
+      }
+    }
+
+    const schedule = await scheduleService.update(id, validation.data);
+
+    return createSuccessResponse({ schedule });
+  } catch (error) {
+    log.error('Failed to update schedule', error, { route: 'PATCH /api/schedule/[id]' });
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/schedule/[id] - Delete a schedule; its past runs stay in the workflow's history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const deleted = await scheduleService.delete(id);
+    if (!deleted) {
+      throw new NotFoundError('Schedule', id);
+    }
+
+    log.info('Schedule deleted', { scheduleId: id });
+
+    return createSuccessResponse({ success: true });
+  } catch (error) {
+    log.error('Failed to delete schedule', error, { route: 'DELETE /api/schedule/[id]' });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+
+import { scheduleService } from '@/lib/services/schedule';
+import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// GET /api/schedule/[id]/runs - Latest runs of a schedule, from the workflow's execution history
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10) || 20;
+    const validatedLimit = Math.min(100, Math.max(1, limit));
+
+    const schedule = await scheduleService.findById(id);
+    if (!schedule) {
+      throw new NotFoundError('Schedule', id);
+    }
+
+    const runs = await scheduleService.getRuns(id, validatedLimit);
+
+    return createSuccessResponse({ scheduleId: id, runs });
+  } catch (error) {
+    log.error('Failed to get schedule runs', error, { route: 'GET /api/schedule/[id]/runs' });
+    return handleApiError(error);
+  }
+}
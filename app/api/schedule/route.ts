@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+import { scheduleService } from '@/lib/services/schedule';
+import { workflowService } from '@/lib/services/workflow';
+import {
+  handleApiError,
+  createSuccessResponse,
+  ValidationError,
+  NotFoundError,
+} from '@/lib/errors';
+import { log } from '@/lib/logger';
+import { validateCron } from '@/lib/utils/cron';
+import { resolveInputValues } from '@/lib/utils/workflow-inputs';
+
+const createScheduleSchema = z.object({
+  workflowId: z.string().uuid('Invalid workflow ID format'),
+  cron: z.string().superRefine((cron, ctx) => {
+    const error = validateCron(cron);
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error });
+    }
+  }),
+  enabled: z.boolean().optional(),
+  // Values for a template's inputs, by name
+  inputs: z.record(z.string(), z.unknown()).optional(),
+});
+
+// POST /api/schedule - Run a workflow on a cron schedule (UTC)
+// Body: { workflowId, cron: '0 2 * * *', enabled?: true, inputs?: { name: 'Bob' } }
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+
+    const validation = createScheduleSchema.safeParse(body);
+    if (!validation.success) {
+      const fields: Record<string, string[]> = {};
+      validation.error.issues.forEach(err => {
+        const path = err.path.map(String).join('.');
+        if (!fields[path]) {
+          fields[path] = [];
+        }
+        fields[path].push(err.message);
+      });
+      throw new ValidationError('Invalid input', fields);
+    }
+
+    const { workflowId, cron, enabled, inputs } = validation.data;
+
+    const workflow = await workflowService.findById(workflowId);
+    if (!workflow) {
+      throw new NotFoundError('Workflow', workflowId);
+    }
+
+    // Scheduled runs of a template need its input values up front
+    const inputErrors = resolveInputValues(workflowService.getInputs(workflow), inputs).errors;
+    if (Object.keys(inputErrors).length > 0) {
+      throw new ValidationError(
+        'Invalid inputs',
+        Object.fromEntries(
+          Object.entries(inputErrors).map(([name, messages]) => [`inputs.${name}`, messages])
+        )
+      );
+    }
+
+    const schedule = await scheduleService.create(workflowId, { cron, enabled, inputs });
+
+    return createSuccessResponse({ schedule }, 201);
+  } catch (error) {
+    log.error('Failed to create schedule', error, { route: 'POST /api/schedule' });
+    return handleApiError(error);
+  }
+}
+
+// GET /api/schedule?sessionId={id} - List a session's schedules with the status of their last run
+// ?workflowId={id} lists the schedules of one workflow instead
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sessionId = searchParams.get('sessionId');
+    const workflowId = searchParams.get('workflowId');
+
+    if (!sessionId && !workflowId) {
+      throw new ValidationError('Session ID or workflow ID is required', {
+        sessionId: ['Session ID or workflow ID query parameter is required'],
+      });
+    }
+
+    const idValidation = z
+      .string()
+      .uuid()
+      .safeParse(sessionId ?? workflowId);
+    if (!idValidation.success) {
+      throw new ValidationError(
+        sessionId ? 'Invalid session ID format' : 'Invalid workflow ID format',
+        { [sessionId ? 'sessionId' : 'workflowId']: ['Must be a valid UUID'] }
+      );
+    }
+
+    const schedules = sessionId
+      ? await scheduleService.findBySessionId(sessionId)
+      : await scheduleService.findByWorkflowId(workflowId!);
+
+    return createSuccessResponse({ schedules });
+  } catch (error) {
+    log.error('Failed to list schedules', error, { route: 'GET /api/schedule' });
+    return handleApiError(error);
+  }
+}
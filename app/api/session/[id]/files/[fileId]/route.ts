@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+
+import { sessionFileService } from '@/lib/services/session-file';
+import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// GET /api/session/[id]/files/[fileId] - Download a session file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fileId: string }> }
+) {
+  try {
+    const { id, fileId } = await params;
+
+    const file = await sessionFileService.findById(id, fileId);
+    if (!file) {
+      throw new NotFoundError('File', fileId);
+    }
+
+    return new Response(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.size),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(file.name)}"`,
+      },
+    });
+  } catch (error) {
+    log.error('Failed to download session file', error, {
+      route: 'GET /api/session/[id]/files/[fileId]',
+    });
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/session/[id]/files/[fileId] - Delete a session file
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fileId: string }> }
+) {
+  try {
+    const { id, fileId } = await params;
+
+    const deleted = await sessionFileService.delete(id, fileId);
+    if (!deleted) {
+      throw new NotFoundError('File', fileId);
+    }
+
+    log.info('Session file deleted', { sessionId: id, fileId });
+
+    return createSuccessResponse({ success: true });
+  } catch (error) {
+    log.error('Failed to delete session file', error, {
+      route: 'DELETE /api/session/[id]/files/[fileId]',
+    });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+
+import { sessionService } from '@/lib/services/session';
+import { MAX_SESSION_FILE_BYTES, sessionFileService } from '@/lib/services/session-file';
+import {
+  handleApiError,
+  createSuccessResponse,
+  ValidationError,
+  NotFoundError,
+} from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// GET /api/session/[id]/files - List the files uploaded into a session
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const session = await sessionService.findById(id);
+    if (!session) {
+      throw new NotFoundError('Session', id);
+    }
+
+    const files = await sessionFileService.list(id);
+
+    return createSuccessResponse({ files });
+  } catch (error) {
+    log.error('Failed to list session files', error, { route: 'GET /api/session/[id]/files' });
+    return handleApiError(error);
+  }
+}
+
+// POST /api/session/[id]/files - Upload a file (multipart field "file") for use in requests
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const session = await sessionService.findById(id);
+    if (!session) {
+      throw new NotFoundError('Session', id);
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      throw new ValidationError('Expected a multipart/form-data body with a "file" field');
+    }
+
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      throw new ValidationError('Missing file', { file: ['A file is required'] });
+    }
+    if (file.size > MAX_SESSION_FILE_BYTES) {
+      throw new ValidationError('File is too large', {
+        file: [`Maximum size is ${MAX_SESSION_FILE_BYTES} bytes`],
+      });
+    }
+
+    const name = formData.get('name');
+    const uploaded = await sessionFileService.upload(id, {
+      name: typeof name === 'string' && name.trim() ? name.trim() : file.name,
+      contentType: file.type || undefined,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    log.info('Session file uploaded', { sessionId: id, name: uploaded.name, size: uploaded.size });
+
+    return createSuccessResponse({ file: uploaded }, 201);
+  } catch (error) {
+    log.error('Failed to upload session file', error, { route: 'POST /api/session/[id]/files' });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+import { sessionService } from '@/lib/services/session';
+import {
+  handleApiError,
+  createSuccessResponse,
+  ValidationError,
+  NotFoundError,
+  ExternalServiceError,
+} from '@/lib/errors';
+import { log } from '@/lib/logger';
+import { redactSessionAuth } from '@/lib/utils/auth';
+import {
+  refineSpecBundle,
+  swaggerContentSchema,
+  swaggerFilesSchema,
+} from '@/lib/utils/spec-bundle';
+
+const refreshSpecSchema = refineSpecBundle(
+  z.object({
+    // New document for uploaded specs (URL sessions re-fetch their spec)
+    swaggerContent: swaggerContentSchema.optional(),
+    swaggerFiles: swaggerFilesSchema.optional(),
+  })
+);
+
+// POST /api/session/[id]/refresh - Re-load the spec, store a new version and report the changes
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    // The body is optional for URL sessions
+    let body: unknown = {};
+    const text = await request.text();
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        throw new ValidationError('Invalid JSON body');
+      }
+    }
+
+    const validation = refreshSpecSchema.safeParse(body);
+    if (!validation.success) {
+      const fields: Record<string, string[]> = {};
+      validation.error.issues.forEach(err => {
+        const path = err.path.map(String).join('.');
+        if (!fields[path]) {
+          fields[path] = [];
+        }
+        fields[path].push(err.message);
+      });
+      throw new ValidationError('Invalid input', fields);
+    }
+
+    const session = await sessionService.findById(id);
+    if (!session) {
+      throw new NotFoundError('Session', id);
+    }
+
+    if (session.specSource === 'upload' && !validation.data.swaggerContent) {
+      throw new ValidationError('Invalid input', {
+        swaggerContent: ['Upload the new spec to refresh an uploaded session'],
+      });
+    }
+
+    log.info('Refreshing session spec', {
+      sessionId: id,
+      source: validation.data.swaggerContent ? 'upload' : 'url',
+    });
+
+    const result = await sessionService.refreshSpec(id, validation.data);
+
+    return createSuccessResponse({ ...result, session: redactSessionAuth(result.session) });
+  } catch (error) {
+    log.error('Failed to refresh session spec', error, {
+      route: 'POST /api/session/[id]/refresh',
+    });
+
+    if (error instanceof Error && error.message.startsWith('Failed to fetch')) {
+      return handleApiError(new ExternalServiceError('swagger', error));
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.startsWith('Failed to parse Swagger') ||
+        error.message.startsWith('Invalid Swagger'))
+    ) {
+      return handleApiError(
+        new ValidationError('Invalid spec', { swaggerContent: [error.message] })
+      );
+    }
+
+    return handleApiError(error);
+  }
+}
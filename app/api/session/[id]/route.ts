@@ -9,11 +9,53 @@ import {
   NotFoundError,
 } from '@/lib/errors';
 import { log } from '@/lib/logger';
+import { redactSessionAuth } from '@/lib/utils/auth';
+
+const authConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('bearer'), schemeName: z.string().optional() }),
+  z.object({
+    type: z.literal('apiKey'),
+    in: z.enum(['header', 'query']),
+    name: z.string().min(1).max(200),
+    schemeName: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('basic'),
+    username: z.string().max(500).optional(),
+    password: z.string().max(500).optional(),
+    schemeName: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('header'),
+    name: z.string().min(1).max(200),
+    prefix: z.string().max(50).optional(),
+    schemeName: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('cookie'),
+    name: z.string().min(1).max(200),
+    schemeName: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('oauth2'),
+    flow: z.enum(['clientCredentials', 'password', 'refreshToken']),
+    tokenUrl: z.string().min(1).max(2000),
+    clientId: z.string().max(500).optional(),
+    clientSecret: z.string().max(2000).optional(),
+    scopes: z.array(z.string().max(200)).max(50).optional(),
+    username: z.string().max(500).optional(),
+    password: z.string().max(500).optional(),
+    refreshToken: z.string().max(4000).optional(),
+    schemeName: z.string().optional(),
+  }),
+]);
 
 const updateSessionSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   swaggerUrl: z.string().url().optional(),
+  baseUrl: z.string().url().optional(),
   authToken: z.string().nullable().optional(),
+  authConfig: authConfigSchema.nullable().optional(),
 });
 
 // GET /api/session/[id] - Get session details
@@ -31,7 +73,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     log.info('Session fetched', { sessionId: id });
 
-    return createSuccessResponse({ session });
+    return createSuccessResponse({ session: redactSessionAuth(session) });
   } catch (error) {
     log.error('Failed to get session', error, { route: 'GET /api/session/[id]' });
     return handleApiError(error);
@@ -76,7 +118,7 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
     const session = await sessionService.update(id, validation.data);
     log.info('Session updated', { sessionId: id });
 
-    return createSuccessResponse({ session });
+    return createSuccessResponse({ session: redactSessionAuth(session) });
   } catch (error) {
     log.error('Failed to update session', error, { route: 'PATCH /api/session/[id]' });
     return handleApiError(error);
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+
+import { sessionService } from '@/lib/services/session';
+import { specHistoryService } from '@/lib/services/spec-history';
+import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+import { SwaggerDoc } from '@/lib/types';
+
+// GET /api/session/[id]/spec-history - List spec versions and workflows affected by the last change
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const session = await sessionService.findById(id);
+    if (!session) {
+      throw new NotFoundError('Session', id);
+    }
+
+    const versions = await specHistoryService.listVersions(id);
+    const latestDiff = versions[0]?.diff ?? null;
+    const affectedWorkflows = latestDiff
+      ? await specHistoryService.findAffectedWorkflows(
+          id,
+          latestDiff,
+          JSON.parse(session.swaggerDoc) as SwaggerDoc
+        )
+      : [];
+
+    log.info('Spec history fetched', { sessionId: id, versions: versions.length });
+
+    return createSuccessResponse({ versions, affectedWorkflows });
+  } catch (error) {
+    log.error('Failed to get spec history', error, {
+      route: 'GET /api/session/[id]/spec-history',
+    });
+    return handleApiError(error);
+  }
+}
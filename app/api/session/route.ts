@@ -9,12 +9,106 @@ import {
   ExternalServiceError,
 } from '@/lib/errors';
 import { log } from '@/lib/logger';
+import { redactSessionAuth } from '@/lib/utils/auth';
+import { findSpecRoot } from '@/lib/utils/openapi-refs';
+import {
+  MAX_SPEC_SIZE,
+  SPEC_BUNDLE_TOO_LARGE,
+  refineSpecBundle,
+  swaggerContentSchema,
+  swaggerFilesSchema,
+} from '@/lib/utils/spec-bundle';
 import { validateSwaggerUrlFull } from '@/lib/utils/url-validator';
 
-const createSessionSchema = z.object({
-  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
-  swaggerUrl: z.string().url('Invalid URL format'),
-});
+// Room for the form fields and part headers around uploaded files
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+const createSessionSchema = refineSpecBundle(
+  z
+    .object({
+      name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+      swaggerUrl: z.string().url('Invalid URL format').optional(),
+      swaggerContent: swaggerContentSchema.optional(),
+      swaggerFiles: swaggerFilesSchema.optional(),
+      baseUrl: z.string().url('Invalid base URL format').optional(),
+    })
+    .refine(data => !!data.swaggerUrl !== !!data.swaggerContent, {
+      message: 'Provide either swaggerUrl or swaggerContent',
+      path: ['swaggerUrl'],
+    })
+);
+
+/**
+ * Split uploaded files into the root spec and the files it references
+ */
+async function readUploadedSpecFiles(
+  uploads: File[]
+): Promise<{ swaggerContent?: string; swaggerFiles?: Record<string, string> }> {
+  if (uploads.length === 0) {
+    return {};
+  }
+
+  // File sizes are checked before reading, so an oversized upload is never decoded
+  const totalSize = uploads.reduce((total, upload) => total + upload.size, 0);
+  if (totalSize > MAX_SPEC_SIZE) {
+    throw new ValidationError('Invalid input', { file: [SPEC_BUNDLE_TOO_LARGE] });
+  }
+
+  if (uploads.length === 1) {
+    return { swaggerContent: await uploads[0].text() };
+  }
+
+  const files: Record<string, string> = {};
+  for (const upload of uploads) {
+    files[upload.name] = await upload.text();
+  }
+
+  const root = findSpecRoot(files);
+  if (!root) {
+    throw new ValidationError('Invalid spec', {
+      file: ['None of the uploaded files is an OpenAPI or Swagger document'],
+    });
+  }
+
+  const { [root]: swaggerContent, ...swaggerFiles } = files;
+  return { swaggerContent, swaggerFiles };
+}
+
+/**
+ * Read the create-session payload from JSON or multipart form data (spec file upload)
+ */
+async function readCreateSessionBody(request: NextRequest): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    // Refuse bodies that cannot fit the size limit before buffering the form
+    const contentLength = parseInt(request.headers.get('content-length') || '', 10);
+    if (contentLength > MAX_SPEC_SIZE + MULTIPART_OVERHEAD) {
+      throw new ValidationError('Invalid input', { file: [SPEC_BUNDLE_TOO_LARGE] });
+    }
+
+    const formData = await request.formData();
+    const uploads = formData.getAll('file').filter((file): file is File => file instanceof File);
+    const optional = (key: string) => {
+      const value = formData.get(key);
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+
+    return {
+      name: optional('name'),
+      swaggerUrl: optional('swaggerUrl'),
+      swaggerContent: optional('swaggerContent'),
+      ...(await readUploadedSpecFiles(uploads)),
+      baseUrl: optional('baseUrl'),
+    };
+  }
+
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+}
 
 // GET /api/session - List all sessions with pagination
 export async function GET(request: NextRequest) {
@@ -48,12 +142,7 @@ export async function GET(request: NextRequest) {
 // POST /api/session - Create a new session
 export async function POST(request: NextRequest) {
   try {
-    let body;
-    try {
-      body = await request.json();
-    } catch {
-      throw new ValidationError('Invalid JSON body');
-    }
+    const body = await readCreateSessionBody(request);
 
     // Validate input
     const validation = createSessionSchema.safeParse(body);
@@ -70,21 +159,26 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate URL security (protocol and IP restrictions)
-    const urlValidation = validateSwaggerUrlFull(validation.data.swaggerUrl);
-    if (!urlValidation.valid) {
-      throw new ValidationError('Invalid URL', { swaggerUrl: [urlValidation.error!] });
+    if (validation.data.swaggerUrl) {
+      const urlValidation = validateSwaggerUrlFull(validation.data.swaggerUrl);
+      if (!urlValidation.valid) {
+        throw new ValidationError('Invalid URL', { swaggerUrl: [urlValidation.error!] });
+      }
     }
 
     log.info('Creating new session', {
       name: validation.data.name,
       swaggerUrl: validation.data.swaggerUrl,
+      uploadedSpecSize: validation.data.swaggerContent?.length,
+      referencedFiles: Object.keys(validation.data.swaggerFiles || {}).length,
+      baseUrl: validation.data.baseUrl,
     });
 
     const session = await sessionService.create(validation.data);
 
     log.info('Session created', { sessionId: session.id });
 
-    return createSuccessResponse({ session }, 201);
+    return createSuccessResponse({ session: redactSessionAuth(session) }, 201);
   } catch (error) {
     log.error('Failed to create session', error, { route: 'POST /api/session' });
 
@@ -92,6 +186,16 @@ export async function POST(request: NextRequest) {
       return handleApiError(new ExternalServiceError('swagger', error));
     }
 
+    if (
+      error instanceof Error &&
+      (error.message.startsWith('Failed to parse Swagger') ||
+        error.message.startsWith('Invalid Swagger document'))
+    ) {
+      return handleApiError(
+        new ValidationError('Invalid spec', { swaggerContent: [error.message] })
+      );
+    }
+
     return handleApiError(error);
   }
 }
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+
+import { workflowService } from '@/lib/services/workflow';
+import { handleApiError, createSuccessResponse, ConflictError, NotFoundError } from '@/lib/errors';
+import { log } from '@/lib/logger';
+
+// POST /api/workflow/[id]/cancel - Cancel a running workflow
+// Aborts its in-flight requests and responds once it stopped, with the steps that completed
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const workflow = await workflowService.findById(id);
+    if (!workflow) {
+      throw new NotFoundError('Workflow', id);
+    }
+
+    if (workflow.status !== 'running') {
+      throw new ConflictError(
+        `Only running workflows can be cancelled; this workflow is ${workflow.status}`
+      );
+    }
+
+    const cancelled = await workflowService.cancel(id);
+
+    log.info('Workflow cancelled', {
+      workflowId: id,
+      completedSteps: cancelled.completedSteps.length,
+    });
+
+    return createSuccessResponse({ ...cancelled, status: 'cancelled' });
+  } catch (error) {
+    log.error('Failed to cancel workflow', error, { route: 'POST /api/workflow/[id]/cancel' });
+    return handleApiError(error);
+  }
+}
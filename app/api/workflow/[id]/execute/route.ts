@@ -1,16 +1,72 @@
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
 
+import { jobQueueService } from '@/lib/services/job-queue';
 import { workflowService } from '@/lib/services/workflow';
 import { sessionService } from '@/lib/services/session';
-import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
+import {
+  handleApiError,
+  createSuccessResponse,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
 import { log } from '@/lib/logger';
+import { resolveInputValues } from '@/lib/utils/workflow-inputs';
 
-// POST /api/workflow/[id]/execute - Execute workflow
+const stepOverrideSchema = z.object({
+  endpoint: z.string().min(1).optional(),
+  body: z.record(z.string(), z.unknown()).optional(),
+  parameters: z.record(z.string(), z.unknown()).optional(),
+});
+
+const executeWorkflowSchema = z.object({
+  mode: z.enum(['full', 'resume']).default('full'),
+  // Keyed by step number
+  overrides: z
+    .record(z.string().regex(/^\d+$/, 'Step numbers must be integers'), stepOverrideSchema)
+    .optional(),
+  // Values for a template's inputs, by name
+  inputs: z.record(z.string(), z.unknown()).optional(),
+  // Build the requests without sending them (credentials redacted)
+  dryRun: z.boolean().optional(),
+});
+
+// POST /api/workflow/[id]/execute - Queue a workflow execution, responding with its job right away
+// Follow it with GET /api/job/[jobId] or the SSE stream at /api/job/[jobId]/events
+// Body (optional): { mode: 'resume', overrides: { "7": { body: {...} } } } continues a failed run;
+// { inputs: { name: 'Bob' } } runs a template with these input values;
+// { dryRun: true } returns the requests it would send instead of sending them
 export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { id } = await params;
 
-    log.info('Executing workflow', { workflowId: id });
+    let body: unknown = {};
+    const text = await request.text();
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        throw new ValidationError('Invalid JSON body');
+      }
+    }
+
+    const validation = executeWorkflowSchema.safeParse(body);
+    if (!validation.success) {
+      const fields: Record<string, string[]> = {};
+      validation.error.issues.forEach(err => {
+        const path = err.path.map(String).join('.');
+        if (!fields[path]) {
+          fields[path] = [];
+        }
+        fields[path].push(err.message);
+      });
+      throw new ValidationError('Invalid input', fields);
+    }
+
+    const { mode, overrides, inputs, dryRun } = validation.data;
+
+    log.info('Executing workflow', { workflowId: id, mode, dryRun: !!dryRun });
 
     // Check if workflow exists
     const workflow = await workflowService.findById(id);
@@ -18,27 +74,71 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       throw new NotFoundError('Workflow', id);
     }
 
+    if (mode === 'resume' && workflow.status !== 'failed') {
+      throw new ConflictError(
+        `Only failed workflows can be resumed; this workflow is ${workflow.status}`
+      );
+    }
+
+    if (overrides) {
+      const stepNumbers = new Set(
+        (JSON.parse(workflow.steps) as Array<{ stepNumber: number }>).map(step => step.stepNumber)
+      );
+      const unknown = Object.keys(overrides).filter(step => !stepNumbers.has(Number(step)));
+      if (unknown.length > 0) {
+        throw new ValidationError('Invalid input', {
+          overrides: unknown.map(step => `Workflow has no step ${step}`),
+        });
+      }
+    }
+
+    // Template inputs are checked before any request is sent
+    const inputErrors = resolveInputValues(workflowService.getInputs(workflow), inputs).errors;
+    if (Object.keys(inputErrors).length > 0) {
+      throw new ValidationError(
+        'Invalid inputs',
+        Object.fromEntries(
+          Object.entries(inputErrors).map(([name, messages]) => [`inputs.${name}`, messages])
+        )
+      );
+    }
+
     // Check if session exists
     const session = await sessionService.findById(workflow.sessionId);
     if (!session) {
       throw new NotFoundError('Session', workflow.sessionId);
     }
 
-    // Execute workflow (synchronous - waits for all steps)
-    const result = await workflowService.execute(id);
+    const options = {
+      mode,
+      overrides: overrides
+        ? Object.fromEntries(Object.entries(overrides).map(([step, o]) => [Number(step), o]))
+        : undefined,
+      inputs,
+    };
+
+    if (dryRun) {
+      const requests = await workflowService.dryRun(id, options);
+      log.info('Workflow dry run completed', { workflowId: id, requestCount: requests.length });
+      return createSuccessResponse({ workflowId: id, dryRun: { requests } });
+    }
+
+    const job = await jobQueueService.enqueue(id, options);
 
-    log.info('Workflow execution completed', {
-      workflowId: id,
-      success: result.success,
-      stepCount: result.steps.length,
-    });
+    log.info('Workflow execution queued', { workflowId: id, jobId: job.id, mode });
 
-    return createSuccessResponse({
-      workflowId: id,
-      execution: result,
-    });
+    return createSuccessResponse({ workflowId: id, jobId: job.id, status: job.status }, 202);
   } catch (error) {
     log.error('Failed to execute workflow', error, { route: 'POST /api/workflow/[id]/execute' });
+
+    if (error instanceof Error && error.message.startsWith('Cannot override step')) {
+      return handleApiError(new ValidationError('Invalid input', { overrides: [error.message] }));
+    }
+
+    if (error instanceof Error && error.message === 'The workflow has no recorded run to resume') {
+      return handleApiError(new ConflictError(error.message));
+    }
+
     return handleApiError(error);
   }
 }
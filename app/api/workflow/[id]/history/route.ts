@@ -3,6 +3,7 @@ import { NextRequest } from 'next/server';
 import { workflowService } from '@/lib/services/workflow';
 import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
 import { log } from '@/lib/logger';
+import { parseStoredResponse } from '@/lib/utils/response-meta';
 
 // GET /api/workflow/[id]/history - Get workflow execution history with cursor-based pagination
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -30,11 +31,16 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     // Get execution history with pagination
     const result = await workflowService.getExecutionHistory(id, cursor, validatedLimit);
 
-    // Parse response data
-    const parsedExecutions = result.executions.map(execution => ({
-      ...execution,
-      response: execution.response ? JSON.parse(execution.response) : null,
-    }));
+    // Parse response data (body and captured headers/timings) and assertion results
+    const parsedExecutions = result.executions.map(execution => {
+      const stored = parseStoredResponse(execution.response);
+      return {
+        ...execution,
+        response: stored.body,
+        responseMeta: stored.meta,
+        assertions: execution.assertions ? JSON.parse(execution.assertions) : null,
+      };
+    });
 
     log.info('Workflow execution history fetched', {
       workflowId: id,
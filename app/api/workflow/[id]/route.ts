@@ -1,9 +1,84 @@
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
 
 import { workflowService } from '@/lib/services/workflow';
-import { handleApiError, createSuccessResponse, NotFoundError } from '@/lib/errors';
+import {
+  handleApiError,
+  createSuccessResponse,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
 import { log } from '@/lib/logger';
 
+const jsonPathSchema = z.string().min(1, 'Path is required');
+
+const stepAssertionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('status'),
+    equals: z.union([
+      z.number().int().min(100).max(599),
+      z.array(z.number().int().min(100).max(599)).min(1),
+    ]),
+  }),
+  z.object({ type: z.literal('equals'), path: jsonPathSchema, value: z.unknown() }),
+  z.object({ type: z.literal('contains'), path: jsonPathSchema, value: z.unknown() }),
+  z.object({
+    type: z.literal('matches'),
+    path: jsonPathSchema,
+    pattern: z.string().min(1, 'Pattern is required'),
+  }),
+  z.object({
+    type: z.literal('length'),
+    path: jsonPathSchema,
+    equals: z.number().int().min(0).optional(),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+  }),
+  z.object({ type: z.literal('responseTime'), maxMs: z.number().int().min(1) }),
+  z.object({ type: z.literal('schema') }),
+]);
+
+const workflowStepSchema = z.object({
+  stepNumber: z.number().int().min(1),
+  description: z.string().min(1, 'Description is required').max(500, 'Description too long'),
+  action: z.object({
+    endpoint: z.string().min(1, 'Endpoint is required'),
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']),
+    purpose: z.string().default(''),
+    body: z.record(z.string(), z.unknown()).optional(),
+    parameters: z.record(z.string(), z.unknown()).optional(),
+    contentType: z.string().optional(),
+    bodyFile: z.string().optional(),
+  }),
+  extractFields: z.array(z.string().min(1)).optional(),
+  dependsOn: z.array(z.number().int()).optional(),
+  forEach: z
+    .object({
+      source: z.string().min(1),
+      filter: z.string().optional(),
+      maxItems: z.number().int().min(1).optional(),
+    })
+    .optional(),
+  retry: z
+    .object({
+      maxAttempts: z.number().int().min(1).max(10).optional(),
+      backoffMs: z.number().int().min(0).max(60000).optional(),
+      maxDelayMs: z.number().int().min(0).max(300000).optional(),
+      retryOn: z.array(z.number().int().min(100).max(599)).optional(),
+    })
+    .optional(),
+  when: z.string().min(1).optional(),
+  onFailure: z.number().int().optional(),
+  assertions: z.array(stepAssertionSchema).max(50).optional(),
+  notes: z.string().optional(),
+});
+
+const updateWorkflowSchema = z.object({
+  // The whole list, in the order the steps should run
+  steps: z.array(workflowStepSchema).min(1, 'A workflow needs at least one step').max(50),
+});
+
 // GET /api/workflow/[id] - Get workflow details
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -26,6 +101,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       workflow: {
         ...workflow,
         steps,
+        inputs: workflowService.getInputs(workflow),
       },
     });
   } catch (error) {
@@ -33,3 +109,62 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     return handleApiError(error);
   }
 }
+
+// PATCH /api/workflow/[id] - Replace the workflow's steps (reorder, add, delete or edit them)
+// Body: { steps: [...] }; every step is checked against the session's spec before saving
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+
+    const validation = updateWorkflowSchema.safeParse(body);
+    if (!validation.success) {
+      const fields: Record<string, string[]> = {};
+      validation.error.issues.forEach(err => {
+        const path = err.path.map(String).join('.');
+        if (!fields[path]) {
+          fields[path] = [];
+        }
+        fields[path].push(err.message);
+      });
+      throw new ValidationError('Invalid input', fields);
+    }
+
+    const { steps } = validation.data;
+
+    const workflow = await workflowService.findById(id);
+    if (!workflow) {
+      throw new NotFoundError('Workflow', id);
+    }
+
+    if (workflow.status === 'running') {
+      throw new ConflictError('Cannot edit a running workflow');
+    }
+
+    const errors = await workflowService.validateSteps(workflow, steps);
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Invalid steps', errors);
+    }
+
+    log.info('Updating workflow steps', { workflowId: id, steps: steps.length });
+
+    const updated = await workflowService.updateSteps(id, steps);
+
+    return createSuccessResponse({
+      workflow: {
+        ...updated,
+        steps: JSON.parse(updated.steps),
+        inputs: workflowService.getInputs(updated),
+      },
+    });
+  } catch (error) {
+    log.error('Failed to update workflow', error, { route: 'PATCH /api/workflow/[id]' });
+    return handleApiError(error);
+  }
+}
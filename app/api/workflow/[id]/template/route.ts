@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+import { workflowService } from '@/lib/services/workflow';
+import {
+  handleApiError,
+  createSuccessResponse,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { log } from '@/lib/logger';
+import { INPUT_NAME_PATTERN } from '@/lib/utils/workflow-inputs';
+
+const workflowInputSchema = z.object({
+  name: z.string().regex(INPUT_NAME_PATTERN, 'Input names must be identifiers, e.g. "userName"'),
+  type: z.enum(['string', 'number', 'boolean', 'object', 'array']),
+  default: z.unknown().optional(),
+  description: z.string().max(500, 'Description too long').optional(),
+});
+
+const promoteTemplateSchema = z.object({
+  inputs: z.array(workflowInputSchema).min(1, 'Declare at least one input').max(50),
+});
+
+// POST /api/workflow/[id]/template - Promote a workflow into a template with declared inputs
+// Step values named like an input are replaced by {{input.name}} and become its default
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+
+    const validation = promoteTemplateSchema.safeParse(body);
+    if (!validation.success) {
+      const fields: Record<string, string[]> = {};
+      validation.error.issues.forEach(err => {
+        const path = err.path.map(String).join('.');
+        if (!fields[path]) {
+          fields[path] = [];
+        }
+        fields[path].push(err.message);
+      });
+      throw new ValidationError('Invalid input', fields);
+    }
+
+    const workflow = await workflowService.findById(id);
+    if (!workflow) {
+      throw new NotFoundError('Workflow', id);
+    }
+
+    log.info('Promoting workflow to template', {
+      workflowId: id,
+      inputs: validation.data.inputs.length,
+    });
+
+    const template = await workflowService.promoteToTemplate(id, validation.data.inputs);
+
+    return createSuccessResponse({
+      workflow: {
+        ...template,
+        steps: JSON.parse(template.steps),
+        inputs: workflowService.getInputs(template),
+      },
+    });
+  } catch (error) {
+    log.error('Failed to promote workflow', error, { route: 'POST /api/workflow/[id]/template' });
+
+    if (error instanceof Error && error.message.startsWith('Invalid template:')) {
+      return handleApiError(new ValidationError('Invalid input', { inputs: [error.message] }));
+    }
+
+    return handleApiError(error);
+  }
+}
@@ -11,9 +11,17 @@ import {
 } from '@/lib/errors';
 import { log } from '@/lib/logger';
 
+const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  backoffMs: z.number().int().min(0).max(60000).optional(),
+  maxDelayMs: z.number().int().min(0).max(300000).optional(),
+  retryOn: z.array(z.number().int().min(100).max(599)).optional(),
+});
+
 const createWorkflowSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID format'),
   description: z.string().min(1, 'Description is required').max(1000, 'Description too long'),
+  retry: retryPolicySchema.optional(),
 });
 
 // POST /api/workflow - Create workflow from natural language
@@ -40,7 +48,7 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('Invalid input', fields);
     }
 
-    const { sessionId, description } = validation.data;
+    const { sessionId, description, retry } = validation.data;
 
     log.info('Creating workflow', { sessionId, descriptionLength: description.length });
 
@@ -51,7 +59,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create workflow
-    const workflow = await workflowService.create({ sessionId, description });
+    const workflow = await workflowService.create({ sessionId, description, retry });
 
     log.info('Workflow created', {
       workflowId: workflow.id,
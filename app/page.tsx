@@ -7,6 +7,7 @@ import { Plus, MessageSquare, Trash2, Bot, Settings } from 'lucide-react';
 import { SessionListSkeleton, EmptyState, Spinner, ConfirmModal } from '@/components/ui';
 import { toast } from '@/stores/toastStore';
 import { LogoutButton } from '@/components/auth';
+import { findSpecRoot } from '@/lib/utils/openapi-refs';
 
 import { TechBloomBanner } from './sessions/TechBloomBanner';
 
@@ -14,15 +15,23 @@ interface Session {
   id: string;
   name: string;
   swaggerUrl: string;
+  specSource?: 'url' | 'upload';
   createdAt: string;
 }
 
+type SpecInputMode = 'url' | 'upload';
+
 export default function Home() {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newSessionName, setNewSessionName] = useState('');
   const [newSwaggerUrl, setNewSwaggerUrl] = useState('');
+  const [specInputMode, setSpecInputMode] = useState<SpecInputMode>('url');
+  const [newSpecContent, setNewSpecContent] = useState('');
+  const [newSpecFileName, setNewSpecFileName] = useState('');
+  const [newSpecFiles, setNewSpecFiles] = useState<Record<string, string>>({});
+  const [newBaseUrl, setNewBaseUrl] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
@@ -53,9 +62,52 @@ export default function Home() {
     }
   };
 
+  const resetCreateForm = () => {
+    setNewSessionName('');
+    setNewSwaggerUrl('');
+    setNewSpecContent('');
+    setNewSpecFileName('');
+    setNewSpecFiles({});
+    setNewBaseUrl('');
+    setSpecInputMode('url');
+  };
+
+  const handleSpecFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    if (selected.length === 0) {
+      return;
+    }
+
+    try {
+      // Multi-file bundles: the root spec references the other files through relative $refs
+      const files: Record<string, string> = {};
+      for (const file of selected) {
+        files[file.webkitRelativePath || file.name] = await file.text();
+      }
+
+      const root = selected.length === 1 ? Object.keys(files)[0] : findSpecRoot(files);
+      if (!root) {
+        toast.error(
+          'No spec found',
+          'None of the selected files is an OpenAPI or Swagger document'
+        );
+        return;
+      }
+
+      const { [root]: rootContent, ...referenced } = files;
+      setNewSpecContent(rootContent);
+      setNewSpecFiles(referenced);
+      setNewSpecFileName(root);
+    } catch (error) {
+      console.error('Failed to read spec file:', error);
+      toast.error('Failed to read file', 'Please select a valid JSON or YAML file');
+    }
+  };
+
   const createSession = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newSessionName.trim() || !newSwaggerUrl.trim()) {
+    const specProvided = specInputMode === 'url' ? !!newSwaggerUrl.trim() : !!newSpecContent.trim();
+    if (!newSessionName.trim() || !specProvided) {
       toast.warning('Please fill in all fields');
       return;
     }
@@ -67,7 +119,13 @@ export default function Home() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: newSessionName,
-          swaggerUrl: newSwaggerUrl,
+          ...(specInputMode === 'url'
+            ? { swaggerUrl: newSwaggerUrl }
+            : {
+                swaggerContent: newSpecContent,
+                ...(Object.keys(newSpecFiles).length > 0 && { swaggerFiles: newSpecFiles }),
+              }),
+          ...(newBaseUrl.trim() && { baseUrl: newBaseUrl.trim() }),
         }),
       });
 
@@ -76,8 +134,7 @@ export default function Home() {
         // Handle both old format and new format
         const session = result.data?.session || result.session;
         setShowCreateModal(false);
-        setNewSessionName('');
-        setNewSwaggerUrl('');
+        resetCreateForm();
         toast.success('Session created', `Successfully created "${session.name}"`);
         router.push(`/sessions/${session.id}/chat`);
       } else {
@@ -211,7 +268,7 @@ export default function Home() {
                   </button>
                 </div>
                 <p className='mt-3 truncate text-sm text-[var(--color-text-secondary)]'>
-                  {session.swaggerUrl}
+                  {session.specSource === 'upload' ? 'Uploaded spec' : session.swaggerUrl}
                 </p>
                 <div className='mt-4 flex gap-2'>
                   <button
@@ -254,17 +311,80 @@ export default function Home() {
                   required
                 />
               </div>
+              <div>
+                <div className='flex items-center justify-between'>
+                  <label className='block text-sm font-medium text-[var(--color-logic-navy)]'>
+                    Swagger/OpenAPI Spec
+                  </label>
+                  <div className='flex rounded-lg border border-[var(--color-border)] p-0.5 text-xs'>
+                    {(['url', 'upload'] as SpecInputMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        type='button'
+                        onClick={() => setSpecInputMode(mode)}
+                        className={`rounded-md px-2 py-1 transition-colors ${
+                          specInputMode === mode
+                            ? 'bg-[var(--color-circuit-green)] text-white'
+                            : 'text-[var(--color-text-secondary)]'
+                        }`}
+                      >
+                        {mode === 'url' ? 'URL' : 'File / Paste'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {specInputMode === 'url' ? (
+                  <input
+                    type='url'
+                    value={newSwaggerUrl}
+                    onChange={e => setNewSwaggerUrl(e.target.value)}
+                    placeholder='https://petstore.swagger.io/v2/swagger.json'
+                    className='mt-1 w-full text-[var(--color-logic-navy)] rounded-lg border border-[var(--color-border)] px-3 py-2 focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]'
+                    required
+                  />
+                ) : (
+                  <div className='mt-1 space-y-2'>
+                    <input
+                      type='file'
+                      accept='.json,.yaml,.yml,application/json,application/yaml,text/yaml'
+                      multiple
+                      onChange={handleSpecFileChange}
+                      className='w-full text-sm text-[var(--color-text-secondary)] file:mr-3 file:rounded-lg file:border-0 file:bg-[var(--color-background-alt)] file:px-3 file:py-2 file:text-sm file:text-[var(--color-logic-navy)]'
+                    />
+                    <textarea
+                      value={newSpecContent}
+                      onChange={e => {
+                        setNewSpecContent(e.target.value);
+                        setNewSpecFileName('');
+                        setNewSpecFiles({});
+                      }}
+                      placeholder='...or paste the JSON/YAML spec here'
+                      rows={6}
+                      className='w-full font-mono text-xs text-[var(--color-logic-navy)] rounded-lg border border-[var(--color-border)] px-3 py-2 focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]'
+                    />
+                    {newSpecFileName && (
+                      <p className='text-xs text-[var(--color-text-secondary)]'>
+                        Loaded {newSpecFileName}
+                        {Object.keys(newSpecFiles).length > 0 &&
+                          ` (+${Object.keys(newSpecFiles).length} referenced files)`}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
               <div>
                 <label className='block text-sm font-medium text-[var(--color-logic-navy)]'>
-                  Swagger/OpenAPI URL
+                  Base URL{' '}
+                  <span className='font-normal text-[var(--color-text-secondary)]'>
+                    {specInputMode === 'url' ? '(optional)' : '(required if the spec has none)'}
+                  </span>
                 </label>
                 <input
                   type='url'
-                  value={newSwaggerUrl}
-                  onChange={e => setNewSwaggerUrl(e.target.value)}
-                  placeholder='https://petstore.swagger.io/v2/swagger.json'
+                  value={newBaseUrl}
+                  onChange={e => setNewBaseUrl(e.target.value)}
+                  placeholder='https://api.example.com/v1'
                   className='mt-1 w-full text-[var(--color-logic-navy)] rounded-lg border border-[var(--color-border)] px-3 py-2 focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]'
-                  required
                 />
               </div>
               <div className='flex flex-col sm:flex-row gap-3 pt-2'>
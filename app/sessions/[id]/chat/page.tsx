@@ -2,10 +2,23 @@
 
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { Send, Bot, User, ArrowLeft, Terminal, CheckCircle, XCircle, Settings } from 'lucide-react';
+import {
+  Send,
+  Bot,
+  User,
+  ArrowLeft,
+  Terminal,
+  CheckCircle,
+  XCircle,
+  Settings,
+  Paperclip,
+  ListChecks,
+} from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
-import { WorkflowProgressState, WorkflowStepProgress } from '@/lib/types';
+import { ResponseMeta, WorkflowProgressState, WorkflowStepProgress } from '@/lib/types';
+import { isResponseArtifact } from '@/lib/utils/response-body';
+import { ArtifactPreview, ResponseDetails } from '@/components/chat';
 import { WorkflowProgress } from '@/components/workflow';
 import { useChatStore } from '@/stores/chatStore';
 import { ChatPageSkeleton, Spinner, EmptyState } from '@/components/ui';
@@ -15,6 +28,7 @@ interface Session {
   id: string;
   name: string;
   swaggerUrl: string;
+  specSource?: 'url' | 'upload';
 }
 
 export default function ChatPage() {
@@ -26,6 +40,10 @@ export default function ChatPage() {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingSession, setIsLoadingSession] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  // Plan workflows without running them, to review them in the editor first
+  const [planOnly, setPlanOnly] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const allMessages = useChatStore(state => state.messages);
   const messages = useMemo(() => allMessages[sessionId] || [], [allMessages, sessionId]);
@@ -88,20 +106,52 @@ export default function ChatPage() {
                 !metadata.workflowProgress
               ) {
                 const steps: WorkflowStepProgress[] = metadata.result.map(
-                  (r: { step: number; description: string; success: boolean; error?: string }) => ({
+                  (r: {
+                    step: number;
+                    description: string;
+                    success: boolean;
+                    skipped?: boolean;
+                    attempts?: number;
+                    error?: string;
+                    httpCode?: number;
+                    responseMeta?: ResponseMeta;
+                  }) => ({
                     step: r.step,
                     description: r.description,
-                    status: r.success ? ('completed' as const) : ('failed' as const),
+                    status: r.skipped
+                      ? ('skipped' as const)
+                      : r.success
+                        ? ('completed' as const)
+                        : ('failed' as const),
                     error: r.error,
+                    httpCode: r.httpCode,
+                    responseMeta: r.responseMeta,
+                    attempts: r.attempts,
                   })
                 );
                 metadata.workflowProgress = {
-                  phase: steps.every(s => s.status === 'completed') ? 'completed' : 'error',
+                  phase: metadata.cancelled
+                    ? 'cancelled'
+                    : steps.every(s => s.status !== 'failed')
+                      ? 'completed'
+                      : 'error',
                   totalSteps: steps.length,
                   steps,
                 };
               }
 
+              // Planned workflows that were saved for review without running
+              if (metadata?.type === 'workflow_plan' && Array.isArray(metadata.steps)) {
+                metadata.workflowProgress = {
+                  phase: 'planned',
+                  totalSteps: metadata.steps.length,
+                  steps: metadata.steps.map((s: WorkflowStepProgress) => ({
+                    ...s,
+                    status: 'pending' as const,
+                  })),
+                };
+              }
+
               return { ...msg, metadata };
             }
           );
@@ -114,6 +164,39 @@ export default function ChatPage() {
     }
   };
 
+  // Upload a file into the session and reference it in the message being typed
+  const attachFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/session/${sessionId}/files`, {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        const reference = `@${result.data.file.name}`;
+        setInput(current =>
+          current.trim() ? `${current.trimEnd()} ${reference} ` : `${reference} `
+        );
+      } else {
+        toast.error('Failed to upload file', result.error?.message || 'Please try again');
+      }
+    } catch {
+      toast.error('Failed to upload file', 'Please check your connection');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) {
@@ -138,6 +221,7 @@ export default function ChatPage() {
         body: JSON.stringify({
           sessionId,
           message: userMessage,
+          planOnly,
         }),
       });
 
@@ -161,6 +245,8 @@ export default function ChatPage() {
           curl: data.curl,
           executed: data.executed,
           result: data.result,
+          httpCode: data.httpCode,
+          responseMeta: data.responseMeta,
         },
       });
 
@@ -205,6 +291,31 @@ export default function ChatPage() {
           };
           break;
 
+        case 'workflow_plan': {
+          const plannedSteps = (event.steps as WorkflowStepProgress[]) || [];
+          updatedProgress = {
+            ...currentProgress,
+            phase: 'executing',
+            totalSteps: (event.totalSteps as number) || plannedSteps.length,
+            steps: plannedSteps.map(s => ({
+              step: s.step,
+              description: s.description,
+              dependsOn: s.dependsOn,
+              when: s.when,
+              status: 'pending' as const,
+            })),
+          };
+          // Known while it runs, so the workflow can be stopped
+          updateMessage(sessionId, messageId, {
+            metadata: {
+              type: 'workflow_result',
+              workflowId: event.workflowId as string | undefined,
+              workflowProgress: updatedProgress,
+            },
+          });
+          return;
+        }
+
         case 'step_start': {
           const totalSteps = (event.totalSteps as number) || currentProgress.totalSteps;
           const stepNum = event.step as number;
@@ -234,6 +345,48 @@ export default function ChatPage() {
           break;
         }
 
+        case 'step_item': {
+          const totalItems = event.totalItems as number;
+          const steps = currentProgress.steps.map(s => {
+            if (s.step !== (event.step as number)) {
+              return s;
+            }
+            const items = s.items || { total: totalItems, completed: 0, failed: 0 };
+            return {
+              ...s,
+              items: {
+                total: totalItems,
+                completed: items.completed + (event.success ? 1 : 0),
+                failed: items.failed + (event.success ? 0 : 1),
+              },
+            };
+          });
+          updatedProgress = {
+            ...currentProgress,
+            steps,
+          };
+          break;
+        }
+
+        case 'step_retry': {
+          const steps = currentProgress.steps.map(s =>
+            s.step === (event.step as number)
+              ? {
+                  ...s,
+                  attempts: (event.attempt as number) + 1,
+                  retryReason:
+                    (event.error as string) ||
+                    (event.httpCode ? `HTTP ${event.httpCode}` : 'Request failed'),
+                }
+              : s
+          );
+          updatedProgress = {
+            ...currentProgress,
+            steps,
+          };
+          break;
+        }
+
         case 'step_complete': {
           const steps = currentProgress.steps.map(s =>
             s.step === (event.step as number)
@@ -243,6 +396,9 @@ export default function ChatPage() {
                   status: 'completed' as const,
                   result: event.result,
                   httpCode: event.httpCode as number | undefined,
+                  responseMeta: event.responseMeta as ResponseMeta | undefined,
+                  attempts: (event.attempts as number | undefined) ?? s.attempts,
+                  retryReason: undefined,
                 }
               : s
           );
@@ -262,6 +418,9 @@ export default function ChatPage() {
                   status: 'failed' as const,
                   error: event.error as string,
                   httpCode: event.httpCode as number | undefined,
+                  responseMeta: event.responseMeta as ResponseMeta | undefined,
+                  attempts: (event.attempts as number | undefined) ?? s.attempts,
+                  retryReason: undefined,
                 }
               : s
           );
@@ -272,6 +431,38 @@ export default function ChatPage() {
           break;
         }
 
+        case 'step_skipped': {
+          const steps = currentProgress.steps.map(s =>
+            s.step === (event.step as number)
+              ? {
+                  ...s,
+                  description: (event.description as string) || s.description,
+                  status: 'skipped' as const,
+                }
+              : s
+          );
+          updatedProgress = {
+            ...currentProgress,
+            steps,
+          };
+          break;
+        }
+
+        case 'workflow_planned':
+          updatedProgress = {
+            ...currentProgress,
+            phase: 'planned',
+          };
+          updateMessage(sessionId, messageId, {
+            content: (event.message as string) || 'Workflow planned.',
+            metadata: {
+              type: 'workflow_plan',
+              workflowId: event.workflowId as string,
+              workflowProgress: updatedProgress,
+            },
+          });
+          return;
+
         case 'workflow_complete':
           updatedProgress = {
             ...currentProgress,
@@ -283,6 +474,25 @@ export default function ChatPage() {
               type: 'workflow_result',
               executed: event.success as boolean,
               result: event.result,
+              workflowId: event.workflowId as string | undefined,
+              workflowProgress: updatedProgress,
+            },
+          });
+          return;
+
+        case 'workflow_cancelled':
+          updatedProgress = {
+            ...currentProgress,
+            phase: 'cancelled',
+          };
+          updateMessage(sessionId, messageId, {
+            content: (event.message as string) || 'Workflow cancelled.',
+            metadata: {
+              type: 'workflow_result',
+              executed: false,
+              cancelled: true,
+              result: event.result,
+              workflowId: event.workflowId as string | undefined,
               workflowProgress: updatedProgress,
             },
           });
@@ -318,6 +528,22 @@ export default function ChatPage() {
     [sessionId, updateMessage]
   );
 
+  /**
+   * Cancel a running workflow; its stream then ends with a workflow_cancelled event
+   */
+  const handleStopWorkflow = async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/workflow/${workflowId}/cancel`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error('Failed to stop workflow', result.error?.message || 'Please try again');
+      }
+    } catch (error) {
+      console.error('Failed to stop workflow:', error);
+      toast.error('Failed to stop workflow', 'Please check your connection');
+    }
+  };
+
   /**
    * Handle SSE stream for real-time workflow progress
    */
@@ -421,7 +647,7 @@ export default function ChatPage() {
                 {session.name}
               </h1>
               <p className='text-xs text-[var(--color-text-secondary)] truncate max-w-[150px] sm:max-w-[300px]'>
-                {session.swaggerUrl}
+                {session.specSource === 'upload' ? 'Uploaded spec' : session.swaggerUrl}
               </p>
             </div>
           </div>
@@ -509,6 +735,19 @@ export default function ChatPage() {
                         <WorkflowProgress
                           progress={message.metadata.workflowProgress}
                           result={message.metadata.result}
+                          onEdit={
+                            message.metadata.workflowId
+                              ? () =>
+                                  router.push(
+                                    `/sessions/${sessionId}/workflows/${message.metadata!.workflowId}`
+                                  )
+                              : undefined
+                          }
+                          onStop={
+                            message.metadata.workflowId
+                              ? () => handleStopWorkflow(message.metadata!.workflowId!)
+                              : undefined
+                          }
                         />
                       </div>
                     )}
@@ -543,8 +782,19 @@ export default function ChatPage() {
                     ) : null}
 
                     {message.metadata?.type !== 'workflow_result' &&
-                    message.metadata?.result !== null &&
-                    message.metadata?.result !== undefined ? (
+                      message.metadata?.responseMeta && (
+                        <ResponseDetails
+                          meta={message.metadata.responseMeta}
+                          httpCode={message.metadata.httpCode}
+                        />
+                      )}
+
+                    {message.metadata?.type !== 'workflow_result' &&
+                    isResponseArtifact(message.metadata?.result) ? (
+                      <ArtifactPreview artifact={message.metadata.result} />
+                    ) : message.metadata?.type !== 'workflow_result' &&
+                      message.metadata?.result !== null &&
+                      message.metadata?.result !== undefined ? (
                       <div className='mt-3 max-h-48 sm:max-h-64 overflow-auto rounded bg-[var(--color-background-alt)] p-2 sm:p-3'>
                         <pre className='text-xs text-[var(--color-text-secondary)]'>
                           {(() => {
@@ -586,11 +836,40 @@ export default function ChatPage() {
       {/* Input - Mobile Responsive */}
       <div className='border-t border-[var(--color-border)] px-3 sm:px-4 py-3 sm:py-4 flex-shrink-0'>
         <form onSubmit={sendMessage} className='mx-auto flex max-w-4xl gap-2 sm:gap-3'>
+          <button
+            type='button'
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || isUploading}
+            title='Attach a file to send in requests'
+            className='flex items-center rounded-lg border border-[var(--color-border)] px-3 text-[var(--color-text-secondary)] transition-colors hover:bg-[var(--color-background-alt)] disabled:opacity-50'
+          >
+            {isUploading ? <Spinner className='h-4 w-4' /> : <Paperclip className='h-4 w-4' />}
+          </button>
+          <input ref={fileInputRef} type='file' className='hidden' onChange={attachFile} />
+          <button
+            type='button'
+            onClick={() => setPlanOnly(current => !current)}
+            title={
+              planOnly
+                ? 'Workflows are planned for review, not run (click to run them right away)'
+                : 'Plan workflows for review before running them'
+            }
+            aria-pressed={planOnly}
+            className={`flex items-center rounded-lg border px-3 transition-colors ${
+              planOnly
+                ? 'border-[var(--color-circuit-green)] bg-[var(--color-circuit-green)] text-white'
+                : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-background-alt)]'
+            }`}
+          >
+            <ListChecks className='h-4 w-4' />
+          </button>
           <input
             type='text'
             value={input}
             onChange={e => setInput(e.target.value)}
-            placeholder='Ask me about your API...'
+            placeholder={
+              planOnly ? 'Describe a workflow to plan and review...' : 'Ask me about your API...'
+            }
             disabled={isLoading}
             className='flex-1 rounded-lg border border-[var(--color-border)] px-3 py-2.5 sm:px-4 sm:py-3 text-sm sm:text-base focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)] disabled:bg-[var(--color-background-alt)]'
           />
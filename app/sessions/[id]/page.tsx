@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import {
   ArrowLeft,
@@ -23,13 +23,23 @@ import {
 import { toast } from '@/stores/toastStore';
 import { useChatStore } from '@/stores/chatStore';
 import { Spinner, ConfirmModal } from '@/components/ui';
+import {
+  AuthConfigCard,
+  SchedulesCard,
+  SessionFilesCard,
+  SpecHistoryCard,
+  WorkflowTemplatesCard,
+  summarizeSpecDiff,
+} from '@/components/session';
 
 interface Session {
   id: string;
   name: string;
   swaggerUrl: string;
+  specSource?: 'url' | 'upload';
   baseUrl: string | null;
   authToken: string | null;
+  authConfig: string | null;
   createdAt: string;
   updatedAt: string;
   lastAccessedAt: string;
@@ -61,6 +71,8 @@ export default function SessionDetailPage() {
   const [showSwagger, setShowSwagger] = useState(false);
   const [copied, setCopied] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const specFileInputRef = useRef<HTMLInputElement>(null);
   const [isCleaning, setIsCleaning] = useState(false);
   const [showDeleteTokenModal, setShowDeleteTokenModal] = useState(false);
   const [showDeleteSessionModal, setShowDeleteSessionModal] = useState(false);
@@ -227,18 +239,13 @@ export default function SessionDetailPage() {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleRefreshSwagger = async () => {
-    if (!session?.swaggerUrl) {
-      toast.error('No Swagger URL', 'This session does not have a Swagger URL configured');
-      return;
-    }
-
+  const refreshSpec = async (body?: { swaggerContent: string }) => {
     setIsRefreshing(true);
     try {
-      const response = await fetch(`/api/session/${sessionId}`, {
-        method: 'PATCH',
+      const response = await fetch(`/api/session/${sessionId}/refresh`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ swaggerUrl: session.swaggerUrl }),
+        body: JSON.stringify(body || {}),
       });
 
       if (response.ok) {
@@ -256,7 +263,19 @@ export default function SessionDetailPage() {
           }
         }
 
-        toast.success('Swagger refreshed', 'API documentation has been updated');
+        setHistoryKey(key => key + 1);
+
+        const diff = result.data?.diff ?? null;
+        const affected = result.data?.affectedWorkflows?.length || 0;
+        const summary = `Version ${result.data?.version}: ${summarizeSpecDiff(diff)}`;
+        if (diff?.breakingCount > 0 || affected > 0) {
+          toast.warning(
+            'Swagger refreshed with breaking changes',
+            affected > 0 ? `${summary}. ${affected} workflow(s) need review` : summary
+          );
+        } else {
+          toast.success('Swagger refreshed', summary);
+        }
       } else {
         const error = await response.json();
         toast.error('Failed to refresh Swagger', error.error?.message || 'Please try again');
@@ -269,6 +288,36 @@ export default function SessionDetailPage() {
     }
   };
 
+  const handleRefreshSwagger = async () => {
+    if (session?.specSource === 'upload') {
+      // Uploaded specs have nothing to re-fetch: ask for the new document
+      specFileInputRef.current?.click();
+      return;
+    }
+
+    if (!session?.swaggerUrl) {
+      toast.error('No Swagger URL', 'This session does not have a Swagger URL configured');
+      return;
+    }
+
+    await refreshSpec();
+  };
+
+  const handleSpecFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      await refreshSpec({ swaggerContent: await file.text() });
+    } catch (error) {
+      console.error('Failed to read spec file:', error);
+      toast.error('Failed to read file', 'Please select a valid JSON or YAML file');
+    }
+  };
+
   const handleClearChat = async () => {
     setIsCleaning(true);
     try {
@@ -372,7 +421,9 @@ export default function SessionDetailPage() {
                 </div>
               )}
               <p className='mt-0.5 sm:mt-1 text-xs sm:text-sm text-[var(--color-text-secondary)] truncate'>
-                {session.swaggerUrl}
+                {session.specSource === 'upload'
+                  ? `Uploaded spec · ${session.baseUrl || 'no base URL'}`
+                  : session.swaggerUrl}
               </p>
             </div>
           </div>
@@ -397,6 +448,13 @@ export default function SessionDetailPage() {
                   <MessageSquare className='h-4 w-4' />
                   <span className='whitespace-nowrap'>Open Chat</span>
                 </button>
+                <input
+                  ref={specFileInputRef}
+                  type='file'
+                  accept='.json,.yaml,.yml,application/json,application/yaml,text/yaml'
+                  onChange={handleSpecFileSelected}
+                  className='hidden'
+                />
                 <button
                   onClick={handleRefreshSwagger}
                   disabled={isRefreshing}
@@ -486,6 +544,26 @@ export default function SessionDetailPage() {
 
           {/* Right Column - Token & Swagger */}
           <div className='space-y-3 sm:space-y-6 lg:col-span-2'>
+            {/* Scheduled runs; failing schedules are flagged */}
+            <SchedulesCard sessionId={sessionId} />
+
+            {/* Spec History */}
+            <SpecHistoryCard sessionId={sessionId} refreshKey={historyKey} />
+
+            {/* Files for multipart and binary request bodies */}
+            <SessionFilesCard sessionId={sessionId} />
+
+            {/* Workflow templates, run with a form generated from their inputs */}
+            <WorkflowTemplatesCard sessionId={sessionId} />
+
+            {/* Auth Scheme */}
+            <AuthConfigCard
+              sessionId={sessionId}
+              authConfig={session.authConfig}
+              swaggerDoc={swaggerDoc}
+              onUpdated={updated => setSession(updated as Session)}
+            />
+
             {/* Auth Token Management */}
             <div className='rounded-lg border border-[var(--color-border)] bg-white p-3 sm:p-6'>
               <h2 className='flex items-center gap-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
@@ -550,7 +628,7 @@ export default function SessionDetailPage() {
                         type='text'
                         value={newToken}
                         onChange={e => setNewToken(e.target.value)}
-                        placeholder='Enter Bearer token...'
+                        placeholder='Enter token, API key or cookie value...'
                         className='flex-1 text-logic-navy rounded-lg border border-[var(--color-border)] px-3 py-2 text-sm focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]'
                       />
                       <button
@@ -0,0 +1,473 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowDown, ArrowLeft, ArrowUp, Play, Plus, Save, Trash2 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+
+import { WorkflowStep } from '@/lib/types';
+import { listOperationKeys } from '@/lib/utils/spec-diff';
+import { waitForJob } from '@/lib/utils/job-status';
+import { toast } from '@/stores/toastStore';
+import { FullPageSpinner, Spinner } from '@/components/ui';
+
+interface Workflow {
+  id: string;
+  name: string;
+  description: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  steps: WorkflowStep[];
+}
+
+// A step being edited; the body, extracted fields and assertions are edited as text
+interface EditableStep {
+  key: string;
+  step: WorkflowStep;
+  bodyText: string;
+  extractText: string;
+  assertionsText: string;
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const inputClassName =
+  'w-full text-logic-navy rounded-lg border border-[var(--color-border)] px-3 py-2 text-sm focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]';
+
+function toEditable(step: WorkflowStep): EditableStep {
+  return {
+    key: crypto.randomUUID(),
+    step,
+    bodyText: step.action.body ? JSON.stringify(step.action.body, null, 2) : '',
+    extractText: (step.extractFields || []).join(', '),
+    assertionsText: step.assertions ? JSON.stringify(step.assertions, null, 2) : '',
+  };
+}
+
+export default function WorkflowEditorPage() {
+  const params = useParams();
+  const router = useRouter();
+  const sessionId = params.id as string;
+  const workflowId = params.workflowId as string;
+
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [steps, setSteps] = useState<EditableStep[]>([]);
+  const [operations, setOperations] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [summary, setSummary] = useState<{ success: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    const fetchWorkflow = async () => {
+      try {
+        const [workflowResponse, sessionResponse] = await Promise.all([
+          fetch(`/api/workflow/${workflowId}`),
+          fetch(`/api/session/${sessionId}`),
+        ]);
+        if (!workflowResponse.ok) {
+          toast.error('Workflow not found', 'Returning to chat...');
+          router.push(`/sessions/${sessionId}/chat`);
+          return;
+        }
+
+        const result = await workflowResponse.json();
+        setWorkflow(result.data.workflow);
+        setSteps((result.data.workflow.steps as WorkflowStep[]).map(toEditable));
+
+        // Endpoint suggestions from the session's spec
+        if (sessionResponse.ok) {
+          const sessionResult = await sessionResponse.json();
+          const swaggerDoc = sessionResult.data?.session?.swaggerDoc;
+          if (swaggerDoc) {
+            setOperations(listOperationKeys(JSON.parse(swaggerDoc)));
+          }
+        }
+      } catch (error) {
+        console.error('Failed to fetch workflow:', error);
+        toast.error('Failed to load workflow', 'Please check your connection');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchWorkflow();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId, workflowId]);
+
+  const paths = useMemo(
+    () => [...new Set(operations.map(operation => operation.split(' ')[1]))].sort(),
+    [operations]
+  );
+
+  const updateStep = (key: string, update: (editable: EditableStep) => EditableStep) => {
+    setSteps(current =>
+      current.map(editable => (editable.key === key ? update(editable) : editable))
+    );
+  };
+
+  const updateAction = (key: string, changes: Partial<WorkflowStep['action']>) => {
+    updateStep(key, editable => ({
+      ...editable,
+      step: { ...editable.step, action: { ...editable.step.action, ...changes } },
+    }));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const addStep = () => {
+    const stepNumber = Math.max(0, ...steps.map(editable => editable.step.stepNumber)) + 1;
+    setSteps(current => [
+      ...current,
+      toEditable({
+        stepNumber,
+        description: '',
+        action: { endpoint: '', method: 'GET', purpose: '' },
+      }),
+    ]);
+  };
+
+  // Steps as sent to the API; body and assertion JSON is checked here so typos don't reach the
+  // server
+  const buildSteps = (): WorkflowStep[] | null => {
+    const errors: Record<string, string[]> = {};
+    const built = steps.map((editable, index) => {
+      let body: Record<string, unknown> | undefined;
+      if (editable.bodyText.trim()) {
+        try {
+          body = JSON.parse(editable.bodyText);
+        } catch {
+          errors[`steps.${index}.action.body`] = ['Body must be valid JSON'];
+        }
+      }
+      let assertions: WorkflowStep['assertions'];
+      if (editable.assertionsText.trim()) {
+        try {
+          assertions = JSON.parse(editable.assertionsText);
+        } catch {
+          errors[`steps.${index}.assertions`] = ['Assertions must be a valid JSON array'];
+        }
+      }
+      const extractFields = editable.extractText
+        .split(',')
+        .map(field => field.trim())
+        .filter(Boolean);
+
+      return {
+        ...editable.step,
+        action: { ...editable.step.action, body },
+        extractFields: extractFields.length > 0 ? extractFields : undefined,
+        assertions: assertions && assertions.length > 0 ? assertions : undefined,
+      };
+    });
+
+    setFieldErrors(errors);
+    return Object.keys(errors).length > 0 ? null : built;
+  };
+
+  const saveSteps = async (): Promise<boolean> => {
+    const built = buildSteps();
+    if (!built) {
+      return false;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/workflow/${workflowId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ steps: built }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setWorkflow(result.data.workflow);
+        setFieldErrors({});
+        return true;
+      }
+
+      setFieldErrors((result.error?.details?.fields || {}) as Record<string, string[]>);
+      toast.error('Failed to save workflow', result.error?.message || 'Please try again');
+      return false;
+    } catch {
+      toast.error('Failed to save workflow', 'Please check your connection');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await saveSteps()) {
+      toast.success('Workflow saved');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!(await saveSteps())) {
+      return;
+    }
+
+    setIsRunning(true);
+    setSummary(null);
+    try {
+      const response = await fetch(`/api/workflow/${workflowId}/execute`, { method: 'POST' });
+      const result = await response.json();
+
+      if (response.ok) {
+        // The run happens in a background job
+        const job = await waitForJob(result.data.jobId);
+        setSummary(
+          job.result
+            ? { success: job.result.success, text: job.result.summary }
+            : { success: false, text: job.error || `Workflow ${job.status}` }
+        );
+      } else {
+        setSummary({ success: false, text: result.error?.message || 'Workflow execution failed' });
+      }
+    } catch {
+      toast.error('Failed to run workflow', 'Please check your connection');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Errors for one step, e.g. "action.endpoint" for steps.2.action.endpoint
+  const stepErrors = (index: number) =>
+    Object.entries(fieldErrors)
+      .filter(([field]) => field.startsWith(`steps.${index}.`))
+      .map(([field, messages]) => [field.slice(`steps.${index}.`.length), messages] as const);
+
+  if (isLoading) {
+    return <FullPageSpinner />;
+  }
+
+  if (!workflow) {
+    return null;
+  }
+
+  return (
+    <div className='min-h-[100dvh] bg-[var(--color-background)]'>
+      <header className='border-b border-[var(--color-border)] bg-white px-3 sm:px-4 py-2 sm:py-3'>
+        <div className='mx-auto flex max-w-4xl items-center gap-2 sm:gap-3'>
+          <button
+            onClick={() => router.push(`/sessions/${sessionId}/chat`)}
+            className='rounded-lg p-1.5 sm:p-2 text-[var(--color-text-secondary)] transition-colors hover:bg-[var(--color-background-alt)] flex-shrink-0'
+            aria-label='Back to chat'
+          >
+            <ArrowLeft className='h-4 w-4 sm:h-5 sm:w-5' />
+          </button>
+          <div className='min-w-0'>
+            <h1 className='font-semibold text-[var(--color-logic-navy)] text-sm sm:text-base truncate'>
+              {workflow.name}
+            </h1>
+            <p className='text-xs text-[var(--color-text-secondary)] truncate'>
+              {workflow.description} · {workflow.status}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className='mx-auto max-w-4xl space-y-3 sm:space-y-4 px-3 sm:px-4 py-4 sm:py-6'>
+        <datalist id='spec-paths'>
+          {paths.map(path => (
+            <option key={path} value={path} />
+          ))}
+        </datalist>
+
+        {steps.map((editable, index) => {
+          const { step } = editable;
+          const errors = stepErrors(index);
+          return (
+            <div
+              key={editable.key}
+              className='space-y-2 rounded-lg border border-[var(--color-border)] bg-white p-3 sm:p-4'
+            >
+              <div className='flex items-center justify-between gap-2'>
+                <span className='text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
+                  Step {step.stepNumber}
+                </span>
+                <span className='flex items-center gap-1'>
+                  <button
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                    className='rounded p-1 text-[var(--color-text-secondary)] hover:text-[var(--color-logic-navy)] disabled:opacity-30'
+                    title='Move up'
+                  >
+                    <ArrowUp className='h-3.5 w-3.5' />
+                  </button>
+                  <button
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === steps.length - 1}
+                    className='rounded p-1 text-[var(--color-text-secondary)] hover:text-[var(--color-logic-navy)] disabled:opacity-30'
+                    title='Move down'
+                  >
+                    <ArrowDown className='h-3.5 w-3.5' />
+                  </button>
+                  <button
+                    onClick={() =>
+                      setSteps(current => current.filter(other => other.key !== editable.key))
+                    }
+                    disabled={steps.length === 1}
+                    className='rounded p-1 text-[var(--color-text-secondary)] hover:text-red-600 disabled:opacity-30'
+                    title='Delete step'
+                  >
+                    <Trash2 className='h-3.5 w-3.5' />
+                  </button>
+                </span>
+              </div>
+
+              <input
+                type='text'
+                value={step.description}
+                onChange={e =>
+                  updateStep(editable.key, current => ({
+                    ...current,
+                    step: { ...current.step, description: e.target.value },
+                  }))
+                }
+                placeholder='What this step does'
+                className={inputClassName}
+              />
+
+              <div className='flex gap-2'>
+                <select
+                  value={step.action.method.toUpperCase()}
+                  onChange={e => updateAction(editable.key, { method: e.target.value })}
+                  className={`${inputClassName} w-28 flex-shrink-0`}
+                >
+                  {METHODS.map(method => (
+                    <option key={method} value={method}>
+                      {method}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type='text'
+                  list='spec-paths'
+                  value={step.action.endpoint}
+                  onChange={e => updateAction(editable.key, { endpoint: e.target.value })}
+                  placeholder='/users/{{step1_id}}'
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+
+              <textarea
+                value={editable.bodyText}
+                onChange={e =>
+                  updateStep(editable.key, current => ({ ...current, bodyText: e.target.value }))
+                }
+                placeholder='Request body as JSON (leave empty for none)'
+                rows={editable.bodyText ? Math.min(12, editable.bodyText.split('\n').length) : 2}
+                className={`${inputClassName} font-mono`}
+              />
+
+              <input
+                type='text'
+                value={editable.extractText}
+                onChange={e =>
+                  updateStep(editable.key, current => ({
+                    ...current,
+                    extractText: e.target.value,
+                  }))
+                }
+                placeholder='Fields to extract, e.g. id, [0].name'
+                className={`${inputClassName} font-mono`}
+              />
+
+              <textarea
+                value={editable.assertionsText}
+                onChange={e =>
+                  updateStep(editable.key, current => ({
+                    ...current,
+                    assertionsText: e.target.value,
+                  }))
+                }
+                placeholder='Assertions as JSON, e.g. [{"type": "status", "equals": 200}, {"type": "equals", "path": "$.name", "value": "Ada"}]'
+                rows={
+                  editable.assertionsText
+                    ? Math.min(12, editable.assertionsText.split('\n').length)
+                    : 2
+                }
+                className={`${inputClassName} font-mono`}
+              />
+
+              {(step.when || step.forEach || step.dependsOn) && (
+                <p className='text-xs text-[var(--color-text-secondary)]'>
+                  {step.when && (
+                    <>
+                      Runs when <code className='font-mono'>{step.when}</code>.{' '}
+                    </>
+                  )}
+                  {step.forEach && (
+                    <>
+                      Repeats for each item of{' '}
+                      <code className='font-mono'>{step.forEach.source}</code>.{' '}
+                    </>
+                  )}
+                  {step.dependsOn && step.dependsOn.length > 0 && (
+                    <>Waits for step {step.dependsOn.join(', ')}.</>
+                  )}
+                </p>
+              )}
+
+              {errors.map(([field, messages]) => (
+                <p key={field} className='text-xs text-red-600'>
+                  {messages.join(', ')}
+                </p>
+              ))}
+            </div>
+          );
+        })}
+
+        <button
+          onClick={addStep}
+          className='flex w-full items-center justify-center gap-1.5 rounded-lg border border-dashed border-[var(--color-border)] bg-white px-3 py-2.5 text-sm text-[var(--color-text-secondary)] transition-colors hover:bg-[var(--color-background-alt)]'
+        >
+          <Plus className='h-4 w-4' />
+          Add step
+        </button>
+
+        <div className='flex justify-end gap-2'>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || isRunning}
+            className='flex items-center gap-1.5 rounded-lg border border-[var(--color-border)] bg-white px-4 py-2 text-sm text-[var(--color-logic-navy)] transition-colors hover:bg-[var(--color-background-alt)] disabled:opacity-50'
+          >
+            {isSaving && !isRunning ? (
+              <Spinner className='h-4 w-4' />
+            ) : (
+              <Save className='h-4 w-4' />
+            )}
+            Save
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={isSaving || isRunning}
+            className='flex items-center gap-1.5 rounded-lg bg-[var(--color-circuit-green)] px-4 py-2 text-sm text-white transition-colors hover:bg-[var(--color-circuit-green-dark)] disabled:opacity-50'
+          >
+            {isRunning ? <Spinner className='h-4 w-4' /> : <Play className='h-4 w-4' />}
+            Save and run
+          </button>
+        </div>
+
+        {summary && (
+          <div
+            className={`markdown-content rounded-lg border bg-white p-3 sm:p-4 text-sm ${
+              summary.success ? 'border-green-200' : 'border-red-200'
+            }`}
+          >
+            <ReactMarkdown>{summary.text}</ReactMarkdown>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
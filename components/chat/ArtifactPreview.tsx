@@ -0,0 +1,49 @@
+'use client';
+
+import { Download, FileText } from 'lucide-react';
+
+import { ResponseArtifact } from '@/lib/types';
+import { formatBytes } from '@/lib/utils/response-meta';
+
+interface ArtifactPreviewProps {
+  artifact: ResponseArtifact;
+}
+
+export function ArtifactPreview({ artifact }: ArtifactPreviewProps) {
+  const isImage = artifact.contentType.startsWith('image/');
+
+  return (
+    <div className='mt-3 rounded border border-[var(--color-border)] bg-[var(--color-background-alt)] p-2 sm:p-3'>
+      {isImage && artifact.url && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={artifact.url}
+          alt={artifact.name}
+          className='mb-2 max-h-64 max-w-full rounded border border-[var(--color-border)] bg-white object-contain'
+        />
+      )}
+      <div className='flex items-center justify-between gap-2 text-xs'>
+        <span className='flex min-w-0 items-center gap-1.5'>
+          <FileText className='h-3.5 w-3.5 shrink-0 text-[var(--color-text-secondary)]' />
+          <span className='truncate font-mono text-[var(--color-logic-navy)]'>
+            {artifact.url ? `@${artifact.name}` : artifact.name}
+          </span>
+          <span className='shrink-0 text-[var(--color-text-secondary)]'>
+            · {artifact.contentType} · {formatBytes(artifact.size)}
+          </span>
+        </span>
+        {artifact.url ? (
+          <a
+            href={artifact.url}
+            className='flex shrink-0 items-center gap-1 font-medium text-[var(--color-logic-navy)] hover:underline'
+          >
+            <Download className='h-3.5 w-3.5' />
+            Download
+          </a>
+        ) : (
+          <span className='shrink-0 text-[var(--color-text-secondary)]'>Not stored</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Clock } from 'lucide-react';
+
+import { ResponseMeta } from '@/lib/types';
+import { sortResponseHeaders, summarizeResponseMeta } from '@/lib/utils/response-meta';
+
+interface ResponseDetailsProps {
+  meta: ResponseMeta;
+  httpCode?: number;
+}
+
+export function ResponseDetails({ meta, httpCode }: ResponseDetailsProps) {
+  const [showHeaders, setShowHeaders] = useState(false);
+  const headers = sortResponseHeaders(meta.headers);
+
+  return (
+    <div className='mt-2 text-xs text-[var(--color-text-secondary)]'>
+      <div className='flex flex-wrap items-center gap-x-3 gap-y-1'>
+        <span className='flex items-center gap-1 font-mono'>
+          <Clock className='h-3 w-3' />
+          {summarizeResponseMeta(meta, httpCode)}
+        </span>
+        {headers.length > 0 && (
+          <button
+            onClick={() => setShowHeaders(!showHeaders)}
+            className='flex items-center gap-1 font-medium hover:text-[var(--color-logic-navy)] transition-colors'
+          >
+            {showHeaders ? (
+              <ChevronDown className='h-3 w-3' />
+            ) : (
+              <ChevronRight className='h-3 w-3' />
+            )}
+            {showHeaders ? 'Hide' : 'Show'} headers ({headers.length})
+          </button>
+        )}
+      </div>
+      {showHeaders && (
+        <dl className='mt-1.5 max-h-48 overflow-auto rounded bg-[var(--color-background-alt)] p-2 font-mono'>
+          {headers.map(([name, value]) =>
+            value.split('\n').map((line, index) => (
+              <div key={`${name}-${index}`} className='break-all'>
+                <dt className='inline font-semibold text-[var(--color-logic-navy)]'>{name}:</dt>{' '}
+                <dd className='inline'>{line}</dd>
+              </div>
+            ))
+          )}
+        </dl>
+      )}
+    </div>
+  );
+}
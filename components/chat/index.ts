@@ -0,0 +1,2 @@
+export { ResponseDetails } from './ResponseDetails';
+export { ArtifactPreview } from './ArtifactPreview';
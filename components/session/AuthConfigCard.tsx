@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+import { Spinner } from '@/components/ui';
+import { toast } from '@/stores/toastStore';
+import { AuthConfig, AuthSecretFlags, AuthType, OAuth2Flow, SwaggerDoc } from '@/lib/types';
+import { describeAuthConfig, getSecuritySchemes, parseAuthConfig } from '@/lib/utils/auth';
+
+interface AuthConfigCardProps {
+  sessionId: string;
+  authConfig: string | null;
+  swaggerDoc: Record<string, unknown> | null;
+  onUpdated: (session: unknown) => void;
+}
+
+const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  bearer: 'Bearer token',
+  apiKey: 'API key',
+  basic: 'HTTP Basic',
+  header: 'Custom header',
+  cookie: 'Cookie',
+  oauth2: 'OAuth2',
+};
+
+const OAUTH2_FLOW_LABELS: Record<OAuth2Flow, string> = {
+  clientCredentials: 'Client credentials',
+  password: 'Password grant',
+  refreshToken: 'Refresh token',
+};
+
+const inputClassName =
+  'w-full text-logic-navy rounded-lg border border-[var(--color-border)] px-3 py-2 text-sm focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]';
+
+export function AuthConfigCard({
+  sessionId,
+  authConfig,
+  swaggerDoc,
+  onUpdated,
+}: AuthConfigCardProps) {
+  // Secrets are not sent to the browser; the config only says which ones are stored
+  const current = parseAuthConfig(authConfig) as (AuthConfig & AuthSecretFlags) | null;
+  const schemes = swaggerDoc ? getSecuritySchemes(swaggerDoc as unknown as SwaggerDoc) : [];
+
+  const [type, setType] = useState<AuthType>(current?.type || 'bearer');
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState<'header' | 'query'>('header');
+  const [prefix, setPrefix] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [flow, setFlow] = useState<OAuth2Flow>('clientCredentials');
+  const [tokenUrl, setTokenUrl] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [scopes, setScopes] = useState('');
+  const [refreshToken, setRefreshToken] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadConfig = (config: AuthConfig | null) => {
+    setType(config?.type || 'bearer');
+    setName(config && 'name' in config ? config.name : '');
+    setLocation(config?.type === 'apiKey' ? config.in : 'header');
+    setPrefix(config?.type === 'header' ? config.prefix || '' : '');
+    setUsername(config?.type === 'basic' || config?.type === 'oauth2' ? config.username || '' : '');
+    setPassword('');
+    setFlow(config?.type === 'oauth2' ? config.flow : 'clientCredentials');
+    setTokenUrl(config?.type === 'oauth2' ? config.tokenUrl : '');
+    setClientId(config?.type === 'oauth2' ? config.clientId || '' : '');
+    setClientSecret('');
+    setScopes(config?.type === 'oauth2' ? (config.scopes || []).join(' ') : '');
+    setRefreshToken('');
+  };
+
+  useEffect(() => {
+    loadConfig(parseAuthConfig(authConfig));
+  }, [authConfig]);
+
+  // Empty secret fields keep the stored secret when the scheme type is unchanged
+  const secretPlaceholder = (label: string, stored?: boolean) =>
+    stored && current?.type === type ? `${label} (set, leave empty to keep)` : label;
+
+  const buildConfig = (): AuthConfig | null => {
+    switch (type) {
+      case 'bearer':
+        return { type: 'bearer' };
+      case 'basic':
+        return { type: 'basic', username, password };
+      case 'apiKey':
+        return name.trim() ? { type: 'apiKey', in: location, name: name.trim() } : null;
+      case 'header':
+        return name.trim()
+          ? { type: 'header', name: name.trim(), prefix: prefix.trim() || undefined }
+          : null;
+      case 'cookie':
+        return name.trim() ? { type: 'cookie', name: name.trim() } : null;
+      case 'oauth2':
+        return tokenUrl.trim()
+          ? {
+              type: 'oauth2',
+              flow,
+              tokenUrl: tokenUrl.trim(),
+              clientId: clientId.trim() || undefined,
+              clientSecret: clientSecret || undefined,
+              scopes: scopes.split(/[\s,]+/).filter(Boolean),
+              username: flow === 'password' ? username : undefined,
+              password: flow === 'password' ? password : undefined,
+              refreshToken: refreshToken.trim() || undefined,
+            }
+          : null;
+    }
+  };
+
+  const handleSave = async () => {
+    const config = buildConfig();
+    if (!config) {
+      toast.error(
+        type === 'oauth2' ? 'Missing token URL' : 'Missing name',
+        type === 'oauth2'
+          ? 'Enter the OAuth2 token endpoint'
+          : 'Enter the header, query parameter or cookie name'
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/session/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ authConfig: config }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        onUpdated(result.data?.session || result.session);
+        toast.success('Authentication updated', describeAuthConfig(config));
+      } else {
+        const error = await response.json();
+        toast.error('Failed to update authentication', error.error?.message || 'Please try again');
+      }
+    } catch (error) {
+      console.error('Failed to update auth config:', error);
+      toast.error('Failed to update authentication', 'Please check your connection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className='rounded-lg border border-[var(--color-border)] bg-white p-3 sm:p-6'>
+      <h2 className='flex items-center gap-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
+        <ShieldCheck className='h-3.5 w-3.5 sm:h-4 sm:w-4' />
+        Authentication Scheme
+      </h2>
+
+      <p className='mt-2 text-xs sm:text-sm text-[var(--color-text-secondary)]'>
+        {current ? describeAuthConfig(current) : 'Bearer token (default)'}
+      </p>
+
+      {schemes.length > 0 && (
+        <div className='mt-3 flex flex-wrap gap-2'>
+          {schemes.map(scheme => (
+            <button
+              key={scheme.name}
+              onClick={() => loadConfig(scheme.config)}
+              title={scheme.description || describeAuthConfig(scheme.config)}
+              className='rounded-full border border-[var(--color-border)] px-2.5 py-1 text-xs text-[var(--color-logic-navy)] transition-colors hover:bg-[var(--color-background-alt)]'
+            >
+              {scheme.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className='mt-3 sm:mt-4 grid grid-cols-1 sm:grid-cols-2 gap-2'>
+        <select
+          value={type}
+          onChange={e => setType(e.target.value as AuthType)}
+          className={inputClassName}
+        >
+          {(Object.keys(AUTH_TYPE_LABELS) as AuthType[]).map(option => (
+            <option key={option} value={option}>
+              {AUTH_TYPE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+
+        {(type === 'apiKey' || type === 'header' || type === 'cookie') && (
+          <input
+            type='text'
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={type === 'cookie' ? 'Cookie name' : 'Header / parameter name'}
+            className={inputClassName}
+          />
+        )}
+
+        {type === 'apiKey' && (
+          <select
+            value={location}
+            onChange={e => setLocation(e.target.value as 'header' | 'query')}
+            className={inputClassName}
+          >
+            <option value='header'>Send in header</option>
+            <option value='query'>Send in query string</option>
+          </select>
+        )}
+
+        {type === 'header' && (
+          <input
+            type='text'
+            value={prefix}
+            onChange={e => setPrefix(e.target.value)}
+            placeholder='Value prefix (optional)'
+            className={inputClassName}
+          />
+        )}
+
+        {type === 'oauth2' && (
+          <>
+            <select
+              value={flow}
+              onChange={e => setFlow(e.target.value as OAuth2Flow)}
+              className={inputClassName}
+            >
+              {(Object.keys(OAUTH2_FLOW_LABELS) as OAuth2Flow[]).map(option => (
+                <option key={option} value={option}>
+                  {OAUTH2_FLOW_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <input
+              type='text'
+              value={tokenUrl}
+              onChange={e => setTokenUrl(e.target.value)}
+              placeholder='Token URL'
+              className={inputClassName}
+            />
+            <input
+              type='text'
+              value={clientId}
+              onChange={e => setClientId(e.target.value)}
+              placeholder='Client ID'
+              className={inputClassName}
+            />
+            <input
+              type='password'
+              value={clientSecret}
+              onChange={e => setClientSecret(e.target.value)}
+              placeholder={secretPlaceholder('Client secret', current?.hasClientSecret)}
+              className={inputClassName}
+            />
+            <input
+              type='text'
+              value={scopes}
+              onChange={e => setScopes(e.target.value)}
+              placeholder='Scopes (space separated)'
+              className={inputClassName}
+            />
+            {flow === 'refreshToken' && (
+              <input
+                type='password'
+                value={refreshToken}
+                onChange={e => setRefreshToken(e.target.value)}
+                placeholder={secretPlaceholder('Refresh token', current?.hasRefreshToken)}
+                className={inputClassName}
+              />
+            )}
+          </>
+        )}
+
+        {(type === 'basic' || (type === 'oauth2' && flow === 'password')) && (
+          <>
+            <input
+              type='text'
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              placeholder='Username'
+              className={inputClassName}
+            />
+            <input
+              type='password'
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder={secretPlaceholder('Password', current?.hasPassword)}
+              className={inputClassName}
+            />
+          </>
+        )}
+      </div>
+
+      <div className='mt-3 flex justify-end'>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className='rounded-lg bg-[var(--color-circuit-green)] px-4 py-2 text-sm text-white transition-colors hover:bg-[var(--color-circuit-green-dark)] disabled:opacity-50 whitespace-nowrap'
+        >
+          {isSaving ? <Spinner className='h-4 w-4' /> : 'Save Scheme'}
+        </button>
+      </div>
+    </div>
+  );
+}
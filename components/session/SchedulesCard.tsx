@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, CalendarClock, Pause, Play, Plus, Trash2 } from 'lucide-react';
+
+import { toast } from '@/stores/toastStore';
+import { Spinner } from '@/components/ui';
+
+interface Schedule {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  cron: string;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | null;
+  lastError: string | null;
+}
+
+interface WorkflowOption {
+  id: string;
+  name: string;
+}
+
+interface SchedulesCardProps {
+  sessionId: string;
+}
+
+const inputClassName =
+  'w-full text-logic-navy rounded-lg border border-[var(--color-border)] px-3 py-2 text-sm focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]';
+
+export function SchedulesCard({ sessionId }: SchedulesCardProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [workflows, setWorkflows] = useState<WorkflowOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workflowId, setWorkflowId] = useState('');
+  const [cron, setCron] = useState('0 2 * * *');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    const fetchSchedules = async () => {
+      try {
+        const [schedulesResponse, workflowsResponse] = await Promise.all([
+          fetch(`/api/schedule?sessionId=${sessionId}`),
+          fetch(`/api/workflow?sessionId=${sessionId}&limit=100`),
+        ]);
+        if (schedulesResponse.ok) {
+          const result = await schedulesResponse.json();
+          setSchedules(result.data?.schedules || []);
+        }
+        if (workflowsResponse.ok) {
+          const result = await workflowsResponse.json();
+          const options = (result.data?.workflows || []) as WorkflowOption[];
+          setWorkflows(options);
+          setWorkflowId(current => current || options[0]?.id || '');
+        }
+      } catch (error) {
+        console.error('Failed to fetch schedules:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSchedules();
+  }, [sessionId]);
+
+  const replaceSchedule = (updated: Schedule) =>
+    setSchedules(current =>
+      current.map(schedule => (schedule.id === updated.id ? updated : schedule))
+    );
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workflowId, cron }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setSchedules(current => [result.data.schedule as Schedule, ...current]);
+        toast.success('Workflow scheduled');
+      } else {
+        const fields = Object.values(result.error?.details?.fields || {}).flat();
+        toast.error(
+          'Failed to schedule workflow',
+          (fields[0] as string | undefined) || result.error?.message || 'Please try again'
+        );
+      }
+    } catch {
+      toast.error('Failed to schedule workflow', 'Please check your connection');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggle = async (schedule: Schedule) => {
+    try {
+      const response = await fetch(`/api/schedule/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        replaceSchedule(result.data.schedule as Schedule);
+      } else {
+        toast.error('Failed to update schedule', result.error?.message || 'Please try again');
+      }
+    } catch {
+      toast.error('Failed to update schedule', 'Please check your connection');
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    try {
+      const response = await fetch(`/api/schedule/${schedule.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setSchedules(current => current.filter(s => s.id !== schedule.id));
+      } else {
+        toast.error('Failed to delete schedule', 'Please try again');
+      }
+    } catch {
+      toast.error('Failed to delete schedule', 'Please check your connection');
+    }
+  };
+
+  const failing = schedules.filter(schedule => schedule.lastStatus === 'failed').length;
+
+  return (
+    <div
+      className={`rounded-lg border bg-white p-3 sm:p-6 ${failing > 0 ? 'border-red-300' : 'border-[var(--color-border)]'}`}
+    >
+      <div className='flex items-center justify-between gap-2'>
+        <h2 className='flex items-center gap-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
+          <CalendarClock className='h-3.5 w-3.5 sm:h-4 sm:w-4' />
+          Schedules
+        </h2>
+        {failing > 0 && (
+          <span className='flex items-center gap-1 rounded bg-red-50 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-red-600'>
+            <AlertTriangle className='h-3 w-3' />
+            {failing} failing
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className='mt-3 flex justify-center'>
+          <Spinner className='h-5 w-5' />
+        </div>
+      ) : (
+        <div className='mt-2 sm:mt-4 space-y-3'>
+          {schedules.length === 0 ? (
+            <p className='text-xs sm:text-sm text-[var(--color-text-secondary)]'>
+              Run a saved workflow on a cron schedule (UTC), e.g. a nightly smoke test.
+            </p>
+          ) : (
+            <ul className='space-y-2'>
+              {schedules.map(schedule => (
+                <li
+                  key={schedule.id}
+                  className={`rounded-lg border p-2.5 text-xs sm:text-sm ${
+                    schedule.lastStatus === 'failed'
+                      ? 'border-red-200 bg-red-50'
+                      : 'border-[var(--color-border)]'
+                  }`}
+                >
+                  <div className='flex items-center justify-between gap-2'>
+                    <span className='min-w-0 truncate'>
+                      <Link
+                        href={`/sessions/${sessionId}/workflows/${schedule.workflowId}`}
+                        className='font-medium text-[var(--color-logic-navy)] hover:underline'
+                      >
+                        {schedule.workflowName}
+                      </Link>
+                      <span className='text-[var(--color-text-secondary)]'>
+                        {' '}
+                        · <span className='font-mono'>{schedule.cron}</span> ·{' '}
+                        {schedule.enabled
+                          ? schedule.nextRunAt
+                            ? `next ${new Date(schedule.nextRunAt).toLocaleString()}`
+                            : 'never runs'
+                          : 'paused'}
+                      </span>
+                    </span>
+                    <span className='flex shrink-0 items-center gap-1'>
+                      <button
+                        onClick={() => handleToggle(schedule)}
+                        className='rounded p-1 text-[var(--color-text-secondary)] hover:text-[var(--color-logic-navy)]'
+                        title={schedule.enabled ? 'Pause' : 'Resume'}
+                      >
+                        {schedule.enabled ? (
+                          <Pause className='h-3.5 w-3.5' />
+                        ) : (
+                          <Play className='h-3.5 w-3.5' />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(schedule)}
+                        className='rounded p-1 text-[var(--color-text-secondary)] hover:text-red-600'
+                        title='Delete'
+                      >
+                        <Trash2 className='h-3.5 w-3.5' />
+                      </button>
+                    </span>
+                  </div>
+
+                  {schedule.lastRunAt && (
+                    <p
+                      className={`mt-1 flex items-center gap-1 text-xs ${
+                        schedule.lastStatus === 'failed'
+                          ? 'font-medium text-red-600'
+                          : 'text-[var(--color-text-secondary)]'
+                      }`}
+                    >
+                      {schedule.lastStatus === 'failed' && <AlertTriangle className='h-3 w-3' />}
+                      Last run {new Date(schedule.lastRunAt).toLocaleString()}:{' '}
+                      {schedule.lastStatus ?? 'unknown'}
+                      {schedule.lastError && ` (${schedule.lastError})`}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {workflows.length > 0 && (
+            <div className='flex flex-col gap-2 sm:flex-row'>
+              <select
+                value={workflowId}
+                onChange={e => setWorkflowId(e.target.value)}
+                className={inputClassName}
+              >
+                {workflows.map(workflow => (
+                  <option key={workflow.id} value={workflow.id}>
+                    {workflow.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={cron}
+                onChange={e => setCron(e.target.value)}
+                placeholder='0 2 * * *'
+                className={`${inputClassName} font-mono sm:w-40`}
+              />
+              <button
+                onClick={handleCreate}
+                disabled={isCreating || !workflowId || !cron.trim()}
+                className='flex shrink-0 items-center justify-center gap-1.5 rounded-lg bg-[var(--color-circuit-green)] px-4 py-2 text-sm text-white transition-colors hover:bg-[var(--color-circuit-green-dark)] disabled:opacity-50'
+              >
+                {isCreating ? (
+                  <Spinner className='h-3.5 w-3.5' />
+                ) : (
+                  <Plus className='h-3.5 w-3.5' />
+                )}
+                Schedule
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
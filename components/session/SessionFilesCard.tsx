@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Download, Paperclip, Trash2, Upload } from 'lucide-react';
+
+import { toast } from '@/stores/toastStore';
+import { Spinner } from '@/components/ui';
+import { formatBytes } from '@/lib/utils/response-meta';
+
+interface SessionFile {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  source: 'upload' | 'response';
+  createdAt: string;
+}
+
+interface SessionFilesCardProps {
+  sessionId: string;
+}
+
+export function SessionFilesCard({ sessionId }: SessionFilesCardProps) {
+  const [files, setFiles] = useState<SessionFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const fetchFiles = async () => {
+      try {
+        const response = await fetch(`/api/session/${sessionId}/files`);
+        if (response.ok) {
+          const result = await response.json();
+          setFiles(result.data?.files || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch session files:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFiles();
+  }, [sessionId]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/session/${sessionId}/files`, {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        const uploaded = result.data.file as SessionFile;
+        setFiles(current => [...current.filter(f => f.name !== uploaded.name), uploaded]);
+        toast.success('File uploaded', `Reference it as @${uploaded.name}`);
+      } else {
+        toast.error('Failed to upload file', result.error?.message || 'Please try again');
+      }
+    } catch {
+      toast.error('Failed to upload file', 'Please check your connection');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (file: SessionFile) => {
+    try {
+      const response = await fetch(`/api/session/${sessionId}/files/${file.id}`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        setFiles(current => current.filter(f => f.id !== file.id));
+      } else {
+        toast.error('Failed to delete file', 'Please try again');
+      }
+    } catch {
+      toast.error('Failed to delete file', 'Please check your connection');
+    }
+  };
+
+  return (
+    <div className='rounded-lg border border-[var(--color-border)] bg-white p-3 sm:p-6'>
+      <div className='flex items-center justify-between gap-2'>
+        <h2 className='flex items-center gap-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
+          <Paperclip className='h-3.5 w-3.5 sm:h-4 sm:w-4' />
+          Files
+        </h2>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className='flex items-center gap-1.5 rounded-lg border border-[var(--color-border)] px-2.5 py-1.5 text-xs font-medium text-[var(--color-logic-navy)] transition-colors hover:bg-[var(--color-background-alt)] disabled:opacity-50'
+        >
+          {isUploading ? <Spinner className='h-3.5 w-3.5' /> : <Upload className='h-3.5 w-3.5' />}
+          Upload
+        </button>
+        <input ref={fileInputRef} type='file' className='hidden' onChange={handleFileSelected} />
+      </div>
+
+      {isLoading ? (
+        <div className='mt-3 flex justify-center'>
+          <Spinner className='h-5 w-5' />
+        </div>
+      ) : files.length === 0 ? (
+        <p className='mt-2 text-xs sm:text-sm text-[var(--color-text-secondary)]'>
+          Upload files to send them in multipart or binary request bodies, e.g. &quot;upload
+          @avatar.png as the user&apos;s photo&quot;.
+        </p>
+      ) : (
+        <ul className='mt-2 sm:mt-4 space-y-1.5'>
+          {files.map(file => (
+            <li
+              key={file.id}
+              className='flex items-center justify-between gap-2 text-xs sm:text-sm'
+            >
+              <span className='min-w-0 truncate'>
+                <span className='font-mono text-[var(--color-logic-navy)]'>@{file.name}</span>
+                <span className='text-[var(--color-text-secondary)]'>
+                  {' '}
+                  · {file.contentType} · {formatBytes(file.size)}
+                  {file.source === 'response' && ' · saved response'}
+                </span>
+              </span>
+              <span className='flex shrink-0 items-center gap-1'>
+                <a
+                  href={`/api/session/${sessionId}/files/${file.id}`}
+                  className='rounded p-1 text-[var(--color-text-secondary)] hover:text-[var(--color-logic-navy)]'
+                  title='Download'
+                >
+                  <Download className='h-3.5 w-3.5' />
+                </a>
+                <button
+                  onClick={() => handleDelete(file)}
+                  className='rounded p-1 text-[var(--color-text-secondary)] hover:text-red-600'
+                  title='Delete'
+                >
+                  <Trash2 className='h-3.5 w-3.5' />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, History } from 'lucide-react';
+
+import { Spinner } from '@/components/ui';
+import { SpecChange, SpecDiff } from '@/lib/utils/spec-diff';
+
+interface SpecVersion {
+  id: string;
+  version: number;
+  diff: SpecDiff | null;
+  createdAt: string;
+}
+
+interface AffectedWorkflow {
+  workflowId: string;
+  name: string;
+  steps: Array<{
+    stepNumber: number;
+    operation: string;
+    reason: 'removed' | 'changed';
+    breaking: boolean;
+  }>;
+}
+
+interface SpecHistoryCardProps {
+  sessionId: string;
+  // Bumped by the parent after a refresh to reload the history
+  refreshKey: number;
+}
+
+export function summarizeSpecDiff(diff: SpecDiff | null): string {
+  if (!diff) {
+    return 'Initial version';
+  }
+
+  const changedOperations = new Set(diff.changes.map(change => change.operation)).size;
+  const parts = [
+    diff.addedOperations.length > 0 && `${diff.addedOperations.length} added`,
+    diff.removedOperations.length > 0 && `${diff.removedOperations.length} removed`,
+    changedOperations > 0 && `${changedOperations} changed`,
+    diff.breakingCount > 0 && `${diff.breakingCount} breaking`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'No endpoint changes';
+}
+
+function groupByOperation(changes: SpecChange[]): Array<[string, SpecChange[]]> {
+  const groups = new Map<string, SpecChange[]>();
+  for (const change of changes) {
+    groups.set(change.operation, [...(groups.get(change.operation) || []), change]);
+  }
+  return [...groups.entries()];
+}
+
+export function SpecHistoryCard({ sessionId, refreshKey }: SpecHistoryCardProps) {
+  const [versions, setVersions] = useState<SpecVersion[]>([]);
+  const [affectedWorkflows, setAffectedWorkflows] = useState<AffectedWorkflow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/session/${sessionId}/spec-history`);
+        if (response.ok) {
+          const result = await response.json();
+          setVersions(result.data?.versions || []);
+          setAffectedWorkflows(result.data?.affectedWorkflows || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch spec history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [sessionId, refreshKey]);
+
+  const latest = versions[0];
+  const diff = latest?.diff;
+
+  return (
+    <div className='rounded-lg border border-[var(--color-border)] bg-white p-3 sm:p-6'>
+      <h2 className='flex items-center gap-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
+        <History className='h-3.5 w-3.5 sm:h-4 sm:w-4' />
+        Spec History
+      </h2>
+
+      {isLoading ? (
+        <div className='mt-3 flex justify-center'>
+          <Spinner className='h-5 w-5' />
+        </div>
+      ) : !latest ? (
+        <p className='mt-2 text-xs sm:text-sm text-[var(--color-text-secondary)]'>
+          No versions recorded yet. Refresh the spec to track changes.
+        </p>
+      ) : (
+        <div className='mt-2 sm:mt-4 space-y-3 text-xs sm:text-sm'>
+          <p className='text-[var(--color-logic-navy)]'>
+            <span className='font-semibold'>v{latest.version}</span>
+            <span className='text-[var(--color-text-secondary)]'>
+              {' '}
+              · {new Date(latest.createdAt).toLocaleString()} · {summarizeSpecDiff(diff ?? null)}
+            </span>
+          </p>
+
+          {diff && (
+            <div className='space-y-2'>
+              {diff.addedOperations.map(operation => (
+                <p key={`added-${operation}`} className='font-mono text-xs text-green-700'>
+                  + {operation}
+                </p>
+              ))}
+              {diff.removedOperations.map(operation => (
+                <p key={`removed-${operation}`} className='font-mono text-xs text-red-600'>
+                  − {operation}
+                </p>
+              ))}
+              {groupByOperation(diff.changes).map(([operation, changes]) => (
+                <div key={`changed-${operation}`}>
+                  <p className='font-mono text-xs text-[var(--color-logic-navy)]'>~ {operation}</p>
+                  <ul className='ml-4 mt-1 space-y-0.5'>
+                    {changes.map(change => (
+                      <li
+                        key={`${change.kind}-${change.target}`}
+                        className='text-xs text-[var(--color-text-secondary)]'
+                      >
+                        {change.breaking && (
+                          <span className='mr-1.5 rounded bg-red-50 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-red-600'>
+                            Breaking
+                          </span>
+                        )}
+                        {change.detail}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {affectedWorkflows.length > 0 && (
+            <div className='rounded-lg border border-amber-200 bg-amber-50 p-2.5 sm:p-3'>
+              <p className='flex items-center gap-1.5 font-medium text-amber-700'>
+                <AlertTriangle className='h-3.5 w-3.5 sm:h-4 sm:w-4' />
+                Workflows to review
+              </p>
+              <ul className='mt-1.5 space-y-1'>
+                {affectedWorkflows.map(workflow => (
+                  <li key={workflow.workflowId} className='text-xs text-amber-800'>
+                    <span className='font-medium'>{workflow.name}</span>
+                    {workflow.steps.map(step => (
+                      <span key={step.stepNumber} className='block ml-3'>
+                        Step {step.stepNumber}: {step.operation} {step.reason}
+                        {step.breaking && step.reason === 'changed' && ' (breaking)'}
+                      </span>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {versions.length > 1 && (
+            <div className='border-t border-[var(--color-border)] pt-2 space-y-1'>
+              {versions.slice(1).map(version => (
+                <p key={version.id} className='text-xs text-[var(--color-text-secondary)]'>
+                  <span className='font-medium text-[var(--color-logic-navy)]'>
+                    v{version.version}
+                  </span>{' '}
+                  · {new Date(version.createdAt).toLocaleDateString()} ·{' '}
+                  {summarizeSpecDiff(version.diff)}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
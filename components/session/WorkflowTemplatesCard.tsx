@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LayoutTemplate, Play } from 'lucide-react';
+
+import { toast } from '@/stores/toastStore';
+import { Spinner } from '@/components/ui';
+import { WorkflowInput } from '@/lib/types';
+import { waitForJob } from '@/lib/utils/job-status';
+
+interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  inputs: WorkflowInput[];
+}
+
+interface TemplateRun {
+  success: boolean;
+  summary?: string;
+  error?: string;
+}
+
+interface WorkflowTemplatesCardProps {
+  sessionId: string;
+}
+
+const inputClassName =
+  'w-full text-logic-navy rounded-lg border border-[var(--color-border)] px-3 py-2 text-sm focus:border-[var(--color-circuit-green)] focus:outline-none focus:ring-1 focus:ring-[var(--color-circuit-green)]';
+
+// Form fields hold text; objects and arrays are edited as JSON
+function toFieldValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function TemplateForm({ template }: { template: WorkflowTemplate }) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(template.inputs.map(input => [input.name, toFieldValue(input.default)]))
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastRun, setLastRun] = useState<TemplateRun | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setFieldErrors({});
+    try {
+      // Empty fields fall back to the input's default on the server
+      const inputs = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+      const response = await fetch(`/api/workflow/${template.id}/execute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputs }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        // The run happens in a background job
+        const job = await waitForJob(result.data.jobId);
+        const execution = job.result ?? {
+          success: false,
+          error: job.error || `Workflow ${job.status}`,
+        };
+        setLastRun(execution);
+        if (!execution.success) {
+          toast.error('Workflow failed', 'See the steps below');
+        }
+      } else {
+        const fields = (result.error?.details?.fields || {}) as Record<string, string[]>;
+        setFieldErrors(
+          Object.fromEntries(
+            Object.entries(fields).map(([field, messages]) => [
+              field.replace(/^inputs\./, ''),
+              messages,
+            ])
+          )
+        );
+        setLastRun({ success: false, error: result.error?.message || 'Please try again' });
+      }
+    } catch {
+      toast.error('Failed to run workflow', 'Please check your connection');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <li className='space-y-2 border-t border-[var(--color-border)] pt-3 first:border-t-0 first:pt-0'>
+      <div>
+        <p className='font-medium text-[var(--color-logic-navy)]'>{template.name}</p>
+        <p className='text-xs text-[var(--color-text-secondary)]'>{template.description}</p>
+      </div>
+
+      {template.inputs.map(input => (
+        <label key={input.name} className='block space-y-1'>
+          <span className='text-xs font-medium text-[var(--color-logic-navy)]'>
+            <span className='font-mono'>{input.name}</span>
+            <span className='font-normal text-[var(--color-text-secondary)]'>
+              {' '}
+              · {input.type}
+              {input.default === undefined && ' · required'}
+              {input.description && ` — ${input.description}`}
+            </span>
+          </span>
+          {input.type === 'boolean' ? (
+            <select
+              value={values[input.name]}
+              onChange={e => setValues(current => ({ ...current, [input.name]: e.target.value }))}
+              className={inputClassName}
+            >
+              <option value=''>—</option>
+              <option value='true'>true</option>
+              <option value='false'>false</option>
+            </select>
+          ) : input.type === 'object' || input.type === 'array' ? (
+            <textarea
+              value={values[input.name]}
+              onChange={e => setValues(current => ({ ...current, [input.name]: e.target.value }))}
+              placeholder={input.type === 'array' ? '[ ... ]' : '{ ... }'}
+              rows={3}
+              className={`${inputClassName} font-mono`}
+            />
+          ) : (
+            <input
+              type={input.type === 'number' ? 'number' : 'text'}
+              value={values[input.name]}
+              onChange={e => setValues(current => ({ ...current, [input.name]: e.target.value }))}
+              className={inputClassName}
+            />
+          )}
+          {fieldErrors[input.name] && (
+            <span className='block text-xs text-red-600'>{fieldErrors[input.name].join(', ')}</span>
+          )}
+        </label>
+      ))}
+
+      <button
+        onClick={handleRun}
+        disabled={isRunning}
+        className='flex items-center gap-1.5 rounded-lg bg-[var(--color-circuit-green)] px-4 py-2 text-sm text-white transition-colors hover:bg-[var(--color-circuit-green-dark)] disabled:opacity-50'
+      >
+        {isRunning ? <Spinner className='h-3.5 w-3.5' /> : <Play className='h-3.5 w-3.5' />}
+        Run
+      </button>
+
+      {lastRun && (
+        <pre
+          className={`whitespace-pre-wrap rounded-lg p-2.5 text-xs ${lastRun.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'}`}
+        >
+          {lastRun.summary || lastRun.error}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+export function WorkflowTemplatesCard({ sessionId }: WorkflowTemplatesCardProps) {
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch(`/api/workflow?sessionId=${sessionId}&limit=100`);
+        if (response.ok) {
+          const result = await response.json();
+          const workflows = (result.data?.workflows || []) as Array<
+            Omit<WorkflowTemplate, 'inputs'> & { inputs: string | null }
+          >;
+          setTemplates(
+            workflows
+              .filter(workflow => workflow.inputs)
+              .map(workflow => ({ ...workflow, inputs: JSON.parse(workflow.inputs as string) }))
+          );
+        }
+      } catch (error) {
+        console.error('Failed to fetch workflow templates:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTemplates();
+  }, [sessionId]);
+
+  return (
+    <div className='rounded-lg border border-[var(--color-border)] bg-white p-3 sm:p-6'>
+      <h2 className='flex items-center gap-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]'>
+        <LayoutTemplate className='h-3.5 w-3.5 sm:h-4 sm:w-4' />
+        Workflow Templates
+      </h2>
+
+      {isLoading ? (
+        <div className='mt-3 flex justify-center'>
+          <Spinner className='h-5 w-5' />
+        </div>
+      ) : templates.length === 0 ? (
+        <p className='mt-2 text-xs sm:text-sm text-[var(--color-text-secondary)]'>
+          No templates yet. Promote a workflow with POST /api/workflow/:id/template to run it here
+          with your own values.
+        </p>
+      ) : (
+        <ul className='mt-2 sm:mt-4 space-y-3 text-xs sm:text-sm'>
+          {templates.map(template => (
+            <TemplateForm key={template.id} template={template} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
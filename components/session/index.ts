@@ -0,0 +1,5 @@
+export { AuthConfigCard } from './AuthConfigCard';
+export { SpecHistoryCard, summarizeSpecDiff } from './SpecHistoryCard';
+export { SessionFilesCard } from './SessionFilesCard';
+export { WorkflowTemplatesCard } from './WorkflowTemplatesCard';
+export { SchedulesCard } from './SchedulesCard';
@@ -9,13 +9,23 @@ import {
   Brain,
   ChevronDown,
   ChevronRight,
+  SkipForward,
+  PencilLine,
+  Square,
+  Ban,
 } from 'lucide-react';
 
 import { WorkflowProgressState, WorkflowStepProgress } from '@/lib/types';
+import { isResponseArtifact } from '@/lib/utils/response-body';
+import { ArtifactPreview, ResponseDetails } from '@/components/chat';
 
 interface WorkflowProgressProps {
   progress: WorkflowProgressState;
   result?: unknown;
+  // Opens the saved workflow in the editor (review a planned workflow, or fix and rerun one)
+  onEdit?: () => void;
+  // Cancels the workflow while it runs
+  onStop?: () => Promise<void>;
 }
 
 function StepIcon({ status }: { status: WorkflowStepProgress['status'] }) {
@@ -24,6 +34,8 @@ function StepIcon({ status }: { status: WorkflowStepProgress['status'] }) {
       return <CheckCircle className='h-4 w-4 text-[var(--color-circuit-green)]' />;
     case 'failed':
       return <XCircle className='h-4 w-4 text-red-500' />;
+    case 'skipped':
+      return <SkipForward className='h-4 w-4 text-gray-400' />;
     case 'running':
       return <Loader2 className='h-4 w-4 text-blue-500 animate-spin' />;
     case 'pending':
@@ -38,6 +50,8 @@ function StepStatusLabel({ status }: { status: WorkflowStepProgress['status'] })
       return <span className='text-xs text-[var(--color-circuit-green)] font-medium'>Done</span>;
     case 'failed':
       return <span className='text-xs text-red-500 font-medium'>Failed</span>;
+    case 'skipped':
+      return <span className='text-xs text-gray-500 font-medium'>Skipped</span>;
     case 'running':
       return <span className='text-xs text-blue-500 font-medium'>Running...</span>;
     case 'pending':
@@ -46,10 +60,26 @@ function StepStatusLabel({ status }: { status: WorkflowStepProgress['status'] })
   }
 }
 
-export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
+export function WorkflowProgress({ progress, result, onEdit, onStop }: WorkflowProgressProps) {
   const { phase, steps, error } = progress;
-  const isFinished = phase === 'completed' || phase === 'error';
+  const isFinished = phase === 'completed' || phase === 'cancelled' || phase === 'error';
+  // Skipped steps (condition not met, unused compensating steps) do not fail a workflow
+  const succeeded = steps.every(s => s.status === 'completed' || s.status === 'skipped');
+  const completedCount = steps.filter(s => s.status === 'completed').length;
   const [showResult, setShowResult] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+
+  const handleStop = async () => {
+    if (!onStop) {
+      return;
+    }
+    setIsStopping(true);
+    try {
+      await onStop();
+    } finally {
+      setIsStopping(false);
+    }
+  };
 
   return (
     <div className='space-y-3'>
@@ -65,7 +95,9 @@ export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
       {steps.length > 0 && (
         <div className='space-y-1'>
           <div className='text-xs font-medium text-[var(--color-text-secondary)] uppercase tracking-wide mb-2'>
-            Workflow Steps ({steps.filter(s => s.status === 'completed').length}/{steps.length})
+            Workflow Steps ({completedCount}/{steps.length})
+            {steps.some(s => s.status === 'skipped') &&
+              ` · ${steps.filter(s => s.status === 'skipped').length} skipped`}
           </div>
           <div className='relative'>
             {steps.map((step, index) => (
@@ -94,6 +126,41 @@ export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
                     <StepStatusLabel status={step.status} />
                   </div>
 
+                  {/* Steps this one waits for */}
+                  {step.status === 'pending' && step.dependsOn && step.dependsOn.length > 0 && (
+                    <p className='text-xs text-gray-400 mt-0.5'>
+                      Waits for step{step.dependsOn.length > 1 ? 's' : ''}{' '}
+                      {step.dependsOn.join(', ')}
+                    </p>
+                  )}
+
+                  {/* Condition the step runs under */}
+                  {step.when && (step.status === 'pending' || step.status === 'skipped') && (
+                    <p className='text-xs text-gray-400 mt-0.5'>
+                      {step.status === 'skipped' ? 'Condition not met: ' : 'Runs when '}
+                      <code className='font-mono'>{step.when}</code>
+                    </p>
+                  )}
+
+                  {/* Retries of flaky requests */}
+                  {step.attempts && step.attempts > 1 && (
+                    <p className='text-xs text-yellow-700 mt-0.5'>
+                      {step.status === 'running'
+                        ? `Retrying (attempt ${step.attempts})${step.retryReason ? ` after ${step.retryReason}` : ''}`
+                        : `${step.attempts} attempts`}
+                    </p>
+                  )}
+
+                  {/* forEach progress */}
+                  {step.items && (
+                    <p className='text-xs text-[var(--color-text-secondary)] mt-0.5'>
+                      {step.items.completed}/{step.items.total} items
+                      {step.items.failed > 0 && (
+                        <span className='text-red-500'> · {step.items.failed} failed</span>
+                      )}
+                    </p>
+                  )}
+
                   {/* Error detail */}
                   {step.status === 'failed' && step.error && (
                     <p className='text-xs text-red-500 mt-1 break-words'>{step.error}</p>
@@ -113,6 +180,12 @@ export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
                       HTTP {step.httpCode}
                     </span>
                   )}
+
+                  {/* Timing, size and headers */}
+                  {step.responseMeta && <ResponseDetails meta={step.responseMeta} />}
+
+                  {/* Binary response saved as a session file */}
+                  {isResponseArtifact(step.result) && <ArtifactPreview artifact={step.result} />}
                 </div>
               </div>
             ))}
@@ -124,12 +197,10 @@ export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
       {phase === 'completed' && (
         <div
           className={`flex items-center gap-2 text-sm font-medium mt-2 pt-2 border-t border-[var(--color-border)] ${
-            steps.every(s => s.status === 'completed')
-              ? 'text-[var(--color-circuit-green)]'
-              : 'text-red-500'
+            succeeded ? 'text-[var(--color-circuit-green)]' : 'text-red-500'
           }`}
         >
-          {steps.every(s => s.status === 'completed') ? (
+          {succeeded ? (
             <>
               <CheckCircle className='h-4 w-4' />
               Workflow completed successfully
@@ -143,6 +214,23 @@ export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
         </div>
       )}
 
+      {/* Stopped while running */}
+      {phase === 'cancelled' && (
+        <div className='flex items-center gap-2 text-sm font-medium text-gray-500 mt-2 pt-2 border-t border-[var(--color-border)]'>
+          <Ban className='h-4 w-4' />
+          Workflow cancelled after {completedCount} of {steps.length} step
+          {steps.length === 1 ? '' : 's'} completed
+        </div>
+      )}
+
+      {/* Planned for review, not run yet */}
+      {phase === 'planned' && (
+        <div className='flex items-center gap-2 text-sm text-logic-navy mt-2 pt-2 border-t border-[var(--color-border)]'>
+          <Circle className='h-4 w-4' />
+          <span className='font-medium'>Not run yet</span>
+        </div>
+      )}
+
       {/* Error state */}
       {phase === 'error' && error && (
         <div className='flex items-center gap-2 text-sm text-red-500 font-medium'>
@@ -151,6 +239,31 @@ export function WorkflowProgress({ progress, result }: WorkflowProgressProps) {
         </div>
       )}
 
+      {onStop && phase === 'executing' && (
+        <button
+          onClick={handleStop}
+          disabled={isStopping}
+          className='flex items-center gap-1.5 rounded-lg border border-red-200 px-2.5 py-1.5 text-xs font-medium text-red-600 transition-colors hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50'
+        >
+          {isStopping ? (
+            <Loader2 className='h-3.5 w-3.5 animate-spin' />
+          ) : (
+            <Square className='h-3.5 w-3.5' />
+          )}
+          {isStopping ? 'Stopping...' : 'Stop workflow'}
+        </button>
+      )}
+
+      {onEdit && (phase === 'planned' || isFinished) && (
+        <button
+          onClick={onEdit}
+          className='flex items-center gap-1.5 rounded-lg border border-[var(--color-border)] px-2.5 py-1.5 text-xs font-medium text-[var(--color-logic-navy)] transition-colors hover:bg-[var(--color-background-alt)]'
+        >
+          <PencilLine className='h-3.5 w-3.5' />
+          {phase === 'planned' ? 'Review and run' : 'Edit workflow'}
+        </button>
+      )}
+
       {/* Collapsible JSON result */}
       {isFinished && result !== null && result !== undefined && (
         <div className='mt-3 border-t border-[var(--color-border)] pt-2'>
@@ -0,0 +1,12 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Close jobs interrupted by the last shutdown and start the queued ones
+    const { jobQueueService } = await import('./lib/services/job-queue');
+    await jobQueueService.recover();
+
+    // Queue scheduled runs, including the ones missed while the server was down
+    const { scheduleService } = await import('./lib/services/schedule');
+    scheduleService.start();
+  }
+}
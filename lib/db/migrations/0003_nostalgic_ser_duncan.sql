@@ -0,0 +1 @@
+ALTER TABLE `sessions` ADD `auth_config` text;
\ No newline at end of file
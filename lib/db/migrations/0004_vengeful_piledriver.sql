@@ -0,0 +1 @@
+ALTER TABLE `sessions` ADD `spec_source` text DEFAULT 'url' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `spec_versions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`version` integer NOT NULL,
+	`swagger_doc` text NOT NULL,
+	`diff` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_spec_versions_session_id_version` ON `spec_versions` (`session_id`,`version`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `session_files` ADD `source` text DEFAULT 'upload' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `workflow_executions` ADD `attempt` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `workflows` ADD `retry_policy` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `workflow_executions` ADD `run_id` text;--> statement-breakpoint
+ALTER TABLE `workflow_executions` ADD `http_code` integer;
\ No newline at end of file
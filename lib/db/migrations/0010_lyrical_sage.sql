@@ -0,0 +1 @@
+ALTER TABLE `workflows` ADD `inputs` text;
\ No newline at end of file
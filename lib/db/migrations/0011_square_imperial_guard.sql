@@ -0,0 +1,15 @@
+CREATE TABLE `workflow_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workflow_id` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`options` text,
+	`result` text,
+	`error` text,
+	`created_at` integer NOT NULL,
+	`started_at` integer,
+	`completed_at` integer,
+	FOREIGN KEY (`workflow_id`) REFERENCES `workflows`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_workflow_jobs_workflow_id` ON `workflow_jobs` (`workflow_id`);--> statement-breakpoint
+CREATE INDEX `idx_workflow_jobs_status` ON `workflow_jobs` (`status`);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `workflow_schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workflow_id` text NOT NULL,
+	`cron` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`inputs` text,
+	`next_run_at` integer,
+	`last_run_at` integer,
+	`last_job_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`workflow_id`) REFERENCES `workflows`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`last_job_id`) REFERENCES `workflow_jobs`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_workflow_schedules_workflow_id` ON `workflow_schedules` (`workflow_id`);--> statement-breakpoint
+CREATE INDEX `idx_workflow_schedules_enabled_next_run_at` ON `workflow_schedules` (`enabled`,`next_run_at`);--> statement-breakpoint
+ALTER TABLE `workflow_executions` ADD `schedule_id` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `workflow_executions` ADD `assertions` text;
\ No newline at end of file
@@ -1,13 +1,17 @@
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, blob } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
 
 // Sessions table - stores session configuration and metadata
 export const sessions = sqliteTable('sessions', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
-  swaggerUrl: text('swagger_url').notNull(),
+  swaggerUrl: text('swagger_url').notNull(), // Empty when the spec was uploaded or pasted
+  specSource: text('spec_source', { enum: ['url', 'upload'] })
+    .notNull()
+    .default('url'),
   swaggerDoc: text('swagger_doc').notNull(), // JSON string of the Swagger/OpenAPI doc
   authToken: text('auth_token'), // Optional authentication token
+  authConfig: text('auth_config'), // Encrypted JSON auth scheme config (see AuthConfig)
   baseUrl: text('base_url'), // Extracted from Swagger servers
   lastAccessedAt: integer('last_accessed_at', { mode: 'timestamp' }).notNull(),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
@@ -25,7 +29,9 @@ export const workflows = sqliteTable(
     name: text('name').notNull(),
     description: text('description').notNull(),
     steps: text('steps').notNull(), // JSON array of workflow steps
-    status: text('status', { enum: ['pending', 'running', 'completed', 'failed'] })
+    retryPolicy: text('retry_policy'), // JSON: retry policy for every step (steps can override it)
+    inputs: text('inputs'), // JSON: declared inputs when the workflow is a template ({{input.x}})
+    status: text('status', { enum: ['pending', 'running', 'completed', 'failed', 'cancelled'] })
       .notNull()
       .default('pending'),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
@@ -49,11 +55,20 @@ export const workflowExecutions = sqliteTable(
     workflowId: text('workflow_id')
       .notNull()
       .references(() => workflows.id, { onDelete: 'cascade' }),
+    // Rows of one execution share a run ID (a resumed run keeps the ID of the run it continues)
+    runId: text('run_id'),
+    // Schedule that started the run (null for runs started by hand); no foreign key, so a run
+    // still going when its schedule is deleted can be recorded
+    scheduleId: text('schedule_id'),
     stepNumber: integer('step_number').notNull(),
-    status: text('status', { enum: ['completed', 'failed'] }).notNull(),
+    // 1-based attempt; retried attempts are recorded with status 'retried'
+    attempt: integer('attempt').notNull().default(1),
+    status: text('status', { enum: ['completed', 'failed', 'skipped', 'retried'] }).notNull(),
     request: text('request').notNull(), // JSON: curl command, headers, body
-    response: text('response'), // JSON: response data (may be truncated if large)
+    response: text('response'), // JSON: { body, meta } with response headers, timings and size
+    httpCode: integer('http_code'),
     extracted: text('extracted'), // JSON: extracted values from response
+    assertions: text('assertions'), // JSON: the step's assertion results (AssertionResult[])
     error: text('error'), // Error message if failed
     executedAt: integer('executed_at', { mode: 'timestamp' }).notNull(),
   },
@@ -62,6 +77,103 @@ export const workflowExecutions = sqliteTable(
   })
 );
 
+// Workflow jobs table - workflow executions queued to run in the background
+export const workflowJobs = sqliteTable(
+  'workflow_jobs',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflows.id, { onDelete: 'cascade' }),
+    status: text('status', {
+      enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+    })
+      .notNull()
+      .default('queued'),
+    options: text('options'), // JSON: mode, overrides, inputs and schedule of the execution
+    result: text('result'), // JSON: the execution result once the job finished
+    error: text('error'), // Why the job could not run (or was interrupted)
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+    startedAt: integer('started_at', { mode: 'timestamp' }),
+    completedAt: integer('completed_at', { mode: 'timestamp' }),
+  },
+  table => ({
+    workflowIdIdx: index('idx_workflow_jobs_workflow_id').on(table.workflowId),
+    statusIdx: index('idx_workflow_jobs_status').on(table.status),
+  })
+);
+
+// Workflow schedules table - cron schedules that queue workflow runs
+export const workflowSchedules = sqliteTable(
+  'workflow_schedules',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflows.id, { onDelete: 'cascade' }),
+    cron: text('cron').notNull(), // Five-field cron expression or alias, in UTC
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    inputs: text('inputs'), // JSON: input values when the workflow is a template
+    nextRunAt: integer('next_run_at', { mode: 'timestamp' }), // Null while disabled
+    lastRunAt: integer('last_run_at', { mode: 'timestamp' }),
+    // Job of the latest run, for its status
+    lastJobId: text('last_job_id').references(() => workflowJobs.id, { onDelete: 'set null' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  },
+  table => ({
+    workflowIdIdx: index('idx_workflow_schedules_workflow_id').on(table.workflowId),
+    enabledNextRunAtIdx: index('idx_workflow_schedules_enabled_next_run_at').on(
+      table.enabled,
+      table.nextRunAt
+    ),
+  })
+);
+
+// Spec versions table - history of a session's Swagger document across refreshes
+export const specVersions = sqliteTable(
+  'spec_versions',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    swaggerDoc: text('swagger_doc').notNull(), // JSON string of the document at this version
+    diff: text('diff'), // JSON: SpecDiff against the previous version (null for the first one)
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  table => ({
+    sessionVersionIdx: index('idx_spec_versions_session_id_version').on(
+      table.sessionId,
+      table.version
+    ),
+  })
+);
+
+// Session files table - files uploaded into a session for multipart parts and file bodies
+export const sessionFiles = sqliteTable(
+  'session_files',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(), // Unique per session; requests reference files by name
+    contentType: text('content_type').notNull(),
+    size: integer('size').notNull(),
+    data: blob('data', { mode: 'buffer' }).notNull(),
+    // upload: added by the user, response: binary response body saved as an artifact
+    source: text('source', { enum: ['upload', 'response'] })
+      .notNull()
+      .default('upload'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  table => ({
+    sessionNameIdx: index('idx_session_files_session_id_name').on(table.sessionId, table.name),
+  })
+);
+
 // Settings table - key-value store for application settings
 export const settings = sqliteTable('settings', {
   key: text('key').primaryKey(),
@@ -99,6 +211,8 @@ export const messages = sqliteTable(
 export const sessionsRelations = relations(sessions, ({ many }) => ({
   workflows: many(workflows),
   messages: many(messages),
+  specVersions: many(specVersions),
+  files: many(sessionFiles),
 }));
 
 export const workflowsRelations = relations(workflows, ({ one, many }) => ({
@@ -107,6 +221,8 @@ export const workflowsRelations = relations(workflows, ({ one, many }) => ({
     references: [sessions.id],
   }),
   executions: many(workflowExecutions),
+  jobs: many(workflowJobs),
+  schedules: many(workflowSchedules),
 }));
 
 export const workflowExecutionsRelations = relations(workflowExecutions, ({ one }) => ({
@@ -116,6 +232,34 @@ export const workflowExecutionsRelations = relations(workflowExecutions, ({ one
   }),
 }));
 
+export const workflowJobsRelations = relations(workflowJobs, ({ one }) => ({
+  workflow: one(workflows, {
+    fields: [workflowJobs.workflowId],
+    references: [workflows.id],
+  }),
+}));
+
+export const workflowSchedulesRelations = relations(workflowSchedules, ({ one }) => ({
+  workflow: one(workflows, {
+    fields: [workflowSchedules.workflowId],
+    references: [workflows.id],
+  }),
+}));
+
+export const specVersionsRelations = relations(specVersions, ({ one }) => ({
+  session: one(sessions, {
+    fields: [specVersions.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+export const sessionFilesRelations = relations(sessionFiles, ({ one }) => ({
+  session: one(sessions, {
+    fields: [sessionFiles.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
 export const messagesRelations = relations(messages, ({ one }) => ({
   session: one(sessions, {
     fields: [messages.sessionId],
@@ -137,6 +281,18 @@ export type NewWorkflow = typeof workflows.$inferInsert;
 export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
 export type NewWorkflowExecution = typeof workflowExecutions.$inferInsert;
 
+export type WorkflowJob = typeof workflowJobs.$inferSelect;
+export type NewWorkflowJob = typeof workflowJobs.$inferInsert;
+
+export type WorkflowSchedule = typeof workflowSchedules.$inferSelect;
+export type NewWorkflowSchedule = typeof workflowSchedules.$inferInsert;
+
+export type SpecVersion = typeof specVersions.$inferSelect;
+export type NewSpecVersion = typeof specVersions.$inferInsert;
+
+export type SessionFile = typeof sessionFiles.$inferSelect;
+export type NewSessionFile = typeof sessionFiles.$inferInsert;
+
 export type Setting = typeof settings.$inferSelect;
 export type NewSetting = typeof settings.$inferInsert;
 
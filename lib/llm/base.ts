@@ -35,7 +35,7 @@ export abstract class BaseLLMProvider {
     const userPromptTemplate = promptManager.loadPrompt('curl-generation-user');
 
     const authStatus = hasAuth
-      ? 'Authentication is available. DO NOT include the Authorization header in the curl command - it will be added automatically by the backend.'
+      ? 'Authentication is available. DO NOT include the Authorization header, API key headers/query parameters or auth cookies in the curl command - they will be added automatically by the backend.'
       : 'No authentication token available. Mention if the endpoint requires authentication.';
 
     const systemPrompt = promptManager.render(systemPromptTemplate.template, {
@@ -1,10 +1,12 @@
 import { ChatResponse, LLMMessage, WorkflowStep } from '@/lib/types';
 import { Session } from '@/lib/db/schema';
 import { log } from '@/lib/logger';
-import { executeCurl } from '@/lib/utils/curl';
 import { getLLMProvider } from '@/lib/llm';
+import { buildSearchQuery } from '@/lib/utils/endpoint-index';
 
 import { sessionService } from './session';
+import { oauthService } from './oauth';
+import { sessionFileService } from './session-file';
 import { messageService } from './message';
 import { tokenExtractorService } from './tokenExtractor';
 import { RequestExecutor } from './request-executor';
@@ -127,13 +129,16 @@ export class ChatOrchestrator {
     session: Session,
     history?: LLMMessage[]
   ): Promise<ChatResponse> {
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = await sessionFileService.appendToPrompt(
+      session.id,
+      sessionService.getFormattedSwagger(session, buildSearchQuery(message, history))
+    );
 
     // Generate curl command
     const curlResult = await this.curlGenerator.generate({
       swaggerDoc: formattedSwagger,
       message,
-      hasAuth: !!session.authToken,
+      hasAuth: sessionService.hasAuth(session),
       history,
     });
 
@@ -149,18 +154,11 @@ export class ChatOrchestrator {
       return this.responseFormatter.formatSkipReason(curlResult, message);
     }
 
-    // Inject auth token if available
-    let curlCommand = curlResult.curl;
-    if (session.authToken && !curlCommand.includes('Authorization')) {
-      const authHeader = session.authToken.startsWith('Bearer ')
-        ? session.authToken
-        : `Bearer ${session.authToken}`;
-      curlCommand += ` -H 'Authorization: ${authHeader}'`;
-      log.info('Injected Authorization header');
-    }
-
-    // Execute the request
-    const executionResult = await executeCurl(curlCommand);
+    // Inject session auth and execute (OAuth2 tokens are renewed and retried once on 401)
+    const { result: executionResult } = await oauthService.executeCurlWithAuth(
+      session,
+      curlResult.curl
+    );
 
     // Check for token expiration
     if (executionResult.httpCode === 401) {
@@ -197,12 +195,19 @@ export class ChatOrchestrator {
     session: Session,
     _history?: LLMMessage[]
   ): Promise<ChatResponse> {
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = await sessionFileService.appendToPrompt(
+      session.id,
+      sessionService.getFormattedSwagger(session, message)
+    );
 
     // Plan workflow
     let steps: WorkflowStep[];
     try {
-      steps = await getLLMProvider().planWorkflow(formattedSwagger, message, !!session.authToken);
+      steps = await getLLMProvider().planWorkflow(
+        formattedSwagger,
+        message,
+        sessionService.hasAuth(session)
+      );
     } catch (error) {
       return this.responseFormatter.formatError(
         `Failed to plan workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -227,7 +232,11 @@ export class ChatOrchestrator {
     // Execute workflow
     const executor = new RequestExecutor({
       baseUrl: session.baseUrl || '',
-      authToken: session.authToken || undefined,
+      auth: sessionService.getRequestAuth(session),
+      refreshAuth: oauthService.createAuthRefresher(session),
+      swaggerDoc: sessionService.getSpecDoc(session),
+      loadFile: sessionFileService.createLoader(session.id),
+      saveArtifact: sessionFileService.createArtifactSaver(session.id),
     });
 
     const execResult = await executor.executeSteps(steps);
@@ -242,7 +251,10 @@ export class ChatOrchestrator {
     session: Session,
     history?: LLMMessage[]
   ): Promise<ChatResponse> {
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = sessionService.getFormattedSwagger(
+      session,
+      buildSearchQuery(message, history)
+    );
 
     const llm = getLLMProvider();
     const systemPrompt = `You are a helpful API documentation assistant. Answer questions about the API based on the provided Swagger/OpenAPI documentation. Be concise but informative.`;
@@ -1,36 +1,92 @@
 import { getLLMProvider } from '@/lib/llm';
-import { executeCurl, validateCurlCommand } from '@/lib/utils/curl';
-import { ChatResponse, LLMMessage, WorkflowStep } from '@/lib/types';
-import { Message } from '@/lib/db/schema';
+import { parseCurl, validateCurlCommand } from '@/lib/utils/curl';
+import { applyRedactedAuth } from '@/lib/utils/auth';
+import { formatDryRunRequests, previewRequest } from '@/lib/utils/dry-run';
+import { buildSearchQuery } from '@/lib/utils/endpoint-index';
+import { validateRequest } from '@/lib/utils/request-validation';
+import { getStepDependsOn } from '@/lib/utils/step-graph';
+import {
+  buildParameterOverrides,
+  isWorkflowReference,
+  parseParameterOverrides,
+} from '@/lib/utils/workflow-reference';
+import {
+  ChatResponse,
+  CurlGenerationResult,
+  DryRunRequest,
+  DryRunResult,
+  LLMMessage,
+  ResponseMeta,
+  StepOverride,
+  WorkflowStep,
+} from '@/lib/types';
+import { Message, Session, Workflow } from '@/lib/db/schema';
 import { log } from '@/lib/logger';
 
-import { RequestExecutor } from './request-executor';
 import { sessionService } from './session';
+import { oauthService } from './oauth';
+import { sessionFileService } from './session-file';
 import { tokenExtractorService } from './tokenExtractor';
 import { messageService } from './message';
+import { ExecutionResult, workflowService } from './workflow';
 
 // SSE event types for workflow streaming
 export interface WorkflowStreamEvent {
   type:
     | 'planning'
+    | 'workflow_plan'
+    | 'workflow_planned'
     | 'step_start'
+    | 'step_item'
+    | 'step_retry'
     | 'step_complete'
     | 'step_failed'
+    | 'step_skipped'
     | 'workflow_complete'
+    | 'workflow_cancelled'
     | 'workflow_error';
   step?: number;
   totalSteps?: number;
+  // step_item: 1-based item of a forEach step
+  item?: number;
+  totalItems?: number;
+  // step_retry: the failed attempt (1-based) and the wait before the next one;
+  // step_complete/step_failed: attempts made
+  attempt?: number;
+  delayMs?: number;
+  attempts?: number;
   description?: string;
   success?: boolean;
   result?: unknown;
   error?: string;
   message?: string;
   httpCode?: number;
+  responseMeta?: ResponseMeta;
+  // workflow_plan: every step with the steps it waits for and the condition it runs under
+  steps?: PlannedStep[];
+  // workflow_plan/workflow_planned/workflow_complete/workflow_cancelled: the saved workflow, to
+  // cancel while it runs, or review, edit or run again
+  workflowId?: string;
+  // workflow_cancelled: the steps that completed before it stopped
+  completedSteps?: number[];
 }
 
+export interface PlannedStep {
+  step: number;
+  description: string;
+  dependsOn: number[];
+  when?: string;
+}
+
+type StreamSender = (event: WorkflowStreamEvent) => void;
+
 export interface ChatInput {
   sessionId: string;
   message: string;
+  // Plan and save workflows without running them, so they can be reviewed first
+  planOnly?: boolean;
+  // Build the requests the message would send and return them instead of sending them
+  dryRun?: boolean;
 }
 
 export class ChatService {
@@ -57,6 +113,7 @@ export class ChatService {
     await sessionService.updateLastAccessed(input.sessionId);
 
     // Load recent message history
+    let recentMessages: Message[] = [];
     let history: LLMMessage[] = [];
     let _userMessageId: string | undefined;
     try {
@@ -65,7 +122,8 @@ export class ChatService {
         undefined,
         10
       );
-      history = this.convertMessagesToLLMFormat(recentMessagesResult.messages);
+      recentMessages = recentMessagesResult.messages;
+      history = this.convertMessagesToLLMFormat(recentMessages);
 
       // Save user message
       const userMessage = await messageService.create({
@@ -88,44 +146,50 @@ export class ChatService {
     }
 
     // Check if user is referencing a previous workflow
-    const workflowReference = await this.detectWorkflowReference(input.message, history);
-    if (workflowReference.shouldReexecute && workflowReference.workflowId) {
+    const workflowReference = await this.detectWorkflowReference(input.message, input.sessionId);
+    if (workflowReference.shouldReexecute && workflowReference.workflow) {
       return this.handleWorkflowReexecution(
-        session,
-        workflowReference.workflowId,
+        workflowReference.workflow,
         input.message,
-        history
+        input.dryRun
       );
     }
 
-    // Classify intent with history
-    const intent = await this.getLLM().classifyIntent(input.message, history);
+    // A confirmation of the request held back in the previous reply sends exactly that request
+    const heldBack = input.dryRun ? null : this.getHeldBackRequest(recentMessages, input.message);
 
-    // Route to appropriate handler
     let response: ChatResponse;
-    switch (intent.type) {
-      case 'single_request':
-        response = await this.handleSingleRequest(session, input.message, history);
-        break;
-
-      case 'workflow':
-        response = await this.handleWorkflow(session, input.message, history);
-        break;
-
-      case 'api_info':
-        response = await this.handleApiInfo(session, input.message, history);
-        break;
-
-      case 'self_awareness':
-        response = this.handleSelfAwareness();
-        break;
-
-      default:
-        response = {
-          type: 'api_info',
-          explanation:
-            'I can help you explore and interact with your API. Try asking me to perform specific actions like "get all users" or ask questions like "what endpoints are available?"',
-        };
+    if (heldBack) {
+      response = await this.handleHeldBackRequest(session, heldBack);
+    } else {
+      // Classify intent with history
+      const intent = await this.getLLM().classifyIntent(input.message, history);
+
+      // Route to appropriate handler
+      switch (intent.type) {
+        case 'single_request':
+          response = await this.handleSingleRequest(session, input.message, history, input.dryRun);
+          break;
+
+        case 'workflow':
+          response = await this.handleWorkflow(session, input.message, history, input.dryRun);
+          break;
+
+        case 'api_info':
+          response = await this.handleApiInfo(session, input.message, history);
+          break;
+
+        case 'self_awareness':
+          response = this.handleSelfAwareness();
+          break;
+
+        default:
+          response = {
+            type: 'api_info',
+            explanation:
+              'I can help you explore and interact with your API. Try asking me to perform specific actions like "get all users" or ask questions like "what endpoints are available?"',
+          };
+      }
     }
 
     // Save assistant response
@@ -134,7 +198,11 @@ export class ChatService {
       let content: string;
       if (response.type === 'error') {
         content = response.message;
-      } else if (response.type === 'curl_command' || response.type === 'api_info') {
+      } else if (
+        response.type === 'curl_command' ||
+        response.type === 'api_info' ||
+        response.type === 'dry_run'
+      ) {
         content = response.explanation;
       } else if (response.type === 'self_awareness') {
         content = response.response;
@@ -155,7 +223,18 @@ export class ChatService {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           result: (response as any).result,
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          httpCode: (response as any).httpCode,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          responseMeta: (response as any).responseMeta,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
           workflowId: (response as any).workflowId,
+          // Requests held back for spec errors, so the next message can confirm them
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          specErrors: (response as any).specErrors,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          isAuthEndpoint: (response as any).isAuthEndpoint,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          tokenPath: (response as any).tokenPath,
         }),
       });
 
@@ -180,39 +259,33 @@ export class ChatService {
     }));
   }
 
+  /**
+   * Find the workflow a message like "run that workflow again" refers to: the latest workflow
+   * run in this session's chat
+   */
   private async detectWorkflowReference(
     message: string,
-    _history: LLMMessage[]
-  ): Promise<{ shouldReexecute: boolean; workflowId?: string }> {
-    const lowerMessage = message.toLowerCase();
-
-    // Detect workflow reference phrases
-    const workflowPhrases = [
-      'that workflow',
-      'the workflow',
-      'previous workflow',
-      'last workflow',
-      'run it again',
-      'execute it again',
-      'do it again',
-      're-run',
-      'rerun',
-    ];
-
-    const isReferencingWorkflow = workflowPhrases.some(phrase => lowerMessage.includes(phrase));
-
-    if (!isReferencingWorkflow) {
+    sessionId: string
+  ): Promise<{ shouldReexecute: boolean; workflow?: Workflow }> {
+    if (!isWorkflowReference(message)) {
       return { shouldReexecute: false };
     }
 
-    // Find the most recent workflow in history
     try {
-      // Get the last 10 messages from the database to find workflow metadata
-      // Since history only contains content, we need to query DB for metadata
-      // For now, we'll look through the last message's metadata
-      // This is a simplified approach - in production you might want more sophisticated detection
+      const workflowMessage = await messageService.findRecentWorkflowMessage(sessionId);
+      const workflowId = workflowMessage?.metadata
+        ? (JSON.parse(workflowMessage.metadata) as { workflowId?: string }).workflowId
+        : undefined;
+      if (!workflowId) {
+        return { shouldReexecute: false };
+      }
+
+      const workflow = await workflowService.findById(workflowId);
+      if (!workflow || workflow.sessionId !== sessionId) {
+        return { shouldReexecute: false };
+      }
 
-      return { shouldReexecute: false }; // Let the normal flow handle it for now
+      return { shouldReexecute: true, workflow };
     } catch (error) {
       log.error('Failed to detect workflow reference', error, {
         operation: 'detect_workflow_reference',
@@ -221,23 +294,67 @@ export class ChatService {
     }
   }
 
-  private async handleWorkflowReexecution(
-    _session: unknown,
-    _workflowId: string,
-    _message: string,
-    _history: LLMMessage[]
-  ): Promise<ChatResponse> {
-    // This will be implemented in Phase 5
+  /**
+   * Values given as key=value in the message: template inputs by name, the others as overrides
+   * for the steps that use them
+   */
+  private getReexecutionOverrides(
+    workflow: Workflow,
+    message: string
+  ): {
+    steps: WorkflowStep[];
+    overrides: Record<number, StepOverride>;
+    inputs: Record<string, unknown>;
+    note?: string;
+  } {
+    const steps: WorkflowStep[] = JSON.parse(workflow.steps);
+    const declared = new Set(workflowService.getInputs(workflow).map(input => input.name));
+    const values = Object.entries(parseParameterOverrides(message));
+
+    const { overrides, unused } = buildParameterOverrides(
+      steps,
+      Object.fromEntries(values.filter(([key]) => !declared.has(key)))
+    );
     return {
-      type: 'error',
-      message: 'Workflow reexecution is not yet implemented. Please describe what you want to do.',
+      steps,
+      overrides,
+      inputs: Object.fromEntries(values.filter(([key]) => declared.has(key))),
+      note:
+        unused.length > 0
+          ? `No step uses ${unused.join(', ')}, so ${unused.length > 1 ? 'they were' : 'it was'} ignored.`
+          : undefined,
     };
   }
 
+  private async handleWorkflowReexecution(
+    workflow: Workflow,
+    message: string,
+    dryRun?: boolean
+  ): Promise<ChatResponse> {
+    const { overrides, inputs, note } = this.getReexecutionOverrides(workflow, message);
+
+    try {
+      if (dryRun) {
+        const requests = await workflowService.dryRun(workflow.id, { overrides, inputs });
+        return this.formatDryRunResponse(requests, workflow.id, note);
+      }
+
+      const execResult = await workflowService.execute(workflow.id, { overrides, inputs });
+      return this.formatWorkflowResponse(workflow.id, execResult, note);
+    } catch (error) {
+      log.error('Workflow re-execution failed', error, { workflowId: workflow.id });
+      return {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to execute workflow',
+      };
+    }
+  }
+
   private async handleSingleRequest(
     session: ReturnType<typeof sessionService.findById> extends Promise<infer T> ? T : never,
     message: string,
-    history?: LLMMessage[]
+    history?: LLMMessage[],
+    dryRun?: boolean
   ): Promise<ChatResponse> {
     if (!session) {
       return {
@@ -246,14 +363,17 @@ export class ChatService {
       };
     }
 
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = await sessionFileService.appendToPrompt(
+      session.id,
+      sessionService.getFormattedSwagger(session, buildSearchQuery(message, history))
+    );
 
     try {
       // Generate curl command - pass boolean indicating if auth is available (never the actual token)
       const curlResult = await this.getLLM().generateCurl(
         formattedSwagger,
         message,
-        !!session.authToken,
+        sessionService.hasAuth(session),
         history
       );
 
@@ -279,7 +399,7 @@ export class ChatService {
         const retryResult = await this.getLLM().generateCurl(
           formattedSwagger,
           retryMessage,
-          !!session.authToken
+          sessionService.hasAuth(session)
         );
 
         // Use retry result if it's better
@@ -311,7 +431,43 @@ export class ChatService {
         };
       }
 
-      let executionResult = null;
+      // Check the request against the spec, giving the LLM one chance to correct it
+      const specErrors = await this.correctAgainstSpec(
+        session,
+        curlResult,
+        formattedSwagger,
+        message,
+        history
+      );
+
+      if (dryRun) {
+        const request = parseCurl(curlResult.curl);
+        return this.formatDryRunResponse([
+          previewRequest(request, {
+            description: curlResult.explanation,
+            swaggerDoc: sessionService.getSpecDoc(session),
+            auth: sessionService.getRequestAuth(session),
+          }),
+        ]);
+      }
+
+      // Requests other than GET that still break the spec are returned unsent with their errors;
+      // the user's next message can confirm them (see getHeldBackRequest)
+      if (specErrors.length > 0 && parseCurl(curlResult.curl).method.toUpperCase() !== 'GET') {
+        return {
+          type: 'curl_command',
+          explanation: `${curlResult.explanation}\n\n⚠️ I did not send this request because it does not match the API spec:\n${specErrors.map(error => `- ${error}`).join('\n')}\n\nCorrect the details, or reply "send it anyway" to send it as it is.`,
+          curl: curlResult.curl,
+          shouldExecute: false,
+          isAuthEndpoint: curlResult.isAuthEndpoint,
+          ...(curlResult.tokenPath && { tokenPath: curlResult.tokenPath }),
+          specErrors,
+        };
+      }
+
+      if (specErrors.length > 0) {
+        curlResult.explanation = `${curlResult.explanation}\n\n⚠️ This request may not match the API spec:\n${specErrors.map(error => `- ${error}`).join('\n')}`;
+      }
 
       log.info('Curl generation result', {
         shouldExecute: curlResult.shouldExecute,
@@ -332,59 +488,7 @@ export class ChatService {
 
       const shouldActuallyExecute = curlResult.shouldExecute || explicitlyAskedToExecute;
 
-      // Execute if shouldExecute is true or user explicitly asked
-      if (shouldActuallyExecute) {
-        log.info('Executing curl command...');
-
-        // Inject auth header if token is available (LLM doesn't include it for security)
-        let curlCommand = curlResult.curl;
-        if (session.authToken && !curlCommand.includes('Authorization')) {
-          const authHeader = session.authToken.startsWith('Bearer ')
-            ? session.authToken
-            : `Bearer ${session.authToken}`;
-          curlCommand += ` -H 'Authorization: ${authHeader}'`;
-          log.info('Injected Authorization header');
-        }
-
-        executionResult = await executeCurl(curlCommand);
-        log.info('Execution result', {
-          success: executionResult.success,
-          httpCode: executionResult.httpCode,
-          hasResponse: !!executionResult.response,
-          hasStderr: !!executionResult.stderr,
-        });
-
-        // Check for token expiration (401 Unauthorized)
-        if (executionResult.httpCode === 401) {
-          log.warn('Received 401 Unauthorized - token expired');
-          return {
-            type: 'error',
-            message:
-              '⚠️ **Authentication token expired.** Please redo the login again or ask me to do this for you.',
-          };
-        }
-
-        // If this is an auth endpoint and we got a successful response, extract and save token
-        if (curlResult.isAuthEndpoint && executionResult.success && executionResult.response) {
-          log.info('Auth endpoint detected, extracting token...');
-
-          // Use the comprehensive token extractor with fallback strategies
-          const extractionResult = tokenExtractorService.extractToken(
-            executionResult.response,
-            curlResult.tokenPath
-          );
-
-          if (extractionResult.success && extractionResult.token) {
-            log.info('Token extracted successfully, saving to session...');
-            await sessionService.updateAuthToken(session.id, extractionResult.token);
-
-            // Add success message to the explanation
-            curlResult.explanation = `${curlResult.explanation}\n\n✅ Authentication successful! Token has been automatically saved to your session.`;
-          } else {
-            log.warn('Failed to extract token', { error: extractionResult.error });
-          }
-        }
-      } else {
+      if (!shouldActuallyExecute) {
         log.info('Not executing - shouldExecute is false');
 
         // Generate appropriate message based on why execution was skipped
@@ -413,17 +517,7 @@ export class ChatService {
         };
       }
 
-      return {
-        type: 'curl_command',
-        explanation: curlResult.explanation,
-        curl: curlResult.curl,
-        shouldExecute: curlResult.shouldExecute,
-        ...(executionResult && {
-          executed: executionResult.success,
-          result: executionResult.response,
-        }),
-        ...(curlResult.note && { note: curlResult.note }),
-      } as ChatResponse;
+      return await this.sendRequest(session, curlResult);
     } catch (error) {
       log.error('Failed to handle single request', error, {
         sessionId: session.id,
@@ -436,6 +530,180 @@ export class ChatService {
     }
   }
 
+  /**
+   * Send a generated request with the session's credentials, saving the token when it logs in
+   */
+  private async sendRequest(
+    session: Session,
+    curlResult: CurlGenerationResult
+  ): Promise<ChatResponse> {
+    log.info('Executing curl command...');
+
+    // Inject session auth if available (LLM doesn't include it for security).
+    // OAuth2 tokens are renewed and the request retried once on 401.
+    const { result: executionResult } = await oauthService.executeCurlWithAuth(
+      session,
+      curlResult.curl
+    );
+    log.info('Execution result', {
+      success: executionResult.success,
+      httpCode: executionResult.httpCode,
+      hasResponse: !!executionResult.response,
+      hasStderr: !!executionResult.stderr,
+    });
+
+    // Check for token expiration (401 Unauthorized)
+    if (executionResult.httpCode === 401) {
+      log.warn('Received 401 Unauthorized - token expired');
+      return {
+        type: 'error',
+        message:
+          '⚠️ **Authentication token expired.** Please redo the login again or ask me to do this for you.',
+      };
+    }
+
+    // If this is an auth endpoint and we got a successful response, extract and save token
+    if (curlResult.isAuthEndpoint && executionResult.success && executionResult.response) {
+      log.info('Auth endpoint detected, extracting token...');
+
+      // Use the comprehensive token extractor with fallback strategies
+      const extractionResult = tokenExtractorService.extractToken(
+        executionResult.response,
+        curlResult.tokenPath
+      );
+
+      if (extractionResult.success && extractionResult.token) {
+        log.info('Token extracted successfully, saving to session...');
+        await sessionService.updateAuthToken(session.id, extractionResult.token);
+
+        // Add success message to the explanation
+        curlResult.explanation = `${curlResult.explanation}\n\n✅ Authentication successful! Token has been automatically saved to your session.`;
+      } else {
+        log.warn('Failed to extract token', { error: extractionResult.error });
+      }
+    }
+
+    return {
+      type: 'curl_command',
+      explanation: curlResult.explanation,
+      curl: curlResult.curl,
+      shouldExecute: curlResult.shouldExecute,
+      executed: executionResult.success,
+      result: executionResult.response,
+      httpCode: executionResult.httpCode,
+      responseMeta: executionResult.meta,
+      ...(curlResult.note && { note: curlResult.note }),
+    } as ChatResponse;
+  }
+
+  /**
+   * The request held back in the previous reply for not matching the spec, when this message
+   * confirms it ("send it anyway"). Only the reply right before the confirmation counts
+   */
+  private getHeldBackRequest(history: Message[], message: string): CurlGenerationResult | null {
+    const previous = history[history.length - 1];
+    if (!/\banyway\b/i.test(message) || previous?.role !== 'assistant' || !previous.metadata) {
+      return null;
+    }
+
+    try {
+      const metadata = JSON.parse(previous.metadata) as {
+        curl?: string;
+        specErrors?: string[];
+        isAuthEndpoint?: boolean;
+        tokenPath?: string;
+      };
+      // Only held-back requests are saved with their spec errors
+      if (!metadata.curl || !metadata.specErrors?.length) {
+        return null;
+      }
+
+      return {
+        type: 'curl_command',
+        explanation: `Sent the request as it was.\n\n⚠️ This request may not match the API spec:\n${metadata.specErrors.map(error => `- ${error}`).join('\n')}`,
+        curl: metadata.curl,
+        shouldExecute: true,
+        isAuthEndpoint: !!metadata.isAuthEndpoint,
+        tokenPath: metadata.tokenPath,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async handleHeldBackRequest(
+    session: Session,
+    request: CurlGenerationResult
+  ): Promise<ChatResponse> {
+    try {
+      return await this.sendRequest(session, request);
+    } catch (error) {
+      log.error('Failed to send held-back request', error, {
+        sessionId: session.id,
+        operation: 'send_held_back_request',
+      });
+      return {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to send the request',
+      };
+    }
+  }
+
+  /**
+   * Errors from checking a generated curl against the operation it calls. When there are any,
+   * they are sent back to the LLM once and its corrected curl replaces the original if it has
+   * fewer; the errors left are returned
+   */
+  private async correctAgainstSpec(
+    session: Session,
+    curlResult: CurlGenerationResult,
+    formattedSwagger: string,
+    message: string,
+    history?: LLMMessage[]
+  ): Promise<string[]> {
+    const doc = sessionService.getSpecDoc(session);
+    const auth = sessionService.getRequestAuth(session);
+    // Credentials are added when the request is sent, so they are checked redacted
+    const check = (curl: string): string[] | null => {
+      try {
+        return validateRequest(doc, applyRedactedAuth(parseCurl(curl), auth)).errors;
+      } catch {
+        return null;
+      }
+    };
+
+    // Curls that cannot be parsed are left for execution to report
+    const errors = check(curlResult.curl);
+    if (!errors || errors.length === 0) {
+      return [];
+    }
+
+    log.info('Generated curl does not match the spec, asking for a correction', { errors });
+    const retryMessage = `${message}\n\nThis curl command you generated does not match the API spec:\n${curlResult.curl}\n\nProblems:\n${errors.map(error => `- ${error}`).join('\n')}\n\nGenerate a corrected curl command.`;
+
+    try {
+      const retryResult = await this.getLLM().generateCurl(
+        formattedSwagger,
+        retryMessage,
+        sessionService.hasAuth(session),
+        history
+      );
+      if (!retryResult.curl || !validateCurlCommand(retryResult.curl).valid) {
+        return errors;
+      }
+
+      const retryErrors = check(retryResult.curl);
+      if (!retryErrors || retryErrors.length >= errors.length) {
+        return errors;
+      }
+      Object.assign(curlResult, retryResult);
+      return retryErrors;
+    } catch (error) {
+      log.error('Curl correction failed', error, { sessionId: session.id });
+      return errors;
+    }
+  }
+
   private async handleApiInfo(
     session: ReturnType<typeof sessionService.findById> extends Promise<infer T> ? T : never,
     message: string,
@@ -448,7 +716,10 @@ export class ChatService {
       };
     }
 
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = sessionService.getFormattedSwagger(
+      session,
+      buildSearchQuery(message, history)
+    );
 
     try {
       // Build messages array with history
@@ -524,10 +795,24 @@ export class ChatService {
       return null;
     }
 
-    // Check workflow reference
-    const workflowReference = await this.detectWorkflowReference(input.message, history);
-    if (workflowReference.shouldReexecute) {
-      return null;
+    // Re-run a workflow the message refers to
+    const workflowReference = await this.detectWorkflowReference(input.message, input.sessionId);
+    if (workflowReference.shouldReexecute && workflowReference.workflow) {
+      const workflow = workflowReference.workflow;
+      const { steps, overrides, inputs, note } = this.getReexecutionOverrides(
+        workflow,
+        input.message
+      );
+      return {
+        stream: this.createWorkflowStream((send, signal) =>
+          this.streamWorkflowExecution(input.sessionId, workflow.id, steps, send, {
+            overrides,
+            inputs,
+            note,
+            signal,
+          })
+        ),
+      };
     }
 
     // Classify intent
@@ -537,139 +822,107 @@ export class ChatService {
     }
 
     // It's a workflow — return a stream
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = await sessionFileService.appendToPrompt(
+      session.id,
+      sessionService.getFormattedSwagger(session, input.message)
+    );
 
-    const stream = new ReadableStream({
-      start: async controller => {
-        const encoder = new TextEncoder();
-        const send = (event: WorkflowStreamEvent) => {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
-        };
+    const stream = this.createWorkflowStream(async (send, signal) => {
+      // Phase 1: Planning
+      send({ type: 'planning', message: 'Planning workflow steps...' });
 
-        try {
-          // Phase 1: Planning
-          send({ type: 'planning', message: 'Planning workflow steps...' });
-
-          let steps: WorkflowStep[];
-          try {
-            steps = await this.getLLM().planWorkflow(
-              formattedSwagger,
-              input.message,
-              !!session.authToken
-            );
-          } catch (planError) {
-            send({
-              type: 'workflow_error',
-              error: `Failed to plan workflow: ${planError instanceof Error ? planError.message : 'Unknown error'}`,
-            });
-            controller.close();
-            return;
-          }
+      let steps: WorkflowStep[];
+      try {
+        steps = await this.getLLM().planWorkflow(
+          formattedSwagger,
+          input.message,
+          sessionService.hasAuth(session)
+        );
+      } catch (planError) {
+        send({
+          type: 'workflow_error',
+          error: `Failed to plan workflow: ${planError instanceof Error ? planError.message : 'Unknown error'}`,
+        });
+        return;
+      }
 
-          if (!steps || steps.length === 0) {
-            send({ type: 'workflow_error', error: 'Could not plan workflow. No steps generated.' });
-            controller.close();
-            return;
-          }
+      if (!steps || steps.length === 0) {
+        send({ type: 'workflow_error', error: 'Could not plan workflow. No steps generated.' });
+        return;
+      }
 
-          // Validate foreign keys
-          const postSteps = steps.filter(s => s.action.method?.toUpperCase() === 'POST');
-          for (const postStep of postSteps) {
-            const missingForeignKeySteps = this.validateForeignKeySteps(
-              postStep,
-              steps,
-              formattedSwagger
-            );
-            if (missingForeignKeySteps.length > 0) {
-              send({
-                type: 'workflow_error',
-                error: `Workflow planning error: Missing foreign key fetching steps for ${postStep.action.endpoint}. Missing: ${missingForeignKeySteps.join(', ')}.`,
-              });
-              controller.close();
-              return;
-            }
-          }
+      // Validate foreign keys
+      const postSteps = steps.filter(s => s.action.method?.toUpperCase() === 'POST');
+      for (const postStep of postSteps) {
+        const missingForeignKeySteps = this.validateForeignKeySteps(
+          postStep,
+          steps,
+          formattedSwagger
+        );
+        if (missingForeignKeySteps.length > 0) {
+          send({
+            type: 'workflow_error',
+            error: `Workflow planning error: Missing foreign key fetching steps for ${postStep.action.endpoint}. Missing: ${missingForeignKeySteps.join(', ')}.`,
+          });
+          return;
+        }
+      }
 
-          // Phase 2: Execute steps with streaming progress
-          const executor = new RequestExecutor(
-            {
-              baseUrl: session.baseUrl || '',
-              authToken: session.authToken || undefined,
-            },
-            {
-              onStepStart: async (stepNum, description, totalSteps) => {
-                send({
-                  type: 'step_start',
-                  step: stepNum,
-                  totalSteps,
-                  description,
-                });
-              },
-              onStepComplete: async (stepNum, result) => {
-                if (result.success) {
-                  send({
-                    type: 'step_complete',
-                    step: stepNum,
-                    totalSteps: steps.length,
-                    description: result.description,
-                    success: true,
-                    result: result.response,
-                    httpCode: result.httpCode,
-                  });
-                } else {
-                  send({
-                    type: 'step_failed',
-                    step: stepNum,
-                    totalSteps: steps.length,
-                    description: result.description,
-                    success: false,
-                    error: result.error,
-                    httpCode: result.httpCode,
-                  });
-                }
-              },
-            }
-          );
+      // Phase 2: Save the plan so it can be edited and run again, then execute it
+      const workflow = await workflowService.createFromSteps({
+        sessionId: session.id,
+        description: input.message,
+        steps,
+      });
 
-          const execResult = await executor.executeSteps(steps);
+      if (input.planOnly) {
+        const plan = this.describePlan(steps);
+        const content = `Planned a workflow with ${steps.length} steps. Review and edit it, then run it.`;
+        send({ type: 'workflow_plan', totalSteps: steps.length, steps: plan });
+        send({ type: 'workflow_planned', workflowId: workflow.id, message: content });
+        try {
+          await messageService.create({
+            sessionId: input.sessionId,
+            role: 'assistant',
+            content,
+            metadata: JSON.stringify({
+              type: 'workflow_plan',
+              workflowId: workflow.id,
+              steps: plan,
+            }),
+          });
+        } catch (error) {
+          log.error('Failed to save workflow plan message', error);
+        }
+        return;
+      }
 
-          // Phase 3: Complete
-          const results = execResult.steps.map(step => ({
-            step: step.step,
-            description: step.description,
-            success: step.success,
-            result: step.response,
-            error: step.error,
-          }));
+      await this.streamWorkflowExecution(input.sessionId, workflow.id, steps, send, { signal });
+    });
 
-          send({
-            type: 'workflow_complete',
-            success: execResult.success,
-            message: execResult.success
-              ? `Workflow completed successfully with ${results.length} steps.`
-              : `Workflow failed at step ${results.find(r => !r.success)?.step}.`,
-            result: results,
-          });
+    return { stream };
+  }
 
-          // Save assistant message
-          try {
-            const content = execResult.success
-              ? `Workflow completed successfully with ${results.length} steps.`
-              : `Workflow failed at step ${results.find(r => !r.success)?.step}: ${results.find(r => !r.success)?.error || 'Unknown error'}`;
-
-            await messageService.create({
-              sessionId: input.sessionId,
-              role: 'assistant',
-              content,
-              metadata: JSON.stringify({
-                type: 'workflow_result',
-                executed: execResult.success,
-                result: results,
-              }),
-            });
-          } catch (error) {
-            log.error('Failed to save workflow assistant message', error);
+  /**
+   * SSE stream of workflow events; errors thrown by `run` end it with a workflow_error event
+   * `signal` aborts when the client goes away (e.g. the tab is closed), cancelling the run
+   */
+  private createWorkflowStream(
+    run: (send: StreamSender, signal: AbortSignal) => Promise<void>
+  ): ReadableStream {
+    const disconnected = new AbortController();
+
+    return new ReadableStream({
+      start: async controller => {
+        const encoder = new TextEncoder();
+        const send: StreamSender = event => {
+          if (!disconnected.signal.aborted) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
           }
+        };
+
+        try {
+          await run(send, disconnected.signal);
         } catch (error) {
           log.error('Workflow stream error', error);
           send({
@@ -677,18 +930,229 @@ export class ChatService {
             error: error instanceof Error ? error.message : 'Workflow execution failed',
           });
         } finally {
-          controller.close();
+          if (!disconnected.signal.aborted) {
+            controller.close();
+          }
         }
       },
+      cancel: () => {
+        log.info('Workflow stream closed by the client');
+        disconnected.abort();
+      },
     });
+  }
 
-    return { stream };
+  /**
+   * Execute a saved workflow, streaming its progress, and save the outcome as an assistant
+   * message referencing the workflow
+   */
+  private async streamWorkflowExecution(
+    sessionId: string,
+    workflowId: string,
+    steps: WorkflowStep[],
+    send: StreamSender,
+    options: {
+      overrides?: Record<number, StepOverride>;
+      inputs?: Record<string, unknown>;
+      note?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<void> {
+    // Announce the plan so steps running in parallel can be shown up front (and the run stopped)
+    send({
+      type: 'workflow_plan',
+      totalSteps: steps.length,
+      steps: this.describePlan(steps),
+      workflowId,
+    });
+
+    const execResult = await workflowService.execute(workflowId, {
+      overrides: options.overrides,
+      inputs: options.inputs,
+      signal: options.signal,
+      events: {
+        onStepStart: async (stepNum, description, totalSteps) => {
+          send({
+            type: 'step_start',
+            step: stepNum,
+            totalSteps,
+            description,
+          });
+        },
+        onItemComplete: async (stepNum, item, totalItems, result) => {
+          send({
+            type: 'step_item',
+            step: stepNum,
+            item,
+            totalItems,
+            success: result.success,
+            error: result.error,
+            httpCode: result.httpCode,
+          });
+        },
+        onStepRetry: async (stepNum, attempt, result, delayMs) => {
+          send({
+            type: 'step_retry',
+            step: stepNum,
+            attempt,
+            delayMs,
+            error: result.error,
+            httpCode: result.httpCode,
+          });
+        },
+        onStepComplete: async (stepNum, result) => {
+          if (result.skipped) {
+            send({
+              type: 'step_skipped',
+              step: stepNum,
+              totalSteps: steps.length,
+              description: result.description,
+            });
+          } else if (result.success) {
+            send({
+              type: 'step_complete',
+              step: stepNum,
+              totalSteps: steps.length,
+              description: result.description,
+              success: true,
+              result: result.response,
+              httpCode: result.httpCode,
+              responseMeta: result.meta,
+              attempts: result.attempts,
+            });
+          } else {
+            send({
+              type: 'step_failed',
+              step: stepNum,
+              totalSteps: steps.length,
+              description: result.description,
+              success: false,
+              error: result.error,
+              httpCode: result.httpCode,
+              responseMeta: result.meta,
+              attempts: result.attempts,
+            });
+          }
+        },
+      },
+    });
+
+    // Phase 3: Complete
+    const response = this.formatWorkflowResponse(workflowId, execResult, options.note);
+    const results = this.toChatResults(execResult);
+
+    send({
+      type: execResult.cancelled ? 'workflow_cancelled' : 'workflow_complete',
+      success: execResult.success,
+      message: response.message,
+      result: results,
+      workflowId,
+      ...(execResult.cancelled && { completedSteps: execResult.completedSteps }),
+    });
+
+    // Save assistant message
+    try {
+      await messageService.create({
+        sessionId,
+        role: 'assistant',
+        content: response.message,
+        metadata: JSON.stringify({
+          type: 'workflow_result',
+          workflowId,
+          executed: execResult.success,
+          result: results,
+          ...(execResult.cancelled && { cancelled: true }),
+        }),
+      });
+    } catch (error) {
+      log.error('Failed to save workflow assistant message', error);
+    }
+  }
+
+  /**
+   * Every step with the steps it waits for and the condition it runs under
+   */
+  private describePlan(steps: WorkflowStep[]): PlannedStep[] {
+    const dependsOn = getStepDependsOn(steps);
+    return steps.map((step, index) => ({
+      step: step.stepNumber,
+      description: step.description,
+      dependsOn: dependsOn[index],
+      when: step.when,
+    }));
+  }
+
+  private toChatResults(execResult: ExecutionResult) {
+    return execResult.steps.map(({ meta, ...step }) => ({ ...step, responseMeta: meta }));
+  }
+
+  private formatWorkflowResponse(
+    workflowId: string,
+    execResult: ExecutionResult,
+    note?: string
+  ): ChatResponse & { message: string } {
+    const results = this.toChatResults(execResult);
+    const withNote = (message: string) => [message, note].filter(Boolean).join(' ');
+
+    if (execResult.success) {
+      return {
+        type: 'workflow_result',
+        message: withNote(`Workflow completed successfully with ${results.length} steps.`),
+        curl: 'Workflow execution completed',
+        shouldExecute: true,
+        executed: true,
+        result: results,
+        workflowId,
+      };
+    }
+
+    if (execResult.cancelled) {
+      const completed = execResult.completedSteps ?? [];
+      return {
+        type: 'error',
+        message: withNote(
+          `Workflow cancelled. ${completed.length > 0 ? `Completed steps: ${completed.join(', ')}.` : 'No step completed.'}`
+        ),
+        curl: 'Workflow execution cancelled',
+        shouldExecute: true,
+        executed: false,
+        result: results,
+        workflowId,
+      } as ChatResponse & { message: string };
+    }
+
+    const failedStep = results.find(r => !r.success);
+    return {
+      type: 'error',
+      message: withNote(
+        `Workflow failed at step ${failedStep?.step}: ${failedStep?.error || 'Unknown error'}`
+      ),
+      curl: 'Workflow execution failed',
+      shouldExecute: true,
+      executed: false,
+      result: results,
+      workflowId,
+    } as ChatResponse & { message: string };
+  }
+
+  private formatDryRunResponse(
+    requests: DryRunRequest[],
+    workflowId?: string,
+    note?: string
+  ): DryRunResult {
+    return {
+      type: 'dry_run',
+      explanation: `${formatDryRunRequests(requests)}${note ? `\n\n_${note}_` : ''}`,
+      requests,
+      ...(workflowId && { workflowId }),
+    };
   }
 
   private async handleWorkflow(
     session: ReturnType<typeof sessionService.findById> extends Promise<infer T> ? T : never,
     message: string,
-    _history?: LLMMessage[]
+    _history?: LLMMessage[],
+    dryRun?: boolean
   ): Promise<ChatResponse> {
     if (!session) {
       return {
@@ -697,7 +1161,10 @@ export class ChatService {
       };
     }
 
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = await sessionFileService.appendToPrompt(
+      session.id,
+      sessionService.getFormattedSwagger(session, message)
+    );
 
     try {
       console.log('[ChatService] Planning workflow for:', message);
@@ -705,7 +1172,11 @@ export class ChatService {
       // Plan the workflow using LLM
       let steps;
       try {
-        steps = await this.getLLM().planWorkflow(formattedSwagger, message, !!session.authToken);
+        steps = await this.getLLM().planWorkflow(
+          formattedSwagger,
+          message,
+          sessionService.hasAuth(session)
+        );
       } catch (planError) {
         console.error('[ChatService] Workflow planning failed:', planError);
         return {
@@ -752,45 +1223,24 @@ export class ChatService {
         }
       }
 
-      // Execute workflow steps using RequestExecutor
-      const executor = new RequestExecutor({
-        baseUrl: session.baseUrl || '',
-        authToken: session.authToken || undefined,
-      });
-
-      const execResult = await executor.executeSteps(steps);
-
-      // Format results for chat response
-      const results = execResult.steps.map(step => ({
-        step: step.step,
-        description: step.description,
-        success: step.success,
-        result: step.response,
-        error: step.error,
-      }));
+      // A dry run only builds the plan's requests: nothing is saved or sent
+      if (dryRun) {
+        return this.formatDryRunResponse(
+          workflowService.previewSteps(session, steps),
+          undefined,
+          'Dry run: this plan was not saved. Send the message without dry run to save and run it.'
+        );
+      }
 
-      const allSuccess = execResult.success;
+      // Save the plan so it can be run again, then execute it
+      const workflow = await workflowService.createFromSteps({
+        sessionId: session.id,
+        description: message,
+        steps,
+      });
+      const execResult = await workflowService.execute(workflow.id);
 
-      if (allSuccess) {
-        return {
-          type: 'workflow_result',
-          message: `Workflow completed successfully with ${results.length} steps.`,
-          curl: 'Workflow execution completed',
-          shouldExecute: true,
-          executed: true,
-          result: results,
-        } as ChatResponse;
-      } else {
-        const failedStep = results.find(r => !r.success);
-        return {
-          type: 'error',
-          message: `Workflow failed at step ${failedStep?.step}: ${failedStep?.error || 'Unknown error'}`,
-          curl: 'Workflow execution failed',
-          shouldExecute: true,
-          executed: false,
-          result: results,
-        } as ChatResponse;
-      }
+      return this.formatWorkflowResponse(workflow.id, execResult);
     } catch (error) {
       console.error('[ChatService] Workflow execution failed:', error);
       return {
@@ -1,7 +1,7 @@
 import { sql } from 'drizzle-orm';
 
 import { db, getDbClient } from '@/lib/db';
-import { sessions, workflows, messages } from '@/lib/db/schema';
+import { sessions, workflows, workflowSchedules, messages } from '@/lib/db/schema';
 import { log } from '@/lib/logger';
 
 export interface CleanupResult {
@@ -75,7 +75,9 @@ export class CleanupService {
   }
 
   /**
-   * Clean up old workflows (completed/failed for more than 7 days)
+   * Clean up old workflows (completed/failed/cancelled for more than 7 days)
+   * Scheduled workflows and templates (workflows with inputs) are kept, however long ago they
+   * last ran
    */
   async cleanupWorkflows(): Promise<number> {
     const cutoffDate = new Date();
@@ -85,7 +87,7 @@ export class CleanupService {
       const result = await db
         .delete(workflows)
         .where(
-          sql`(${workflows.status} = 'completed' OR ${workflows.status} = 'failed') AND ${workflows.completedAt} < ${cutoffDate.toISOString()}`
+          sql`${workflows.status} IN ('completed', 'failed', 'cancelled') AND ${workflows.completedAt} < ${cutoffDate.toISOString()} AND ${workflows.inputs} IS NULL AND ${workflows.id} NOT IN (SELECT ${workflowSchedules.workflowId} FROM ${workflowSchedules})`
         )
         .returning({ id: workflows.id });
 
@@ -7,3 +7,7 @@ export { MessageService, messageService } from './message';
 export { TokenExtractorService, tokenExtractorService } from './tokenExtractor';
 export { WorkflowService, workflowService } from './workflow';
 export type { CreateWorkflowInput, WorkflowWithStats, ExecutionResult } from './workflow';
+export { JobQueueService, jobQueueService } from './job-queue';
+export type { JobDetails, JobEvent, JobOptions, JobStatus } from './job-queue';
+export { ScheduleService, scheduleService } from './schedule';
+export type { ScheduleInput, ScheduleRun, ScheduleWithStatus } from './schedule';
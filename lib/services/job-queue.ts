@@ -0,0 +1,332 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+import { db } from '@/lib/db';
+import { workflowJobs, workflows, WorkflowJob } from '@/lib/db/schema';
+import { log } from '@/lib/logger';
+import { readIntEnv } from '@/lib/utils/env';
+
+import { ExecuteWorkflowOptions, ExecutionResult, workflowService } from './workflow';
+
+// Jobs running at the same time (one per workflow)
+const JOB_CONCURRENCY = readIntEnv('JOB_CONCURRENCY', 2);
+
+export type JobStatus = WorkflowJob['status'];
+
+export type JobOptions = Pick<
+  ExecuteWorkflowOptions,
+  'mode' | 'overrides' | 'inputs' | 'scheduleId'
+>;
+
+// Progress of a job, as sent to subscribers (e.g. over SSE)
+export interface JobEvent {
+  type:
+    | 'job_started'
+    | 'step_start'
+    | 'step_item'
+    | 'step_retry'
+    | 'step_complete'
+    | 'step_failed'
+    | 'step_skipped'
+    | 'job_finished';
+  jobId: string;
+  step?: number;
+  totalSteps?: number;
+  item?: number;
+  totalItems?: number;
+  attempt?: number;
+  delayMs?: number;
+  description?: string;
+  success?: boolean;
+  error?: string;
+  httpCode?: number;
+  // job_finished: the job's final state
+  status?: JobStatus;
+  result?: ExecutionResult;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+export interface JobDetails extends Omit<WorkflowJob, 'options' | 'result'> {
+  options: JobOptions;
+  result: ExecutionResult | null;
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export class JobQueueService {
+  // Jobs running in this process, by job ID, with their workflow
+  private running = new Map<string, string>();
+  // Events of running jobs so far, replayed to late subscribers
+  private progress = new Map<string, JobEvent[]>();
+  private listeners = new Map<string, Set<JobListener>>();
+  // Queue passes run one after another, so two never claim jobs for the same slot
+  private queuePass: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue a workflow execution; it starts as soon as a slot is free
+   */
+  async enqueue(workflowId: string, options: JobOptions = {}): Promise<WorkflowJob> {
+    const job: WorkflowJob = {
+      id: crypto.randomUUID(),
+      workflowId,
+      status: 'queued',
+      options: JSON.stringify(options),
+      result: null,
+      error: null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+    };
+
+    await db.insert(workflowJobs).values(job);
+    log.info('Workflow job queued', { jobId: job.id, workflowId });
+
+    void this.processQueue();
+    return job;
+  }
+
+  async findById(id: string): Promise<JobDetails | null> {
+    const results = await db.select().from(workflowJobs).where(eq(workflowJobs.id, id)).limit(1);
+    return results[0] ? this.toDetails(results[0]) : null;
+  }
+
+  isFinished(job: Pick<WorkflowJob, 'status'>): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+  }
+
+  /**
+   * Listen to a job's progress; events it already sent are replayed first
+   * Returns the function that stops listening
+   */
+  subscribe(jobId: string, listener: JobListener): () => void {
+    for (const event of this.progress.get(jobId) ?? []) {
+      listener(event);
+    }
+
+    const listeners = this.listeners.get(jobId) ?? new Set<JobListener>();
+    listeners.add(listener);
+    this.listeners.set(jobId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(jobId);
+      }
+    };
+  }
+
+  /**
+   * Cancel a job: queued jobs never start, running ones are cancelled like their workflow
+   */
+  async cancel(jobId: string): Promise<JobDetails> {
+    const job = await this.findById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status === 'queued') {
+      await db
+        .update(workflowJobs)
+        .set({ status: 'cancelled', completedAt: new Date() })
+        .where(and(eq(workflowJobs.id, jobId), eq(workflowJobs.status, 'queued')));
+      this.emit({ type: 'job_finished', jobId, status: 'cancelled' });
+    } else if (job.status === 'running') {
+      await workflowService.cancel(job.workflowId);
+      // The run finishes the job itself; a job no process runs anymore is closed here
+      if (!this.running.has(jobId)) {
+        await db
+          .update(workflowJobs)
+          .set({ status: 'cancelled', completedAt: new Date() })
+          .where(and(eq(workflowJobs.id, jobId), eq(workflowJobs.status, 'running')));
+      }
+    } else {
+      throw new Error(`Only queued or running jobs can be cancelled (status: ${job.status})`);
+    }
+
+    return (await this.findById(jobId))!;
+  }
+
+  /**
+   * Called once on server start: jobs that were running when the server stopped are marked
+   * failed (along with their workflow, so the run can be resumed), and queued jobs start
+   */
+  async recover(): Promise<void> {
+    const interrupted = await db
+      .select()
+      .from(workflowJobs)
+      .where(eq(workflowJobs.status, 'running'));
+
+    if (interrupted.length > 0) {
+      const completedAt = new Date();
+      await db
+        .update(workflowJobs)
+        .set({ status: 'failed', error: 'Interrupted by a server restart', completedAt })
+        .where(
+          inArray(
+            workflowJobs.id,
+            interrupted.map(job => job.id)
+          )
+        );
+      await db
+        .update(workflows)
+        .set({ status: 'failed', updatedAt: completedAt, completedAt })
+        .where(
+          and(
+            inArray(
+              workflows.id,
+              interrupted.map(job => job.workflowId)
+            ),
+            eq(workflows.status, 'running')
+          )
+        );
+      log.warn('Marked interrupted workflow jobs as failed', { count: interrupted.length });
+    }
+
+    await this.processQueue();
+  }
+
+  private processQueue(): Promise<void> {
+    this.queuePass = this.queuePass
+      .then(() => this.startQueuedJobs())
+      .catch(error => log.error('Failed to start queued workflow jobs', error));
+    return this.queuePass;
+  }
+
+  /**
+   * Start queued jobs, oldest first, while there are free slots. A job waits while another
+   * job of the same workflow runs
+   */
+  private async startQueuedJobs(): Promise<void> {
+    while (this.running.size < JOB_CONCURRENCY) {
+      const busy = new Set(this.running.values());
+      const queued = await db
+        .select()
+        .from(workflowJobs)
+        .where(eq(workflowJobs.status, 'queued'))
+        .orderBy(sql`rowid`);
+      const next = queued.find(job => !busy.has(job.workflowId));
+      if (!next) {
+        return;
+      }
+
+      // Claim the job; it may have been cancelled in the meantime
+      const claimed = await db
+        .update(workflowJobs)
+        .set({ status: 'running', startedAt: new Date() })
+        .where(and(eq(workflowJobs.id, next.id), eq(workflowJobs.status, 'queued')))
+        .returning({ id: workflowJobs.id });
+      if (claimed.length === 0) {
+        continue;
+      }
+
+      this.running.set(next.id, next.workflowId);
+      this.progress.set(next.id, []);
+      void this.run(this.toDetails(next))
+        .catch(error => log.error('Failed to record workflow job', error, { jobId: next.id }))
+        .finally(() => {
+          this.running.delete(next.id);
+          this.progress.delete(next.id);
+          void this.processQueue();
+        });
+    }
+  }
+
+  private async run(job: JobDetails): Promise<void> {
+    const jobId = job.id;
+    this.emit({ type: 'job_started', jobId });
+
+    let status: JobStatus;
+    let result: ExecutionResult | null = null;
+    let error: string | null = null;
+    try {
+      result = await workflowService.execute(job.workflowId, {
+        ...job.options,
+        events: {
+          onStepStart: (step, description, totalSteps) =>
+            this.emit({ type: 'step_start', jobId, step, description, totalSteps }),
+          onItemComplete: (step, item, totalItems, itemResult) =>
+            this.emit({
+              type: 'step_item',
+              jobId,
+              step,
+              item,
+              totalItems,
+              success: itemResult.success,
+              error: itemResult.error,
+              httpCode: itemResult.httpCode,
+            }),
+          onStepRetry: (step, attempt, attemptResult, delayMs) =>
+            this.emit({
+              type: 'step_retry',
+              jobId,
+              step,
+              attempt,
+              delayMs,
+              error: attemptResult.error,
+              httpCode: attemptResult.httpCode,
+            }),
+          onStepComplete: (step, stepResult) =>
+            this.emit({
+              type: stepResult.skipped
+                ? 'step_skipped'
+                : stepResult.success
+                  ? 'step_complete'
+                  : 'step_failed',
+              jobId,
+              step,
+              description: stepResult.description,
+              success: stepResult.success,
+              error: stepResult.error,
+              httpCode: stepResult.httpCode,
+            }),
+        },
+      });
+      status = result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed';
+    } catch (executionError) {
+      log.error('Workflow job failed', executionError, { jobId, workflowId: job.workflowId });
+      status = 'failed';
+      error = executionError instanceof Error ? executionError.message : 'Workflow job failed';
+    }
+
+    await db
+      .update(workflowJobs)
+      .set({
+        status,
+        result: result ? JSON.stringify(result) : null,
+        error,
+        completedAt: new Date(),
+      })
+      .where(eq(workflowJobs.id, jobId));
+
+    log.info('Workflow job finished', { jobId, workflowId: job.workflowId, status });
+    this.emit({
+      type: 'job_finished',
+      jobId,
+      status,
+      ...(result && { result }),
+      ...(error && { error }),
+    });
+  }
+
+  private emit(event: JobEvent): void {
+    this.progress.get(event.jobId)?.push(event);
+    for (const listener of this.listeners.get(event.jobId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error('Job listener failed', error, { jobId: event.jobId });
+      }
+    }
+  }
+
+  private toDetails(job: WorkflowJob): JobDetails {
+    return {
+      ...job,
+      options: job.options ? (JSON.parse(job.options) as JobOptions) : {},
+      result: job.result ? (JSON.parse(job.result) as ExecutionResult) : null,
+    };
+  }
+}
+
+// Singleton instance
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,243 @@
+/**
+ * OAuth2 Service
+ * Obtains and renews OAuth2 access tokens for sessions (client credentials, password, refresh token)
+ */
+
+import { Session } from '@/lib/db/schema';
+import { OAuth2Config, OAuth2Flow, ExecutionResult, HttpRequest } from '@/lib/types';
+import { log } from '@/lib/logger';
+import { parseCurl, toCurl } from '@/lib/utils/curl';
+import { executeRequest } from '@/lib/utils/http-client';
+import { applyAuthToRequest, isAuthExpired, SessionAuth } from '@/lib/utils/auth';
+
+import { sessionService } from './session';
+import { sessionFileService } from './session-file';
+
+export interface OAuthTokenResult {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+export type AuthRefresher = () => Promise<SessionAuth | null>;
+
+const GRANT_TYPES: Record<OAuth2Flow, string> = {
+  clientCredentials: 'client_credentials',
+  password: 'password',
+  refreshToken: 'refresh_token',
+};
+
+const TOKEN_REQUEST_TIMEOUT_MS = 15000;
+
+export class OAuthService {
+  /**
+   * Request a token from the authorization server
+   * Relative token URLs are resolved against the session base URL
+   */
+  async requestToken(
+    config: OAuth2Config,
+    flow: OAuth2Flow = config.flow,
+    baseUrl?: string | null
+  ): Promise<OAuthTokenResult> {
+    const tokenUrl = baseUrl ? new URL(config.tokenUrl, `${baseUrl}/`).toString() : config.tokenUrl;
+
+    const params = new URLSearchParams({ grant_type: GRANT_TYPES[flow] });
+    if (config.clientId) {
+      params.set('client_id', config.clientId);
+    }
+    if (config.clientSecret) {
+      params.set('client_secret', config.clientSecret);
+    }
+    if (config.scopes && config.scopes.length > 0) {
+      params.set('scope', config.scopes.join(' '));
+    }
+    if (flow === 'password') {
+      params.set('username', config.username || '');
+      params.set('password', config.password || '');
+    }
+    if (flow === 'refreshToken') {
+      params.set('refresh_token', config.refreshToken || '');
+    }
+
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: params.toString(),
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+    });
+
+    let data: Record<string, unknown> = {};
+    try {
+      data = (await response.json()) as Record<string, unknown>;
+    } catch {
+      // Non-JSON token response, handled below
+    }
+
+    if (!response.ok || typeof data.access_token !== 'string') {
+      const reason =
+        (typeof data.error_description === 'string' && data.error_description) ||
+        (typeof data.error === 'string' && data.error) ||
+        `${response.status} ${response.statusText}`;
+      throw new Error(`OAuth2 token request failed: ${reason}`);
+    }
+
+    const expiresIn = Number(data.expires_in);
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+      expiresAt:
+        Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+    };
+  }
+
+  /**
+   * Obtain a new access token for a session and persist it
+   * Uses the refresh token when one is available, falling back to the configured flow
+   */
+  async refreshSessionAuth(session: Session): Promise<SessionAuth | null> {
+    const auth = sessionService.getRequestAuth(session);
+    if (!auth || auth.config.type !== 'oauth2') {
+      return null;
+    }
+
+    const config = auth.config;
+    let token: OAuthTokenResult | null = null;
+
+    if (config.refreshToken) {
+      try {
+        token = await this.requestToken(config, 'refreshToken', session.baseUrl);
+      } catch (error) {
+        if (config.flow === 'refreshToken') {
+          throw error;
+        }
+        log.warn('OAuth2 refresh token rejected, requesting a new token', {
+          sessionId: session.id,
+          flow: config.flow,
+        });
+      }
+    }
+
+    if (!token) {
+      token = await this.requestToken(config, config.flow, session.baseUrl);
+    }
+
+    const updatedConfig: OAuth2Config = {
+      ...config,
+      refreshToken: token.refreshToken || config.refreshToken,
+      expiresAt: token.expiresAt,
+    };
+
+    await sessionService.updateAuthConfig(session.id, updatedConfig);
+    await sessionService.updateAuthToken(session.id, token.accessToken);
+
+    // Keep the in-memory session in sync for callers that reuse it
+    session.authToken = token.accessToken;
+    session.authConfig = JSON.stringify(updatedConfig);
+
+    log.info('OAuth2 token renewed', { sessionId: session.id, expiresAt: token.expiresAt });
+
+    return { config: updatedConfig, credential: token.accessToken };
+  }
+
+  /**
+   * Get the session auth, renewing an expired or missing OAuth2 token first
+   */
+  async getFreshAuth(session: Session): Promise<SessionAuth | null> {
+    const auth = sessionService.getRequestAuth(session);
+    if (!isAuthExpired(auth)) {
+      return auth;
+    }
+
+    try {
+      return (await this.refreshSessionAuth(session)) ?? auth;
+    } catch (error) {
+      log.error('Failed to renew OAuth2 token', error, { sessionId: session.id });
+      return auth;
+    }
+  }
+
+  /**
+   * Build a refresh callback for RequestExecutor, or undefined for static credentials
+   */
+  createAuthRefresher(session: Session): AuthRefresher | undefined {
+    const auth = sessionService.getRequestAuth(session);
+    if (!auth || auth.config.type !== 'oauth2') {
+      return undefined;
+    }
+
+    return async () => {
+      try {
+        return await this.refreshSessionAuth(session);
+      } catch (error) {
+        log.error('Failed to renew OAuth2 token', error, { sessionId: session.id });
+        return null;
+      }
+    };
+  }
+
+  /**
+   * Apply session auth to a request and execute it (file references resolve to session files
+   * and binary responses are saved as session artifacts)
+   * On a 401 with OAuth2 auth, the token is renewed and the request retried once
+   */
+  async executeWithAuth(
+    session: Session,
+    request: HttpRequest
+  ): Promise<{ request: HttpRequest; result: ExecutionResult }> {
+    const options = {
+      loadFile: sessionFileService.createLoader(session.id),
+      saveArtifact: sessionFileService.createArtifactSaver(session.id),
+    };
+    let authenticatedRequest = applyAuthToRequest(request, await this.getFreshAuth(session));
+    let result = await executeRequest(authenticatedRequest, options);
+
+    const refresh = this.createAuthRefresher(session);
+    if (result.httpCode === 401 && refresh) {
+      log.warn('Received 401 Unauthorized - renewing OAuth2 token and retrying', {
+        sessionId: session.id,
+      });
+      const refreshed = await refresh();
+      if (refreshed) {
+        authenticatedRequest = applyAuthToRequest(request, refreshed);
+        result = await executeRequest(authenticatedRequest, options);
+      }
+    }
+
+    return { request: authenticatedRequest, result };
+  }
+
+  /**
+   * Parse a curl command, apply session auth and execute it
+   * Returns the executed request rendered back as curl
+   */
+  async executeCurlWithAuth(
+    session: Session,
+    curl: string
+  ): Promise<{ curl: string; result: ExecutionResult }> {
+    let request: HttpRequest;
+    try {
+      request = parseCurl(curl);
+    } catch (error) {
+      return {
+        curl,
+        result: {
+          success: false,
+          stdout: '',
+          stderr: error instanceof Error ? error.message : 'Invalid curl command',
+          exitCode: 1,
+          httpCode: 0,
+        },
+      };
+    }
+
+    const { request: executed, result } = await this.executeWithAuth(session, request);
+    return { curl: toCurl(executed), result };
+  }
+}
+
+// Singleton instance
+export const oauthService = new OAuthService();
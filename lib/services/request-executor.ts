@@ -4,19 +4,74 @@
  * Eliminates duplication between chat.ts and workflow.ts
  */
 
-import { WorkflowStep } from '@/lib/types';
+import {
+  AssertionResult,
+  DryRunRequest,
+  ExecutionResult as HttpExecutionResult,
+  HttpRequest,
+  ResponseMeta,
+  RetryPolicy,
+  SwaggerDoc,
+  WorkflowStep,
+} from '@/lib/types';
 import { log } from '@/lib/logger';
-import { executeCurl } from '@/lib/utils/curl';
+import { toCurl } from '@/lib/utils/curl';
+import { readIntEnv } from '@/lib/utils/env';
+import { ArtifactSaver, executeRequest, FileLoader } from '@/lib/utils/http-client';
+import { applyAuthToRequest, isAuthExpired, SessionAuth } from '@/lib/utils/auth';
+import { previewRequest } from '@/lib/utils/dry-run';
+import { evaluateAssertions, summarizeFailedAssertions } from '@/lib/utils/assertions';
+import { buildRequestBody, getRequestBodyTypes } from '@/lib/utils/request-body';
+import { getRetryDelay, isRetryable, resolveRetryPolicy } from '@/lib/utils/retry';
+import { ConditionReference, evaluateCondition, getPathValue } from '@/lib/utils/condition';
+import { buildStepGraph, getCompensationSteps } from '@/lib/utils/step-graph';
+import {
+  applyItemTemplate,
+  filterItems,
+  FOR_EACH_MAX_ITEMS,
+  mapWithConcurrency,
+} from '@/lib/utils/for-each';
+
+// Steps of one workflow run in flight at the same time
+const WORKFLOW_CONCURRENCY = readIntEnv('WORKFLOW_CONCURRENCY', 4);
 
 export interface RequestContext {
   baseUrl: string;
-  authToken?: string;
+  auth?: SessionAuth | null;
+  // Renews expiring credentials (OAuth2); requests are retried once after a 401
+  refreshAuth?: () => Promise<SessionAuth | null>;
+  // Spec used to pick each step's body media type (JSON when missing)
+  swaggerDoc?: SwaggerDoc;
+  // Reads session files for multipart parts and file bodies
+  loadFile?: FileLoader;
+  // Keeps binary responses (images, PDFs) as session artifacts
+  saveArtifact?: ArtifactSaver;
 }
 
 export interface ExecutionOptions {
   workflowId?: string;
+  // Independent steps running at once (WORKFLOW_CONCURRENCY by default, 1 runs in order)
+  concurrency?: number;
+  // Workflow-wide retry policy; steps can override parts of it with their own `retry`
+  retry?: RetryPolicy | null;
+  // Cancels the run: in-flight requests are aborted and no new steps, items or retries start
+  signal?: AbortSignal;
   onStepStart?: (step: number, description: string, totalSteps: number) => void | Promise<void>;
   onStepComplete?: (step: number, result: StepResult) => void | Promise<void>;
+  // forEach steps: called as each item's request finishes (item is 1-based)
+  onItemComplete?: (
+    step: number,
+    item: number,
+    totalItems: number,
+    result: StepResult
+  ) => void | Promise<void>;
+  // Called for every failed attempt that is retried (attempt is 1-based), before the delay
+  onStepRetry?: (
+    step: number,
+    attempt: number,
+    result: StepResult,
+    delayMs: number
+  ) => void | Promise<void>;
   onAuthSuccess?: (token: string, tokenPath?: string) => void | Promise<void>;
 }
 
@@ -29,67 +84,257 @@ export interface StepResult {
   error?: string;
   extractedData?: Record<string, unknown>;
   httpCode?: number;
+  meta?: ResponseMeta;
+  // The step's `when` condition did not hold (or it is an unused compensating step)
+  skipped?: boolean;
+  // Attempts made for the request, retries included (set per item for forEach items)
+  attempts?: number;
+  // Outcome of the step's assertions (forEach steps: of the failed item, or the last one)
+  assertions?: AssertionResult[];
 }
 
 export interface ExecutionResult {
   success: boolean;
   steps: StepResult[];
   extractedData: Record<string, unknown>;
+  // The run was cancelled through `signal`; steps that never started have no result
+  cancelled?: boolean;
+}
+
+// Where an earlier run stopped: its successful (and skipped) steps are not run again
+export interface ResumeState {
+  results: StepResult[];
+  extractedData: Record<string, unknown>;
 }
 
 export class RequestExecutor {
+  private authRenewal: Promise<boolean> | null = null;
+  // Results of finished steps by step number, for forEach sources like "step1.data" and
+  // conditions like "step1.status == 404"
+  private stepResults = new Map<number, StepResult>();
+
   constructor(
     private context: RequestContext,
     private options?: ExecutionOptions
   ) {}
 
+  private get concurrency(): number {
+    return Math.max(1, this.options?.concurrency ?? WORKFLOW_CONCURRENCY);
+  }
+
+  private get cancelled(): boolean {
+    return !!this.options?.signal?.aborted;
+  }
+
   /**
    * Execute a series of workflow steps
+   * Steps start once the steps they depend on have completed (see buildStepGraph), up to the
+   * concurrency limit. Steps whose `when` condition does not hold are skipped. After a failure
+   * no new steps start; running ones are awaited, then the failed steps' onFailure
+   * compensating steps run one at a time and the workflow still reports the failure.
+   * With `resume`, the earlier run's successful steps count as done and its extracted data is
+   * available, so execution continues from the steps that failed or never ran.
+   * Once cancelled, no new steps (compensating ones included) start and the run reports
+   * `cancelled`
    */
-  async executeSteps(steps: WorkflowStep[]): Promise<ExecutionResult> {
-    const results: StepResult[] = [];
-    const extractedData: Record<string, unknown> = {};
+  async executeSteps(steps: WorkflowStep[], resume?: ResumeState): Promise<ExecutionResult> {
+    const results: Array<{ index: number; result: StepResult }> = [];
+    const extractedData: Record<string, unknown> = { ...resume?.extractedData };
+    const graph = buildStepGraph(steps);
+    const compensations = getCompensationSteps(steps);
+    const concurrency = this.concurrency;
+    this.stepResults.clear();
+
+    const completed = new Set<number>();
+    for (const previous of resume?.results ?? []) {
+      const index = steps.findIndex(step => step.stepNumber === previous.step);
+      // Compensating steps are only done if they actually ran
+      const done = previous.success && !(previous.skipped && compensations.has(index));
+      if (index >= 0 && done && !completed.has(index)) {
+        results.push({ index, result: previous });
+        this.stepResults.set(previous.step, previous);
+        completed.add(index);
+      }
+    }
+
+    const running = new Map<number, Promise<void>>();
+    // Compensating steps to run, with the step whose failure triggered them
+    const pendingCompensations: Array<{ index: number; trigger: number }> = [];
+    let failed = false;
+
+    const finishStep = async (index: number, result: StepResult): Promise<void> => {
+      results.push({ index, result });
+      this.stepResults.set(result.step, result);
+
+      // Call optional callback for recording (and step complete/failed/skipped events)
+      if (this.options?.onStepComplete) {
+        await this.options.onStepComplete(result.step, result);
+      }
+      completed.add(index);
+    };
+
+    const runStep = async (index: number, trigger?: number): Promise<void> => {
+      const step = steps[index];
+      if (this.cancelled) {
+        return;
+      }
+
+      let runs: boolean;
+      try {
+        runs = !step.when || this.evaluateStepCondition(step, index, steps, extractedData, trigger);
+      } catch (error) {
+        failed = true;
+        await finishStep(index, {
+          step: step.stepNumber,
+          description: step.description,
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid condition',
+        });
+        return;
+      }
+
+      if (!runs) {
+        log.info(`[WORKFLOW] Step ${step.stepNumber} skipped`, { when: step.when });
+        await finishStep(index, this.skippedResult(step));
+        return;
+      }
 
-    for (const step of steps) {
       // Emit step start event
       if (this.options?.onStepStart) {
         await this.options.onStepStart(step.stepNumber, step.description, steps.length);
       }
 
       const result = await this.executeStep(step, steps, extractedData);
-      results.push(result);
 
       if (!result.success) {
+        failed = true;
         log.error(
           `[WORKFLOW] Step ${step.stepNumber} failed`,
           new Error(result.error || 'Unknown error')
         );
 
-        // Emit step complete (failed) event
-        if (this.options?.onStepComplete) {
-          await this.options.onStepComplete(step.stepNumber, result);
+        const handler = steps.findIndex(candidate => candidate.stepNumber === step.onFailure);
+        if (handler >= 0 && handler !== index) {
+          pendingCompensations.push({ index: handler, trigger: step.stepNumber });
         }
+      }
 
-        return {
-          success: false,
-          steps: results,
-          extractedData,
-        };
+      await finishStep(index, result);
+    };
+
+    const startReadySteps = () => {
+      for (let index = 0; index < steps.length && running.size < concurrency; index++) {
+        const ready =
+          !running.has(index) &&
+          !completed.has(index) &&
+          !compensations.has(index) &&
+          graph[index].every(dependency => completed.has(dependency));
+        if (ready) {
+          running.set(
+            index,
+            runStep(index).finally(() => running.delete(index))
+          );
+        }
+      }
+    };
+
+    startReadySteps();
+    while (running.size > 0) {
+      await Promise.race(running.values());
+      if (!failed && !this.cancelled) {
+        startReadySteps();
       }
+    }
 
-      // Call optional callback for recording
-      if (this.options?.onStepComplete) {
-        await this.options.onStepComplete(step.stepNumber, result);
+    // A compensating step runs at most once, and may itself hand over to another on failure
+    for (let next = pendingCompensations.shift(); next; next = pendingCompensations.shift()) {
+      if (!completed.has(next.index)) {
+        await runStep(next.index, next.trigger);
+      }
+    }
+
+    // Compensating steps no failure called for
+    for (const index of compensations) {
+      if (!completed.has(index) && !this.cancelled) {
+        await finishStep(index, this.skippedResult(steps[index]));
       }
     }
 
     return {
-      success: true,
-      steps: results,
+      success: !failed && !this.cancelled,
+      steps: results.sort((a, b) => a.index - b.index).map(entry => entry.result),
       extractedData,
+      ...(this.cancelled && { cancelled: true }),
+    };
+  }
+
+  private skippedResult(step: WorkflowStep): StepResult {
+    return {
+      step: step.stepNumber,
+      description: step.description,
+      success: true,
+      skipped: true,
     };
   }
 
+  /**
+   * Evaluate a step's `when` condition against the results so far (throws when malformed)
+   * - Extracted fields by key ("step1_id") or by name as in placeholders ("id")
+   * - "status": HTTP status of the previous step (of the failed step, for compensating steps)
+   * - "stepN": that step's response body ("step1.length", "step1[0].id"), or its result via
+   *   "stepN.status", "stepN.body", "stepN.success" and "stepN.skipped"
+   */
+  private evaluateStepCondition(
+    step: WorkflowStep,
+    index: number,
+    steps: WorkflowStep[],
+    extractedData: Record<string, unknown>,
+    trigger?: number
+  ): boolean {
+    const fieldToStepMap = this.buildFieldToStepMap(step, extractedData);
+
+    const resolve = (reference: ConditionReference): unknown => {
+      if (extractedData[reference.raw] !== undefined) {
+        return extractedData[reference.raw];
+      }
+
+      if (reference.raw === 'status') {
+        const previous = trigger ?? (index > 0 ? steps[index - 1].stepNumber : undefined);
+        return previous === undefined ? undefined : this.stepResults.get(previous)?.httpCode;
+      }
+
+      const stepReference = reference.root.match(/^step(\d+)$/);
+      if (stepReference) {
+        const result = this.stepResults.get(parseInt(stepReference[1], 10));
+        if (!result) {
+          return undefined;
+        }
+        const fields: Record<string, unknown> = {
+          status: result.httpCode,
+          body: result.response,
+          success: result.success,
+          skipped: !!result.skipped,
+        };
+        const [first] = reference.path;
+        return typeof first === 'string' && first in fields
+          ? getPathValue(fields, reference.path)
+          : getPathValue(result.response, reference.path);
+      }
+
+      const value = this.resolvePlaceholder(
+        reference.root,
+        reference.root,
+        fieldToStepMap,
+        extractedData
+      );
+      return getPathValue(value, reference.path);
+    };
+
+    const runs = evaluateCondition(step.when!, resolve);
+    log.info(`[WORKFLOW] Step ${step.stepNumber} condition evaluated`, { when: step.when, runs });
+    return runs;
+  }
+
   /**
    * Execute a single workflow step
    */
@@ -99,25 +344,20 @@ export class RequestExecutor {
     extractedData: Record<string, unknown>
   ): Promise<StepResult> {
     try {
-      // Build and execute curl command
-      const curl = this.buildCurlCommand(step, extractedData);
-      log.info(`[WORKFLOW] Built curl command for step ${step.stepNumber}`, {
-        description: step.description,
-        curl: curl.substring(0, 500),
-        curlLength: curl.length,
-      });
+      if (step.forEach) {
+        return await this.executeForEachStep(step, extractedData);
+      }
 
-      const executionResult = await executeCurl(curl);
+      const { curl, executionResult, attempts } = await this.sendWithRetry(step, extractedData);
 
-      // Check for HTTP errors
-      if (!executionResult.success) {
+      // Check for HTTP errors and failed assertions
+      const checked = this.checkResponse(step, executionResult);
+      if (!checked.success) {
         return {
-          step: step.stepNumber,
-          description: step.description,
-          success: false,
-          curl,
-          error: executionResult.stderr || `HTTP ${executionResult.httpCode}: Request failed`,
-          httpCode: executionResult.httpCode,
+          ...this.failedAttempt(step, step.description, curl, executionResult),
+          error: checked.error,
+          attempts,
+          assertions: checked.assertions,
         };
       }
 
@@ -131,7 +371,10 @@ export class RequestExecutor {
         curl,
         response: executionResult.response,
         httpCode: executionResult.httpCode,
+        meta: executionResult.meta,
         extractedData: { ...extractedData },
+        attempts,
+        assertions: checked.assertions,
       };
     } catch (error) {
       log.error(
@@ -147,10 +390,397 @@ export class RequestExecutor {
     }
   }
 
+  private failedAttempt(
+    step: WorkflowStep,
+    description: string,
+    curl: string,
+    executionResult: HttpExecutionResult
+  ): StepResult {
+    return {
+      step: step.stepNumber,
+      description,
+      success: false,
+      curl,
+      error: executionResult.stderr || `HTTP ${executionResult.httpCode}: Request failed`,
+      response: executionResult.response,
+      httpCode: executionResult.httpCode,
+      meta: executionResult.meta,
+    };
+  }
+
+  /**
+   * Whether a step's response counts as a success: a 2xx status (any HTTP response when the
+   * step asserts the status) and every assertion passing
+   */
+  private checkResponse(
+    step: WorkflowStep,
+    executionResult: HttpExecutionResult
+  ): { success: boolean; error?: string; assertions?: AssertionResult[] } {
+    const assertions = step.assertions ?? [];
+    const expectsStatus = assertions.some(assertion => assertion.type === 'status');
+    if (!executionResult.success && !(expectsStatus && executionResult.httpCode)) {
+      return {
+        success: false,
+        error: executionResult.stderr || `HTTP ${executionResult.httpCode}: Request failed`,
+      };
+    }
+    if (assertions.length === 0) {
+      return { success: true };
+    }
+
+    const swaggerDoc = this.context.swaggerDoc;
+    const results = evaluateAssertions(
+      assertions,
+      {
+        httpCode: executionResult.httpCode,
+        body: executionResult.response,
+        meta: executionResult.meta,
+      },
+      swaggerDoc && {
+        doc: swaggerDoc,
+        method: step.action.method || 'GET',
+        endpoint: step.action.endpoint || '',
+      }
+    );
+    const failed = summarizeFailedAssertions(results);
+    return { success: !failed, error: failed ?? undefined, assertions: results };
+  }
+
+  /**
+   * Send a step's request, retrying network errors and retryable statuses with backoff as
+   * the step's retry policy allows. Retried attempts are reported through onStepRetry
+   */
+  private async sendWithRetry(
+    step: WorkflowStep,
+    extractedData: Record<string, unknown>,
+    description = step.description
+  ): Promise<{ curl: string; executionResult: HttpExecutionResult; attempts: number }> {
+    const policy = resolveRetryPolicy(this.options?.retry, step.retry);
+
+    for (let attempt = 1; ; attempt++) {
+      const { curl, executionResult } = await this.sendStepRequest(step, extractedData);
+      if (
+        attempt >= policy.maxAttempts ||
+        !isRetryable(policy, executionResult) ||
+        this.cancelled
+      ) {
+        return { curl, executionResult, attempts: attempt };
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, executionResult);
+      log.warn(`[WORKFLOW] Step ${step.stepNumber} attempt ${attempt} failed, retrying`, {
+        httpCode: executionResult.httpCode,
+        error: executionResult.stderr || undefined,
+        delayMs,
+        maxAttempts: policy.maxAttempts,
+      });
+      if (this.options?.onStepRetry) {
+        await this.options.onStepRetry(
+          step.stepNumber,
+          attempt,
+          this.failedAttempt(step, description, curl, executionResult),
+          delayMs
+        );
+      }
+      await this.wait(delayMs);
+    }
+  }
+
+  // Resolves after `ms`, or as soon as the run is cancelled
+  private wait(ms: number): Promise<void> {
+    const signal = this.options?.signal;
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done);
+    });
+  }
+
+  /**
+   * Build and send a step's request (the curl form is kept for display)
+   * Expiring credentials are renewed first; a 401 renews them and retries once
+   */
+  private async sendStepRequest(
+    step: WorkflowStep,
+    extractedData: Record<string, unknown>
+  ): Promise<{ curl: string; executionResult: HttpExecutionResult }> {
+    if (isAuthExpired(this.context.auth)) {
+      await this.renewAuth();
+    }
+
+    let request = this.buildRequest(step, extractedData);
+    let curl = toCurl(request);
+    log.info(`[WORKFLOW] Built request for step ${step.stepNumber}`, {
+      description: step.description,
+      curl: curl.substring(0, 500),
+      curlLength: curl.length,
+    });
+
+    const executeOptions = {
+      loadFile: this.context.loadFile,
+      saveArtifact: this.context.saveArtifact,
+      signal: this.options?.signal,
+    };
+    let executionResult = await executeRequest(request, executeOptions);
+
+    // Renew the token and retry once if the server rejected our credentials
+    if (executionResult.httpCode === 401 && (await this.renewAuth())) {
+      log.warn(`[WORKFLOW] Step ${step.stepNumber} got 401, retrying with renewed token`);
+      request = this.buildRequest(step, extractedData);
+      curl = toCurl(request);
+      executionResult = await executeRequest(request, executeOptions);
+    }
+
+    return { curl, executionResult };
+  }
+
+  /**
+   * Items a forEach step iterates over: a step's response ("step1", "step1.data") or an
+   * extracted field, filtered and limited to forEach.maxItems
+   */
+  private resolveForEachItems(
+    step: WorkflowStep,
+    extractedData: Record<string, unknown>
+  ): unknown[] {
+    const forEach = step.forEach!;
+    const source = forEach.source.replace(/^\{\{|\}\}$/g, '').trim();
+
+    let value: unknown;
+    const stepSource = source.match(/^step(\d+)(?:\.(.+))?$/);
+    const stepResult = stepSource && this.stepResults.get(parseInt(stepSource[1], 10));
+    if (stepSource && stepResult && stepResult.success && !stepResult.skipped) {
+      const response = stepResult.response;
+      value = stepSource[2] ? this.extractFieldFromResponse(response, stepSource[2]) : response;
+    } else {
+      value = this.resolvePlaceholder(
+        source,
+        source,
+        this.buildFieldToStepMap(step, extractedData),
+        extractedData
+      );
+    }
+
+    if (!Array.isArray(value)) {
+      throw new Error(`forEach source "${source}" is not an array`);
+    }
+
+    let items = filterItems(value, forEach.filter);
+    if (forEach.maxItems !== undefined && forEach.maxItems >= 0) {
+      items = items.slice(0, forEach.maxItems);
+    }
+    if (items.length > FOR_EACH_MAX_ITEMS) {
+      throw new Error(
+        `forEach over ${items.length} items exceeds the limit of ${FOR_EACH_MAX_ITEMS}; narrow it with a filter or maxItems`
+      );
+    }
+    return items;
+  }
+
+  /**
+   * Execute a forEach step: one request per item (up to the concurrency limit at once)
+   * The step response is the array of item responses, and each extractFields value becomes
+   * an array with one entry per item. No new items start after an item fails
+   */
+  private async executeForEachStep(
+    step: WorkflowStep,
+    extractedData: Record<string, unknown>
+  ): Promise<StepResult> {
+    const items = this.resolveForEachItems(step, extractedData);
+    const total = items.length;
+    const responses: unknown[] = new Array(total).fill(null);
+    const curls: string[] = [];
+    let failure: StepResult | null = null;
+    let lastHttpCode: number | undefined;
+    let lastAssertions: AssertionResult[] | undefined;
+    let finished = 0;
+
+    await mapWithConcurrency(items, this.concurrency, async (item, index) => {
+      if (failure || this.cancelled) {
+        return;
+      }
+
+      const description = `${step.description} (item ${index + 1}/${total})`;
+      let itemResult: StepResult;
+      try {
+        const itemStep = applyItemTemplate(step, item, index);
+        const { curl, executionResult, attempts } = await this.sendWithRetry(
+          itemStep,
+          extractedData,
+          description
+        );
+        const checked = this.checkResponse(itemStep, executionResult);
+        curls[index] = curl;
+        responses[index] = executionResult.response;
+        lastHttpCode = executionResult.httpCode;
+        lastAssertions = checked.assertions;
+        itemResult = {
+          step: step.stepNumber,
+          description,
+          success: checked.success,
+          curl,
+          response: executionResult.response,
+          httpCode: executionResult.httpCode,
+          meta: executionResult.meta,
+          error: checked.error,
+          attempts,
+          assertions: checked.assertions,
+        };
+      } catch (error) {
+        itemResult = {
+          step: step.stepNumber,
+          description,
+          success: false,
+          error: error instanceof Error ? error.message : 'Item execution failed',
+        };
+      }
+
+      if (!itemResult.success && !failure) {
+        failure = {
+          ...itemResult,
+          error: `Item ${index + 1} of ${total} failed: ${itemResult.error}`,
+        };
+      }
+      finished++;
+      if (this.options?.onItemComplete) {
+        await this.options.onItemComplete(step.stepNumber, index + 1, total, itemResult);
+      }
+    });
+
+    if (!failure && finished < total) {
+      failure = {
+        step: step.stepNumber,
+        description: step.description,
+        success: false,
+        error: `Cancelled after ${finished} of ${total} items`,
+      };
+    }
+
+    const curl = curls.filter(Boolean).join('\n');
+    if (failure) {
+      const { error, httpCode, meta, assertions } = failure as StepResult;
+      return {
+        step: step.stepNumber,
+        description: step.description,
+        success: false,
+        curl,
+        error,
+        response: responses,
+        httpCode,
+        meta,
+        assertions,
+      };
+    }
+
+    for (const field of step.extractFields || []) {
+      extractedData[`step${step.stepNumber}_${field}`] = responses.map(response =>
+        this.extractFieldFromResponse(response, field)
+      );
+    }
+
+    return {
+      step: step.stepNumber,
+      description: step.description,
+      success: true,
+      curl,
+      response: responses,
+      httpCode: lastHttpCode,
+      extractedData: { ...extractedData },
+      assertions: lastAssertions,
+    };
+  }
+
   /**
-   * Build curl command from step and accumulated data
+   * Renew session credentials via the context refresher
+   * Returns true when new credentials are available; parallel steps share one renewal
+   */
+  private renewAuth(): Promise<boolean> {
+    const refreshAuth = this.context.refreshAuth;
+    if (!refreshAuth) {
+      return Promise.resolve(false);
+    }
+
+    if (!this.authRenewal) {
+      this.authRenewal = (async () => {
+        const refreshed = await refreshAuth();
+        if (refreshed) {
+          this.context.auth = refreshed;
+        }
+        return !!refreshed;
+      })().finally(() => {
+        this.authRenewal = null;
+      });
+    }
+    return this.authRenewal;
+  }
+
+  /**
+   * Build curl command from step and accumulated data (display form of buildRequest)
    */
   buildCurlCommand(step: WorkflowStep, extractedData: Record<string, unknown>): string {
+    return toCurl(this.buildRequest(step, extractedData));
+  }
+
+  /**
+   * Build the HTTP request for a step from accumulated data
+   */
+  buildRequest(step: WorkflowStep, extractedData: Record<string, unknown>): HttpRequest {
+    // Apply session auth (header, query parameter or cookie depending on the scheme)
+    return applyAuthToRequest(
+      this.buildUnauthenticatedRequest(step, extractedData),
+      this.context.auth
+    );
+  }
+
+  /**
+   * Build every step's request without sending anything (dry run)
+   * Only values known before the run (inputs, overrides) are filled in; placeholders that
+   * earlier responses would fill are listed, and credentials are redacted
+   */
+  previewSteps(steps: WorkflowStep[]): DryRunRequest[] {
+    const compensations = getCompensationSteps(steps);
+
+    return steps.map((step, index) => {
+      const triggers = steps
+        .filter(candidate => candidate.onFailure === step.stepNumber)
+        .map(candidate => candidate.stepNumber);
+      const notes = [
+        compensations.has(index) && `Runs only if step ${triggers.join(' or ')} fails`,
+        step.when && `Runs when ${step.when}`,
+        step.forEach && `Repeats for each item of ${step.forEach.source}`,
+      ].filter(Boolean);
+      const options = {
+        description: step.description,
+        swaggerDoc: this.context.swaggerDoc,
+        auth: this.context.auth,
+        step: step.stepNumber,
+        note: notes.length > 0 ? notes.join('; ') : undefined,
+      };
+
+      try {
+        return previewRequest(this.buildUnauthenticatedRequest(step, {}), options);
+      } catch (error) {
+        // The body could not be encoded (e.g. a binary type without a session file)
+        const request = {
+          method: step.action.method || 'GET',
+          url: `${this.context.baseUrl}${step.action.endpoint || ''}`,
+          headers: {},
+        };
+        return {
+          ...previewRequest(request, options),
+          errors: [error instanceof Error ? error.message : 'Could not build the request'],
+        };
+      }
+    });
+  }
+
+  private buildUnauthenticatedRequest(
+    step: WorkflowStep,
+    extractedData: Record<string, unknown>
+  ): HttpRequest {
     // Resolve endpoint placeholders using sophisticated resolution logic
     let endpoint = step.action.endpoint || '';
     const fieldToStepMap = this.buildFieldToStepMap(step, extractedData);
@@ -192,24 +822,22 @@ export class RequestExecutor {
     const method = step.action.method || 'GET';
     const url = endpoint.startsWith('http') ? endpoint : `${this.context.baseUrl}${endpoint}`;
 
-    // Build base curl command
-    let curl = `curl -X ${method} '${url}' -H 'Content-Type: application/json'`;
-
-    // Add auth token if available
-    if (this.context.authToken) {
-      const authHeader = this.context.authToken.startsWith('Bearer ')
-        ? this.context.authToken
-        : `Bearer ${this.context.authToken}`;
-      curl += ` -H 'Authorization: ${authHeader}'`;
-    }
-
-    // Add body if present
-    if (step.action.body && Object.keys(step.action.body).length > 0) {
-      const body = this.resolveBodyPlaceholders(step.action.body, step, extractedData);
-      curl += ` -d '${body}'`;
+    const request: HttpRequest = { method, url, headers: {} };
+
+    // Encode the body as a media type the operation accepts (JSON, form, multipart, XML, file)
+    const body =
+      step.action.body && Object.keys(step.action.body).length > 0
+        ? this.resolveBodyPlaceholders(step.action.body, step, extractedData)
+        : undefined;
+    const encoded = buildRequestBody(
+      this.context.swaggerDoc ? getRequestBodyTypes(this.context.swaggerDoc, method, endpoint) : [],
+      { body, bodyFile: step.action.bodyFile, contentType: step.action.contentType }
+    );
+    if (encoded) {
+      Object.assign(request, encoded);
     }
 
-    return curl;
+    return request;
   }
 
   /**
@@ -220,7 +848,7 @@ export class RequestExecutor {
     body: Record<string, unknown>,
     step: WorkflowStep,
     extractedData: Record<string, unknown>
-  ): string {
+  ): Record<string, unknown> {
     const resolvedBody: Record<string, unknown> = {};
 
     // Track occurrence count for each placeholder pattern
@@ -277,7 +905,7 @@ export class RequestExecutor {
       }
     }
 
-    return JSON.stringify(resolvedBody);
+    return resolvedBody;
   }
 
   /**
@@ -547,8 +1175,11 @@ export class RequestExecutor {
       return this.extractFromFilteredArray(response, filterField, filterValue, extractPath);
     }
 
-    // Handle regular dot notation
-    const parts = field.split('.');
+    // Handle regular dot notation; bracket indexes ("[0].id", "items[1].name") are path parts
+    const parts = field
+      .replace(/\[(\d+)\]/g, '.$1')
+      .split('.')
+      .filter(part => part !== '');
     let current: unknown = response;
 
     for (const part of parts) {
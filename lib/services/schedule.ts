@@ -0,0 +1,311 @@
+import { and, desc, eq, inArray, isNotNull, lte, max, SQL } from 'drizzle-orm';
+
+import { db } from '@/lib/db';
+import {
+  workflowExecutions,
+  workflowJobs,
+  workflowSchedules,
+  workflows,
+  WorkflowSchedule,
+} from '@/lib/db/schema';
+import { log } from '@/lib/logger';
+import { nextCronRun, parseCron } from '@/lib/utils/cron';
+
+import { JobStatus, jobQueueService } from './job-queue';
+
+// How often due schedules are looked for; cron runs are at most once a minute
+const SCHEDULER_INTERVAL_MS = 30000;
+
+export interface ScheduleInput {
+  cron: string;
+  enabled?: boolean;
+  // Values for a template's inputs, by name
+  inputs?: Record<string, unknown> | null;
+}
+
+export interface ScheduleWithStatus extends Omit<WorkflowSchedule, 'inputs'> {
+  inputs: Record<string, unknown> | null;
+  workflowName: string;
+  // Status of the latest run's job, and why it failed
+  lastStatus: JobStatus | null;
+  lastError: string | null;
+}
+
+// One scheduled run, rebuilt from its recorded workflow executions
+export interface ScheduleRun {
+  runId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  success: boolean;
+  stepCount: number;
+  failedSteps: number[];
+}
+
+export class ScheduleService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Passes over due schedules run one after another
+  private pass: Promise<number> = Promise.resolve(0);
+
+  /**
+   * Schedule a workflow; throws when the cron expression is invalid
+   */
+  async create(workflowId: string, input: ScheduleInput): Promise<ScheduleWithStatus> {
+    const workflow = await db.select().from(workflows).where(eq(workflows.id, workflowId)).limit(1);
+    if (!workflow[0]) {
+      throw new Error('Workflow not found');
+    }
+
+    const now = new Date();
+    const enabled = input.enabled ?? true;
+    const nextRunAt = this.getNextRun(input.cron, now);
+    const schedule: WorkflowSchedule = {
+      id: crypto.randomUUID(),
+      workflowId,
+      cron: input.cron.trim(),
+      enabled,
+      inputs: input.inputs ? JSON.stringify(input.inputs) : null,
+      nextRunAt: enabled ? nextRunAt : null,
+      lastRunAt: null,
+      lastJobId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await db.insert(workflowSchedules).values(schedule);
+    log.info('Workflow scheduled', { scheduleId: schedule.id, workflowId, cron: schedule.cron });
+
+    return (await this.findById(schedule.id))!;
+  }
+
+  /**
+   * Change a schedule's expression, inputs or enabled state; the next run is worked out again
+   */
+  async update(id: string, changes: Partial<ScheduleInput>): Promise<ScheduleWithStatus> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new Error('Schedule not found');
+    }
+
+    const cron = changes.cron?.trim() ?? existing.cron;
+    const enabled = changes.enabled ?? existing.enabled;
+    const now = new Date();
+    const inputs = changes.inputs === undefined ? existing.inputs : changes.inputs;
+    const nextRunAt = this.getNextRun(cron, now);
+
+    await db
+      .update(workflowSchedules)
+      .set({
+        cron,
+        enabled,
+        inputs: inputs ? JSON.stringify(inputs) : null,
+        nextRunAt: enabled ? nextRunAt : null,
+        updatedAt: now,
+      })
+      .where(eq(workflowSchedules.id, id));
+
+    log.info('Workflow schedule updated', { scheduleId: id, cron, enabled });
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Delete a schedule; runs it already started are kept in the workflow's history
+   */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(workflowSchedules)
+      .where(eq(workflowSchedules.id, id))
+      .returning({ id: workflowSchedules.id });
+    return deleted.length > 0;
+  }
+
+  async findById(id: string): Promise<ScheduleWithStatus | null> {
+    const results = await this.select(eq(workflowSchedules.id, id));
+    return results[0] || null;
+  }
+
+  async findByWorkflowId(workflowId: string): Promise<ScheduleWithStatus[]> {
+    return this.select(eq(workflowSchedules.workflowId, workflowId));
+  }
+
+  async findBySessionId(sessionId: string): Promise<ScheduleWithStatus[]> {
+    return this.select(eq(workflows.sessionId, sessionId));
+  }
+
+  /**
+   * A schedule's latest runs, newest first, from the executions its runs recorded
+   */
+  async getRuns(id: string, limit: number = 20): Promise<ScheduleRun[]> {
+    // Only the executions of the latest runs are loaded, however long the history is
+    const latest = await db
+      .select({ runId: workflowExecutions.runId })
+      .from(workflowExecutions)
+      .where(and(eq(workflowExecutions.scheduleId, id), isNotNull(workflowExecutions.runId)))
+      .groupBy(workflowExecutions.runId)
+      .orderBy(desc(max(workflowExecutions.executedAt)))
+      .limit(limit);
+    const runIds = latest.map(row => row.runId!);
+    if (runIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select()
+      .from(workflowExecutions)
+      .where(inArray(workflowExecutions.runId, runIds))
+      .orderBy(desc(workflowExecutions.executedAt));
+
+    const runs = new Map<string, typeof rows>(runIds.map(runId => [runId, []]));
+    for (const row of rows) {
+      runs.get(row.runId!)?.push(row);
+    }
+
+    return [...runs.entries()].map(([runId, runRows]) => {
+      // Final result of each step; retried attempts don't count
+      const steps = runRows.filter(row => row.status !== 'retried');
+      const failedSteps = [
+        ...new Set(steps.filter(row => row.status === 'failed').map(row => row.stepNumber)),
+      ].sort((a, b) => a - b);
+      return {
+        runId,
+        startedAt: runRows[runRows.length - 1].executedAt,
+        finishedAt: runRows[0].executedAt,
+        success: failedSteps.length === 0,
+        stepCount: new Set(steps.map(row => row.stepNumber)).size,
+        failedSteps,
+      };
+    });
+  }
+
+  /**
+   * Start queueing due runs in the background (once per process). Schedules live in the
+   * database, so runs missed while the server was down are queued once on start
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.runDue(), SCHEDULER_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.runDue();
+    log.info('Workflow scheduler started', { intervalMs: SCHEDULER_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a run of every enabled schedule that is due and move it to its next run
+   * A schedule whose previous run is still queued or running skips this run
+   * Returns how many runs were queued
+   */
+  runDue(now: Date = new Date()): Promise<number> {
+    this.pass = this.pass
+      .catch(() => 0)
+      .then(() => this.queueDueRuns(now))
+      .catch(error => {
+        log.error('Failed to queue scheduled workflow runs', error);
+        return 0;
+      });
+    return this.pass;
+  }
+
+  private async queueDueRuns(now: Date): Promise<number> {
+    const due = await db
+      .select()
+      .from(workflowSchedules)
+      .where(and(eq(workflowSchedules.enabled, true), lte(workflowSchedules.nextRunAt, now)));
+
+    let queued = 0;
+    for (const schedule of due) {
+      try {
+        // Claim the run by moving the schedule on, so it is queued once
+        const claimed = await db
+          .update(workflowSchedules)
+          .set({ nextRunAt: this.getNextRun(schedule.cron, now), updatedAt: now })
+          .where(
+            and(
+              eq(workflowSchedules.id, schedule.id),
+              eq(workflowSchedules.nextRunAt, schedule.nextRunAt!)
+            )
+          )
+          .returning({ id: workflowSchedules.id });
+        if (claimed.length === 0) {
+          continue;
+        }
+
+        const previous = schedule.lastJobId
+          ? await jobQueueService.findById(schedule.lastJobId)
+          : null;
+        if (previous && !jobQueueService.isFinished(previous)) {
+          log.warn('Skipping scheduled run: the previous run has not finished', {
+            scheduleId: schedule.id,
+            jobId: previous.id,
+          });
+          continue;
+        }
+
+        const job = await jobQueueService.enqueue(schedule.workflowId, {
+          ...(schedule.inputs && { inputs: JSON.parse(schedule.inputs) }),
+          scheduleId: schedule.id,
+        });
+        await db
+          .update(workflowSchedules)
+          .set({ lastRunAt: now, lastJobId: job.id })
+          .where(eq(workflowSchedules.id, schedule.id));
+
+        log.info('Scheduled workflow run queued', {
+          scheduleId: schedule.id,
+          workflowId: schedule.workflowId,
+          jobId: job.id,
+        });
+        queued++;
+      } catch (error) {
+        log.error('Failed to queue scheduled workflow run', error, { scheduleId: schedule.id });
+      }
+    }
+    return queued;
+  }
+
+  // Null when the expression never matches again
+  private getNextRun(cron: string, after: Date): Date | null {
+    try {
+      return nextCronRun(parseCron(cron), after);
+    } catch (error) {
+      throw new Error(
+        `Invalid cron expression: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async select(where: SQL): Promise<ScheduleWithStatus[]> {
+    const rows = await db
+      .select({
+        schedule: workflowSchedules,
+        workflowName: workflows.name,
+        lastStatus: workflowJobs.status,
+        lastError: workflowJobs.error,
+      })
+      .from(workflowSchedules)
+      .innerJoin(workflows, eq(workflowSchedules.workflowId, workflows.id))
+      .leftJoin(workflowJobs, eq(workflowSchedules.lastJobId, workflowJobs.id))
+      .where(where)
+      .orderBy(desc(workflowSchedules.createdAt));
+
+    return rows.map(row => ({
+      ...row.schedule,
+      inputs: row.schedule.inputs
+        ? (JSON.parse(row.schedule.inputs) as Record<string, unknown>)
+        : null,
+      workflowName: row.workflowName,
+      lastStatus: row.lastStatus ?? null,
+      lastError: row.lastError ?? null,
+    }));
+  }
+}
+
+// Singleton instance
+export const scheduleService = new ScheduleService();
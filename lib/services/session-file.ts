@@ -0,0 +1,219 @@
+/**
+ * Session File Service
+ * Stores files uploaded into a session and binary responses saved as artifacts; requests
+ * reference them by name for multipart parts (-F 'field=@name') and raw file bodies
+ * (--data-binary '@name')
+ */
+
+import { and, asc, eq } from 'drizzle-orm';
+
+import { db } from '@/lib/db';
+import { sessionFiles } from '@/lib/db/schema';
+import { ArtifactSaver, FileLoader } from '@/lib/utils/http-client';
+import { BINARY_CONTENT_TYPE } from '@/lib/utils/request-body';
+import { readIntEnv } from '@/lib/utils/env';
+
+// Largest file accepted per upload
+export const MAX_SESSION_FILE_BYTES = readIntEnv('SESSION_FILE_MAX_BYTES', 10 * 1024 * 1024);
+
+export type SessionFileSource = 'upload' | 'response';
+
+export interface SessionFileSummary {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  source: SessionFileSource;
+  createdAt: Date;
+}
+
+export interface UploadSessionFileInput {
+  name: string;
+  contentType?: string;
+  data: Uint8Array;
+  source?: SessionFileSource;
+}
+
+const summaryColumns = {
+  id: sessionFiles.id,
+  name: sessionFiles.name,
+  contentType: sessionFiles.contentType,
+  size: sessionFiles.size,
+  source: sessionFiles.source,
+  createdAt: sessionFiles.createdAt,
+};
+
+/**
+ * Download URL of a session file
+ */
+export function getSessionFileUrl(sessionId: string, fileId: string): string {
+  return `/api/session/${sessionId}/files/${fileId}`;
+}
+
+/**
+ * Reduce an uploaded file name to a name usable in curl references
+ * Directories are dropped and characters curl treats specially in -F values are replaced
+ */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() || '';
+  return base
+    .replace(/[;,"'\s]+/g, '_')
+    .replace(/^[@<.]+/, '')
+    .slice(0, 200);
+}
+
+export class SessionFileService {
+  /**
+   * Store a file in a session, replacing any existing file with the same name
+   */
+  async upload(sessionId: string, input: UploadSessionFileInput): Promise<SessionFileSummary> {
+    const name = sanitizeFileName(input.name);
+    if (!name) {
+      throw new Error('File name is required');
+    }
+    if (input.data.byteLength > MAX_SESSION_FILE_BYTES) {
+      throw new Error(`File is too large (limit ${MAX_SESSION_FILE_BYTES} bytes)`);
+    }
+
+    const file = {
+      id: crypto.randomUUID(),
+      sessionId,
+      name,
+      contentType: input.contentType || BINARY_CONTENT_TYPE,
+      size: input.data.byteLength,
+      data: Buffer.from(input.data),
+      source: input.source || 'upload',
+      createdAt: new Date(),
+    };
+
+    await db
+      .delete(sessionFiles)
+      .where(and(eq(sessionFiles.sessionId, sessionId), eq(sessionFiles.name, name)));
+    await db.insert(sessionFiles).values(file);
+
+    return {
+      id: file.id,
+      name: file.name,
+      contentType: file.contentType,
+      size: file.size,
+      source: file.source,
+      createdAt: file.createdAt,
+    };
+  }
+
+  /**
+   * Build a saver that keeps binary responses of a session's requests as files
+   * Artifacts never replace existing files: "chart.png" becomes "chart-2.png" when taken
+   */
+  createArtifactSaver(sessionId: string): ArtifactSaver {
+    return async file => {
+      const name = sanitizeFileName(file.name) || 'response.bin';
+      const rows = await db
+        .select({ name: sessionFiles.name })
+        .from(sessionFiles)
+        .where(eq(sessionFiles.sessionId, sessionId));
+      const taken = new Set(rows.map(row => row.name));
+
+      let uniqueName = name;
+      const dot = name.lastIndexOf('.');
+      const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+      for (let suffix = 2; taken.has(uniqueName); suffix++) {
+        uniqueName = `${stem}-${suffix}${extension}`;
+      }
+
+      const saved = await this.upload(sessionId, {
+        name: uniqueName,
+        contentType: file.contentType,
+        data: file.data,
+        source: 'response',
+      });
+
+      return {
+        type: 'artifact',
+        name: saved.name,
+        contentType: saved.contentType,
+        size: saved.size,
+        fileId: saved.id,
+        url: getSessionFileUrl(sessionId, saved.id),
+      };
+    };
+  }
+
+  /**
+   * List the files of a session, oldest first (contents are not included)
+   */
+  async list(sessionId: string): Promise<SessionFileSummary[]> {
+    return db
+      .select(summaryColumns)
+      .from(sessionFiles)
+      .where(eq(sessionFiles.sessionId, sessionId))
+      .orderBy(asc(sessionFiles.createdAt));
+  }
+
+  /**
+   * Get a file with its contents
+   */
+  async findById(
+    sessionId: string,
+    fileId: string
+  ): Promise<(SessionFileSummary & { data: Buffer }) | null> {
+    const rows = await db
+      .select({ ...summaryColumns, data: sessionFiles.data })
+      .from(sessionFiles)
+      .where(and(eq(sessionFiles.sessionId, sessionId), eq(sessionFiles.id, fileId)))
+      .limit(1);
+
+    return rows[0] || null;
+  }
+
+  /**
+   * Delete a file, returning false when it does not exist
+   */
+  async delete(sessionId: string, fileId: string): Promise<boolean> {
+    const result = await db
+      .delete(sessionFiles)
+      .where(and(eq(sessionFiles.sessionId, sessionId), eq(sessionFiles.id, fileId)));
+
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * Build a loader that resolves file references of a session's requests by name
+   */
+  createLoader(sessionId: string): FileLoader {
+    return async name => {
+      const rows = await db
+        .select({
+          name: sessionFiles.name,
+          contentType: sessionFiles.contentType,
+          data: sessionFiles.data,
+        })
+        .from(sessionFiles)
+        .where(and(eq(sessionFiles.sessionId, sessionId), eq(sessionFiles.name, name)))
+        .limit(1);
+
+      const file = rows[0];
+      return file ? { name: file.name, contentType: file.contentType, data: file.data } : null;
+    };
+  }
+
+  /**
+   * Append the session's file list to an LLM prompt context so requests can reference them
+   */
+  async appendToPrompt(sessionId: string, prompt: string): Promise<string> {
+    const files = await this.list(sessionId);
+    if (files.length === 0) {
+      return prompt;
+    }
+
+    const lines = [
+      '## Session Files',
+      "Files uploaded by the user or saved from binary responses. Reference them by name: multipart fields as -F 'field=@name' (body value \"@name\" in workflow steps), raw binary bodies as --data-binary '@name' (bodyFile in workflow steps).",
+      ...files.map(file => `- ${file.name} (${file.contentType}, ${file.size} bytes)`),
+    ];
+    return `${prompt}\n\n${lines.join('\n')}`;
+  }
+}
+
+// Singleton instance
+export const sessionFileService = new SessionFileService();
@@ -2,9 +2,21 @@ import { eq, sql, desc, count } from 'drizzle-orm';
 
 import { db } from '@/lib/db';
 import { sessions, NewSession, Session, messages } from '@/lib/db/schema';
-import { SwaggerDoc } from '@/lib/types';
+import { AuthConfig, SwaggerDoc } from '@/lib/types';
 import { parseSwagger, extractBaseUrl, formatSwaggerForLLM } from '@/lib/utils/swagger';
+import { buildEndpointIndex, EndpointIndex, searchEndpoints } from '@/lib/utils/endpoint-index';
+import {
+  detectAuthConfig,
+  hasAuthCredentials,
+  keepStoredSecrets,
+  parseAuthConfig,
+  SessionAuth,
+} from '@/lib/utils/auth';
+import { bundleExternalRefs } from '@/lib/utils/openapi-refs';
+import { SpecDiff } from '@/lib/utils/spec-diff';
+import { rewriteLocalhostForDocker } from '@/lib/utils/http-client';
 import { validateSwaggerUrlFull } from '@/lib/utils/url-validator';
+import { readIntEnv } from '@/lib/utils/env';
 import {
   encrypt,
   decrypt,
@@ -14,6 +26,23 @@ import {
 } from '@/lib/utils/encryption';
 import { log } from '@/lib/logger';
 
+import { AffectedWorkflow, specHistoryService } from './spec-history';
+
+// Specs whose formatted description fits in this many characters are always sent whole
+const FULL_SPEC_MAX_CHARS = readIntEnv('SPEC_FULL_MAX_CHARS', 40000);
+// Number of relevant operations described in detail when a large spec is sliced
+const SPEC_SLICE_TOP_N = readIntEnv('SPEC_SLICE_TOP_N', 15);
+// Parsed specs kept in memory (formatted text and search index)
+const SPEC_CACHE_SIZE = 20;
+
+interface CachedSpec {
+  source: string;
+  baseUrl: string | undefined;
+  doc: SwaggerDoc;
+  formatted: string;
+  index?: EndpointIndex;
+}
+
 /**
  * Extract the origin (protocol + host) from a URL
  * e.g., "http://192.168.1.8:3000/swagger.json" -> "http://192.168.1.8:3000"
@@ -60,34 +89,126 @@ function deriveBaseUrl(swaggerUrl: string, swaggerDoc: SwaggerDoc): string | nul
   return urlOrigin;
 }
 
+function isAbsoluteHttpUrl(url: string | null): boolean {
+  return !!url && /^https?:\/\//i.test(url);
+}
+
+/**
+ * Make sure parsed content is an OpenAPI/Swagger document rather than arbitrary JSON/YAML
+ */
+function assertSpecDocument(doc: unknown): asserts doc is SwaggerDoc {
+  const candidate = doc as Partial<SwaggerDoc> | null;
+  if (
+    !candidate ||
+    typeof candidate !== 'object' ||
+    (!candidate.openapi && !candidate.swagger) ||
+    !candidate.paths ||
+    typeof candidate.paths !== 'object'
+  ) {
+    throw new Error(
+      'Invalid Swagger document: expected an OpenAPI 3 or Swagger 2 document with paths'
+    );
+  }
+}
+
+/**
+ * Parse the referenced files of an uploaded bundle and inline them into the root document
+ */
+function bundleUploadedFiles(doc: SwaggerDoc, files: Record<string, string>): SwaggerDoc {
+  const parsed: Record<string, unknown> = {};
+  for (const [path, content] of Object.entries(files)) {
+    try {
+      parsed[path] = parseSwagger(content);
+    } catch {
+      throw new Error(`Failed to parse Swagger document: referenced file "${path}" is invalid`);
+    }
+  }
+  return bundleExternalRefs(doc, parsed);
+}
+
+/**
+ * Parse an uploaded or pasted spec, inlining the other files of a multi-file bundle
+ */
+function loadUploadedSpec(content: string, files?: Record<string, string>): SwaggerDoc {
+  const swaggerDoc = parseSwagger(content);
+  assertSpecDocument(swaggerDoc);
+  return files && Object.keys(files).length > 0
+    ? bundleUploadedFiles(swaggerDoc, files)
+    : swaggerDoc;
+}
+
+/**
+ * Fetch and parse a spec from its URL
+ */
+async function fetchSpec(swaggerUrl: string): Promise<SwaggerDoc> {
+  // Validate URL security (defense-in-depth: also validated at API layer)
+  const urlValidation = validateSwaggerUrlFull(swaggerUrl);
+  if (!urlValidation.valid) {
+    throw new Error(`Invalid Swagger URL: ${urlValidation.error}`);
+  }
+
+  // Fetch Swagger document from URL (rewrite localhost when inside Docker)
+  const response = await fetch(rewriteLocalhostForDocker(swaggerUrl));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Swagger document: ${response.status} ${response.statusText}`);
+  }
+
+  return parseSwagger(await response.text());
+}
+
 /**
- * When running inside Docker, rewrite localhost/127.0.0.1 URLs to host.docker.internal
- * so fetch/curl can reach services running on the host machine.
+ * Decrypt a stored secret, returning null if it cannot be decrypted
  */
-function rewriteLocalhostForDocker(url: string): string {
-  if (process.env.RUNNING_IN_DOCKER !== 'true') {
-    return url;
+function decryptField(value: string | null, field: string): string | null {
+  if (!value || !isEncrypted(value)) {
+    return value;
   }
 
-  return url
-    .replace(/http:\/\/localhost/g, 'http://host.docker.internal')
-    .replace(/https:\/\/localhost/g, 'https://host.docker.internal')
-    .replace(/http:\/\/127\.0\.0\.1/g, 'http://host.docker.internal')
-    .replace(/https:\/\/127\.0\.0\.1/g, 'https://host.docker.internal');
+  try {
+    return decrypt(deserializeEncrypted(value));
+  } catch (error) {
+    // If decryption fails, log error but don't expose the secret
+    log.error(
+      `Failed to decrypt ${field}`,
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return null;
+  }
+}
+
+function encryptAuthConfig(config: AuthConfig | null): string | null {
+  return config ? serializeEncrypted(encrypt(JSON.stringify(config))) : null;
 }
 
 export interface CreateSessionInput {
   name: string;
-  swaggerUrl: string;
+  swaggerUrl?: string;
+  swaggerContent?: string; // Raw JSON/YAML spec (uploaded file or pasted text)
+  swaggerFiles?: Record<string, string>; // Other files of an uploaded bundle, keyed by relative path
+  baseUrl?: string;
 }
 
 export interface UpdateSessionInput {
   name?: string;
   swaggerUrl?: string;
   authToken?: string | null;
+  authConfig?: AuthConfig | null;
+  baseUrl?: string;
   description?: string;
 }
 
+export interface RefreshSpecInput {
+  swaggerContent?: string;
+  swaggerFiles?: Record<string, string>;
+}
+
+export interface RefreshSpecResult {
+  session: Session;
+  version: number;
+  diff: SpecDiff | null;
+  affectedWorkflows: AffectedWorkflow[];
+}
+
 export interface SessionStats {
   totalMessages: number;
   userMessages: number;
@@ -109,48 +230,63 @@ export interface PaginatedSessions {
 }
 
 export class SessionService {
+  private specCache = new Map<string, CachedSpec>();
+
   async create(input: CreateSessionInput): Promise<Session> {
-    // Validate URL security (defense-in-depth: also validated at API layer)
-    const urlValidation = validateSwaggerUrlFull(input.swaggerUrl);
-    if (!urlValidation.valid) {
-      throw new Error(`Invalid Swagger URL: ${urlValidation.error}`);
-    }
+    let swaggerDoc: SwaggerDoc;
+    let derivedBaseUrl: string | null;
 
-    // Fetch Swagger document from URL (rewrite localhost when inside Docker)
-    const fetchUrl = rewriteLocalhostForDocker(input.swaggerUrl);
-    const response = await fetch(fetchUrl);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch Swagger document: ${response.status} ${response.statusText}`
-      );
-    }
+    if (input.swaggerContent) {
+      // Uploaded file or pasted spec: nothing to fetch, base URL comes from the spec or input
+      swaggerDoc = loadUploadedSpec(input.swaggerContent, input.swaggerFiles);
+      derivedBaseUrl = extractBaseUrl(swaggerDoc);
 
-    const content = await response.text();
+      if (!input.baseUrl && !isAbsoluteHttpUrl(derivedBaseUrl)) {
+        throw new Error(
+          'Invalid Swagger document: no absolute server URL declared, please provide a baseUrl'
+        );
+      }
+    } else if (input.swaggerUrl) {
+      swaggerDoc = await fetchSpec(input.swaggerUrl);
 
-    // Parse Swagger document
-    const swaggerDoc = parseSwagger(content);
+      // Derive base URL from Swagger URL origin (priority) with fallback to Swagger doc
+      derivedBaseUrl = deriveBaseUrl(input.swaggerUrl, swaggerDoc);
+    } else {
+      throw new Error('Either swaggerUrl or swaggerContent is required');
+    }
 
-    // Derive base URL from Swagger URL origin (priority) with fallback to Swagger doc
+    // An explicit base URL always wins over the derived one
     // Rewrite localhost for Docker so curl commands target the host machine
-    const baseUrl = rewriteLocalhostForDocker(deriveBaseUrl(input.swaggerUrl, swaggerDoc) || '');
+    const baseUrl = rewriteLocalhostForDocker(
+      (input.baseUrl || derivedBaseUrl || '').replace(/\/+$/, '')
+    );
+
+    // Default the auth scheme to the one declared by the spec (credentials are set later)
+    const authConfig = detectAuthConfig(swaggerDoc);
 
     // Create session
     const now = new Date();
     const newSession: NewSession = {
       id: crypto.randomUUID(),
       name: input.name,
-      swaggerUrl: input.swaggerUrl,
+      swaggerUrl: input.swaggerContent ? '' : input.swaggerUrl || '',
+      specSource: input.swaggerContent ? 'upload' : 'url',
       swaggerDoc: JSON.stringify(swaggerDoc),
       baseUrl,
       authToken: null,
+      authConfig: encryptAuthConfig(authConfig),
       lastAccessedAt: now,
       createdAt: now,
       updatedAt: now,
     };
 
     await db.insert(sessions).values(newSession);
+    await specHistoryService.recordVersion(newSession.id, null, swaggerDoc);
 
-    return newSession as Session;
+    return {
+      ...newSession,
+      authConfig: authConfig ? JSON.stringify(authConfig) : null,
+    } as Session;
   }
 
   async findAll(page: number = 1, limit: number = 20): Promise<PaginatedSessions> {
@@ -190,20 +326,9 @@ export class SessionService {
       return null;
     }
 
-    // Decrypt authToken if it exists and is encrypted
-    if (session.authToken && isEncrypted(session.authToken)) {
-      try {
-        const encryptedData = deserializeEncrypted(session.authToken);
-        session.authToken = decrypt(encryptedData);
-      } catch (error) {
-        // If decryption fails, log error but don't expose token
-        log.error(
-          'Failed to decrypt authToken',
-          error instanceof Error ? error : new Error(String(error))
-        );
-        session.authToken = null;
-      }
-    }
+    // Decrypt secrets if they exist and are encrypted
+    session.authToken = decryptField(session.authToken, 'authToken');
+    session.authConfig = decryptField(session.authConfig, 'authConfig');
 
     return session;
   }
@@ -231,6 +356,48 @@ export class SessionService {
     return updated;
   }
 
+  async updateAuthConfig(id: string, authConfig: AuthConfig | null): Promise<Session> {
+    const now = new Date();
+
+    await db
+      .update(sessions)
+      .set({
+        authConfig: encryptAuthConfig(authConfig),
+        updatedAt: now,
+        lastAccessedAt: now,
+      })
+      .where(eq(sessions.id, id));
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Session not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Resolve the auth scheme and credential to apply to requests for a session
+   * Sessions without a configured scheme fall back to Bearer when a token is present
+   */
+  getRequestAuth(session: Session): SessionAuth | null {
+    const config = parseAuthConfig(session.authConfig);
+    if (!config) {
+      return session.authToken
+        ? { config: { type: 'bearer' }, credential: session.authToken }
+        : null;
+    }
+
+    return { config, credential: session.authToken };
+  }
+
+  /**
+   * Whether requests for this session can be authenticated
+   */
+  hasAuth(session: Session): boolean {
+    return hasAuthCredentials(this.getRequestAuth(session));
+  }
+
   async updateLastAccessed(id: string): Promise<void> {
     await db
       .update(sessions)
@@ -252,27 +419,38 @@ export class SessionService {
 
     if (input.swaggerUrl !== undefined) {
       // If swagger URL changed, fetch and parse new document
-      const response = await fetch(input.swaggerUrl);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch Swagger document: ${response.status} ${response.statusText}`
-        );
-      }
-      const content = await response.text();
-      const swaggerDoc = parseSwagger(content);
+      const swaggerDoc = await fetchSpec(input.swaggerUrl);
       // Derive base URL from Swagger URL origin (priority) with fallback to Swagger doc
       const baseUrl = deriveBaseUrl(input.swaggerUrl, swaggerDoc);
 
+      const current = await this.findById(id);
+      await specHistoryService.recordVersion(id, current?.swaggerDoc ?? null, swaggerDoc);
+
       updateData.swaggerUrl = input.swaggerUrl;
+      updateData.specSource = 'url';
       updateData.swaggerDoc = JSON.stringify(swaggerDoc);
       updateData.baseUrl = baseUrl;
     }
 
+    if (input.baseUrl !== undefined) {
+      updateData.baseUrl = rewriteLocalhostForDocker(input.baseUrl.replace(/\/+$/, ''));
+    }
+
     if (input.authToken !== undefined) {
       // Encrypt authToken if provided
       updateData.authToken = input.authToken ? serializeEncrypted(encrypt(input.authToken)) : null;
     }
 
+    if (input.authConfig !== undefined) {
+      // Secrets are never sent to the browser, so an empty secret field keeps the stored one
+      const stored = input.authConfig
+        ? parseAuthConfig((await this.findById(id))?.authConfig)
+        : null;
+      updateData.authConfig = encryptAuthConfig(
+        input.authConfig && keepStoredSecrets(input.authConfig, stored)
+      );
+    }
+
     await db.update(sessions).set(updateData).where(eq(sessions.id, id));
 
     const updated = await this.findById(id);
@@ -283,8 +461,61 @@ export class SessionService {
     return updated;
   }
 
+  /**
+   * Re-load the session spec and record it as a new version
+   * URL sessions re-fetch their spec; uploaded specs need the new document in `input`
+   */
+  async refreshSpec(id: string, input: RefreshSpecInput = {}): Promise<RefreshSpecResult> {
+    const session = await this.findById(id);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    let swaggerDoc: SwaggerDoc;
+    const updateData: Partial<typeof sessions.$inferInsert> = { updatedAt: new Date() };
+
+    if (input.swaggerContent) {
+      swaggerDoc = loadUploadedSpec(input.swaggerContent, input.swaggerFiles);
+    } else if (session.specSource === 'url' && session.swaggerUrl) {
+      swaggerDoc = await fetchSpec(session.swaggerUrl);
+      updateData.baseUrl = deriveBaseUrl(session.swaggerUrl, swaggerDoc);
+    } else {
+      throw new Error('Uploaded specs are refreshed by uploading the new document');
+    }
+
+    const { version, diff } = await specHistoryService.recordVersion(
+      id,
+      session.swaggerDoc,
+      swaggerDoc
+    );
+
+    updateData.swaggerDoc = JSON.stringify(swaggerDoc);
+    await db.update(sessions).set(updateData).where(eq(sessions.id, id));
+
+    const affectedWorkflows = diff
+      ? await specHistoryService.findAffectedWorkflows(id, diff, swaggerDoc)
+      : [];
+
+    log.info('Session spec refreshed', {
+      sessionId: id,
+      version,
+      added: diff?.addedOperations.length,
+      removed: diff?.removedOperations.length,
+      breaking: diff?.breakingCount,
+      affectedWorkflows: affectedWorkflows.length,
+    });
+
+    return {
+      session: (await this.findById(id))!,
+      version,
+      diff,
+      affectedWorkflows,
+    };
+  }
+
   async delete(id: string): Promise<void> {
     await db.delete(sessions).where(eq(sessions.id, id));
+    this.specCache.delete(id);
   }
 
   async getStats(id: string): Promise<SessionStats | null> {
@@ -314,14 +545,66 @@ export class SessionService {
     };
   }
 
-  getFormattedSwagger(session: Session): string {
-    const doc = JSON.parse(session.swaggerDoc) as Record<string, unknown>;
+  /**
+   * Format the session spec for LLM prompts
+   * Large specs are sliced to the operations most relevant to `query` (the rest are listed by name);
+   * without a query, or when the spec is small, the full description is returned
+   */
+  getFormattedSwagger(session: Session, query?: string): string {
+    const spec = this.getCachedSpec(session);
+    if (!query || spec.formatted.length <= FULL_SPEC_MAX_CHARS) {
+      return spec.formatted;
+    }
+
+    spec.index ??= buildEndpointIndex(spec.doc);
+    const matches = searchEndpoints(spec.index, query, SPEC_SLICE_TOP_N);
+
+    log.debug('Sliced spec for prompt', {
+      sessionId: session.id,
+      totalEndpoints: spec.index.endpoints.length,
+      selected: matches.map(match => match.key),
+    });
+
     // Pass the session's derived baseUrl to ensure LLM uses the correct URL
-    // This is crucial for Docker scenarios where we need to use the host IP instead of localhost
-    return formatSwaggerForLLM(
-      doc as unknown as Parameters<typeof formatSwaggerForLLM>[0],
-      session.baseUrl ?? undefined
-    );
+    return formatSwaggerForLLM(spec.doc, spec.baseUrl, {
+      operations: matches.map(match => match.key),
+    });
+  }
+
+  /**
+   * Parsed spec document (cached with the formatted description)
+   */
+  getSpecDoc(session: Session): SwaggerDoc {
+    return this.getCachedSpec(session).doc;
+  }
+
+  /**
+   * Parsed and formatted spec, reused until the stored document or base URL changes
+   */
+  private getCachedSpec(session: Session): CachedSpec {
+    // The session's derived baseUrl is crucial for Docker scenarios where we need to use the host IP
+    const baseUrl = session.baseUrl ?? undefined;
+    const cached = this.specCache.get(session.id);
+    if (cached && cached.source === session.swaggerDoc && cached.baseUrl === baseUrl) {
+      return cached;
+    }
+
+    const doc = JSON.parse(session.swaggerDoc) as SwaggerDoc;
+    const spec: CachedSpec = {
+      source: session.swaggerDoc,
+      baseUrl,
+      doc,
+      formatted: formatSwaggerForLLM(doc, baseUrl),
+    };
+
+    this.specCache.delete(session.id);
+    this.specCache.set(session.id, spec);
+    if (this.specCache.size > SPEC_CACHE_SIZE) {
+      // Maps iterate in insertion order, so the first key is the least recently refreshed
+      this.specCache.delete(this.specCache.keys().next().value!);
+    }
+
+    return spec;
   }
 
   getSwaggerDoc(session: Session): Record<string, unknown> {
@@ -0,0 +1,143 @@
+/**
+ * Spec History Service
+ * Keeps a versioned history of session specs and reports what changed between refreshes
+ */
+
+import { eq, desc } from 'drizzle-orm';
+
+import { db } from '@/lib/db';
+import { specVersions, workflows } from '@/lib/db/schema';
+import { SwaggerDoc, WorkflowStep } from '@/lib/types';
+import {
+  AffectedWorkflowStep,
+  diffSpecs,
+  findAffectedSteps,
+  listOperationKeys,
+  SpecDiff,
+} from '@/lib/utils/spec-diff';
+
+export interface SpecVersionSummary {
+  id: string;
+  version: number;
+  diff: SpecDiff | null;
+  createdAt: Date;
+}
+
+export interface AffectedWorkflow {
+  workflowId: string;
+  name: string;
+  steps: AffectedWorkflowStep[];
+}
+
+function parseDiff(value: string | null): SpecDiff | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as SpecDiff;
+  } catch {
+    return null;
+  }
+}
+
+export class SpecHistoryService {
+  /**
+   * Store a new version of a session spec, diffed against the previous document
+   * Sessions created before versioning get their previous document stored as version 1 first
+   */
+  async recordVersion(
+    sessionId: string,
+    previousDoc: string | null,
+    nextDoc: SwaggerDoc
+  ): Promise<{ version: number; diff: SpecDiff | null }> {
+    const latest = await db
+      .select({ version: specVersions.version })
+      .from(specVersions)
+      .where(eq(specVersions.sessionId, sessionId))
+      .orderBy(desc(specVersions.version))
+      .limit(1);
+
+    let version = latest[0]?.version ?? 0;
+    const now = new Date();
+
+    if (version === 0 && previousDoc) {
+      version = 1;
+      await db.insert(specVersions).values({
+        id: crypto.randomUUID(),
+        sessionId,
+        version,
+        swaggerDoc: previousDoc,
+        diff: null,
+        createdAt: now,
+      });
+    }
+
+    const diff = previousDoc ? diffSpecs(JSON.parse(previousDoc) as SwaggerDoc, nextDoc) : null;
+    version += 1;
+
+    await db.insert(specVersions).values({
+      id: crypto.randomUUID(),
+      sessionId,
+      version,
+      swaggerDoc: JSON.stringify(nextDoc),
+      diff: diff ? JSON.stringify(diff) : null,
+      createdAt: now,
+    });
+
+    return { version, diff };
+  }
+
+  /**
+   * List the versions of a session spec, newest first (documents are not included)
+   */
+  async listVersions(sessionId: string): Promise<SpecVersionSummary[]> {
+    const rows = await db
+      .select({
+        id: specVersions.id,
+        version: specVersions.version,
+        diff: specVersions.diff,
+        createdAt: specVersions.createdAt,
+      })
+      .from(specVersions)
+      .where(eq(specVersions.sessionId, sessionId))
+      .orderBy(desc(specVersions.version));
+
+    return rows.map(row => ({ ...row, diff: parseDiff(row.diff) }));
+  }
+
+  /**
+   * Saved workflows of a session with steps calling operations removed or changed by a diff
+   */
+  async findAffectedWorkflows(
+    sessionId: string,
+    diff: SpecDiff,
+    currentDoc: SwaggerDoc
+  ): Promise<AffectedWorkflow[]> {
+    const rows = await db
+      .select({ id: workflows.id, name: workflows.name, steps: workflows.steps })
+      .from(workflows)
+      .where(eq(workflows.sessionId, sessionId));
+
+    const operationKeys = listOperationKeys(currentDoc);
+    const affected: AffectedWorkflow[] = [];
+
+    for (const row of rows) {
+      let steps: WorkflowStep[];
+      try {
+        steps = JSON.parse(row.steps) as WorkflowStep[];
+      } catch {
+        continue;
+      }
+
+      const affectedSteps = findAffectedSteps(steps, diff, operationKeys);
+      if (affectedSteps.length > 0) {
+        affected.push({ workflowId: row.id, name: row.name, steps: affectedSteps });
+      }
+    }
+
+    return affected;
+  }
+}
+
+// Singleton instance
+export const specHistoryService = new SpecHistoryService();
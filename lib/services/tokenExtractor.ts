@@ -38,6 +38,12 @@ export class TokenExtractorService {
     'body.token',
     'accessToken',
     'authToken',
+    'api_key',
+    'apiKey',
+    'data.api_key',
+    'data.apiKey',
+    'session_id',
+    'sessionId',
   ];
 
   /**
@@ -178,6 +184,8 @@ export class TokenExtractorService {
         'id_token',
         'accessToken',
         'authToken',
+        'api_key',
+        'apiKey',
       ];
 
       for (const key of priorityKeys) {
@@ -1,17 +1,71 @@
 import { eq, desc, sql, count, max } from 'drizzle-orm';
 
 import { db } from '@/lib/db';
-import { workflows, workflowExecutions, Workflow, WorkflowExecution } from '@/lib/db/schema';
+import {
+  workflows,
+  workflowExecutions,
+  Session,
+  Workflow,
+  WorkflowExecution,
+} from '@/lib/db/schema';
 import { getLLMProvider } from '@/lib/llm';
-import { WorkflowStep } from '@/lib/types';
+import {
+  AssertionResult,
+  DryRunRequest,
+  ResponseMeta,
+  RetryPolicy,
+  StepOverride,
+  WorkflowInput,
+  WorkflowStep,
+} from '@/lib/types';
 import { log } from '@/lib/logger';
-
-import { RequestExecutor } from './request-executor';
+import {
+  parseStoredResponse,
+  serializeStoredResponse,
+  summarizeResponseMeta,
+} from '@/lib/utils/response-meta';
+import { listOperationKeys } from '@/lib/utils/spec-diff';
+import { applyStepOverride } from '@/lib/utils/step-override';
+import { validateWorkflowSteps } from '@/lib/utils/step-validation';
+import {
+  applyInputs,
+  coerceInputValue,
+  formatInputErrors,
+  getInputReferences,
+  parameterizeSteps,
+  resolveInputValues,
+} from '@/lib/utils/workflow-inputs';
+
+import { ExecutionOptions, RequestExecutor, ResumeState, StepResult } from './request-executor';
 import { sessionService } from './session';
+import { oauthService } from './oauth';
+import { sessionFileService } from './session-file';
 
 export interface CreateWorkflowInput {
   sessionId: string;
   description: string;
+  // Retry policy for every step of the workflow
+  retry?: RetryPolicy;
+}
+
+export interface ExecuteWorkflowOptions {
+  // 'resume' continues the latest run of a failed workflow from its failed steps, reusing
+  // the data extracted by the steps that succeeded
+  mode?: 'full' | 'resume';
+  // Request changes for this execution by step number; steps that already completed in the
+  // resumed run cannot be changed
+  overrides?: Record<number, StepOverride>;
+  // Values for a template's inputs, by name (defaults fill the missing ones)
+  inputs?: Record<string, unknown>;
+  // Schedule that started the execution; recorded with its steps as the schedule's run history
+  scheduleId?: string;
+  // Cancels the execution like cancel() does (e.g. when the client that started it goes away)
+  signal?: AbortSignal;
+  // Progress callbacks (e.g. to stream events); executions are recorded before they are called
+  events?: Pick<
+    ExecutionOptions,
+    'onStepStart' | 'onItemComplete' | 'onStepRetry' | 'onStepComplete'
+  >;
 }
 
 export interface WorkflowWithStats extends Workflow {
@@ -25,10 +79,26 @@ export interface ExecutionResult {
     step: number;
     description: string;
     success: boolean;
+    skipped?: boolean;
+    attempts?: number;
     result?: unknown;
     error?: string;
+    httpCode?: number;
+    meta?: ResponseMeta;
+    assertions?: AssertionResult[];
   }>;
   summary: string;
+  // Resumed executions: the first step that ran again
+  resumedFrom?: number;
+  // Cancelled executions: the steps that completed before the cancellation
+  cancelled?: boolean;
+  completedSteps?: number[];
+}
+
+export interface CancelledWorkflow {
+  workflowId: string;
+  // Steps of the cancelled run that completed before it stopped
+  completedSteps: number[];
 }
 
 export interface PaginatedWorkflows {
@@ -52,8 +122,51 @@ export interface CursorPaginatedExecutions {
   };
 }
 
+/**
+ * Pass/fail report of a run: a result line with step and assertion counts, then one line per
+ * step with the assertions that failed listed under it
+ */
+function formatRunReport(
+  results: ExecutionResult['steps'],
+  outcome: 'PASSED' | 'FAILED' | 'CANCELLED'
+): string {
+  const ran = results.filter(result => !result.skipped);
+  const passed = ran.filter(result => result.success).length;
+  const skipped = results.length - ran.length;
+  const assertions = results.flatMap(result => result.assertions ?? []);
+  const counts = [
+    `${passed} of ${ran.length} steps passed`,
+    skipped > 0 && `${skipped} skipped`,
+    assertions.length > 0 &&
+      `${assertions.filter(result => result.passed).length} of ${assertions.length} assertions passed`,
+  ].filter(Boolean);
+
+  const lines = results.map(result => {
+    const label = result.skipped ? 'SKIP' : result.success ? 'PASS' : 'FAIL';
+    const failedAssertions = (result.assertions ?? []).filter(assertion => !assertion.passed);
+    // Failed assertions are listed below the step instead of the error that sums them up
+    const error = failedAssertions.length === 0 && result.error ? ` (${result.error})` : '';
+    const attempts =
+      result.attempts && result.attempts > 1 ? ` after ${result.attempts} attempts` : '';
+    const meta = result.meta ? ` — ${summarizeResponseMeta(result.meta, result.httpCode)}` : '';
+    return [
+      `- **${label}** Step ${result.step}: ${result.description}${error}${attempts}${meta}`,
+      ...failedAssertions.map(assertion => `  - Failed: ${assertion.message}`),
+    ].join('\n');
+  });
+
+  return `**${outcome}**: ${counts.join(', ')}
+
+${lines.join('\n')}`;
+}
+
 export class WorkflowService {
   private llm: ReturnType<typeof getLLMProvider> | null = null;
+  // Executions running in this process, so they can be cancelled
+  private runs = new Map<
+    string,
+    { controller: AbortController; done: Promise<ExecutionResult | null> }
+  >();
 
   private getLLM() {
     if (!this.llm) {
@@ -71,7 +184,10 @@ export class WorkflowService {
       throw new Error('Session not found');
     }
 
-    const formattedSwagger = sessionService.getFormattedSwagger(session);
+    const formattedSwagger = await sessionFileService.appendToPrompt(
+      session.id,
+      sessionService.getFormattedSwagger(session, input.description)
+    );
 
     log.info('Planning workflow', { sessionId: input.sessionId, description: input.description });
 
@@ -81,7 +197,7 @@ export class WorkflowService {
       steps = await this.getLLM().planWorkflow(
         formattedSwagger,
         input.description,
-        !!session.authToken
+        sessionService.hasAuth(session)
       );
     } catch (error) {
       log.error('Workflow planning failed', error);
@@ -109,14 +225,22 @@ export class WorkflowService {
       }
     }
 
-    // Create workflow record
+    return this.createFromSteps({ ...input, steps });
+  }
+
+  /**
+   * Save an already planned workflow (e.g. one planned in chat) so it can be run again
+   */
+  async createFromSteps(input: CreateWorkflowInput & { steps: WorkflowStep[] }): Promise<Workflow> {
     const now = new Date();
     const workflow: Workflow = {
       id: crypto.randomUUID(),
       sessionId: input.sessionId,
       name: this.generateWorkflowName(input.description),
       description: input.description,
-      steps: JSON.stringify(steps),
+      steps: JSON.stringify(input.steps),
+      retryPolicy: input.retry ? JSON.stringify(input.retry) : null,
+      inputs: null,
       status: 'pending',
       createdAt: now,
       updatedAt: now,
@@ -125,7 +249,7 @@ export class WorkflowService {
 
     await db.insert(workflows).values(workflow);
 
-    log.info('Workflow created', { workflowId: workflow.id, steps: steps.length });
+    log.info('Workflow created', { workflowId: workflow.id, steps: input.steps.length });
 
     return workflow;
   }
@@ -133,18 +257,109 @@ export class WorkflowService {
   /**
    * Execute a workflow synchronously
    */
-  async execute(workflowId: string): Promise<ExecutionResult> {
+  async execute(
+    workflowId: string,
+    options: ExecuteWorkflowOptions = {}
+  ): Promise<ExecutionResult> {
+    // Registered before the first await, so concurrent calls cannot both start the workflow
+    if (this.runs.has(workflowId)) {
+      throw new Error('Workflow is already running');
+    }
+    const controller = new AbortController();
+    let finish!: (result: ExecutionResult | null) => void;
+    this.runs.set(workflowId, {
+      controller,
+      done: new Promise(resolve => {
+        finish = resolve;
+      }),
+    });
+
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) {
+      cancel();
+    }
+    options.signal?.addEventListener('abort', cancel);
+
+    let result: ExecutionResult | null = null;
+    try {
+      const workflow = await this.findById(workflowId);
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      const session = await sessionService.findById(workflow.sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      const prepared = await this.prepareRun(workflow, options);
+      result = await this.run(workflow, session, prepared, options, controller.signal);
+      return result;
+    } finally {
+      finish(result);
+      this.runs.delete(workflowId);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Cancel a running workflow: its in-flight requests are aborted, no new steps start and it is
+   * recorded as cancelled. A run left behind by a stopped server is only marked cancelled
+   */
+  async cancel(workflowId: string): Promise<CancelledWorkflow> {
+    // A run this process owns may still be preparing, before its status says running
+    const active = this.runs.get(workflowId);
+    if (active) {
+      log.info('Cancelling workflow', { workflowId });
+      active.controller.abort();
+      const result = await active.done;
+      return { workflowId, completedSteps: result?.completedSteps ?? [] };
+    }
+
     const workflow = await this.findById(workflowId);
     if (!workflow) {
       throw new Error('Workflow not found');
     }
-
-    const session = await sessionService.findById(workflow.sessionId);
-    if (!session) {
-      throw new Error('Session not found');
+    if (workflow.status !== 'running') {
+      throw new Error(`Only running workflows can be cancelled (status: ${workflow.status})`);
     }
 
-    const steps: WorkflowStep[] = JSON.parse(workflow.steps);
+    const completedAt = new Date();
+    await db
+      .update(workflows)
+      .set({ status: 'cancelled', updatedAt: completedAt, completedAt })
+      .where(eq(workflows.id, workflowId));
+
+    // Steps the interrupted run recorded as completed
+    const rows = await db
+      .select()
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.workflowId, workflowId))
+      .orderBy(sql`rowid`);
+    const runId = rows[rows.length - 1]?.runId;
+    const completedSteps = [
+      ...new Set(
+        rows
+          .filter(row => row.runId === runId && row.status === 'completed')
+          .map(row => row.stepNumber)
+      ),
+    ].sort((a, b) => a - b);
+
+    log.info('Marked interrupted workflow as cancelled', { workflowId });
+    return { workflowId, completedSteps };
+  }
+
+  /**
+   * Run prepared steps, recording each step as it finishes and the workflow's final status
+   */
+  private async run(
+    workflow: Workflow,
+    session: Session,
+    { steps, runId, resume }: Awaited<ReturnType<WorkflowService['prepareRun']>>,
+    options: ExecuteWorkflowOptions,
+    signal: AbortSignal
+  ): Promise<ExecutionResult> {
+    const workflowId = workflow.id;
     const now = new Date();
 
     // Update workflow status to running
@@ -157,58 +372,108 @@ export class WorkflowService {
     const executor = new RequestExecutor(
       {
         baseUrl: session.baseUrl || '',
-        authToken: session.authToken || undefined,
+        auth: sessionService.getRequestAuth(session),
+        refreshAuth: oauthService.createAuthRefresher(session),
+        swaggerDoc: sessionService.getSpecDoc(session),
+        loadFile: sessionFileService.createLoader(session.id),
+        saveArtifact: sessionFileService.createArtifactSaver(session.id),
       },
       {
         workflowId,
+        retry: workflow.retryPolicy ? (JSON.parse(workflow.retryPolicy) as RetryPolicy) : null,
+        signal,
+        onStepStart: options.events?.onStepStart,
+        onItemComplete: options.events?.onItemComplete,
+        onStepRetry: async (step, attempt, result, delayMs) => {
+          await this.recordExecution(workflowId, step, {
+            runId,
+            scheduleId: options.scheduleId,
+            request: result.curl || '',
+            response: result.response,
+            meta: result.meta,
+            status: 'retried',
+            httpCode: result.httpCode,
+            error: result.error || null,
+            attempt,
+          });
+          await options.events?.onStepRetry?.(step, attempt, result, delayMs);
+        },
         onStepComplete: async (step, result) => {
+          // Only this step's fields, so a resumed run can rebuild the extracted data
+          const extracted = Object.fromEntries(
+            Object.entries(result.extractedData ?? {}).filter(([key]) =>
+              key.startsWith(`step${step}_`)
+            )
+          );
           await this.recordExecution(workflowId, step, {
+            runId,
+            scheduleId: options.scheduleId,
             request: result.curl || '',
             response: result.response,
-            status: result.success ? 'completed' : 'failed',
+            meta: result.meta,
+            status: result.skipped ? 'skipped' : result.success ? 'completed' : 'failed',
+            httpCode: result.httpCode,
+            extracted: Object.keys(extracted).length > 0 ? extracted : undefined,
+            assertions: result.assertions,
             error: result.error || null,
+            attempt: result.attempts,
           });
+          await options.events?.onStepComplete?.(step, result);
         },
       }
     );
 
     try {
-      // Execute all steps
-      const execResult = await executor.executeSteps(steps);
+      // Execute all steps (or the ones the resumed run has left)
+      const execResult = await executor.executeSteps(steps, resume);
+      const resumedFrom = resume
+        ? steps.find(step => !resume.results.some(r => r.step === step.stepNumber && r.success))
+            ?.stepNumber
+        : undefined;
 
       // Format results
       const results: ExecutionResult['steps'] = execResult.steps.map(step => ({
         step: step.step,
         description: step.description,
         success: step.success,
+        skipped: step.skipped,
+        attempts: step.attempts,
         result: step.response,
         error: step.error,
+        httpCode: step.httpCode,
+        meta: step.meta,
+        assertions: step.assertions,
       }));
 
+      const completedSteps = results
+        .filter(result => result.success && !result.skipped)
+        .map(result => result.step);
+
       // Update workflow status
       const completedAt = new Date();
       await db
         .update(workflows)
         .set({
-          status: execResult.success ? 'completed' : 'failed',
+          status: execResult.cancelled ? 'cancelled' : execResult.success ? 'completed' : 'failed',
           updatedAt: completedAt,
           completedAt,
         })
         .where(eq(workflows.id, workflowId));
 
-      const stepSummaries = results
-        .map(
-          r =>
-            `- ${r.success ? '✅' : '❌'} **Step ${r.step}:** ${r.description}${r.error ? ` (${r.error})` : ''}`
-        )
-        .join('\n');
+      const heading = execResult.cancelled
+        ? `### Workflow cancelled after ${completedSteps.length} of ${steps.length} steps completed`
+        : resume
+          ? `### Workflow resumed from step ${resumedFrom ?? '-'} (${results.length} steps)`
+          : `### Workflow executed with ${results.length} steps`;
 
       return {
         success: execResult.success,
         steps: results,
-        summary: `### Workflow executed with ${results.length} steps
+        summary: `${heading}
 
-${stepSummaries}`,
+${formatRunReport(results, execResult.cancelled ? 'CANCELLED' : execResult.success ? 'PASSED' : 'FAILED')}`,
+        ...(resume && { resumedFrom }),
+        ...(execResult.cancelled && { cancelled: true, completedSteps }),
       };
     } catch (error) {
       // Update workflow status to failed
@@ -221,6 +486,147 @@ ${stepSummaries}`,
     }
   }
 
+  /**
+   * Build the requests an execution would send, without sending them (dry run)
+   * Takes the same options as execute; resumed dry runs show the steps that would run again
+   */
+  async dryRun(
+    workflowId: string,
+    options: Pick<ExecuteWorkflowOptions, 'mode' | 'overrides' | 'inputs'> = {}
+  ): Promise<DryRunRequest[]> {
+    const workflow = await this.findById(workflowId);
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    const session = await sessionService.findById(workflow.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const { steps, resume } = await this.prepareRun(workflow, options);
+    const requests = this.previewSteps(session, steps);
+    return resume
+      ? requests.filter(
+          request => !resume.results.some(result => result.step === request.step && result.success)
+        )
+      : requests;
+  }
+
+  /**
+   * Build the requests of steps that are not saved as a workflow (dry runs of new plans)
+   */
+  previewSteps(session: Session, steps: WorkflowStep[]): DryRunRequest[] {
+    // Built without credentials; previews show them redacted
+    const executor = new RequestExecutor({
+      baseUrl: session.baseUrl || '',
+      auth: sessionService.getRequestAuth(session),
+      swaggerDoc: sessionService.getSpecDoc(session),
+    });
+    return executor.previewSteps(steps);
+  }
+
+  /**
+   * Problems with edited steps, checked against the session's spec (empty when they are valid)
+   */
+  async validateSteps(
+    workflow: Workflow,
+    steps: WorkflowStep[]
+  ): Promise<Record<string, string[]>> {
+    const session = await sessionService.findById(workflow.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return validateWorkflowSteps(steps, {
+      operationKeys: listOperationKeys(sessionService.getSpecDoc(session)),
+      inputNames: this.getInputs(workflow).map(input => input.name),
+    });
+  }
+
+  /**
+   * Replace a workflow's steps (reordered, added, removed or edited). The workflow goes back to
+   * pending, so a run of the old steps cannot be resumed with the new ones
+   */
+  async updateSteps(workflowId: string, steps: WorkflowStep[]): Promise<Workflow> {
+    const workflow = await this.findById(workflowId);
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+    if (workflow.status === 'running') {
+      throw new Error('Cannot edit a running workflow');
+    }
+
+    const errors = await this.validateSteps(workflow, steps);
+    if (Object.keys(errors).length > 0) {
+      throw new Error(`Invalid steps: ${Object.values(errors).flat().join('; ')}`);
+    }
+
+    const updated = {
+      steps: JSON.stringify(steps),
+      status: 'pending' as const,
+      updatedAt: new Date(),
+      completedAt: null,
+    };
+    await db.update(workflows).set(updated).where(eq(workflows.id, workflowId));
+
+    log.info('Workflow steps updated', { workflowId, steps: steps.length });
+
+    return { ...workflow, ...updated };
+  }
+
+  /**
+   * Promote a workflow into a template: step values named like an input are replaced by
+   * {{input.name}} references, and every input has to end up referenced by a step
+   */
+  async promoteToTemplate(workflowId: string, inputs: WorkflowInput[]): Promise<Workflow> {
+    const workflow = await this.findById(workflowId);
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    const names = new Set<string>();
+    for (const input of inputs) {
+      if (names.has(input.name)) {
+        throw new Error(`Invalid template: input "${input.name}" is declared twice`);
+      }
+      names.add(input.name);
+
+      const coerced =
+        input.default === undefined ? null : coerceInputValue(input.type, input.default);
+      if (coerced && 'error' in coerced) {
+        throw new Error(`Invalid template: default of input "${input.name}": ${coerced.error}`);
+      }
+    }
+
+    const template = parameterizeSteps(JSON.parse(workflow.steps), inputs);
+    const referenced = getInputReferences(template.steps);
+    const unused = template.inputs.filter(input => !referenced.has(input.name));
+    if (unused.length > 0) {
+      throw new Error(
+        `Invalid template: no step uses ${unused.map(input => `"${input.name}"`).join(', ')}`
+      );
+    }
+
+    const updated = {
+      steps: JSON.stringify(template.steps),
+      inputs: JSON.stringify(template.inputs),
+      updatedAt: new Date(),
+    };
+    await db.update(workflows).set(updated).where(eq(workflows.id, workflowId));
+
+    log.info('Workflow promoted to template', { workflowId, inputs: template.inputs.length });
+
+    return { ...workflow, ...updated };
+  }
+
+  /**
+   * Declared inputs of a template (none for plain workflows)
+   */
+  getInputs(workflow: Workflow): WorkflowInput[] {
+    return workflow.inputs ? (JSON.parse(workflow.inputs) as WorkflowInput[]) : [];
+  }
+
   /**
    * Find workflow by ID
    */
@@ -340,6 +746,107 @@ ${stepSummaries}`,
     return results[0] || null;
   }
 
+  /**
+   * Steps of an execution with overrides and input values applied, and the run they belong to
+   * Inputs are checked before anything runs, so a bad value never sends half a workflow
+   */
+  private async prepareRun(
+    workflow: Workflow,
+    options: Pick<ExecuteWorkflowOptions, 'mode' | 'overrides' | 'inputs'>
+  ): Promise<{ steps: WorkflowStep[]; runId: string | null; resume?: ResumeState }> {
+    let steps: WorkflowStep[] = JSON.parse(workflow.steps);
+
+    const inputs = resolveInputValues(this.getInputs(workflow), options.inputs);
+    if (Object.keys(inputs.errors).length > 0) {
+      throw new Error(`Invalid inputs: ${formatInputErrors(inputs.errors)}`);
+    }
+
+    let runId: string | null = crypto.randomUUID();
+    let resume: ResumeState | undefined;
+
+    if (options.mode === 'resume') {
+      if (workflow.status !== 'failed') {
+        throw new Error(`Only failed workflows can be resumed (status: ${workflow.status})`);
+      }
+      ({ runId, resume } = await this.getResumeState(workflow.id, steps));
+    }
+
+    for (const [stepNumber, override] of Object.entries(options.overrides ?? {})) {
+      const step = steps.find(candidate => candidate.stepNumber === Number(stepNumber));
+      if (!step) {
+        throw new Error(`Cannot override step ${stepNumber}: the workflow has no such step`);
+      }
+      if (resume?.results.some(result => result.step === step.stepNumber && result.success)) {
+        throw new Error(`Cannot override step ${stepNumber}: it already completed`);
+      }
+      steps = steps.map(candidate =>
+        candidate === step ? applyStepOverride(step, override) : candidate
+      );
+    }
+
+    return { steps: applyInputs(steps, inputs.values), runId, resume };
+  }
+
+  /**
+   * Rebuild the state of the workflow's latest run from its recorded executions: the final
+   * result of every step (retried attempts aside) and the data its steps extracted
+   */
+  private async getResumeState(
+    workflowId: string,
+    steps: WorkflowStep[]
+  ): Promise<{ runId: string | null; resume: ResumeState }> {
+    // rowid keeps insertion order, executedAt only has second precision
+    const rows = await db
+      .select()
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.workflowId, workflowId))
+      .orderBy(sql`rowid`);
+    if (rows.length === 0) {
+      throw new Error('The workflow has no recorded run to resume');
+    }
+
+    const runId = rows[rows.length - 1].runId;
+    const latest = new Map<number, WorkflowExecution>();
+    for (const row of rows) {
+      if (row.runId === runId && row.status !== 'retried') {
+        latest.set(row.stepNumber, row);
+      }
+    }
+
+    const extractor = new RequestExecutor({ baseUrl: '' });
+    const extractedData: Record<string, unknown> = {};
+    const results: StepResult[] = [];
+    for (const row of latest.values()) {
+      const step = steps.find(candidate => candidate.stepNumber === row.stepNumber);
+      if (!step) {
+        continue;
+      }
+
+      const stored = parseStoredResponse(row.response);
+      if (row.extracted) {
+        Object.assign(extractedData, JSON.parse(row.extracted));
+      } else if (row.status === 'completed') {
+        // Rows recorded before extracted data was stored
+        extractor.extractDataFromResponse(stored.body, step, extractedData);
+      }
+
+      results.push({
+        step: row.stepNumber,
+        description: step.description,
+        success: row.status !== 'failed',
+        skipped: row.status === 'skipped' || undefined,
+        curl: row.request,
+        response: stored.body,
+        meta: stored.meta ?? undefined,
+        httpCode: row.httpCode ?? undefined,
+        error: row.error ?? undefined,
+        attempts: row.attempt,
+      });
+    }
+
+    return { runId, resume: { results, extractedData } };
+  }
+
   /**
    * Record a workflow execution step
    */
@@ -347,19 +854,33 @@ ${stepSummaries}`,
     workflowId: string,
     stepNumber: number,
     data: {
+      runId: string | null;
+      scheduleId?: string;
       request: string;
       response: unknown;
-      status: 'completed' | 'failed';
+      meta?: ResponseMeta;
+      status: 'completed' | 'failed' | 'skipped' | 'retried';
+      httpCode?: number;
+      extracted?: Record<string, unknown>;
+      assertions?: AssertionResult[];
       error: string | null;
+      attempt?: number;
     }
   ): Promise<void> {
     await db.insert(workflowExecutions).values({
       id: crypto.randomUUID(),
       workflowId,
+      runId: data.runId,
+      scheduleId: data.scheduleId ?? null,
       stepNumber,
+      attempt: data.attempt ?? 1,
       status: data.status,
       request: data.request,
-      response: data.response ? JSON.stringify(data.response) : null,
+      // Stored as { body, meta } so headers and timings survive alongside the body
+      response: serializeStoredResponse(data.response, data.meta),
+      httpCode: data.httpCode ?? null,
+      extracted: data.extracted ? JSON.stringify(data.extracted) : null,
+      assertions: data.assertions ? JSON.stringify(data.assertions) : null,
       error: data.error,
       executedAt: new Date(),
     });
@@ -28,8 +28,11 @@ export interface CurlGenerationResult {
   note?: string;
   executed?: boolean;
   result?: unknown;
+  httpCode?: number;
+  responseMeta?: ResponseMeta;
   missingFields?: string[]; // Fields that are required but not provided
   hasPlaceholders?: boolean; // Whether the curl contains placeholder values
+  specErrors?: string[]; // Spec problems left after correction (the request was not sent)
   messageId?: string; // Reference to saved message
 }
 
@@ -76,6 +79,36 @@ export interface WorkflowExecutionResult {
   shouldExecute: boolean;
   executed: boolean;
   result?: unknown;
+  // Saved workflow that ran, so later messages can run it again
+  workflowId?: string;
+}
+
+// A request built but not sent (dry run), with its credentials redacted
+export interface DryRunRequest {
+  // Workflow step the request belongs to
+  step?: number;
+  description: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  curl: string;
+  // "METHOD /path" of the spec operation it calls, null when the spec has none
+  operation: string | null;
+  // Problems found checking the request against the operation's schemas
+  errors: string[];
+  // {{placeholders}} left in the request; earlier steps' responses would fill them
+  unresolved: string[];
+  // When the step would run (conditions, forEach items, compensating steps)
+  note?: string;
+}
+
+// Dry run result: the requests a message or workflow would send
+export interface DryRunResult {
+  type: 'dry_run';
+  explanation: string;
+  requests: DryRunRequest[];
+  workflowId?: string;
 }
 
 // Union type for all chat response types
@@ -84,6 +117,7 @@ export type ChatResponse =
   | ApiInfoResult
   | SelfAwarenessResult
   | WorkflowExecutionResult
+  | DryRunResult
   | {
       type: 'error';
       message: string;
@@ -99,11 +133,96 @@ export interface WorkflowStep {
     purpose: string;
     body?: Record<string, unknown>;
     parameters?: Record<string, unknown>;
+    // Media type to send the body as (defaults to the best match from the spec's requestBody)
+    contentType?: string;
+    // Name of a session file sent as the raw request body (binary uploads)
+    bodyFile?: string;
   };
   extractFields?: string[];
+  // Step numbers this step waits for, besides the steps its {{placeholders}} come from.
+  // Without it, write steps run after all earlier steps and reads after earlier writes
+  dependsOn?: number[];
+  // Run the request once per item of an earlier array result
+  forEach?: WorkflowForEach;
+  // Retry policy for this step, merged over the workflow's policy
+  retry?: RetryPolicy;
+  // Run only when this condition holds, e.g. "step1.length == 0" or "status == 404"
+  // (see lib/utils/condition.ts); otherwise the step is skipped
+  when?: string;
+  // Step number of a compensating step to run when this step fails. Compensating steps only
+  // run as a failure handler
+  onFailure?: number;
+  // Checks on the response; the step fails when any of them fails
+  assertions?: StepAssertion[];
   notes?: string;
 }
 
+// Iteration of a forEach step; {{item}}, {{item.field}} and {{index}} refer to the current item
+export interface WorkflowForEach {
+  // Array to iterate: "step1" (a step's whole response), "step1.data.users" (a path in it)
+  // or a field extracted by an earlier step ("users", "step1_users")
+  source: string;
+  // Keep only matching items, e.g. "[status=active]"
+  filter?: string;
+  // Iterate over the first items only
+  maxItems?: number;
+}
+
+// Check on a step's response. Paths are JSONPath into the response body: $, .name, [0],
+// ['key'] and [*] (a wildcard path yields every match). With a status assertion, a non-2xx
+// response no longer fails the step by itself
+export type StepAssertion =
+  | { type: 'status'; equals: number | number[] }
+  | { type: 'equals'; path: string; value: unknown }
+  // Array containing the value, string containing the text, or object with the key
+  | { type: 'contains'; path: string; value: unknown }
+  // Regular expression tested against the value as a string
+  | { type: 'matches'; path: string; pattern: string }
+  | { type: 'length'; path: string; equals?: number; min?: number; max?: number }
+  | { type: 'responseTime'; maxMs: number }
+  // Body matches the response schema the spec declares for the status code
+  | { type: 'schema' };
+
+// Outcome of one assertion; `message` says what was checked and, on failure, what came back
+export interface AssertionResult {
+  assertion: StepAssertion;
+  passed: boolean;
+  message: string;
+}
+
+// How failed step requests are retried; unset fields fall back to the workflow's policy and
+// then to the defaults (WORKFLOW_RETRY_ATTEMPTS, lib/utils/retry.ts)
+export interface RetryPolicy {
+  // Total attempts including the first one (1 disables retries)
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for each further retry
+  backoffMs?: number;
+  // Upper bound for any delay, including Retry-After
+  maxDelayMs?: number;
+  // HTTP status codes worth retrying; network errors and timeouts are always retried
+  retryOn?: number[];
+}
+
+// Changes to a step's request for one execution (e.g. fixing a body before resuming)
+export interface StepOverride {
+  endpoint?: string;
+  // Replaces the whole body
+  body?: Record<string, unknown>;
+  // Query parameters set on the endpoint (path templates like {id} are filled too)
+  parameters?: Record<string, unknown>;
+}
+
+export type WorkflowInputType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// Input variable of a workflow template, referenced in its steps as {{input.name}}
+export interface WorkflowInput {
+  name: string;
+  type: WorkflowInputType;
+  // Inputs without a default are required
+  default?: unknown;
+  description?: string;
+}
+
 // Workflow plan result
 export interface WorkflowPlan {
   workflowName: string;
@@ -119,12 +238,18 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   metadata?: {
-    type?: 'curl' | 'api_info' | 'error' | 'workflow_result';
+    type?: 'curl' | 'api_info' | 'error' | 'workflow_result' | 'workflow_plan' | 'dry_run';
     curl?: string;
     executed?: boolean;
     result?: unknown;
+    httpCode?: number;
+    responseMeta?: ResponseMeta;
     // Workflow streaming progress
     workflowProgress?: WorkflowProgressState;
+    // Saved workflow the message planned or ran (opens in the workflow editor)
+    workflowId?: string;
+    // The workflow run was cancelled
+    cancelled?: boolean;
   };
 }
 
@@ -132,15 +257,27 @@ export interface ChatMessage {
 export interface WorkflowStepProgress {
   step: number;
   description: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
   result?: unknown;
   error?: string;
   httpCode?: number;
+  responseMeta?: ResponseMeta;
+  // Steps that have to finish first (independent steps run in parallel)
+  dependsOn?: number[];
+  // Condition the step runs under
+  when?: string;
+  // Attempts so far when the step's request was retried
+  attempts?: number;
+  // Why the last attempt failed while a retry is pending
+  retryReason?: string;
+  // forEach steps: progress over the items
+  items?: { total: number; completed: number; failed: number };
 }
 
 // Overall workflow progress state
 export interface WorkflowProgressState {
-  phase: 'planning' | 'executing' | 'completed' | 'error';
+  // 'planned': planned for review, not run; 'cancelled': stopped while running
+  phase: 'planning' | 'planned' | 'executing' | 'completed' | 'cancelled' | 'error';
   totalSteps: number;
   steps: WorkflowStepProgress[];
   error?: string;
@@ -165,9 +302,66 @@ export interface SwaggerDoc {
   paths: Record<string, Record<string, unknown>>;
   components?: unknown;
   definitions?: unknown;
+  securityDefinitions?: unknown;
+  security?: unknown;
+}
+
+// A file uploaded into the session, referenced by name from requests
+export interface FileReference {
+  name: string;
+  // Overrides the content type stored with the file
+  contentType?: string;
+  // File name sent in the multipart part (defaults to the session file name)
+  filename?: string;
+}
+
+// multipart/form-data part: a text field or a session file
+export type FormField = { name: string; value: string } | { name: string; file: FileReference };
+
+// Structured HTTP request executed in-process (curl commands are parsed into this form)
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  // multipart/form-data parts, sent instead of `body` (the boundary header is generated)
+  form?: FormField[];
+  // Session file sent as the raw body instead of `body`
+  bodyFile?: FileReference;
+  // Follow 3xx redirects (curl -L); redirects are returned as-is otherwise
+  followRedirects?: boolean;
+}
+
+// Response details captured for every executed request
+export interface ResponseMeta {
+  // Lower-cased header names; repeated Set-Cookie headers are joined with newlines
+  headers: Record<string, string>;
+  // Total time until the body was fully read
+  durationMs: number;
+  // Time until the status line and headers were received
+  ttfbMs: number;
+  // Body size in bytes as received (after content decoding)
+  sizeBytes: number;
+  // How the body was interpreted; missing for responses captured before formats were detected
+  format?: ResponseFormat;
 }
 
-// Execution result from curl command
+// json and xml bodies are parsed into objects, csv into row objects, binary bodies are
+// stored as session artifacts
+export type ResponseFormat = 'json' | 'xml' | 'csv' | 'text' | 'binary';
+
+// Binary response body (image, PDF, archive) kept as a session file instead of text
+export interface ResponseArtifact {
+  type: 'artifact';
+  name: string;
+  contentType: string;
+  size: number;
+  // Missing when the body could not be stored (no session, or larger than the file limit)
+  fileId?: string;
+  url?: string;
+}
+
+// Execution result of an HTTP request
 export interface ExecutionResult {
   success: boolean;
   stdout: string;
@@ -175,6 +369,47 @@ export interface ExecutionResult {
   exitCode: number;
   response?: unknown;
   httpCode?: number;
+  // Missing when no response was received (network error, timeout)
+  meta?: ResponseMeta;
+  // The request never got a response (connection error or timeout)
+  networkError?: boolean;
+}
+
+// Authentication scheme applied to outgoing requests for a session.
+// The credential (token, API key, cookie value) lives in the session's authToken;
+// Basic auth carries its own username/password.
+export type AuthConfig =
+  | { type: 'bearer'; schemeName?: string }
+  | { type: 'apiKey'; in: 'header' | 'query'; name: string; schemeName?: string }
+  | { type: 'basic'; username?: string; password?: string; schemeName?: string }
+  | { type: 'header'; name: string; prefix?: string; schemeName?: string }
+  | { type: 'cookie'; name: string; schemeName?: string }
+  | OAuth2Config;
+
+export type OAuth2Flow = 'clientCredentials' | 'password' | 'refreshToken';
+
+// OAuth2 token acquisition settings. The current access token is the session's authToken.
+export interface OAuth2Config {
+  type: 'oauth2';
+  flow: OAuth2Flow;
+  tokenUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+  username?: string;
+  password?: string;
+  refreshToken?: string;
+  expiresAt?: number; // Access token expiry (epoch ms)
+  schemeName?: string;
+}
+
+export type AuthType = AuthConfig['type'];
+
+// Auth configs sent to the browser carry no secrets; these flags say which ones are stored
+export interface AuthSecretFlags {
+  hasPassword?: boolean;
+  hasClientSecret?: boolean;
+  hasRefreshToken?: boolean;
 }
 
 // LLM Message format
@@ -0,0 +1,358 @@
+/**
+ * Workflow step assertions
+ * Declarative checks on a step's response (status, JSONPath values, array lengths, response
+ * time and the spec's response schema) that turn a workflow into an API regression test.
+ * JSONPath support is the common subset: $, .name, [0], [-1], ['key'] and [*] / .* wildcards
+ */
+
+import { AssertionResult, ResponseMeta, StepAssertion, SwaggerDoc } from '@/lib/types';
+
+import { deref, SchemaObject } from './openapi-refs';
+import { findOperation, getBodyKind } from './request-body';
+import { validateSchemaValue } from './request-validation';
+
+// null is a wildcard segment
+export type JsonPathSegment = string | number | null;
+
+// The response an assertion is checked against
+export interface AssertedResponse {
+  httpCode?: number;
+  body: unknown;
+  meta?: ResponseMeta;
+}
+
+// Where the step's request went, to look up its response schema
+export interface AssertionSpec {
+  doc: SwaggerDoc;
+  method: string;
+  endpoint: string;
+}
+
+// Schema errors listed in a failed schema assertion
+const MAX_SCHEMA_ERRORS = 3;
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Parse a JSONPath; the leading "$" is optional ("data.id" is "$.data.id")
+ * Throws when the path has a part that is not supported
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const trimmed = path.trim();
+  let rest = trimmed.startsWith('$') ? trimmed.slice(1) : trimmed;
+  if (rest && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = `.${rest}`;
+  }
+
+  const segments: JsonPathSegment[] = [];
+  while (rest) {
+    const property = rest.match(/^\.([^.[\]\s]+)/);
+    const index = rest.match(/^\[\s*(-?\d+)\s*\]/);
+    const key = rest.match(/^\[\s*(?:'([^']*)'|"([^"]*)")\s*\]/);
+    const wildcard = rest.match(/^(?:\.\*|\[\s*\*\s*\])/);
+
+    if (wildcard) {
+      segments.push(null);
+      rest = rest.slice(wildcard[0].length);
+    } else if (property) {
+      segments.push(property[1]);
+      rest = rest.slice(property[0].length);
+    } else if (index) {
+      segments.push(parseInt(index[1], 10));
+      rest = rest.slice(index[0].length);
+    } else if (key) {
+      segments.push(key[1] ?? key[2]);
+      rest = rest.slice(key[0].length);
+    } else {
+      throw new Error(`Invalid JSONPath "${path}" at "${rest}"`);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Values a JSONPath selects; `found` is false when a path without wildcards selects nothing
+ * Paths with a wildcard always yield the array of their matches
+ */
+export function queryJsonPath(value: unknown, path: string): { found: boolean; value: unknown } {
+  const segments = parseJsonPath(path);
+  let matches = [value];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const current of matches) {
+      if (current === null || typeof current !== 'object') {
+        continue;
+      }
+      if (segment === null) {
+        next.push(...(Array.isArray(current) ? current : Object.values(current)));
+      } else if (typeof segment === 'number' && Array.isArray(current)) {
+        const item = current[segment < 0 ? current.length + segment : segment];
+        if (item !== undefined) {
+          next.push(item);
+        }
+      } else if (Object.prototype.hasOwnProperty.call(current, segment)) {
+        next.push((current as Record<string, unknown>)[segment]);
+      }
+    }
+    matches = next;
+  }
+
+  if (segments.includes(null)) {
+    return { found: true, value: matches };
+  }
+  return matches.length > 0
+    ? { found: true, value: matches[0] }
+    : { found: false, value: undefined };
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length && left.every((item, index) => deepEqual(item, right[index]))
+    );
+  }
+  if (
+    left !== null &&
+    right !== null &&
+    typeof left === 'object' &&
+    typeof right === 'object' &&
+    !Array.isArray(left) &&
+    !Array.isArray(right)
+  ) {
+    const leftKeys = Object.keys(left);
+    const rightRecord = right as Record<string, unknown>;
+    return (
+      leftKeys.length === Object.keys(right).length &&
+      leftKeys.every(key => deepEqual((left as Record<string, unknown>)[key], rightRecord[key]))
+    );
+  }
+  return false;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function describeLength(assertion: Extract<StepAssertion, { type: 'length' }>): string {
+  const { equals, min, max } = assertion;
+  if (equals !== undefined) {
+    return `${equals}`;
+  }
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+/**
+ * What an assertion checks, e.g. "$.user.name equals \"Ada\"" or "status is 200"
+ */
+export function describeAssertion(assertion: StepAssertion): string {
+  switch (assertion.type) {
+    case 'status':
+      return Array.isArray(assertion.equals)
+        ? `status is one of ${assertion.equals.join(', ')}`
+        : `status is ${assertion.equals}`;
+    case 'equals':
+      return `${assertion.path} equals ${formatValue(assertion.value)}`;
+    case 'contains':
+      return `${assertion.path} contains ${formatValue(assertion.value)}`;
+    case 'matches':
+      return `${assertion.path} matches /${assertion.pattern}/`;
+    case 'length':
+      return `length of ${assertion.path} is ${describeLength(assertion)}`;
+    case 'responseTime':
+      return `response time under ${assertion.maxMs} ms`;
+    case 'schema':
+      return 'body matches the response schema';
+  }
+}
+
+/**
+ * Why an assertion can never be checked (bad path, pattern or bounds), or null when it is valid
+ */
+export function validateAssertion(assertion: StepAssertion): string | null {
+  try {
+    if ('path' in assertion) {
+      parseJsonPath(assertion.path);
+    }
+    if (assertion.type === 'matches') {
+      new RegExp(assertion.pattern);
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid assertion';
+  }
+
+  if (
+    assertion.type === 'length' &&
+    assertion.equals === undefined &&
+    assertion.min === undefined &&
+    assertion.max === undefined
+  ) {
+    return 'A length assertion needs equals, min or max';
+  }
+  if (
+    assertion.type === 'length' &&
+    assertion.min !== undefined &&
+    assertion.max !== undefined &&
+    assertion.min > assertion.max
+  ) {
+    return `Minimum length ${assertion.min} is above the maximum ${assertion.max}`;
+  }
+  return null;
+}
+
+/**
+ * The response schema the spec declares for a status code (exact code, then 2XX-style ranges,
+ * then default), with a label like "GET /users/{id} 200"
+ */
+export function getResponseSchema(
+  spec: AssertionSpec,
+  httpCode: number
+): { schema: unknown; label: string } | null {
+  const entry = findOperation(spec.doc, spec.method, spec.endpoint);
+  const responses = entry?.operation.responses as Record<string, unknown> | undefined;
+  if (!entry || !responses) {
+    return null;
+  }
+
+  const code = String(httpCode);
+  const key = [code, `${code[0]}XX`, `${code[0]}xx`, 'default'].find(
+    candidate => responses[candidate] !== undefined
+  );
+  const response = key ? deref(responses[key], spec.doc).value : null;
+  if (!key || !response) {
+    return null;
+  }
+
+  // OpenAPI 3 declares schemas per media type, Swagger 2 on the response
+  const content = response.content as Record<string, SchemaObject | undefined> | undefined;
+  const schema = content
+    ? Object.entries(content).find(([type]) => getBodyKind(type) === 'json')?.[1]?.schema
+    : response.schema;
+  return schema ? { schema, label: `${entry.key} ${key}` } : null;
+}
+
+function checkAssertion(
+  assertion: StepAssertion,
+  response: AssertedResponse,
+  spec?: AssertionSpec
+): { passed: boolean; detail?: string } {
+  switch (assertion.type) {
+    case 'status': {
+      const codes = Array.isArray(assertion.equals) ? assertion.equals : [assertion.equals];
+      return {
+        passed: response.httpCode !== undefined && codes.includes(response.httpCode),
+        detail: `got ${response.httpCode ?? 'no response'}`,
+      };
+    }
+    case 'responseTime': {
+      const duration = response.meta?.durationMs;
+      return duration === undefined
+        ? { passed: false, detail: 'no timing recorded' }
+        : { passed: duration < assertion.maxMs, detail: `took ${duration} ms` };
+    }
+    case 'schema': {
+      if (!spec || response.httpCode === undefined) {
+        return { passed: false, detail: 'no spec to check against' };
+      }
+      const declared = getResponseSchema(spec, response.httpCode);
+      if (!declared) {
+        return {
+          passed: false,
+          detail: `the spec declares no response schema for HTTP ${response.httpCode}`,
+        };
+      }
+      const errors = validateSchemaValue(response.body, declared.schema, spec.doc, 'body');
+      const shown = errors.slice(0, MAX_SCHEMA_ERRORS).join('; ');
+      return {
+        passed: errors.length === 0,
+        detail:
+          errors.length > MAX_SCHEMA_ERRORS
+            ? `${shown}; and ${errors.length - MAX_SCHEMA_ERRORS} more`
+            : shown || undefined,
+      };
+    }
+  }
+
+  const { found, value } = queryJsonPath(response.body, assertion.path);
+  const got = found ? `got ${formatValue(value)}` : 'not found';
+
+  switch (assertion.type) {
+    case 'equals':
+      return { passed: found && deepEqual(value, assertion.value), detail: got };
+    case 'contains': {
+      const expected = assertion.value;
+      let passed = false;
+      if (Array.isArray(value)) {
+        passed = value.some(item => deepEqual(item, expected));
+      } else if (typeof value === 'string') {
+        passed = value.includes(String(expected));
+      } else if (value !== null && typeof value === 'object') {
+        passed = typeof expected === 'string' && expected in value;
+      }
+      return { passed, detail: got };
+    }
+    case 'matches': {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return { passed: found && new RegExp(assertion.pattern).test(text ?? ''), detail: got };
+    }
+    case 'length': {
+      const length = Array.isArray(value) || typeof value === 'string' ? value.length : undefined;
+      if (length === undefined) {
+        return { passed: false, detail: found ? `${got}, which has no length` : got };
+      }
+      const { equals, min, max } = assertion;
+      return {
+        passed:
+          (equals === undefined || length === equals) &&
+          (min === undefined || length >= min) &&
+          (max === undefined || length <= max),
+        detail: `length ${length}`,
+      };
+    }
+  }
+}
+
+/**
+ * Check a step's assertions against its response
+ * Failed messages say what came back, e.g. "status is 200 (got 404)"
+ */
+export function evaluateAssertions(
+  assertions: StepAssertion[],
+  response: AssertedResponse,
+  spec?: AssertionSpec
+): AssertionResult[] {
+  return assertions.map(assertion => {
+    const description = describeAssertion(assertion);
+    const invalid = validateAssertion(assertion);
+    if (invalid) {
+      return { assertion, passed: false, message: `${description} (${invalid})` };
+    }
+
+    const { passed, detail } = checkAssertion(assertion, response, spec);
+    return {
+      assertion,
+      passed,
+      message: passed || !detail ? description : `${description} (${detail})`,
+    };
+  });
+}
+
+/**
+ * "2 of 3 assertions failed: ..." listing the failed ones, or null when all passed
+ */
+export function summarizeFailedAssertions(results: AssertionResult[]): string | null {
+  const failed = results.filter(result => !result.passed);
+  if (failed.length === 0) {
+    return null;
+  }
+  return `${failed.length} of ${results.length} assertion${results.length === 1 ? '' : 's'} failed: ${failed.map(result => result.message).join('; ')}`;
+}
@@ -0,0 +1,494 @@
+/**
+ * Authentication helpers
+ * Maps OpenAPI security schemes to session auth configs and applies them to outgoing requests
+ */
+
+import { AuthConfig, AuthSecretFlags, HttpRequest, OAuth2Config, SwaggerDoc } from '@/lib/types';
+
+export interface SessionAuth {
+  config: AuthConfig;
+  credential?: string | null;
+}
+
+export interface SecuritySchemeOption {
+  name: string;
+  description?: string;
+  config: AuthConfig;
+}
+
+export interface AuthRequestParts {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+}
+
+const AUTH_TYPES: AuthConfig['type'][] = [
+  'bearer',
+  'apiKey',
+  'basic',
+  'header',
+  'cookie',
+  'oauth2',
+];
+
+// Refresh OAuth2 tokens slightly before they expire to avoid racing the server clock
+const TOKEN_EXPIRY_SKEW_MS = 30_000;
+
+/**
+ * Map an OAuth2 scheme to a token flow we can run without user interaction
+ * Handles both OpenAPI 3 `flows` and Swagger 2 `flow` + `tokenUrl`
+ */
+function oauth2SchemeToConfig(name: string, scheme: Record<string, unknown>): AuthConfig {
+  const flows = (scheme.flows || {}) as Record<string, Record<string, unknown> | undefined>;
+  const scopesOf = (value: unknown) =>
+    value && typeof value === 'object' ? Object.keys(value as Record<string, unknown>) : [];
+
+  if (flows.clientCredentials?.tokenUrl) {
+    return {
+      type: 'oauth2',
+      flow: 'clientCredentials',
+      tokenUrl: String(flows.clientCredentials.tokenUrl),
+      scopes: scopesOf(flows.clientCredentials.scopes),
+      schemeName: name,
+    };
+  }
+  if (flows.password?.tokenUrl) {
+    return {
+      type: 'oauth2',
+      flow: 'password',
+      tokenUrl: String(flows.password.tokenUrl),
+      scopes: scopesOf(flows.password.scopes),
+      schemeName: name,
+    };
+  }
+  if (
+    typeof scheme.tokenUrl === 'string' &&
+    (scheme.flow === 'application' || scheme.flow === 'password')
+  ) {
+    return {
+      type: 'oauth2',
+      flow: scheme.flow === 'application' ? 'clientCredentials' : 'password',
+      tokenUrl: scheme.tokenUrl,
+      scopes: scopesOf(scheme.scopes),
+      schemeName: name,
+    };
+  }
+
+  // Interactive flows (authorization code, implicit): the token is obtained elsewhere
+  return { type: 'bearer', schemeName: name };
+}
+
+/**
+ * Convert a single securityScheme / securityDefinition entry into an auth config
+ * Returns null for schemes we cannot apply (e.g. digest, mutual TLS)
+ */
+function schemeToAuthConfig(name: string, scheme: Record<string, unknown>): AuthConfig | null {
+  const type = typeof scheme.type === 'string' ? scheme.type : '';
+
+  switch (type) {
+    case 'http': {
+      const httpScheme = String(scheme.scheme || '').toLowerCase();
+      if (httpScheme === 'bearer') {
+        return { type: 'bearer', schemeName: name };
+      }
+      if (httpScheme === 'basic') {
+        return { type: 'basic', schemeName: name };
+      }
+      return null;
+    }
+    case 'basic':
+      // Swagger 2.0
+      return { type: 'basic', schemeName: name };
+    case 'apiKey': {
+      const keyName = typeof scheme.name === 'string' ? scheme.name : '';
+      if (!keyName) {
+        return null;
+      }
+      if (scheme.in === 'cookie') {
+        return { type: 'cookie', name: keyName, schemeName: name };
+      }
+      if (scheme.in === 'query') {
+        return { type: 'apiKey', in: 'query', name: keyName, schemeName: name };
+      }
+      return { type: 'apiKey', in: 'header', name: keyName, schemeName: name };
+    }
+    case 'oauth2':
+      return oauth2SchemeToConfig(name, scheme);
+    case 'openIdConnect':
+      // Tokens obtained from OpenID Connect are sent as Bearer tokens
+      return { type: 'bearer', schemeName: name };
+    default:
+      return null;
+  }
+}
+
+/**
+ * List the security schemes declared by a spec (OpenAPI 3 securitySchemes or Swagger 2 securityDefinitions)
+ */
+export function getSecuritySchemes(doc: SwaggerDoc): SecuritySchemeOption[] {
+  const components = (doc.components || {}) as Record<string, unknown>;
+  const declared = (components.securitySchemes || doc.securityDefinitions || {}) as Record<
+    string,
+    unknown
+  >;
+
+  const options: SecuritySchemeOption[] = [];
+  for (const [name, scheme] of Object.entries(declared)) {
+    if (!scheme || typeof scheme !== 'object') {
+      continue;
+    }
+    const config = schemeToAuthConfig(name, scheme as Record<string, unknown>);
+    if (config) {
+      const description = (scheme as Record<string, unknown>).description;
+      options.push({
+        name,
+        description: typeof description === 'string' ? description : undefined,
+        config,
+      });
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Pick the default auth config for a spec
+ * Prefers the first scheme referenced by the global `security` requirement
+ */
+export function detectAuthConfig(doc: SwaggerDoc): AuthConfig | null {
+  const schemes = getSecuritySchemes(doc);
+  if (schemes.length === 0) {
+    return null;
+  }
+
+  if (Array.isArray(doc.security)) {
+    for (const requirement of doc.security) {
+      if (!requirement || typeof requirement !== 'object') {
+        continue;
+      }
+      for (const name of Object.keys(requirement)) {
+        const match = schemes.find(s => s.name === name);
+        if (match) {
+          return match.config;
+        }
+      }
+    }
+  }
+
+  return schemes[0].config;
+}
+
+/**
+ * Parse a stored auth config, returning null when it is missing or malformed
+ */
+export function parseAuthConfig(value: string | null | undefined): AuthConfig | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(value) as AuthConfig;
+    if (!parsed || typeof parsed !== 'object' || !AUTH_TYPES.includes(parsed.type)) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// Secret auth config fields and the flags that replace them in API responses
+const AUTH_SECRET_FIELDS = [
+  ['password', 'hasPassword'],
+  ['clientSecret', 'hasClientSecret'],
+  ['refreshToken', 'hasRefreshToken'],
+] as const;
+
+/**
+ * An auth config without its secrets (passwords, client secret, refresh token), flagging which
+ * ones are stored
+ */
+export function redactAuthConfig(config: AuthConfig): AuthConfig & AuthSecretFlags {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const [field, flag] of AUTH_SECRET_FIELDS) {
+    if (redacted[field]) {
+      redacted[flag] = true;
+    }
+    delete redacted[field];
+  }
+  return redacted as unknown as AuthConfig & AuthSecretFlags;
+}
+
+/**
+ * A session as returned by the API: its stored auth config with the secrets removed
+ */
+export function redactSessionAuth<T extends { authConfig: string | null }>(session: T): T {
+  const config = parseAuthConfig(session.authConfig);
+  return { ...session, authConfig: config ? JSON.stringify(redactAuthConfig(config)) : null };
+}
+
+/**
+ * Keep the stored secrets of an updated auth config whose secret fields were left empty, as they
+ * are never sent to the browser. Only applies when the scheme type is unchanged
+ */
+export function keepStoredSecrets(config: AuthConfig, stored: AuthConfig | null): AuthConfig {
+  if (!stored || stored.type !== config.type) {
+    return config;
+  }
+
+  const merged: Record<string, unknown> = { ...config };
+  const previous = stored as Record<string, unknown>;
+  for (const [field] of AUTH_SECRET_FIELDS) {
+    if (!merged[field] && previous[field]) {
+      merged[field] = previous[field];
+    }
+  }
+  return merged as AuthConfig;
+}
+
+/**
+ * Whether the session has enough credentials to authenticate requests
+ */
+export function hasAuthCredentials(auth: SessionAuth | null | undefined): boolean {
+  if (!auth) {
+    return false;
+  }
+
+  if (auth.config.type === 'basic') {
+    return !!auth.config.username;
+  }
+
+  if (auth.config.type === 'oauth2') {
+    // A token can be fetched on demand once the client is configured
+    return !!auth.credential || canRequestToken(auth.config);
+  }
+
+  return !!auth.credential;
+}
+
+/**
+ * Whether an OAuth2 config has what its flow needs to request a token
+ */
+export function canRequestToken(config: OAuth2Config): boolean {
+  switch (config.flow) {
+    case 'clientCredentials':
+      return !!config.tokenUrl && !!config.clientId;
+    case 'password':
+      return !!config.tokenUrl && !!config.username;
+    case 'refreshToken':
+      return !!config.tokenUrl && !!config.refreshToken;
+  }
+}
+
+/**
+ * Whether an OAuth2 access token is missing or about to expire
+ * Always false for static credentials
+ */
+export function isAuthExpired(
+  auth: SessionAuth | null | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!auth || auth.config.type !== 'oauth2') {
+    return false;
+  }
+
+  if (!auth.credential) {
+    return true;
+  }
+
+  return !!auth.config.expiresAt && auth.config.expiresAt - TOKEN_EXPIRY_SKEW_MS <= now;
+}
+
+function encodeBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Resolve the headers and query parameters an auth config adds to a request
+ */
+export function resolveAuthParts(auth: SessionAuth | null | undefined): AuthRequestParts {
+  const parts: AuthRequestParts = { headers: {}, query: {} };
+  if (!auth || !hasAuthCredentials(auth)) {
+    return parts;
+  }
+
+  const { config } = auth;
+  const credential = auth.credential || '';
+
+  switch (config.type) {
+    case 'bearer':
+    case 'oauth2':
+      if (!credential) {
+        break;
+      }
+      parts.headers.Authorization = credential.startsWith('Bearer ')
+        ? credential
+        : `Bearer ${credential}`;
+      break;
+    case 'basic':
+      parts.headers.Authorization = `Basic ${encodeBase64(
+        `${config.username}:${config.password || ''}`
+      )}`;
+      break;
+    case 'apiKey':
+      if (config.in === 'query') {
+        parts.query[config.name] = credential;
+      } else {
+        parts.headers[config.name] = credential;
+      }
+      break;
+    case 'header':
+      parts.headers[config.name] = config.prefix ? `${config.prefix} ${credential}` : credential;
+      break;
+    case 'cookie':
+      parts.headers.Cookie = `${config.name}=${credential}`;
+      break;
+  }
+
+  return parts;
+}
+
+function curlHasHeader(curl: string, headerName: string): boolean {
+  const escaped = headerName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const headerRegex = new RegExp(`(?:-H|--header)\\s+['"]?\\s*${escaped}\\s*:`, 'i');
+  if (headerRegex.test(curl)) {
+    return true;
+  }
+  return headerName.toLowerCase() === 'cookie' && /(?:^|\s)(?:-b|--cookie)\s/.test(curl);
+}
+
+function appendQueryToCurlUrl(curl: string, query: Record<string, string>): string {
+  const urlMatch = curl.match(/https?:\/\/[^\s'"]+/);
+  if (!urlMatch) {
+    return curl;
+  }
+
+  let url = urlMatch[0];
+  for (const [name, value] of Object.entries(query)) {
+    const existing = new RegExp(
+      `[?&]${encodeURIComponent(name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}=`
+    );
+    if (existing.test(url)) {
+      continue;
+    }
+    url += `${url.includes('?') ? '&' : '?'}${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+  }
+
+  return curl.replace(urlMatch[0], url);
+}
+
+/**
+ * Apply session auth to a curl command
+ * Headers the command already sets are left untouched
+ */
+export function applyAuthToCurl(curl: string, auth: SessionAuth | null | undefined): string {
+  const { headers, query } = resolveAuthParts(auth);
+  let result = curl;
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!curlHasHeader(result, name)) {
+      result += ` -H '${name}: ${value}'`;
+    }
+  }
+
+  if (Object.keys(query).length > 0) {
+    result = appendQueryToCurlUrl(result, query);
+  }
+
+  return result;
+}
+
+/**
+ * Apply session auth to a structured request
+ * Headers and query parameters the request already sets are left untouched
+ */
+export function applyAuthToRequest(
+  request: HttpRequest,
+  auth: SessionAuth | null | undefined
+): HttpRequest {
+  const { headers, query } = resolveAuthParts(auth);
+  const result: HttpRequest = { ...request, headers: { ...request.headers } };
+  const existingHeaders = Object.keys(result.headers).map(name => name.toLowerCase());
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!existingHeaders.includes(name.toLowerCase())) {
+      result.headers[name] = value;
+    }
+  }
+
+  if (Object.keys(query).length > 0) {
+    const url = new URL(result.url);
+    for (const [name, value] of Object.entries(query)) {
+      if (!url.searchParams.has(name)) {
+        url.searchParams.append(name, value);
+      }
+    }
+    result.url = url.toString();
+  }
+
+  return result;
+}
+
+// Shown in place of credentials in requests that are previewed rather than sent
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Apply session auth to a request with its credentials masked (dry runs)
+ * Auth headers and query parameters the request already sets are masked too
+ */
+export function applyRedactedAuth(
+  request: HttpRequest,
+  auth: SessionAuth | null | undefined
+): HttpRequest {
+  const { headers, query } = resolveAuthParts(auth);
+  const result: HttpRequest = { ...request, headers: { ...request.headers } };
+
+  for (const name of Object.keys(headers)) {
+    const existing = Object.keys(result.headers).find(
+      header => header.toLowerCase() === name.toLowerCase()
+    );
+    result.headers[existing ?? name] = REDACTED;
+  }
+
+  for (const name of Object.keys(query)) {
+    const encoded = encodeURIComponent(name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const existing = new RegExp(`([?&]${encoded}=)[^&#]*`);
+    result.url = existing.test(result.url)
+      ? result.url.replace(existing, `$1${REDACTED}`)
+      : `${result.url}${result.url.includes('?') ? '&' : '?'}${encodeURIComponent(name)}=${REDACTED}`;
+  }
+
+  return result;
+}
+
+const OAUTH2_FLOW_LABELS: Record<OAuth2Config['flow'], string> = {
+  clientCredentials: 'client credentials',
+  password: 'password grant',
+  refreshToken: 'refresh token',
+};
+
+/**
+ * Human readable description of where credentials are sent
+ */
+export function describeAuthConfig(config: AuthConfig): string {
+  switch (config.type) {
+    case 'bearer':
+      return 'Bearer token (Authorization header)';
+    case 'basic':
+      return 'HTTP Basic auth';
+    case 'apiKey':
+      return config.in === 'query'
+        ? `API key (query parameter "${config.name}")`
+        : `API key (header "${config.name}")`;
+    case 'header':
+      return `Custom header "${config.name}"`;
+    case 'cookie':
+      return `Cookie "${config.name}"`;
+    case 'oauth2':
+      return `OAuth2 ${OAUTH2_FLOW_LABELS[config.flow]} (Bearer token)`;
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Workflow step conditions
+ * A small expression language for `when` conditions, parsed and evaluated without eval:
+ *   step1.length == 0 && status != 404
+ *   empty(step2_tags) || step3.body.status == 'active'
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null
+ * - References: names with .field, [0] and ['key'] parts, resolved by the caller
+ * - Operators: == != (=== !== alike) < <= > >= && || ! (and, or, not) and parentheses
+ * - Functions: empty(x), exists(x), length(x), contains(list or text, value)
+ */
+
+export type PathSegment = string | number;
+
+// A name used in a condition; `raw` is the text as written (e.g. "step1_[0].id")
+export interface ConditionReference {
+  raw: string;
+  root: string;
+  path: PathSegment[];
+}
+
+type ConditionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'reference'; reference: ConditionReference }
+  | { type: 'call'; name: string; args: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: CompareOperator; left: ConditionNode; right: ConditionNode };
+
+type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Token =
+  | { type: 'literal'; value: unknown }
+  | { type: 'reference'; reference: ConditionReference }
+  | { type: 'operator'; value: string };
+
+const FUNCTIONS = ['empty', 'exists', 'length', 'contains'];
+
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const KEYWORD_LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+// Longest operators first so "<=" is not read as "<"
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', ','];
+
+function parsePath(raw: string, start: number): { path: PathSegment[]; end: number } {
+  const path: PathSegment[] = [];
+  let position = start;
+
+  while (position < raw.length) {
+    const rest = raw.slice(position);
+    const property = rest.match(/^\.([A-Za-z_$][\w$]*)/);
+    const index = rest.match(/^\[\s*(\d+)\s*\]/);
+    const key = rest.match(/^\[\s*(?:'([^']*)'|"([^"]*)")\s*\]/);
+
+    if (property) {
+      path.push(property[1]);
+      position += property[0].length;
+    } else if (index) {
+      path.push(parseInt(index[1], 10));
+      position += index[0].length;
+    } else if (key) {
+      path.push(key[1] ?? key[2]);
+      position += key[0].length;
+    } else {
+      break;
+    }
+  }
+
+  return { path, end: position };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'literal', value: parseFloat(number[0]) });
+      position += number[0].length;
+      continue;
+    }
+
+    const string = rest.match(/^'((?:[^'\\]|\\.)*)'|^"((?:[^"\\]|\\.)*)"/);
+    if (string) {
+      const value = (string[1] ?? string[2]).replace(/\\(.)/g, '$1');
+      tokens.push({ type: 'literal', value });
+      position += string[0].length;
+      continue;
+    }
+
+    const name = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (name) {
+      const word = name[0];
+      if (word in KEYWORD_LITERALS) {
+        tokens.push({ type: 'literal', value: KEYWORD_LITERALS[word] });
+        position += word.length;
+        continue;
+      }
+      if (word in KEYWORD_OPERATORS) {
+        tokens.push({ type: 'operator', value: KEYWORD_OPERATORS[word] });
+        position += word.length;
+        continue;
+      }
+
+      const { path, end } = parsePath(rest, word.length);
+      tokens.push({
+        type: 'reference',
+        reference: { raw: rest.slice(0, end), root: word, path },
+      });
+      position += end;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (operator) {
+      // === and !== compare like == and != (values are compared loosely anyway)
+      tokens.push({
+        type: 'operator',
+        value: operator.length === 3 ? operator.slice(0, 2) : operator,
+      });
+      position += operator.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}`);
+  }
+
+  return tokens;
+}
+
+class ConditionParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Empty condition');
+    }
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected ${this.describe(this.tokens[this.position])}`);
+    }
+    return node;
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'operator') {
+      return `"${token.value}"`;
+    }
+    return token.type === 'reference' ? `"${token.reference.raw}"` : 'value';
+  }
+
+  private peekOperator(...values: string[]): string | null {
+    const token = this.tokens[this.position];
+    return token?.type === 'operator' && values.includes(token.value) ? token.value : null;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.peekOperator(value)) {
+      throw new Error(`Expected "${value}"`);
+    }
+    this.position++;
+  }
+
+  private parseOr(): ConditionNode {
+    let node = this.parseAnd();
+    while (this.peekOperator('||')) {
+      this.position++;
+      node = { type: 'logical', operator: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ConditionNode {
+    let node = this.parseNot();
+    while (this.peekOperator('&&')) {
+      this.position++;
+      node = { type: 'logical', operator: '&&', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.peekOperator('!')) {
+      this.position++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const operator = this.peekOperator('==', '!=', '<', '<=', '>', '>=') as CompareOperator | null;
+    if (!operator) {
+      return left;
+    }
+    this.position++;
+    return { type: 'compare', operator, left, right: this.parsePrimary() };
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new Error('Unexpected end of condition');
+    }
+
+    if (token.type === 'literal') {
+      this.position++;
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'reference') {
+      this.position++;
+      if (!this.peekOperator('(')) {
+        return { type: 'reference', reference: token.reference };
+      }
+
+      const name = token.reference.raw;
+      if (!FUNCTIONS.includes(name)) {
+        throw new Error(`Unknown function "${name}"`);
+      }
+      this.position++;
+      const args: ConditionNode[] = [];
+      if (!this.peekOperator(')')) {
+        args.push(this.parseOr());
+        while (this.peekOperator(',')) {
+          this.position++;
+          args.push(this.parseOr());
+        }
+      }
+      this.expectOperator(')');
+      return { type: 'call', name, args };
+    }
+
+    if (token.value === '(') {
+      this.position++;
+      const node = this.parseOr();
+      this.expectOperator(')');
+      return node;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+}
+
+/**
+ * Parse a condition, throwing a descriptive error when it is malformed
+ */
+function parseCondition(expression: string): ConditionNode {
+  try {
+    return new ConditionParser(tokenize(expression)).parse();
+  } catch (error) {
+    throw new Error(
+      `Invalid condition "${expression}": ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Follow a path into a value; "length" also works on arrays and strings
+ */
+export function getPathValue(value: unknown, path: PathSegment[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (segment === 'length' && (typeof current === 'string' || Array.isArray(current))) {
+      current = current.length;
+    } else if (current !== null && typeof current === 'object') {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return !!value;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return typeof value === 'object' && Object.keys(value).length === 0;
+}
+
+// Numbers compare with numeric strings ("404" == 404) since extracted values are often text
+function toComparable(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null);
+  }
+  if (typeof left === 'object' || typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left) === String(right);
+  }
+  return toComparable(left) === toComparable(right);
+}
+
+function compare(operator: CompareOperator, leftValue: unknown, rightValue: unknown): boolean {
+  if (operator === '==') {
+    return looseEquals(leftValue, rightValue);
+  }
+  if (operator === '!=') {
+    return !looseEquals(leftValue, rightValue);
+  }
+
+  const left = toComparable(leftValue);
+  const right = toComparable(rightValue);
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  const [a, b] = [left as number | string, right as number | string];
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+function callFunction(name: string, args: unknown[]): unknown {
+  switch (name) {
+    case 'empty':
+      return isEmpty(args[0]);
+    case 'exists':
+      return args[0] !== undefined && args[0] !== null;
+    case 'length':
+      return typeof args[0] === 'string' || Array.isArray(args[0]) ? args[0].length : 0;
+    case 'contains':
+      if (Array.isArray(args[0])) {
+        return args[0].some(item => looseEquals(item, args[1]));
+      }
+      return typeof args[0] === 'string' && args[0].includes(String(args[1]));
+    default:
+      throw new Error(`Unknown function "${name}"`);
+  }
+}
+
+function evaluateNode(
+  node: ConditionNode,
+  resolve: (reference: ConditionReference) => unknown
+): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'reference':
+      return resolve(node.reference);
+    case 'call':
+      return callFunction(
+        node.name,
+        node.args.map(arg => evaluateNode(arg, resolve))
+      );
+    case 'not':
+      return !isTruthy(evaluateNode(node.operand, resolve));
+    case 'logical': {
+      const left = isTruthy(evaluateNode(node.left, resolve));
+      if (node.operator === '&&') {
+        return left && isTruthy(evaluateNode(node.right, resolve));
+      }
+      return left || isTruthy(evaluateNode(node.right, resolve));
+    }
+    case 'compare':
+      return compare(
+        node.operator,
+        evaluateNode(node.left, resolve),
+        evaluateNode(node.right, resolve)
+      );
+  }
+}
+
+/**
+ * Evaluate a condition; references are looked up through `resolve` (unknown names resolve to
+ * undefined, which behaves like null). Empty arrays are false like other empty values
+ */
+export function evaluateCondition(
+  expression: string,
+  resolve: (reference: ConditionReference) => unknown
+): boolean {
+  return isTruthy(evaluateNode(parseCondition(expression), resolve));
+}
+
+/**
+ * References a condition reads (to order steps after the steps they come from)
+ * Throws when the condition is malformed
+ */
+export function getConditionReferences(expression: string): ConditionReference[] {
+  const references: ConditionReference[] = [];
+  const visit = (node: ConditionNode) => {
+    switch (node.type) {
+      case 'reference':
+        references.push(node.reference);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+      case 'not':
+        visit(node.operand);
+        break;
+      case 'logical':
+      case 'compare':
+        visit(node.left);
+        visit(node.right);
+        break;
+    }
+  };
+
+  visit(parseCondition(expression));
+  return references;
+}
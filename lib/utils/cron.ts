@@ -0,0 +1,167 @@
+/**
+ * Cron expressions for scheduled workflow runs
+ * Five fields (minute hour day-of-month month day-of-week) with lists, ranges, steps and
+ * month/day names, or one of the @hourly/@daily/@weekly/@monthly/@yearly aliases.
+ * Times are UTC. As in cron, a run matches either day field when both are restricted. A day
+ * field starting with an asterisk (every day, or a step over every day) counts as unrestricted,
+ * so a day-of-month step with a weekday runs only on the weekdays the step lands on
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Day fields starting with '*' ('*', '*/2'): the day must match both fields
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = 'JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC'.split(' ');
+const DAY_NAMES = 'SUN MON TUE WED THU FRI SAT'.split(' ');
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Runs are searched this far ahead (e.g. "0 0 30 2 *" never runs)
+const SEARCH_YEARS = 5;
+
+function parseValue(value: string, field: (typeof FIELDS)[number]): number {
+  const named = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = named >= 0 ? named + field.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}" (expected ${field.min}-${field.max})`);
+  }
+  return number;
+}
+
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step === 0)) {
+      throw new Error(`Invalid step "${stepText}" in ${field.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${field.name}`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" runs from 5 to the end of the range
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression; throws with the reason when it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Expected 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, index) =>
+    parseField(text, FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Why a cron expression is invalid, or null when it is valid
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time after `after` (to the minute) the expression matches, or null when it never
+ * matches within the next few years
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = new Date(date.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + SEARCH_YEARS);
+
+  // Skip whole months, days and hours that can't match
+  while (date < limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
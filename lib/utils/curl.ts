@@ -1,113 +1,576 @@
-import { execFile } from 'child_process';
-import { promisify } from 'util';
 import { parse } from 'shell-quote';
 
-import { ExecutionResult } from '@/lib/types';
+import { ExecutionResult, FileReference, FormField, HttpRequest } from '@/lib/types';
 
-const execFileAsync = promisify(execFile);
+import { executeRequest, getHeader } from './http-client';
+
+// Short curl options mapped to their long form
+const SHORT_OPTIONS: Record<string, string> = {
+  A: '--user-agent',
+  b: '--cookie',
+  c: '--cookie-jar',
+  d: '--data',
+  D: '--dump-header',
+  e: '--referer',
+  f: '--fail',
+  F: '--form',
+  g: '--globoff',
+  G: '--get',
+  H: '--header',
+  i: '--include',
+  I: '--head',
+  k: '--insecure',
+  K: '--config',
+  L: '--location',
+  m: '--max-time',
+  N: '--no-buffer',
+  o: '--output',
+  O: '--remote-name',
+  s: '--silent',
+  S: '--show-error',
+  T: '--upload-file',
+  u: '--user',
+  v: '--verbose',
+  w: '--write-out',
+  x: '--proxy',
+  X: '--request',
+};
+
+// Options that take a value
+const VALUE_OPTIONS = new Set([
+  '--config',
+  '--connect-timeout',
+  '--cookie',
+  '--cookie-jar',
+  '--data',
+  '--data-ascii',
+  '--data-binary',
+  '--data-raw',
+  '--data-urlencode',
+  '--dump-header',
+  '--form',
+  '--form-string',
+  '--header',
+  '--json',
+  '--max-redirs',
+  '--max-time',
+  '--output',
+  '--proxy',
+  '--referer',
+  '--request',
+  '--retry',
+  '--trace',
+  '--trace-ascii',
+  '--unix-socket',
+  '--upload-file',
+  '--url',
+  '--user',
+  '--user-agent',
+  '--write-out',
+]);
+
+// Options that only affect curl's own output or transport details and are accepted as no-ops
+const IGNORED_OPTIONS = new Set([
+  '--compressed',
+  '--connect-timeout',
+  '--fail',
+  '--globoff',
+  '--http1.1',
+  '--http2',
+  '--include',
+  '--insecure',
+  '--max-redirs',
+  '--max-time',
+  '--no-buffer',
+  '--retry',
+  '--show-error',
+  '--silent',
+  '--verbose',
+  '--write-out',
+]);
+
+// Options that read or write local files, or send the request elsewhere
+const DENIED_OPTIONS = new Set([
+  '--config',
+  '--cookie-jar',
+  '--dump-header',
+  '--output',
+  '--proxy',
+  '--remote-name',
+  '--trace',
+  '--trace-ascii',
+  '--unix-socket',
+  '--upload-file',
+]);
+
+const SHELL_METACHARACTERS_ERROR = 'Command contains shell metacharacters which are not allowed';
 
 /**
- * Parse a curl command string into an array of arguments.
- * Uses shell-quote to properly handle quotes, escaping, and special characters.
+ * Whether the command uses backtick command substitution outside single quotes
+ * (shell-quote keeps backticks as literal characters)
  */
-function parseCurlCommand(command: string): string[] {
-  const parsed = parse(command);
-  // Filter out any non-string elements (like operators) and return only the arguments
-  return parsed.filter((arg): arg is string => typeof arg === 'string');
+function hasBacktickSubstitution(command: string): boolean {
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      }
+    } else if (char === '\\') {
+      i++;
+    } else if (char === '`') {
+      return true;
+    } else if (char === "'" || char === '"') {
+      quote = quote === char ? null : quote || char;
+    }
+  }
+
+  return false;
 }
 
 /**
- * Rewrite localhost URLs in command arguments for Docker compatibility.
+ * Split a curl command into arguments the way a shell would, without running one
+ * Operators (;, &&, |, $(...)), variable expansion and command substitution are rejected
  */
-function rewriteLocalhostArgs(args: string[]): string[] {
-  if (process.env.RUNNING_IN_DOCKER !== 'true') {
-    return args;
+function tokenizeCurlCommand(command: string): string[] {
+  let usesVariables = false;
+  const entries = parse(command, name => {
+    usesVariables = true;
+    return `$${name}`;
+  });
+
+  if (usesVariables || hasBacktickSubstitution(command)) {
+    throw new Error(SHELL_METACHARACTERS_ERROR);
   }
 
-  return args.map(arg => {
-    return arg
-      .replace(/http:\/\/localhost/g, 'http://host.docker.internal')
-      .replace(/https:\/\/localhost/g, 'https://host.docker.internal')
-      .replace(/http:\/\/127\.0\.0\.1/g, 'http://host.docker.internal')
-      .replace(/https:\/\/127\.0\.0\.1/g, 'https://host.docker.internal');
-  });
+  const args: string[] = [];
+  for (const entry of entries) {
+    if (typeof entry === 'string') {
+      args.push(entry);
+    } else if ('comment' in entry) {
+      continue;
+    } else if (entry.op === 'glob') {
+      // Unquoted "*" or "?" in a URL: curl receives it literally
+      args.push(entry.pattern);
+    } else {
+      throw new Error(SHELL_METACHARACTERS_ERROR);
+    }
+  }
+
+  return args;
 }
 
 /**
- * Add silent mode (-s) and HTTP code extraction (-w) flags if not present.
+ * Expand short option clusters ("-sSL", "-XPOST") into [option, value?] pairs
  */
-function addRequiredFlags(args: string[]): string[] {
-  const hasSilent = args.includes('-s');
-  const hasWriteOut = args.includes('-w') || args.some(arg => arg.startsWith('-w'));
+function expandShortOption(arg: string): Array<[string, string | undefined]> {
+  const expanded: Array<[string, string | undefined]> = [];
 
-  const result = [...args];
+  for (let i = 1; i < arg.length; i++) {
+    const option = SHORT_OPTIONS[arg[i]];
+    if (!option) {
+      throw new Error(`Unsupported curl option: -${arg[i]}`);
+    }
+    if (VALUE_OPTIONS.has(option)) {
+      // The rest of the cluster is the value ("-XPOST"); otherwise it is the next argument
+      const rest = arg.slice(i + 1);
+      expanded.push([option, rest || undefined]);
+      break;
+    }
+    expanded.push([option, undefined]);
+  }
+
+  return expanded;
+}
 
-  if (!hasSilent) {
-    result.push('-s');
+/**
+ * The option as the user wrote it ("-o" rather than "--output")
+ */
+function displayOption(option: string, arg: string): string {
+  if (arg.startsWith('--')) {
+    return option;
   }
+  const short = Object.keys(SHORT_OPTIONS).find(key => SHORT_OPTIONS[key] === option);
+  return short ? `-${short}` : option;
+}
 
-  if (!hasWriteOut) {
-    result.push('-w', '\nHTTP_CODE:%{http_code}');
+/**
+ * Parse a --data-binary "@name" reference; "@-" (stdin) is not a session file
+ */
+function parseFileData(value: string): FileReference | null {
+  if (!value.startsWith('@')) {
+    return null;
+  }
+  const name = value.slice(1);
+  if (!name || name === '-') {
+    throw new Error('Reading request data from stdin is not allowed (--data-binary)');
   }
+  return { name };
+}
 
-  return result;
+/**
+ * Parse a -F/--form value: "name=value" or "name=@file[;type=mime][;filename=name]"
+ * File names refer to files uploaded into the session, never to the local file system
+ */
+function parseFormField(value: string): FormField {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new Error(`Invalid form field: ${value}`);
+  }
+
+  const name = value.slice(0, separator);
+  const content = value.slice(separator + 1);
+  if (content.startsWith('<')) {
+    throw new Error('Reading form field content from files is not allowed (-F name=<file)');
+  }
+  if (!content.startsWith('@')) {
+    return { name, value: content };
+  }
+
+  const [fileName, ...attributes] = content.slice(1).split(';');
+  if (!fileName || fileName === '-') {
+    throw new Error(`Invalid form file: ${value}`);
+  }
+
+  const file: FileReference = { name: fileName };
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split('=');
+    const attributeValue = rest.join('=').replace(/^"(.*)"$/, '$1');
+    if (key.trim() === 'type') {
+      file.contentType = attributeValue;
+    } else if (key.trim() === 'filename') {
+      file.filename = attributeValue;
+    }
+  }
+
+  return { name, file };
+}
+
+function readInlineData(value: string, option: string): string {
+  if (value.startsWith('@')) {
+    throw new Error(`Reading request data from files is not allowed (${option})`);
+  }
+  return value;
 }
 
-export async function executeCurl(curlCommand: string, timeout = 30000): Promise<ExecutionResult> {
+/**
+ * Encode a --data-urlencode value ("content", "=content" or "name=content")
+ */
+function urlencodeData(value: string): string {
+  const separator = value.indexOf('=');
+  if (value.startsWith('@') || (separator === -1 && value.includes('@'))) {
+    throw new Error('Reading request data from files is not allowed (--data-urlencode)');
+  }
+  if (separator === -1) {
+    return encodeURIComponent(value);
+  }
+  const name = value.slice(0, separator);
+  const content = encodeURIComponent(value.slice(separator + 1));
+  return name ? `${name}=${content}` : content;
+}
+
+function parseHeader(value: string): [string, string] | null {
+  const separator = value.indexOf(':');
+  if (separator === -1) {
+    // "Name;" sends the header with an empty value
+    if (value.trim().endsWith(';')) {
+      return [value.trim().slice(0, -1), ''];
+    }
+    throw new Error(`Invalid header: ${value}`);
+  }
+
+  const name = value.slice(0, separator).trim();
+  const headerValue = value.slice(separator + 1).trim();
+  // "Name:" removes a header curl would add by itself
+  return headerValue ? [name, headerValue] : null;
+}
+
+function setDefaultHeader(headers: Record<string, string>, name: string, value: string): void {
+  if (getHeader(headers, name) === undefined) {
+    headers[name] = value;
+  }
+}
+
+function normalizeUrl(value: string): string {
+  // curl assumes http:// when the scheme is missing
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`;
+
+  let parsed: URL;
   try {
-    // Parse the curl command into arguments
-    let args = parseCurlCommand(curlCommand);
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${value}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported URL protocol: ${parsed.protocol}`);
+  }
+
+  return url;
+}
+
+/**
+ * Parse a curl command into a structured request
+ * Only options that map onto an HTTP request are accepted: options reading or writing
+ * local files are rejected, as are shell constructs, since nothing is run through a shell.
+ * File names in -F 'field=@name' and --data-binary '@name' refer to session files.
+ */
+export function parseCurl(command: string): HttpRequest {
+  const args = tokenizeCurlCommand(command.trim());
+  if (args[0] !== 'curl') {
+    throw new Error('Command must start with "curl"');
+  }
+
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  const form: FormField[] = [];
+  const urls: string[] = [];
+  let bodyFile: FileReference | null = null;
+  let method: string | undefined;
+  let isJson = false;
+  let useGet = false;
+  let useHead = false;
+  let followRedirects = false;
+  let user: string | undefined;
 
-    // Remove the 'curl' command itself from the args array
-    if (args[0] === 'curl') {
-      args = args.slice(1);
+  const options: Array<[string, string | undefined]> = [];
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    const pairs: Array<[string, string | undefined]> = arg.startsWith('--')
+      ? [[arg, undefined]]
+      : arg.startsWith('-') && arg.length > 1
+        ? expandShortOption(arg)
+        : [['--url', arg]];
+
+    for (const [option, inlineValue] of pairs) {
+      if (DENIED_OPTIONS.has(option)) {
+        throw new Error(`Potentially dangerous flag detected: ${displayOption(option, arg)}`);
+      }
+      if (VALUE_OPTIONS.has(option) && inlineValue === undefined) {
+        if (i + 1 >= args.length) {
+          throw new Error(`Missing value for curl option: ${option}`);
+        }
+        options.push([option, args[++i]]);
+      } else {
+        options.push([option, inlineValue]);
+      }
     }
+  }
 
-    // Rewrite localhost URLs when running inside Docker
-    args = rewriteLocalhostArgs(args);
-
-    // Add required flags
-    args = addRequiredFlags(args);
-
-    // Execute the curl command using execFile with arguments array
-    // This prevents shell injection as no shell is spawned
-    const { stdout, stderr } = await execFileAsync('curl', args, {
-      timeout,
-      maxBuffer: 1024 * 1024, // 1MB buffer
-    });
-
-    // Parse response
-    const httpCodeMatch = stdout.match(/HTTP_CODE:(\d+)$/);
-    const httpCode = httpCodeMatch ? parseInt(httpCodeMatch[1], 10) : 0;
-    const cleanOutput = stdout.replace(/HTTP_CODE:\d+$/, '').trim();
-
-    // Try to parse JSON response
-    let response: unknown = null;
-    try {
-      response = JSON.parse(cleanOutput);
-    } catch {
-      response = cleanOutput;
+  for (const [option, value = ''] of options) {
+    switch (option) {
+      case '--url':
+        urls.push(value);
+        break;
+      case '--request':
+        method = value.toUpperCase();
+        break;
+      case '--header': {
+        const header = parseHeader(value);
+        if (header) {
+          headers[header[0]] = header[1];
+        }
+        break;
+      }
+      case '--data':
+      case '--data-ascii':
+        data.push(readInlineData(value, option));
+        break;
+      case '--data-binary': {
+        const file = parseFileData(value);
+        if (file) {
+          bodyFile = file;
+        } else {
+          data.push(value);
+        }
+        break;
+      }
+      case '--data-raw':
+        data.push(value);
+        break;
+      case '--data-urlencode':
+        data.push(urlencodeData(value));
+        break;
+      case '--json':
+        data.push(readInlineData(value, option));
+        isJson = true;
+        break;
+      case '--user':
+        user = value;
+        break;
+      case '--cookie':
+        if (!value.includes('=')) {
+          throw new Error('Reading cookies from files is not allowed (--cookie)');
+        }
+        headers.Cookie = headers.Cookie ? `${headers.Cookie}; ${value}` : value;
+        break;
+      case '--user-agent':
+        headers['User-Agent'] = value;
+        break;
+      case '--referer':
+        headers.Referer = value;
+        break;
+      case '--get':
+        useGet = true;
+        break;
+      case '--head':
+        useHead = true;
+        break;
+      case '--location':
+        followRedirects = true;
+        break;
+      case '--form':
+        form.push(parseFormField(value));
+        break;
+      case '--form-string': {
+        const separator = value.indexOf('=');
+        if (separator <= 0) {
+          throw new Error(`Invalid form field: ${value}`);
+        }
+        form.push({ name: value.slice(0, separator), value: value.slice(separator + 1) });
+        break;
+      }
+      default:
+        if (!IGNORED_OPTIONS.has(option)) {
+          throw new Error(`Unsupported curl option: ${option}`);
+        }
     }
+  }
 
-    return {
-      success: httpCode >= 200 && httpCode < 300,
-      stdout: cleanOutput,
-      stderr: stderr || '',
-      exitCode: 0,
-      response,
-      httpCode,
-    };
-  } catch (error) {
-    const err = error as Error & { code?: number; killed?: boolean };
+  if (urls.length === 0) {
+    throw new Error('No URL found in curl command');
+  }
+  if (urls.length > 1) {
+    throw new Error('Only one URL per curl command is supported');
+  }
+
+  const bodyKinds = [data.length > 0, form.length > 0, bodyFile !== null].filter(Boolean);
+  if (bodyKinds.length > 1) {
+    throw new Error('Only one of -d/--data, -F/--form or --data-binary @file can be used');
+  }
+  if (useGet && (form.length > 0 || bodyFile)) {
+    throw new Error('-G/--get cannot be combined with form or file data');
+  }
+
+  let url = normalizeUrl(urls[0]);
+  let body: string | undefined = data.length > 0 ? data.join('&') : undefined;
+  const hasBody = body !== undefined || form.length > 0 || bodyFile !== null;
+
+  // -G moves the data into the query string
+  if (useGet && body !== undefined) {
+    url += `${url.includes('?') ? '&' : '?'}${body}`;
+    body = undefined;
+  }
+
+  if (body !== undefined) {
+    setDefaultHeader(
+      headers,
+      'Content-Type',
+      isJson ? 'application/json' : 'application/x-www-form-urlencoded'
+    );
+  }
+  if (isJson) {
+    setDefaultHeader(headers, 'Accept', 'application/json');
+  }
+  if (user !== undefined) {
+    const credentials = user.includes(':') ? user : `${user}:`;
+    setDefaultHeader(
+      headers,
+      'Authorization',
+      `Basic ${Buffer.from(credentials).toString('base64')}`
+    );
+  }
+
+  const request: HttpRequest = {
+    method: method || (useHead ? 'HEAD' : useGet ? 'GET' : hasBody ? 'POST' : 'GET'),
+    url,
+    headers,
+    body,
+    followRedirects,
+  };
+  if (form.length > 0) {
+    request.form = form;
+  }
+  if (bodyFile) {
+    request.bodyFile = bodyFile;
+  }
+
+  return request;
+}
 
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function formFieldToCurl(field: FormField): string[] {
+  if (!('file' in field)) {
+    // -F would read "@..." and "<..." values from files
+    return /^[@<]/.test(field.value)
+      ? ['--form-string', quoteShellArg(`${field.name}=${field.value}`)]
+      : ['-F', quoteShellArg(`${field.name}=${field.value}`)];
+  }
+
+  let value = `${field.name}=@${field.file.name}`;
+  if (field.file.contentType) {
+    value += `;type=${field.file.contentType}`;
+  }
+  if (field.file.filename) {
+    value += `;filename=${field.file.filename}`;
+  }
+  return ['-F', quoteShellArg(value)];
+}
+
+/**
+ * Render a structured request as a curl command, used for display and export
+ * Multipart parts and file bodies reference session files by name
+ */
+export function toCurl(request: HttpRequest): string {
+  const parts = ['curl', '-X', request.method.toUpperCase(), quoteShellArg(request.url)];
+
+  if (request.followRedirects) {
+    parts.push('-L');
+  }
+  for (const [name, value] of Object.entries(request.headers)) {
+    parts.push('-H', quoteShellArg(`${name}: ${value}`));
+  }
+  if (request.form) {
+    for (const field of request.form) {
+      parts.push(...formFieldToCurl(field));
+    }
+  } else if (request.bodyFile) {
+    parts.push('--data-binary', quoteShellArg(`@${request.bodyFile.name}`));
+  } else if (request.body !== undefined) {
+    // -d would read "@..." as a file name
+    parts.push(request.body.startsWith('@') ? '--data-raw' : '-d', quoteShellArg(request.body));
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Parse and execute a curl command in-process; `signal` aborts the request
+ */
+export async function executeCurl(
+  curlCommand: string,
+  timeout = 30000,
+  signal?: AbortSignal
+): Promise<ExecutionResult> {
+  let request: HttpRequest;
+  try {
+    request = parseCurl(curlCommand);
+  } catch (error) {
     return {
       success: false,
       stdout: '',
-      stderr: err.message || 'Command execution failed',
-      exitCode: err.code || 1,
+      stderr: error instanceof Error ? error.message : 'Invalid curl command',
+      exitCode: 1,
       httpCode: 0,
     };
   }
+
+  return executeRequest(request, { timeout, signal });
 }
 
 export function extractTokenFromResponse(response: unknown, tokenPath: string): string | null {
@@ -138,36 +601,21 @@ export function extractTokenFromResponse(response: unknown, tokenPath: string):
   return null;
 }
 
+/**
+ * Check that a curl command parses into a request we are willing to send
+ */
 export function validateCurlCommand(curl: string): { valid: boolean; error?: string } {
   if (!curl.trim().startsWith('curl')) {
     return { valid: false, error: 'Command must start with "curl"' };
   }
 
-  // Check for shell metacharacters that could indicate command injection
-  // This is defense-in-depth since we now use execFile, but catches obvious attempts early
-  const shellMetacharacters = /[;&|`$]/;
-  if (shellMetacharacters.test(curl)) {
+  try {
+    parseCurl(curl);
+    return { valid: true };
+  } catch (error) {
     return {
       valid: false,
-      error: 'Command contains shell metacharacters which are not allowed',
+      error: error instanceof Error ? error.message : 'Invalid curl command',
     };
   }
-
-  // Check for dangerous flags (match as standalone flags, not as substrings of other values)
-  const dangerousFlags = ['--upload-file', '-T', '--output', '-o'];
-  for (const flag of dangerousFlags) {
-    // Match the flag only when it appears as a standalone argument:
-    // preceded by start-of-string or whitespace, followed by end-of-string or whitespace
-    const flagRegex = new RegExp(
-      `(?:^|\\s)${flag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\s|$)`
-    );
-    if (flagRegex.test(curl)) {
-      return {
-        valid: false,
-        error: `Potentially dangerous flag detected: ${flag}`,
-      };
-    }
-  }
-
-  return { valid: true };
 }
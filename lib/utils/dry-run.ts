@@ -0,0 +1,100 @@
+/**
+ * Dry runs
+ * Turns built requests into previews of what would be sent: credentials redacted, checked
+ * against the spec, and the {{placeholders}} nothing could fill listed. Nothing is sent
+ */
+
+import { DryRunRequest, HttpRequest, SwaggerDoc } from '@/lib/types';
+
+import { applyRedactedAuth, SessionAuth } from './auth';
+import { toCurl } from './curl';
+import { validateRequest } from './request-validation';
+
+export interface RequestPreviewOptions {
+  description: string;
+  swaggerDoc?: SwaggerDoc | null;
+  // Session auth, shown redacted
+  auth?: SessionAuth | null;
+  step?: number;
+  note?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{([^}]+)\}\}/g;
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Placeholders still in a request's URL, body or form fields
+ */
+export function findUnresolvedPlaceholders(request: HttpRequest): string[] {
+  const text = [
+    decodeUrl(request.url),
+    request.body ?? '',
+    ...(request.form ?? []).map(field => ('value' in field ? field.value : '')),
+  ].join(' ');
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1].trim()))];
+}
+
+/**
+ * Preview a request built without credentials
+ */
+export function previewRequest(
+  request: HttpRequest,
+  options: RequestPreviewOptions
+): DryRunRequest {
+  const redacted = applyRedactedAuth(request, options.auth);
+  const validation = options.swaggerDoc
+    ? validateRequest(options.swaggerDoc, redacted)
+    : { operation: null, errors: [] };
+
+  return {
+    ...(options.step !== undefined && { step: options.step }),
+    description: options.description,
+    method: redacted.method.toUpperCase(),
+    url: redacted.url,
+    headers: redacted.headers,
+    ...(redacted.body !== undefined && { body: redacted.body }),
+    curl: toCurl(redacted),
+    operation: validation.operation,
+    errors: validation.errors,
+    unresolved: findUnresolvedPlaceholders(request),
+    ...(options.note && { note: options.note }),
+  };
+}
+
+/**
+ * Markdown listing of previewed requests, for chat and MCP responses
+ */
+export function formatDryRunRequests(requests: DryRunRequest[]): string {
+  const invalid = requests.filter(request => request.errors.length > 0).length;
+  const heading = `### Dry run: ${requests.length} request${requests.length === 1 ? '' : 's'}, nothing was sent${invalid > 0 ? ` (${invalid} with schema errors)` : ''}`;
+
+  const entries = requests.map(request => {
+    const title =
+      request.step !== undefined
+        ? `**Step ${request.step}:** ${request.description}`
+        : `**${request.description}**`;
+    const lines = [
+      `${title}${request.operation ? ` — \`${request.operation}\`` : ''}`,
+      ...(request.note ? [`_${request.note}_`] : []),
+      '```bash',
+      request.curl,
+      '```',
+      ...(request.unresolved.length > 0
+        ? [
+            `⏳ Filled in at run time: ${request.unresolved.map(name => `\`{{${name}}}\``).join(', ')}`,
+          ]
+        : []),
+      ...request.errors.map(error => `- ❌ ${error}`),
+    ];
+    return lines.join('\n');
+  });
+
+  return [heading, ...entries].join('\n\n');
+}
@@ -0,0 +1,258 @@
+/**
+ * Endpoint index
+ * Local keyword search over a spec's operations (BM25 ranking, no network embeddings)
+ * used to send only the operations relevant to a request to the LLM
+ */
+
+import { SwaggerDoc } from '@/lib/types';
+
+import { deref, HTTP_METHODS } from './openapi-refs';
+
+export interface IndexedEndpoint {
+  // "METHOD /path", the key used by formatSwaggerForLLM to select operations
+  key: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  tags: string[];
+}
+
+export interface ScoredEndpoint extends IndexedEndpoint {
+  score: number;
+}
+
+export interface EndpointIndex {
+  endpoints: IndexedEndpoint[];
+  // Term frequencies per endpoint (same order as endpoints)
+  termFrequencies: Map<string, number>[];
+  documentLengths: number[];
+  averageLength: number;
+  // Number of endpoints containing each term
+  documentFrequencies: Map<string, number>;
+}
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Identifiers and paths say more about an operation than free-text descriptions
+const FIELD_WEIGHTS = {
+  operationId: 3,
+  path: 3,
+  summary: 2,
+  tags: 2,
+  method: 1,
+  description: 1,
+};
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'api',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'do',
+  'for',
+  'from',
+  'i',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'please',
+  'the',
+  'this',
+  'to',
+  'with',
+  'you',
+]);
+
+// Common verbs in requests mapped to the HTTP method they usually mean
+const METHOD_SYNONYMS: Record<string, string> = {
+  list: 'get',
+  show: 'get',
+  fetch: 'get',
+  find: 'get',
+  retrieve: 'get',
+  search: 'get',
+  create: 'post',
+  add: 'post',
+  new: 'post',
+  register: 'post',
+  update: 'put',
+  edit: 'patch',
+  modify: 'patch',
+  change: 'patch',
+  remove: 'delete',
+  destroy: 'delete',
+};
+
+/**
+ * Light stemming so "users" matches "user" and "categories" matches "category"
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 4 && /(?:sses|xes|ches|shes)$/.test(token)) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/**
+ * Split text, camelCase identifiers and paths into normalized search terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function addTerms(frequencies: Map<string, number>, text: string | undefined, weight: number) {
+  if (!text) {
+    return 0;
+  }
+  const tokens = tokenize(text);
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) || 0) + weight);
+  }
+  return tokens.length * weight;
+}
+
+/**
+ * Build the search index for every operation in a spec
+ */
+export function buildEndpointIndex(doc: SwaggerDoc): EndpointIndex {
+  const endpoints: IndexedEndpoint[] = [];
+  const termFrequencies: Map<string, number>[] = [];
+  const documentLengths: number[] = [];
+  const documentFrequencies = new Map<string, number>();
+
+  for (const [path, pathItemValue] of Object.entries(doc.paths || {})) {
+    const pathItem = (deref(pathItemValue, doc).value || {}) as Record<string, unknown>;
+
+    for (const [method, operation] of Object.entries(pathItem)) {
+      if (!HTTP_METHODS.includes(method) || typeof operation !== 'object' || !operation) {
+        continue;
+      }
+
+      const op = operation as Record<string, unknown>;
+      const endpoint: IndexedEndpoint = {
+        key: `${method.toUpperCase()} ${path}`,
+        method: method.toUpperCase(),
+        path,
+        operationId: typeof op.operationId === 'string' ? op.operationId : undefined,
+        summary: typeof op.summary === 'string' ? op.summary : undefined,
+        tags: Array.isArray(op.tags) ? op.tags.map(String) : [],
+      };
+
+      const frequencies = new Map<string, number>();
+      let length = 0;
+      length += addTerms(frequencies, method, FIELD_WEIGHTS.method);
+      length += addTerms(frequencies, path, FIELD_WEIGHTS.path);
+      length += addTerms(frequencies, endpoint.operationId, FIELD_WEIGHTS.operationId);
+      length += addTerms(frequencies, endpoint.summary, FIELD_WEIGHTS.summary);
+      length += addTerms(frequencies, endpoint.tags.join(' '), FIELD_WEIGHTS.tags);
+      length += addTerms(
+        frequencies,
+        typeof op.description === 'string' ? op.description : undefined,
+        FIELD_WEIGHTS.description
+      );
+
+      for (const term of frequencies.keys()) {
+        documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+      }
+
+      endpoints.push(endpoint);
+      termFrequencies.push(frequencies);
+      documentLengths.push(length);
+    }
+  }
+
+  const totalLength = documentLengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    endpoints,
+    termFrequencies,
+    documentLengths,
+    averageLength: endpoints.length > 0 ? totalLength / endpoints.length : 0,
+    documentFrequencies,
+  };
+}
+
+/**
+ * Rank operations against a natural language query
+ * Only operations matching at least one query term are returned, best first
+ */
+export function searchEndpoints(
+  index: EndpointIndex,
+  query: string,
+  limit: number
+): ScoredEndpoint[] {
+  const queryTerms = new Set<string>();
+  for (const token of tokenize(query)) {
+    queryTerms.add(token);
+    if (METHOD_SYNONYMS[token]) {
+      queryTerms.add(METHOD_SYNONYMS[token]);
+    }
+  }
+
+  const total = index.endpoints.length;
+  const results: ScoredEndpoint[] = [];
+
+  index.endpoints.forEach((endpoint, i) => {
+    const frequencies = index.termFrequencies[i];
+    const lengthRatio =
+      index.averageLength > 0 ? index.documentLengths[i] / index.averageLength : 1;
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const tf = frequencies.get(term);
+      if (!tf) {
+        continue;
+      }
+      const df = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + B * lengthRatio));
+    }
+
+    if (score > 0) {
+      results.push({ ...endpoint, score });
+    }
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Search query for a chat message, including recent user turns so follow-ups
+ * ("now do the same for id 5") still match the endpoints being discussed
+ */
+export function buildSearchQuery(
+  message: string,
+  history?: Array<{ role: string; content: string }>
+): string {
+  const recent = (history || [])
+    .filter(entry => entry.role === 'user')
+    .slice(-2)
+    .map(entry => entry.content);
+  return [...recent, message].join('\n');
+}
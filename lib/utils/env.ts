@@ -0,0 +1,13 @@
+/**
+ * Environment settings
+ * Numeric settings read from environment variables, with defaults for unset or unusable values
+ */
+
+/**
+ * A whole-number setting; values that are not numbers or fall below `min` use the default, so a
+ * typo such as WORKFLOW_CONCURRENCY=abc cannot stop workflows from running
+ */
+export function readIntEnv(name: string, defaultValue: number, min = 1): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value >= min ? value : defaultValue;
+}
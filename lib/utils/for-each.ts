@@ -0,0 +1,132 @@
+/**
+ * forEach steps
+ * Helpers for workflow steps that run their request once per item of an earlier array result,
+ * with {{item}}, {{item.field}} and {{index}} placeholders filled from the current item
+ */
+
+import { WorkflowStep } from '@/lib/types';
+
+import { readIntEnv } from './env';
+
+// Most items a forEach step may iterate over, whatever the step asks for
+export const FOR_EACH_MAX_ITEMS = readIntEnv('WORKFLOW_FOREACH_MAX_ITEMS', 100);
+
+const ITEM_PLACEHOLDER = /\{\{\s*(item(?:[.[][^}]*)?|index)\s*\}\}/g;
+
+/**
+ * Whether a placeholder name refers to the current forEach item rather than extracted data
+ */
+export function isItemPlaceholder(name: string): boolean {
+  return /^(item([.[].*)?|index)$/.test(name.trim());
+}
+
+function getPath(value: unknown, path: string): unknown {
+  const parts = path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(part => part !== '');
+
+  let current = value;
+  for (const part of parts) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Keep the items matching a "[field=value]" (or "field=value") filter
+ */
+export function filterItems<T>(items: T[], filter?: string): T[] {
+  if (!filter) {
+    return items;
+  }
+
+  const match = filter.trim().match(/^\[?([^=\]]+)=([^\]]*)\]?$/);
+  if (!match) {
+    throw new Error(`Invalid forEach filter "${filter}" (expected [field=value])`);
+  }
+
+  const [, field, expected] = match;
+  return items.filter(item => {
+    const value = getPath(item, field.trim());
+    return value !== undefined && String(value) === expected.trim();
+  });
+}
+
+function resolveItemPlaceholder(placeholder: string, item: unknown, index: number): unknown {
+  const name = placeholder.trim();
+  if (name === 'index') {
+    return index;
+  }
+  return name === 'item' ? item : getPath(item, name.slice('item'.length));
+}
+
+function applyToValue(value: unknown, item: unknown, index: number): unknown {
+  if (typeof value === 'string') {
+    // A value that is only a placeholder keeps the item value's type
+    const whole = value.match(/^\{\{\s*(item(?:[.[][^}]*)?|index)\s*\}\}$/);
+    if (whole) {
+      const resolved = resolveItemPlaceholder(whole[1], item, index);
+      return resolved === undefined ? value : resolved;
+    }
+    return value.replace(ITEM_PLACEHOLDER, (placeholder, name: string) => {
+      const resolved = resolveItemPlaceholder(name, item, index);
+      if (resolved === undefined || resolved === null) {
+        return resolved === null ? '' : placeholder;
+      }
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => applyToValue(entry, item, index));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, applyToValue(entry, item, index)])
+    );
+  }
+  return value;
+}
+
+/**
+ * The request of a forEach step for one item: item placeholders in the endpoint, body and
+ * body file are replaced, other placeholders are left for the usual resolution
+ */
+export function applyItemTemplate(step: WorkflowStep, item: unknown, index: number): WorkflowStep {
+  const { forEach: _forEach, ...rest } = step;
+  return {
+    ...rest,
+    action: {
+      ...step.action,
+      endpoint: applyToValue(step.action.endpoint || '', item, index) as string,
+      body: step.action.body
+        ? (applyToValue(step.action.body, item, index) as Record<string, unknown>)
+        : undefined,
+      bodyFile: step.action.bodyFile
+        ? (applyToValue(step.action.bodyFile, item, index) as string)
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight, preserving item indexes
+ */
+export async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+}
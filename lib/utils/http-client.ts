@@ -0,0 +1,267 @@
+/**
+ * HTTP client
+ * Executes structured requests in-process with fetch (no curl process per call)
+ */
+
+import {
+  ExecutionResult,
+  FileReference,
+  HttpRequest,
+  ResponseArtifact,
+  ResponseMeta,
+} from '@/lib/types';
+
+import { getArtifactName, parseResponseBody } from './response-body';
+import { formatBytes } from './response-meta';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Methods whose requests never carry a body
+const BODILESS_METHODS = ['GET', 'HEAD'];
+
+// Contents of a session file referenced by a request
+export interface LoadedFile {
+  name: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+// Looks up a session file by name, returning null when it does not exist
+export type FileLoader = (name: string) => Promise<LoadedFile | null>;
+
+// Stores a binary response body, returning the artifact that replaces it as the response
+export type ArtifactSaver = (file: LoadedFile) => Promise<ResponseArtifact>;
+
+export interface ExecuteRequestOptions {
+  timeout?: number;
+  // Required for requests with file parts or a file body
+  loadFile?: FileLoader;
+  // Binary responses are only described (not kept) without one
+  saveArtifact?: ArtifactSaver;
+  // Aborts the request (e.g. when its workflow is cancelled)
+  signal?: AbortSignal;
+}
+
+/**
+ * When running inside Docker, rewrite localhost/127.0.0.1 URLs to host.docker.internal
+ * so requests can reach services running on the host machine.
+ */
+export function rewriteLocalhostForDocker(url: string): string {
+  if (process.env.RUNNING_IN_DOCKER !== 'true') {
+    return url;
+  }
+
+  return url
+    .replace(/http:\/\/localhost/g, 'http://host.docker.internal')
+    .replace(/https:\/\/localhost/g, 'https://host.docker.internal')
+    .replace(/http:\/\/127\.0\.0\.1/g, 'http://host.docker.internal')
+    .replace(/https:\/\/127\.0\.0\.1/g, 'https://host.docker.internal');
+}
+
+/**
+ * Find a header value regardless of the header name casing
+ */
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = getHeaderName(headers, name);
+  return key === undefined ? undefined : headers[key];
+}
+
+function getHeaderName(headers: Record<string, string>, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  return Object.keys(headers).find(header => header.toLowerCase() === lowerName);
+}
+
+/**
+ * Collect response headers, keeping every Set-Cookie value
+ */
+function collectHeaders(headers: Headers): Record<string, string> {
+  const collected: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name !== 'set-cookie') {
+      collected[name] = value;
+    }
+  });
+
+  const cookies = headers.getSetCookie();
+  if (cookies.length > 0) {
+    collected['set-cookie'] = cookies.join('\n');
+  }
+
+  return collected;
+}
+
+function failedResult(stderr: string, networkError = false): ExecutionResult {
+  return {
+    success: false,
+    stdout: '',
+    stderr,
+    exitCode: 1,
+    httpCode: 0,
+    ...(networkError && { networkError }),
+  };
+}
+
+async function readFile(reference: FileReference, loadFile?: FileLoader): Promise<Blob> {
+  const file = loadFile ? await loadFile(reference.name) : null;
+  if (!file) {
+    throw new Error(`File not found in session: ${reference.name}`);
+  }
+  return new Blob([file.data as Uint8Array<ArrayBuffer>], {
+    type: reference.contentType || file.contentType,
+  });
+}
+
+/**
+ * Build the fetch body, reading session files for multipart parts and file bodies
+ * Multipart requests drop any Content-Type header so fetch can add the boundary
+ */
+async function buildBody(
+  request: HttpRequest,
+  loadFile?: FileLoader
+): Promise<{ body?: BodyInit; headers: Record<string, string> }> {
+  const headers = { ...request.headers };
+
+  if (request.form) {
+    const form = new FormData();
+    for (const field of request.form) {
+      if ('file' in field) {
+        const blob = await readFile(field.file, loadFile);
+        form.append(field.name, blob, field.file.filename || field.file.name);
+      } else {
+        form.append(field.name, field.value);
+      }
+    }
+    const contentType = getHeaderName(headers, 'Content-Type');
+    if (contentType) {
+      delete headers[contentType];
+    }
+    return { body: form, headers };
+  }
+
+  if (request.bodyFile) {
+    const blob = await readFile(request.bodyFile, loadFile);
+    if (!getHeaderName(headers, 'Content-Type') && blob.type) {
+      headers['Content-Type'] = blob.type;
+    }
+    return { body: blob, headers };
+  }
+
+  return { body: request.body, headers };
+}
+
+/**
+ * Keep a binary response body as an artifact
+ * The response still succeeds when storing fails; the artifact then has no download link
+ */
+async function storeArtifact(
+  file: LoadedFile,
+  saveArtifact?: ArtifactSaver
+): Promise<ResponseArtifact> {
+  const unsaved: ResponseArtifact = {
+    type: 'artifact',
+    name: file.name,
+    contentType: file.contentType,
+    size: file.data.byteLength,
+  };
+  if (!saveArtifact) {
+    return unsaved;
+  }
+
+  try {
+    return await saveArtifact(file);
+  } catch {
+    return unsaved;
+  }
+}
+
+function describeFetchError(error: unknown, timeout: number, signal?: AbortSignal): string {
+  const err = error as Error & { cause?: { code?: string; message?: string } };
+
+  if (signal?.aborted) {
+    return 'Request cancelled';
+  }
+  if (err.name === 'TimeoutError' || err.name === 'AbortError') {
+    return `Request timed out after ${timeout}ms`;
+  }
+
+  // Network failures surface as "fetch failed" with the socket error as the cause
+  const cause = err.cause?.message || err.cause?.code;
+  return cause ? `Request failed: ${cause}` : err.message || 'Request failed';
+}
+
+/**
+ * Execute a structured HTTP request
+ * Never throws: network errors, timeouts, cancellations and missing files are reported through
+ * `stderr` with httpCode 0
+ */
+export async function executeRequest(
+  request: HttpRequest,
+  options: ExecuteRequestOptions = {}
+): Promise<ExecutionResult> {
+  const { timeout = DEFAULT_TIMEOUT_MS, loadFile, saveArtifact, signal } = options;
+  const method = request.method.toUpperCase();
+
+  let prepared: Awaited<ReturnType<typeof buildBody>>;
+  try {
+    prepared = await buildBody(request, loadFile);
+  } catch (error) {
+    return failedResult(error instanceof Error ? error.message : 'Failed to read request files');
+  }
+
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(rewriteLocalhostForDocker(request.url), {
+      method,
+      headers: prepared.headers,
+      body: BODILESS_METHODS.includes(method) ? undefined : prepared.body,
+      redirect: request.followRedirects ? 'follow' : 'manual',
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(timeout)])
+        : AbortSignal.timeout(timeout),
+    });
+    const ttfbMs = performance.now() - startedAt;
+
+    const data = new Uint8Array(
+      method === 'HEAD' ? new ArrayBuffer(0) : await response.arrayBuffer()
+    );
+    const durationMs = Math.round(performance.now() - startedAt);
+
+    const contentType = response.headers.get('content-type');
+    const parsed = parseResponseBody(data, contentType);
+
+    let body = parsed.body;
+    let stdout = parsed.text;
+    if (parsed.format === 'binary') {
+      const artifactType = contentType || 'application/octet-stream';
+      body = await storeArtifact(
+        {
+          name: getArtifactName(contentType, response.headers.get('content-disposition')),
+          contentType: artifactType,
+          data,
+        },
+        saveArtifact
+      );
+      stdout = `[binary response: ${artifactType}, ${formatBytes(data.byteLength)}]`;
+    }
+
+    const meta: ResponseMeta = {
+      headers: collectHeaders(response.headers),
+      durationMs,
+      ttfbMs: Math.round(ttfbMs),
+      sizeBytes: data.byteLength,
+      format: parsed.format,
+    };
+
+    return {
+      success: response.status >= 200 && response.status < 300,
+      stdout,
+      stderr: '',
+      exitCode: 0,
+      response: body,
+      httpCode: response.status,
+      meta,
+    };
+  } catch (error) {
+    return failedResult(describeFetchError(error, timeout, signal), true);
+  }
+}
@@ -1,4 +1,14 @@
 // Utils barrel export
 export { parseSwagger, extractBaseUrl, formatSwaggerForLLM } from './swagger';
 
-export { executeCurl, validateCurlCommand } from './curl';
+export { executeCurl, parseCurl, toCurl, validateCurlCommand } from './curl';
+export { executeRequest } from './http-client';
+
+export {
+  applyAuthToCurl,
+  applyAuthToRequest,
+  detectAuthConfig,
+  getSecuritySchemes,
+  hasAuthCredentials,
+} from './auth';
+export type { SessionAuth } from './auth';
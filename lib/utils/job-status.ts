@@ -0,0 +1,27 @@
+// Client-side helper for following a background workflow job (see /api/job/[id])
+
+export interface FinishedJob {
+  status: 'completed' | 'failed' | 'cancelled';
+  result: { success: boolean; summary: string } | null;
+  error: string | null;
+}
+
+/**
+ * Poll a job until it completes, fails or is cancelled
+ * Throws when the job can't be fetched
+ */
+export async function waitForJob(jobId: string, intervalMs = 2000): Promise<FinishedJob> {
+  for (;;) {
+    const response = await fetch(`/api/job/${jobId}`);
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error?.message || 'Failed to get job status');
+    }
+
+    const job = result.data.job as Omit<FinishedJob, 'status'> & { status: string };
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return job as FinishedJob;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * OpenAPI $ref resolution
+ * Follows local JSON pointers with cycle detection, merges composed schemas and
+ * bundles the external files of uploaded multi-file specs into the root document
+ */
+
+import { SwaggerDoc } from '@/lib/types';
+
+export type SchemaObject = Record<string, unknown>;
+
+export interface DerefResult {
+  value: SchemaObject | null;
+  // Last ref followed, used to name the target (e.g. "Pet")
+  ref?: string;
+  // Refs expanded on the current path, including the ones just followed
+  seen: Set<string>;
+  circular: boolean;
+  external: boolean;
+}
+
+// External files of an uploaded bundle live under this key so their refs become local pointers
+export const BUNDLED_FILES_KEY = 'x-swaggbot-files';
+
+// Guards against ref chains that never reach a schema (e.g. A -> B -> A without properties)
+const MAX_REF_HOPS = 32;
+
+const SPEC_ROOT_PATTERN = /(?:^|[{,])\s*["']?(?:openapi|swagger)["']?\s*:/m;
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function decodePointerSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Not URI encoded
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function encodePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Resolve a JSON pointer (RFC 6901) such as "/components/schemas/Pet" against a document
+ */
+export function resolvePointer(doc: unknown, pointer: string): unknown {
+  if (!pointer) {
+    return doc;
+  }
+
+  let current = doc;
+  for (const segment of pointer.replace(/^\//, '').split('/').map(decodePointerSegment)) {
+    if (Array.isArray(current)) {
+      current = current[Number(segment)];
+    } else if (isObject(current)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+export function isLocalRef(ref: string): boolean {
+  return ref.startsWith('#');
+}
+
+/**
+ * Human readable name of a ref target, e.g. "#/components/schemas/Pet" -> "Pet"
+ */
+export function refName(ref: string): string {
+  const fragment = ref.includes('#') ? ref.slice(ref.indexOf('#') + 1) : ref;
+  const segments = fragment.split('/').filter(Boolean);
+  return segments.length > 0 ? decodePointerSegment(segments[segments.length - 1]) : ref;
+}
+
+/**
+ * Resolve a local ref (#/components/schemas/Name, #/definitions/Name, ...)
+ * Returns null for external refs that were not bundled and for dangling pointers
+ */
+export function resolveRef(ref: string, doc: SwaggerDoc): SchemaObject | null {
+  if (!isLocalRef(ref)) {
+    return null;
+  }
+
+  const target = resolvePointer(doc, ref.slice(1));
+  return isObject(target) ? target : null;
+}
+
+/**
+ * Follow a chain of $refs to the object it points at
+ * `seen` holds the refs already being expanded by the caller; reaching one again marks a cycle
+ */
+export function deref(
+  value: unknown,
+  doc: SwaggerDoc,
+  seen: ReadonlySet<string> = new Set()
+): DerefResult {
+  const chain = new Set(seen);
+  let current = value;
+  let lastRef: string | undefined;
+
+  for (let hops = 0; hops < MAX_REF_HOPS; hops++) {
+    if (!isObject(current)) {
+      return { value: null, ref: lastRef, seen: chain, circular: false, external: false };
+    }
+
+    const ref = current.$ref;
+    if (typeof ref !== 'string') {
+      return { value: current, ref: lastRef, seen: chain, circular: false, external: false };
+    }
+    if (chain.has(ref)) {
+      return { value: null, ref, seen: chain, circular: true, external: false };
+    }
+    if (!isLocalRef(ref)) {
+      return { value: null, ref, seen: chain, circular: false, external: true };
+    }
+
+    chain.add(ref);
+    lastRef = ref;
+    current = resolveRef(ref, doc);
+  }
+
+  return { value: null, ref: lastRef, seen: chain, circular: true, external: false };
+}
+
+/**
+ * Flatten `allOf` into a single schema
+ * Properties are merged (later members win), required lists are combined and the
+ * first declared type is kept. Members that form a cycle are skipped.
+ */
+export function mergeAllOf(
+  schema: SchemaObject,
+  doc: SwaggerDoc,
+  seen: ReadonlySet<string> = new Set()
+): SchemaObject {
+  if (!Array.isArray(schema.allOf)) {
+    return schema;
+  }
+
+  const { allOf, ...rest } = schema;
+  const merged: SchemaObject = {};
+  const properties: Record<string, unknown> = {};
+  const required = new Set<string>();
+
+  const absorb = (part: SchemaObject) => {
+    for (const [key, value] of Object.entries(part)) {
+      if (key === 'properties' && isObject(value)) {
+        Object.assign(properties, value);
+      } else if (key === 'required' && Array.isArray(value)) {
+        value.forEach(name => required.add(String(name)));
+      } else if (merged[key] === undefined) {
+        merged[key] = value;
+      }
+    }
+  };
+
+  for (const member of allOf as unknown[]) {
+    const resolved = deref(member, doc, seen);
+    if (resolved.value) {
+      absorb(mergeAllOf(resolved.value, doc, resolved.seen));
+    }
+  }
+  // The schema's own keywords take precedence over inherited ones
+  for (const [key, value] of Object.entries(rest)) {
+    if (key === 'properties' && isObject(value)) {
+      Object.assign(properties, value);
+    } else if (key === 'required' && Array.isArray(value)) {
+      value.forEach(name => required.add(String(name)));
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  if (Object.keys(properties).length > 0) {
+    merged.properties = properties;
+    merged.type = merged.type || 'object';
+  }
+  if (required.size > 0) {
+    merged.required = [...required];
+  }
+
+  return merged;
+}
+
+/**
+ * Collect the parameters of an operation
+ * Path-level parameters are inherited unless the operation overrides them (same name and location),
+ * and `$ref` parameters (#/components/parameters, #/parameters) are resolved
+ */
+export function resolveOperationParameters(
+  doc: SwaggerDoc,
+  pathItem: Record<string, unknown>,
+  operation: Record<string, unknown>
+): SchemaObject[] {
+  const resolveList = (list: unknown) =>
+    (Array.isArray(list) ? list : [])
+      .map(param => deref(param, doc).value)
+      .filter((param): param is SchemaObject => !!param && typeof param.name === 'string');
+
+  const operationParams = resolveList(operation.parameters);
+  const inherited = resolveList(pathItem.parameters).filter(
+    param => !operationParams.some(p => p.name === param.name && p.in === param.in)
+  );
+
+  return [...inherited, ...operationParams];
+}
+
+/**
+ * Pick the root document of an uploaded multi-file bundle (the one declaring openapi/swagger)
+ */
+export function findSpecRoot(files: Record<string, string>): string | null {
+  return Object.keys(files).find(name => SPEC_ROOT_PATTERN.test(files[name])) ?? null;
+}
+
+function normalizeFilePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (!segment || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Inline the external files of an uploaded bundle into the root document
+ * Each referenced file is stored once under BUNDLED_FILES_KEY and relative-file refs
+ * ("./schemas/pet.yaml#/Pet") are rewritten to local pointers into it, so cycles across
+ * files stay refs instead of being expanded. Refs to files that were not uploaded are left as-is.
+ */
+export function bundleExternalRefs(doc: SwaggerDoc, files: Record<string, unknown>): SwaggerDoc {
+  const available = new Map<string, unknown>();
+  for (const [path, content] of Object.entries(files)) {
+    available.set(normalizeFilePath(path), content);
+  }
+
+  const bundled: Record<string, unknown> = {};
+  const queued = new Set<string>();
+  const pending: string[] = [];
+
+  const rewrite = (node: unknown, filePath: string): unknown => {
+    if (Array.isArray(node)) {
+      return node.map(item => rewrite(item, filePath));
+    }
+    if (!isObject(node)) {
+      return node;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = key === '$ref' ? value : rewrite(value, filePath);
+    }
+
+    if (typeof node.$ref !== 'string') {
+      return result;
+    }
+
+    const ref = node.$ref;
+    if (isLocalRef(ref)) {
+      // Local pointers inside an external file point into that file's bundled copy
+      if (filePath) {
+        result.$ref = `#/${BUNDLED_FILES_KEY}/${encodePointerSegment(filePath)}${ref.slice(1)}`;
+      }
+      return result;
+    }
+
+    if (/^[a-z][a-z0-9+.-]*:/i.test(ref)) {
+      // Absolute URLs are not fetched
+      return result;
+    }
+
+    const hashIndex = ref.indexOf('#');
+    const target = normalizeFilePath(
+      `${dirname(filePath)}/${hashIndex === -1 ? ref : ref.slice(0, hashIndex)}`
+    );
+    const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    if (!available.has(target)) {
+      return result;
+    }
+    if (!queued.has(target)) {
+      queued.add(target);
+      pending.push(target);
+    }
+
+    result.$ref = `#/${BUNDLED_FILES_KEY}/${encodePointerSegment(target)}${fragment}`;
+    return result;
+  };
+
+  const root = rewrite(doc, '') as SwaggerDoc;
+
+  while (pending.length > 0) {
+    const path = pending.shift()!;
+    bundled[path] = rewrite(available.get(path), path);
+  }
+
+  if (Object.keys(bundled).length === 0) {
+    return root;
+  }
+
+  return { ...root, [BUNDLED_FILES_KEY]: bundled } as SwaggerDoc;
+}
@@ -0,0 +1,317 @@
+/**
+ * Request body encoding
+ * Picks the media type an operation accepts (requestBody.content, or Swagger 2 consumes and
+ * formData parameters) and encodes bodies as JSON, urlencoded forms, multipart parts or XML
+ */
+
+import { FormField, HttpRequest, SwaggerDoc } from '@/lib/types';
+
+import { deref, refName, resolveOperationParameters, SchemaObject } from './openapi-refs';
+import { listOperationKeys, matchOperation } from './spec-diff';
+
+export const JSON_CONTENT_TYPE = 'application/json';
+export const FORM_URLENCODED_CONTENT_TYPE = 'application/x-www-form-urlencoded';
+export const MULTIPART_CONTENT_TYPE = 'multipart/form-data';
+export const BINARY_CONTENT_TYPE = 'application/octet-stream';
+
+export type BodyKind = 'json' | 'form' | 'multipart' | 'xml' | 'text' | 'binary';
+
+// A media type an operation accepts for its request body
+export interface RequestBodyType {
+  contentType: string;
+  // Root element name for XML bodies (schema xml.name or the referenced schema name)
+  xmlRoot?: string;
+}
+
+export interface RequestBodyInput {
+  body?: Record<string, unknown>;
+  // Session file sent as the raw body
+  bodyFile?: string;
+  // Media type requested by the caller; must be one the operation accepts when it declares any
+  contentType?: string;
+}
+
+export type EncodedBody = Pick<HttpRequest, 'headers' | 'body' | 'form' | 'bodyFile'>;
+
+// Order in which media types are preferred when the caller does not ask for one
+const KIND_PREFERENCE: BodyKind[] = ['json', 'form', 'multipart', 'xml', 'text', 'binary'];
+
+/**
+ * Classify a media type ("application/vnd.api+json" -> json, "image/png" -> binary)
+ */
+export function getBodyKind(contentType: string): BodyKind {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+
+  if (type === '*/*' || type.includes('json')) {
+    return 'json';
+  }
+  if (type === FORM_URLENCODED_CONTENT_TYPE) {
+    return 'form';
+  }
+  if (type.startsWith('multipart/')) {
+    return 'multipart';
+  }
+  if (type.endsWith('/xml') || type.endsWith('+xml')) {
+    return 'xml';
+  }
+  if (type.startsWith('text/')) {
+    return 'text';
+  }
+  return 'binary';
+}
+
+/**
+ * Whether a body value references a session file ("@avatar.png"), as in curl -F
+ */
+export function isFileReference(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 1 && value.startsWith('@');
+}
+
+function xmlRootOf(schema: unknown, doc: SwaggerDoc): string | undefined {
+  const resolved = deref(schema, doc);
+  const xml = resolved.value?.xml as { name?: unknown } | undefined;
+  if (typeof xml?.name === 'string') {
+    return xml.name;
+  }
+  return resolved.ref ? refName(resolved.ref) : undefined;
+}
+
+/**
+ * The spec operation a request to `endpoint` calls, with its "METHOD /path" key
+ */
+export function findOperation(
+  doc: SwaggerDoc,
+  method: string,
+  endpoint: string
+): { key: string; pathItem: Record<string, unknown>; operation: Record<string, unknown> } | null {
+  const key = matchOperation(method, endpoint, listOperationKeys(doc));
+  if (!key) {
+    return null;
+  }
+
+  const path = key.slice(key.indexOf(' ') + 1);
+  const pathItem = deref(doc.paths?.[path], doc).value;
+  const operation = pathItem?.[method.toLowerCase()];
+  return pathItem && operation && typeof operation === 'object'
+    ? { key, pathItem, operation: operation as Record<string, unknown> }
+    : null;
+}
+
+/**
+ * Media types accepted by the operation a request calls, in the order the spec declares them
+ * Empty when the operation is unknown or takes no body
+ */
+export function getRequestBodyTypes(
+  doc: SwaggerDoc,
+  method: string,
+  endpoint: string
+): RequestBodyType[] {
+  const entry = findOperation(doc, method, endpoint);
+  if (!entry) {
+    return [];
+  }
+
+  // OpenAPI 3
+  const requestBody = entry.operation.requestBody
+    ? deref(entry.operation.requestBody, doc).value
+    : null;
+  if (requestBody) {
+    const content = (requestBody.content || {}) as Record<string, SchemaObject | undefined>;
+    return Object.entries(content).map(([contentType, media]) => ({
+      contentType,
+      xmlRoot: getBodyKind(contentType) === 'xml' ? xmlRootOf(media?.schema, doc) : undefined,
+    }));
+  }
+
+  // Swagger 2: a body parameter or formData parameters, sent as the declared consumes types
+  const parameters = resolveOperationParameters(doc, entry.pathItem, entry.operation);
+  const consumes = (entry.operation.consumes ||
+    (doc as unknown as Record<string, unknown>).consumes ||
+    []) as string[];
+
+  const bodyParam = parameters.find(param => param.in === 'body');
+  if (bodyParam) {
+    const types = consumes.length > 0 ? consumes : [JSON_CONTENT_TYPE];
+    return types.map(contentType => ({
+      contentType,
+      xmlRoot: getBodyKind(contentType) === 'xml' ? xmlRootOf(bodyParam.schema, doc) : undefined,
+    }));
+  }
+
+  const formParams = parameters.filter(param => param.in === 'formData');
+  if (formParams.length > 0) {
+    const formTypes = consumes.filter(type => ['form', 'multipart'].includes(getBodyKind(type)));
+    if (formTypes.length > 0) {
+      return formTypes.map(contentType => ({ contentType }));
+    }
+    const hasFiles = formParams.some(param => param.type === 'file');
+    return [{ contentType: hasFiles ? MULTIPART_CONTENT_TYPE : FORM_URLENCODED_CONTENT_TYPE }];
+  }
+
+  return [];
+}
+
+/**
+ * Choose the media type to send a body as
+ * An explicit content type wins (it must be accepted when the operation declares types),
+ * file bodies go out as binary types, file fields as multipart, anything else prefers JSON
+ */
+export function selectRequestBodyType(
+  types: RequestBodyType[],
+  input: RequestBodyInput
+): RequestBodyType {
+  if (input.contentType) {
+    const requested = input.contentType.split(';')[0].trim().toLowerCase();
+    const match = types.find(
+      type => type.contentType.split(';')[0].trim().toLowerCase() === requested
+    );
+    if (!match && types.length > 0) {
+      throw new Error(
+        `Content type ${input.contentType} is not accepted by this endpoint (accepts ${types
+          .map(type => type.contentType)
+          .join(', ')})`
+      );
+    }
+    return match || { contentType: input.contentType };
+  }
+
+  const byKind = (kinds: BodyKind[]) =>
+    kinds.map(kind => types.find(type => getBodyKind(type.contentType) === kind)).find(Boolean);
+
+  if (input.bodyFile) {
+    return byKind(['binary', 'text', 'xml']) || types[0] || { contentType: BINARY_CONTENT_TYPE };
+  }
+
+  const hasFileFields = Object.values(input.body || {}).some(
+    value => isFileReference(value) || (Array.isArray(value) && value.some(isFileReference))
+  );
+  if (hasFileFields) {
+    return byKind(['multipart']) || types[0] || { contentType: MULTIPART_CONTENT_TYPE };
+  }
+
+  return byKind(KIND_PREFERENCE) || { contentType: JSON_CONTENT_TYPE };
+}
+
+function formValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Arrays become repeated fields; nested objects are sent as JSON strings
+function eachFormEntry(
+  body: Record<string, unknown>,
+  callback: (name: string, value: unknown) => void
+): void {
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      callback(name, item);
+    }
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlElement(name: string, value: unknown): string {
+  if (value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => xmlElement(name, item)).join('');
+  }
+  if (value === null) {
+    return `<${name}/>`;
+  }
+  if (typeof value === 'object') {
+    const children = Object.entries(value as Record<string, unknown>)
+      .map(([child, childValue]) => xmlElement(child, childValue))
+      .join('');
+    return `<${name}>${children}</${name}>`;
+  }
+  return `<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+/**
+ * Serialize a body object as an XML document; arrays become repeated elements
+ */
+export function toXml(body: Record<string, unknown>, rootName = 'root'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>${xmlElement(rootName, body)}`;
+}
+
+/**
+ * Encode a body object as the given media type
+ * Multipart values written as "@name" become file parts read from the session's files
+ */
+export function encodeRequestBody(
+  body: Record<string, unknown>,
+  type: RequestBodyType
+): EncodedBody {
+  const headers = { 'Content-Type': type.contentType };
+
+  switch (getBodyKind(type.contentType)) {
+    case 'json':
+      return { headers, body: JSON.stringify(body) };
+    case 'form': {
+      const params = new URLSearchParams();
+      eachFormEntry(body, (name, value) => params.append(name, formValue(value)));
+      return { headers, body: params.toString() };
+    }
+    case 'multipart': {
+      const form: FormField[] = [];
+      eachFormEntry(body, (name, value) =>
+        form.push(
+          isFileReference(value)
+            ? { name, file: { name: value.slice(1) } }
+            : { name, value: formValue(value) }
+        )
+      );
+      // fetch generates the Content-Type header with the boundary
+      return { headers: {}, form };
+    }
+    case 'xml':
+      return { headers, body: toXml(body, type.xmlRoot) };
+    case 'text': {
+      // A single field is sent as the plain text body
+      const values = Object.values(body);
+      return {
+        headers,
+        body: values.length === 1 ? formValue(values[0]) : JSON.stringify(body),
+      };
+    }
+    case 'binary':
+      throw new Error(`${type.contentType} bodies must be sent from an uploaded session file`);
+  }
+}
+
+/**
+ * Build the body of a request from a body object or a session file
+ * Returns null when there is nothing to send
+ */
+export function buildRequestBody(
+  types: RequestBodyType[],
+  input: RequestBodyInput
+): EncodedBody | null {
+  const hasBody = !!input.body && Object.keys(input.body).length > 0;
+  if (!hasBody && !input.bodyFile) {
+    return null;
+  }
+
+  const type = selectRequestBodyType(types, input);
+  if (input.bodyFile) {
+    // Without a declared type the file's own content type is used
+    return {
+      headers: types.length > 0 || input.contentType ? { 'Content-Type': type.contentType } : {},
+      bodyFile: { name: input.bodyFile },
+    };
+  }
+
+  return encodeRequestBody(input.body!, type);
+}
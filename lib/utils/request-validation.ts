@@ -0,0 +1,305 @@
+/**
+ * Request validation against the OpenAPI spec
+ * Maps a built request to the operation it calls and checks its path, query and header parameters
+ * and JSON body against their schemas. Values still holding {{placeholders}} are filled in at run
+ * time, so they are not checked
+ */
+
+import { HttpRequest, SwaggerDoc } from '@/lib/types';
+
+import { REDACTED } from './auth';
+import { deref, mergeAllOf, resolveOperationParameters, SchemaObject } from './openapi-refs';
+import { findOperation, getBodyKind } from './request-body';
+
+export interface RequestValidationResult {
+  // "METHOD /path" of the operation the request calls, null when the spec has none
+  operation: string | null;
+  // "field: problem" entries, e.g. "body.age: Expected an integer"
+  errors: string[];
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  string: 'a string',
+  integer: 'an integer',
+  number: 'a number',
+  boolean: 'true or false',
+  array: 'an array',
+  object: 'an object',
+};
+
+// String formats that are checked; others (int64, password, byte, ...) are not
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z\d+.-]*:\S+$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+};
+
+// Headers the spec describes through other means; parameters with these names are ignored
+const RESERVED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+// Placeholders are filled in at run time and redacted credentials when the request is sent
+function isPlaceholder(value: unknown): boolean {
+  return typeof value === 'string' && (value.includes('{{') || value === REDACTED);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function schemaTypes(schema: SchemaObject): string[] {
+  return ([] as unknown[]).concat(schema.type ?? []).map(String);
+}
+
+/**
+ * Check a value against a JSON schema: type, enum, format, required and known properties, and
+ * items
+ * Composed schemas (oneOf/anyOf) pass when any of their members does
+ */
+export function validateSchemaValue(
+  value: unknown,
+  schema: unknown,
+  doc: SwaggerDoc,
+  field: string
+): string[] {
+  const resolved = deref(schema, doc).value;
+  if (!resolved || value === undefined || isPlaceholder(value)) {
+    return [];
+  }
+
+  const current = mergeAllOf(resolved, doc);
+  const types = schemaTypes(current);
+
+  if (value === null) {
+    return types.length === 0 || types.includes('null') || current.nullable === true
+      ? []
+      : [`${field}: Must not be null`];
+  }
+
+  const alternatives = (current.oneOf ?? current.anyOf) as unknown[] | undefined;
+  if (
+    Array.isArray(alternatives) &&
+    alternatives.length > 0 &&
+    !alternatives.some(member => validateSchemaValue(value, member, doc, field).length === 0)
+  ) {
+    return [`${field}: Does not match any of the allowed schemas`];
+  }
+
+  const expected = types.filter(type => type !== 'null');
+  if (expected.length > 0 && !expected.some(type => matchesType(value, type))) {
+    return [`${field}: Expected ${expected.map(type => TYPE_LABELS[type] ?? type).join(' or ')}`];
+  }
+
+  const errors: string[] = [];
+  if (Array.isArray(current.enum) && !current.enum.some(option => option === value)) {
+    errors.push(
+      `${field}: Must be one of ${current.enum.map(option => JSON.stringify(option)).join(', ')}`
+    );
+  }
+
+  const format = typeof current.format === 'string' ? FORMAT_PATTERNS[current.format] : undefined;
+  if (format && typeof value === 'string' && !format.test(value)) {
+    errors.push(`${field}: Not a valid ${current.format}`);
+  }
+
+  if (Array.isArray(value) && current.items) {
+    value.forEach((item, index) =>
+      errors.push(...validateSchemaValue(item, current.items, doc, `${field}[${index}]`))
+    );
+  }
+
+  if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties = (current.properties ?? {}) as Record<string, unknown>;
+    for (const name of Array.isArray(current.required) ? (current.required as string[]) : []) {
+      if (object[name] === undefined) {
+        errors.push(`${field}.${name}: Required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (name in properties) {
+        errors.push(
+          ...validateSchemaValue(propertyValue, properties[name], doc, `${field}.${name}`)
+        );
+      } else if (current.additionalProperties === false) {
+        errors.push(`${field}.${name}: Not a property of this schema`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function decodeValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Path, query and header values are text; numbers and booleans are read as the schema declares them
+function coerceParameter(raw: string, schema: SchemaObject, doc: SwaggerDoc): unknown {
+  const resolved = deref(schema, doc).value ?? {};
+  const types = schemaTypes(resolved);
+  if ((types.includes('integer') || types.includes('number')) && /^-?\d+(\.\d+)?$/.test(raw)) {
+    return Number(raw);
+  }
+  if (types.includes('boolean') && (raw === 'true' || raw === 'false')) {
+    return raw === 'true';
+  }
+  return raw;
+}
+
+// Values of the templated segments, aligned from the end so a base path prefix is skipped
+function getPathParameterValues(url: string, template: string): Record<string, string> {
+  const actual = url
+    .replace(/^https?:\/\/[^/]+/, '')
+    .split(/[?#]/)[0]
+    .replace(/\/+$/, '')
+    .split('/');
+  const expected = template.replace(/\/+$/, '').split('/');
+  const offset = actual.length - expected.length;
+
+  const values: Record<string, string> = {};
+  expected.forEach((segment, index) => {
+    const name = segment.match(/^\{([^}]+)\}$/);
+    if (name && actual[offset + index] !== undefined) {
+      values[name[1]] = decodeValue(actual[offset + index]);
+    }
+  });
+  return values;
+}
+
+function getBodySchema(
+  doc: SwaggerDoc,
+  operation: Record<string, unknown>,
+  parameters: SchemaObject[]
+): { schema?: unknown; required: boolean } | null {
+  // OpenAPI 3
+  const requestBody = operation.requestBody ? deref(operation.requestBody, doc).value : null;
+  if (requestBody) {
+    const content = (requestBody.content || {}) as Record<string, SchemaObject | undefined>;
+    const json = Object.entries(content).find(([type]) => getBodyKind(type) === 'json');
+    return { schema: json?.[1]?.schema, required: requestBody.required === true };
+  }
+
+  // Swagger 2
+  const bodyParam = parameters.find(param => param.in === 'body');
+  return bodyParam ? { schema: bodyParam.schema, required: bodyParam.required === true } : null;
+}
+
+/**
+ * Check a request against the operation it calls
+ * Requests to paths the spec does not declare fail with a single error
+ */
+export function validateRequest(doc: SwaggerDoc, request: HttpRequest): RequestValidationResult {
+  const entry = findOperation(doc, request.method, request.url);
+  if (!entry) {
+    const path = request.url.replace(/^https?:\/\/[^/]+/, '').split(/[?#]/)[0];
+    return {
+      operation: null,
+      errors: [`The spec has no ${request.method.toUpperCase()} ${path} operation`],
+    };
+  }
+
+  const errors: string[] = [];
+  const parameters = resolveOperationParameters(doc, entry.pathItem, entry.operation);
+  const pathValues = getPathParameterValues(
+    request.url,
+    entry.key.slice(entry.key.indexOf(' ') + 1)
+  );
+  const queryString = request.url.split('#')[0].split('?')[1] ?? '';
+  const query = new URLSearchParams(queryString);
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  for (const param of parameters) {
+    const name = param.name as string;
+    const schema = (param.schema ?? param) as SchemaObject;
+
+    if (param.in === 'path' && pathValues[name] !== undefined) {
+      const raw = pathValues[name];
+      errors.push(
+        ...validateSchemaValue(coerceParameter(raw, schema, doc), schema, doc, `path.${name}`)
+      );
+    } else if (param.in === 'query') {
+      const values = query.getAll(name);
+      if (values.length === 0) {
+        if (param.required === true) {
+          errors.push(`query.${name}: Required`);
+        }
+        continue;
+      }
+
+      // Repeated parameters are the items of an array
+      const resolved = deref(schema, doc).value ?? {};
+      const isArray = schemaTypes(resolved).includes('array');
+      const itemSchema = (isArray ? resolved.items : schema) as SchemaObject | undefined;
+      if (!itemSchema) {
+        continue;
+      }
+      for (const raw of values) {
+        errors.push(
+          ...validateSchemaValue(
+            coerceParameter(raw, itemSchema, doc),
+            itemSchema,
+            doc,
+            `query.${name}`
+          )
+        );
+      }
+    } else if (param.in === 'header' && !RESERVED_HEADERS.includes(name.toLowerCase())) {
+      const raw = headers[name.toLowerCase()];
+      if (raw === undefined) {
+        if (param.required === true) {
+          errors.push(`header.${name}: Required`);
+        }
+        continue;
+      }
+      errors.push(
+        ...validateSchemaValue(coerceParameter(raw, schema, doc), schema, doc, `header.${name}`)
+      );
+    }
+  }
+
+  const body = getBodySchema(doc, entry.operation, parameters);
+  const hasBody = request.body !== undefined || !!request.form || !!request.bodyFile;
+  if (body?.required && !hasBody) {
+    errors.push('body: Required');
+  }
+
+  const contentType = headers['content-type'];
+  if (body?.schema && request.body !== undefined && getBodyKind(contentType || '') === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(request.body);
+    } catch {
+      errors.push('body: Not valid JSON');
+    }
+    if (parsed !== undefined) {
+      errors.push(...validateSchemaValue(parsed, body.schema, doc, 'body'));
+    }
+  }
+
+  return { operation: entry.key, errors };
+}
@@ -0,0 +1,399 @@
+/**
+ * Response body parsing
+ * Interprets response bodies by Content-Type: JSON and XML become objects, CSV becomes row
+ * objects and binary bodies (images, PDFs, archives) are left for storage as session artifacts
+ */
+
+import { ResponseArtifact, ResponseFormat } from '@/lib/types';
+
+export interface ParsedResponseBody {
+  format: ResponseFormat;
+  // Parsed body; undefined for binary bodies
+  body: unknown;
+  // Decoded text; empty for binary bodies
+  text: string;
+}
+
+// application/* types that carry text despite not being text/*
+const TEXT_APPLICATION_TYPES = [
+  'application/javascript',
+  'application/ecmascript',
+  'application/x-javascript',
+  'application/yaml',
+  'application/x-yaml',
+  'application/graphql',
+  'application/x-www-form-urlencoded',
+];
+
+const CSV_TYPES = ['text/csv', 'application/csv', 'text/tab-separated-values'];
+
+// File extensions for artifacts named after their media type
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/x-icon': 'ico',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/gzip': 'gz',
+  'audio/mpeg': 'mp3',
+  'video/mp4': 'mp4',
+};
+
+function baseType(contentType: string | null | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+function isUtf8(data: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decide how to interpret a response body from its Content-Type
+ * Bodies without a Content-Type are treated as text when they decode as UTF-8
+ */
+export function getResponseFormat(
+  contentType: string | null | undefined,
+  data: Uint8Array
+): ResponseFormat {
+  const type = baseType(contentType);
+
+  if (!type) {
+    return isUtf8(data) ? 'text' : 'binary';
+  }
+  if (/^(image|audio|video|font)\//.test(type) || type === 'application/pdf') {
+    return 'binary';
+  }
+  if (type.includes('json')) {
+    return 'json';
+  }
+  if (type.endsWith('/xml') || type.endsWith('+xml')) {
+    return 'xml';
+  }
+  if (CSV_TYPES.includes(type)) {
+    return 'csv';
+  }
+  if (type.startsWith('text/') || TEXT_APPLICATION_TYPES.includes(type)) {
+    return 'text';
+  }
+  return 'binary';
+}
+
+/**
+ * Whether a response value is a stored (or unstored) binary body
+ */
+export function isResponseArtifact(value: unknown): value is ResponseArtifact {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as { type?: unknown }).type === 'artifact' &&
+    typeof (value as { name?: unknown }).name === 'string'
+  );
+}
+
+/**
+ * File name for a binary response: the Content-Disposition filename when the server sent one,
+ * otherwise "response-<timestamp>.<ext>"
+ */
+export function getArtifactName(
+  contentType: string | null | undefined,
+  contentDisposition?: string | null,
+  now = new Date()
+): string {
+  if (contentDisposition) {
+    const encoded = contentDisposition.match(/filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i);
+    if (encoded) {
+      try {
+        return decodeURIComponent(encoded[1].trim());
+      } catch {
+        // Fall through to the plain filename
+      }
+    }
+    const plain = contentDisposition.match(/filename\s*=\s*(?:"([^"]*)"|([^;]+))/i);
+    const filename = (plain?.[1] ?? plain?.[2])?.trim();
+    if (filename) {
+      return filename;
+    }
+  }
+
+  const type = baseType(contentType);
+  const extension = EXTENSIONS[type] || type.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin';
+  const timestamp = now.toISOString().replace(/[-:]/g, '').slice(0, 15);
+  return `response-${timestamp}.${extension}`;
+}
+
+// ===== XML =====
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) || point > 0x10ffff ? entity : String.fromCodePoint(point);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+const OPEN_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function skipPast(xml: string, from: number, terminator: string): number {
+  const end = xml.indexOf(terminator, from);
+  if (end === -1) {
+    throw new Error(`Invalid XML: missing "${terminator}"`);
+  }
+  return end + terminator.length;
+}
+
+function parseXmlTree(xml: string): XmlNode {
+  const document: XmlNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlNode[] = [document];
+  let position = 0;
+
+  while (position < xml.length) {
+    const current = stack[stack.length - 1];
+
+    if (xml[position] !== '<') {
+      const end = xml.indexOf('<', position);
+      const next = end === -1 ? xml.length : end;
+      current.text += decodeXmlEntities(xml.slice(position, next));
+      position = next;
+    } else if (xml.startsWith('<!--', position)) {
+      position = skipPast(xml, position, '-->');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = skipPast(xml, position, ']]>');
+      current.text += xml.slice(position + 9, end - 3);
+      position = end;
+    } else if (xml.startsWith('<?', position)) {
+      position = skipPast(xml, position, '?>');
+    } else if (xml.startsWith('<!', position)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = xml.indexOf('[', position);
+      const close = xml.indexOf('>', position);
+      position =
+        bracket !== -1 && bracket < close
+          ? skipPast(xml, bracket, ']>')
+          : skipPast(xml, position, '>');
+    } else if (xml.startsWith('</', position)) {
+      const end = skipPast(xml, position, '>');
+      const name = xml.slice(position + 2, end - 1).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Invalid XML: unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      position = end;
+    } else {
+      OPEN_TAG.lastIndex = position;
+      const match = OPEN_TAG.exec(xml);
+      if (!match) {
+        throw new Error('Invalid XML: malformed tag');
+      }
+
+      const node: XmlNode = { name: match[1], attributes: {}, children: [], text: '' };
+      for (const [, name, doubleQuoted, singleQuoted] of match[2].matchAll(ATTRIBUTE)) {
+        node.attributes[name] = decodeXmlEntities(doubleQuoted ?? singleQuoted);
+      }
+      current.children.push(node);
+      if (!match[3]) {
+        stack.push(node);
+      }
+      position = OPEN_TAG.lastIndex;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid XML: unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (document.children.length !== 1) {
+    throw new Error('Invalid XML: expected a single root element');
+  }
+  return document.children[0];
+}
+
+// <pets><pet/></pets>, <petList>, <ArrayOfPet>: a single child still means a list
+function isListName(parent: string, child: string): boolean {
+  const parentName = parent.toLowerCase();
+  const childName = child.toLowerCase();
+  return [`${childName}s`, `${childName}es`, `${childName}list`, `arrayof${childName}`].includes(
+    parentName
+  );
+}
+
+function xmlNodeValue(node: XmlNode): unknown {
+  const text = node.text.trim();
+  const attributes = Object.entries(node.attributes);
+  if (node.children.length === 0 && attributes.length === 0) {
+    return text === '' ? null : text;
+  }
+
+  const grouped = new Map<string, unknown[]>();
+  for (const child of node.children) {
+    grouped.set(child.name, [...(grouped.get(child.name) || []), xmlNodeValue(child)]);
+  }
+
+  // Wrapper elements holding only repeated (or list-named) children become the list itself
+  if (attributes.length === 0 && !text && grouped.size === 1) {
+    const [[name, items]] = grouped;
+    if (items.length > 1 || isListName(node.name, name)) {
+      return items;
+    }
+  }
+
+  const value: Record<string, unknown> = {};
+  for (const [name, attribute] of attributes) {
+    value[`@${name}`] = attribute;
+  }
+  for (const [name, items] of grouped) {
+    value[name] = items.length === 1 ? items[0] : items;
+  }
+  if (text) {
+    value['#text'] = text;
+  }
+  return value;
+}
+
+/**
+ * Parse an XML document into plain values, returning the root element's content
+ * - Elements become properties, repeated elements arrays; empty elements are null
+ * - Attributes are "@name" properties and text next to child elements is "#text"
+ * - Elements that only wrap repeated elements (<pets><pet/><pet/></pets>) become the array,
+ *   so list paths like "[0].id" work as they do for JSON
+ * Values stay strings: XML carries no types without its schema
+ */
+export function parseXml(xml: string): unknown {
+  return xmlNodeValue(parseXmlTree(xml));
+}
+
+// ===== CSV =====
+
+function parseCsvRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  return records.filter(row => row.length > 1 || row[0] !== '');
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into one object per row keyed by the header row
+ * Cells missing from short rows are empty strings; values stay strings
+ */
+export function parseCsv(text: string, delimiter = ','): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsvRecords(text.replace(/^\uFEFF/, ''), delimiter);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name, index) => name.trim() || `column${index + 1}`);
+  return rows.map(row =>
+    Object.fromEntries(columns.map((column, index) => [column, row[index] ?? '']))
+  );
+}
+
+// ===== Responses =====
+
+function parseJson(text: string): { parsed: boolean; value: unknown } {
+  try {
+    return { parsed: true, value: JSON.parse(text) };
+  } catch {
+    return { parsed: false, value: text };
+  }
+}
+
+/**
+ * Interpret a response body according to its Content-Type
+ * Bodies that fail to parse as their declared format fall back to text, and text bodies
+ * that happen to be JSON are parsed (servers often omit or mislabel the type)
+ */
+export function parseResponseBody(
+  data: Uint8Array,
+  contentType?: string | null
+): ParsedResponseBody {
+  if (data.byteLength === 0) {
+    return { format: 'text', body: '', text: '' };
+  }
+
+  const format = getResponseFormat(contentType, data);
+  if (format === 'binary') {
+    return { format, body: undefined, text: '' };
+  }
+
+  const text = new TextDecoder().decode(data).trim();
+
+  if (format === 'xml') {
+    try {
+      return { format, body: parseXml(text), text };
+    } catch {
+      return { format: 'text', body: text, text };
+    }
+  }
+
+  if (format === 'csv') {
+    const delimiter = baseType(contentType) === 'text/tab-separated-values' ? '\t' : ',';
+    return { format, body: parseCsv(text, delimiter), text };
+  }
+
+  const json = parseJson(text);
+  return { format: json.parsed ? 'json' : 'text', body: json.value, text };
+}
@@ -0,0 +1,116 @@
+/**
+ * Response metadata helpers
+ * Formatting for display and the envelope used to store responses with their metadata
+ */
+
+import { ResponseMeta } from '@/lib/types';
+
+// Stored workflow step responses: the parsed body plus the captured response details
+export interface StoredResponse {
+  body: unknown;
+  meta: ResponseMeta | null;
+}
+
+// Headers worth surfacing first when debugging
+const HIGHLIGHTED_HEADERS = [
+  'content-type',
+  'location',
+  'etag',
+  'retry-after',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'x-request-id',
+  'set-cookie',
+];
+
+/**
+ * Human readable byte size ("512 B", "1.4 KB", "2.0 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+/**
+ * One-line summary, e.g. "HTTP 201 · 142 ms (TTFB 97 ms) · 1.2 KB"
+ * Bodies converted from XML or CSV are labelled, e.g. "... · 1.2 KB · CSV"
+ */
+export function summarizeResponseMeta(meta: ResponseMeta, httpCode?: number): string {
+  const parts = [
+    `${formatDuration(meta.durationMs)} (TTFB ${formatDuration(meta.ttfbMs)})`,
+    formatBytes(meta.sizeBytes),
+  ];
+  if (httpCode) {
+    parts.unshift(`HTTP ${httpCode}`);
+  }
+  if (meta.format === 'xml' || meta.format === 'csv') {
+    parts.push(meta.format.toUpperCase());
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Response headers with the commonly useful ones (Location, ETag, rate limits, cookies) first
+ */
+export function sortResponseHeaders(headers: Record<string, string>): Array<[string, string]> {
+  const rank = (name: string) => {
+    const index = HIGHLIGHTED_HEADERS.indexOf(name.toLowerCase());
+    return index === -1 ? HIGHLIGHTED_HEADERS.length : index;
+  };
+
+  return Object.entries(headers).sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+/**
+ * Serialize a response and its metadata for workflow_executions.response
+ */
+export function serializeStoredResponse(body: unknown, meta?: ResponseMeta | null): string | null {
+  if (body === undefined && !meta) {
+    return null;
+  }
+  const stored: StoredResponse = { body: body ?? null, meta: meta ?? null };
+  return JSON.stringify(stored);
+}
+
+/**
+ * Parse workflow_executions.response
+ * Rows written before metadata was captured hold the bare response body
+ */
+export function parseStoredResponse(value: string | null): StoredResponse {
+  if (!value) {
+    return { body: null, meta: null };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return { body: value, meta: null };
+  }
+
+  if (
+    parsed &&
+    typeof parsed === 'object' &&
+    !Array.isArray(parsed) &&
+    Object.keys(parsed).length === 2 &&
+    'body' in parsed &&
+    'meta' in parsed
+  ) {
+    return parsed as StoredResponse;
+  }
+
+  return { body: parsed, meta: null };
+}
@@ -0,0 +1,78 @@
+/**
+ * Step retry policies
+ * Decides whether a failed request is retried and how long to wait first: exponential backoff
+ * from the policy, or the server's Retry-After when it asks for longer
+ */
+
+import { ExecutionResult, RetryPolicy } from '@/lib/types';
+
+import { readIntEnv } from './env';
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+// Requests are sent once unless a workflow or step asks for retries: a POST that timed out may
+// already have been processed, and sending it again could write the same data twice
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: readIntEnv('WORKFLOW_RETRY_ATTEMPTS', 1),
+  backoffMs: readIntEnv('WORKFLOW_RETRY_BACKOFF_MS', 500, 0),
+  maxDelayMs: 30000,
+  // Timeouts, rate limits and gateway errors; other failures are not expected to go away
+  retryOn: [408, 429, 502, 503, 504],
+};
+
+/**
+ * The policy for a step: its own settings over the workflow's over the defaults
+ */
+export function resolveRetryPolicy(
+  workflowPolicy?: RetryPolicy | null,
+  stepPolicy?: RetryPolicy | null
+): ResolvedRetryPolicy {
+  const defined = (policy?: RetryPolicy | null) =>
+    Object.fromEntries(Object.entries(policy ?? {}).filter(([, value]) => value !== undefined));
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...defined(workflowPolicy), ...defined(stepPolicy) };
+  return {
+    ...policy,
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts)),
+    backoffMs: Math.max(0, policy.backoffMs),
+    maxDelayMs: Math.max(0, policy.maxDelayMs),
+  };
+}
+
+export function isRetryable(policy: ResolvedRetryPolicy, result: ExecutionResult): boolean {
+  if (result.success) {
+    return false;
+  }
+  if (result.networkError) {
+    return true;
+  }
+  return result.httpCode !== undefined && policy.retryOn.includes(result.httpCode);
+}
+
+/**
+ * Milliseconds a Retry-After header asks to wait (delay-seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first retry), capped at maxDelayMs
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  retry: number,
+  result?: ExecutionResult
+): number {
+  const backoff = policy.backoffMs * 2 ** (retry - 1);
+  const retryAfter = parseRetryAfter(result?.meta?.headers['retry-after']);
+  return Math.min(Math.max(backoff, retryAfter ?? 0), policy.maxDelayMs);
+}
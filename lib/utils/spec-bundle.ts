@@ -0,0 +1,43 @@
+/**
+ * Uploaded spec bundles
+ * Size limits and input rules shared by the routes that accept a pasted or uploaded spec
+ */
+
+import { z } from 'zod';
+
+// Uploaded/pasted specs are capped to keep the session row and LLM prompts manageable
+export const MAX_SPEC_SIZE = 5 * 1024 * 1024;
+
+export const SPEC_BUNDLE_TOO_LARGE = 'Spec bundle is too large (max 5 MB)';
+
+export const swaggerContentSchema = z
+  .string()
+  .min(1, 'Spec content is empty')
+  .max(MAX_SPEC_SIZE, 'Spec content is too large (max 5 MB)');
+
+// Files referenced by the spec through relative $refs, keyed by path
+export const swaggerFilesSchema = z.record(z.string(), z.string());
+
+interface SpecBundleInput {
+  swaggerContent?: string;
+  swaggerFiles?: Record<string, string>;
+}
+
+/**
+ * Add the bundle rules to a request schema: referenced files need the spec that refers to them,
+ * and the spec and its files together stay within MAX_SPEC_SIZE
+ */
+export function refineSpecBundle<T extends z.ZodType<SpecBundleInput>>(schema: T): T {
+  return schema
+    .refine(data => !data.swaggerFiles || !!data.swaggerContent, {
+      message: 'swaggerFiles can only be used with swaggerContent',
+      path: ['swaggerFiles'],
+    })
+    .refine(
+      data =>
+        (data.swaggerContent?.length || 0) +
+          Object.values(data.swaggerFiles || {}).reduce((total, file) => total + file.length, 0) <=
+        MAX_SPEC_SIZE,
+      { message: SPEC_BUNDLE_TOO_LARGE, path: ['swaggerFiles'] }
+    );
+}
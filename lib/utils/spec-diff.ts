@@ -0,0 +1,475 @@
+/**
+ * Spec diffing
+ * Compares two versions of a Swagger/OpenAPI document operation by operation and
+ * reports which changes can break existing requests and workflows
+ */
+
+import { SwaggerDoc, WorkflowStep } from '@/lib/types';
+
+import {
+  deref,
+  HTTP_METHODS,
+  mergeAllOf,
+  resolveOperationParameters,
+  SchemaObject,
+} from './openapi-refs';
+
+export type SpecChangeKind =
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-changed'
+  | 'parameter-required'
+  | 'request-body-added'
+  | 'request-body-removed'
+  | 'request-body-required'
+  | 'field-added'
+  | 'field-removed'
+  | 'field-changed'
+  | 'field-required'
+  | 'response-added'
+  | 'response-removed';
+
+export interface SpecChange {
+  kind: SpecChangeKind;
+  // Operation key, e.g. "GET /users/{id}"
+  operation: string;
+  // Parameter name, body field path or response code
+  target: string;
+  detail: string;
+  breaking: boolean;
+}
+
+export interface SpecDiff {
+  fromVersion: string | null;
+  toVersion: string | null;
+  addedOperations: string[];
+  removedOperations: string[];
+  changes: SpecChange[];
+  breakingCount: number;
+}
+
+export interface AffectedWorkflowStep {
+  stepNumber: number;
+  operation: string;
+  reason: 'removed' | 'changed';
+  breaking: boolean;
+}
+
+interface OperationEntry {
+  path: string;
+  pathItem: Record<string, unknown>;
+  operation: Record<string, unknown>;
+}
+
+interface FieldInfo {
+  type: string;
+  required: boolean;
+}
+
+// Request body fields nested deeper than this are not compared
+const MAX_FIELD_DEPTH = 4;
+
+function collectOperations(doc: SwaggerDoc): Map<string, OperationEntry> {
+  const operations = new Map<string, OperationEntry>();
+
+  for (const [path, pathItemValue] of Object.entries(doc.paths || {})) {
+    const pathItem = (deref(pathItemValue, doc).value || {}) as Record<string, unknown>;
+    for (const [method, operation] of Object.entries(pathItem)) {
+      if (HTTP_METHODS.includes(method) && operation && typeof operation === 'object') {
+        operations.set(`${method.toUpperCase()} ${path}`, {
+          path,
+          pathItem,
+          operation: operation as Record<string, unknown>,
+        });
+      }
+    }
+  }
+
+  return operations;
+}
+
+function schemaType(value: unknown, doc: SwaggerDoc): string {
+  const resolved = deref(value, doc);
+  if (!resolved.value) {
+    return resolved.circular ? 'object' : 'unknown';
+  }
+
+  const schema = mergeAllOf(resolved.value, doc, resolved.seen);
+  const type = Array.isArray(schema.type)
+    ? schema.type.join('|')
+    : typeof schema.type === 'string'
+      ? schema.type
+      : schema.properties
+        ? 'object'
+        : 'unknown';
+
+  return typeof schema.format === 'string' ? `${type}(${schema.format})` : type;
+}
+
+function parameterType(param: SchemaObject, doc: SwaggerDoc): string {
+  return param.schema ? schemaType(param.schema, doc) : schemaType(param, doc);
+}
+
+/**
+ * Request body schema of an operation (OpenAPI 3 requestBody or Swagger 2 body parameter)
+ */
+function requestBodyOf(
+  entry: OperationEntry,
+  doc: SwaggerDoc
+): { schema: unknown; required: boolean } | null {
+  const body = entry.operation.requestBody ? deref(entry.operation.requestBody, doc).value : null;
+  if (body) {
+    const content = (body.content || {}) as Record<string, Record<string, unknown> | undefined>;
+    const media =
+      Object.entries(content).find(([type]) => type.includes('json'))?.[1] ||
+      Object.values(content)[0];
+    return { schema: media?.schema, required: body.required === true };
+  }
+
+  const bodyParam = resolveOperationParameters(doc, entry.pathItem, entry.operation).find(
+    param => param.in === 'body'
+  );
+  return bodyParam ? { schema: bodyParam.schema, required: bodyParam.required === true } : null;
+}
+
+/**
+ * Flatten a schema into dotted field paths ("address.street", "items[].sku")
+ */
+function collectFields(
+  value: unknown,
+  doc: SwaggerDoc,
+  fields: Map<string, FieldInfo> = new Map(),
+  prefix: string = '',
+  seen: ReadonlySet<string> = new Set(),
+  depth: number = 0
+): Map<string, FieldInfo> {
+  const resolved = deref(value, doc, seen);
+  if (!resolved.value || depth > MAX_FIELD_DEPTH) {
+    return fields;
+  }
+
+  const schema = mergeAllOf(resolved.value, doc, resolved.seen);
+  if (schema.type === 'array' && schema.items) {
+    return collectFields(schema.items, doc, fields, `${prefix}[]`, resolved.seen, depth);
+  }
+
+  const properties = (schema.properties || {}) as Record<string, unknown>;
+  const required = Array.isArray(schema.required) ? schema.required.map(String) : [];
+
+  for (const [name, fieldSchema] of Object.entries(properties)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    fields.set(path, { type: schemaType(fieldSchema, doc), required: required.includes(name) });
+    collectFields(fieldSchema, doc, fields, path, resolved.seen, depth + 1);
+  }
+
+  return fields;
+}
+
+function diffParameters(
+  key: string,
+  before: OperationEntry,
+  after: OperationEntry,
+  oldDoc: SwaggerDoc,
+  newDoc: SwaggerDoc,
+  changes: SpecChange[]
+): void {
+  const nonBody = (params: SchemaObject[]) => params.filter(param => param.in !== 'body');
+  const oldParams = nonBody(resolveOperationParameters(oldDoc, before.pathItem, before.operation));
+  const newParams = nonBody(resolveOperationParameters(newDoc, after.pathItem, after.operation));
+  const id = (param: SchemaObject) => `${param.name} (${param.in})`;
+
+  for (const oldParam of oldParams) {
+    const newParam = newParams.find(p => p.name === oldParam.name && p.in === oldParam.in);
+    if (!newParam) {
+      changes.push({
+        kind: 'parameter-removed',
+        operation: key,
+        target: id(oldParam),
+        detail: `Parameter ${id(oldParam)} was removed`,
+        breaking: true,
+      });
+      continue;
+    }
+
+    const oldType = parameterType(oldParam, oldDoc);
+    const newType = parameterType(newParam, newDoc);
+    if (oldType !== newType) {
+      changes.push({
+        kind: 'parameter-changed',
+        operation: key,
+        target: id(newParam),
+        detail: `Parameter ${id(newParam)} changed type from ${oldType} to ${newType}`,
+        breaking: true,
+      });
+    }
+    if (!oldParam.required && newParam.required) {
+      changes.push({
+        kind: 'parameter-required',
+        operation: key,
+        target: id(newParam),
+        detail: `Parameter ${id(newParam)} is now required`,
+        breaking: true,
+      });
+    }
+  }
+
+  for (const newParam of newParams) {
+    if (!oldParams.some(p => p.name === newParam.name && p.in === newParam.in)) {
+      changes.push({
+        kind: 'parameter-added',
+        operation: key,
+        target: id(newParam),
+        detail: `${newParam.required ? 'Required' : 'Optional'} parameter ${id(newParam)} was added`,
+        breaking: newParam.required === true,
+      });
+    }
+  }
+}
+
+function diffRequestBody(
+  key: string,
+  before: OperationEntry,
+  after: OperationEntry,
+  oldDoc: SwaggerDoc,
+  newDoc: SwaggerDoc,
+  changes: SpecChange[]
+): void {
+  const oldBody = requestBodyOf(before, oldDoc);
+  const newBody = requestBodyOf(after, newDoc);
+
+  if (oldBody && !newBody) {
+    changes.push({
+      kind: 'request-body-removed',
+      operation: key,
+      target: 'body',
+      detail: 'Request body was removed',
+      breaking: true,
+    });
+    return;
+  }
+  if (!newBody) {
+    return;
+  }
+  if (!oldBody) {
+    changes.push({
+      kind: 'request-body-added',
+      operation: key,
+      target: 'body',
+      detail: `${newBody.required ? 'Required' : 'Optional'} request body was added`,
+      breaking: newBody.required,
+    });
+    return;
+  }
+  if (!oldBody.required && newBody.required) {
+    changes.push({
+      kind: 'request-body-required',
+      operation: key,
+      target: 'body',
+      detail: 'Request body is now required',
+      breaking: true,
+    });
+  }
+
+  const oldFields = collectFields(oldBody.schema, oldDoc);
+  const newFields = collectFields(newBody.schema, newDoc);
+
+  for (const [path, oldField] of oldFields) {
+    const newField = newFields.get(path);
+    if (!newField) {
+      changes.push({
+        kind: 'field-removed',
+        operation: key,
+        target: path,
+        detail: `Request field "${path}" was removed`,
+        breaking: true,
+      });
+      continue;
+    }
+    if (oldField.type !== newField.type) {
+      changes.push({
+        kind: 'field-changed',
+        operation: key,
+        target: path,
+        detail: `Request field "${path}" changed type from ${oldField.type} to ${newField.type}`,
+        breaking: true,
+      });
+    }
+    if (!oldField.required && newField.required) {
+      changes.push({
+        kind: 'field-required',
+        operation: key,
+        target: path,
+        detail: `Request field "${path}" is now required`,
+        breaking: true,
+      });
+    }
+  }
+
+  for (const [path, newField] of newFields) {
+    if (!oldFields.has(path)) {
+      changes.push({
+        kind: newField.required ? 'field-required' : 'field-added',
+        operation: key,
+        target: path,
+        detail: `${newField.required ? 'Required' : 'Optional'} request field "${path}" was added`,
+        breaking: newField.required,
+      });
+    }
+  }
+}
+
+function diffResponses(
+  key: string,
+  before: OperationEntry,
+  after: OperationEntry,
+  changes: SpecChange[]
+): void {
+  const oldCodes = Object.keys((before.operation.responses || {}) as Record<string, unknown>);
+  const newCodes = Object.keys((after.operation.responses || {}) as Record<string, unknown>);
+
+  for (const code of oldCodes) {
+    if (!newCodes.includes(code)) {
+      changes.push({
+        kind: 'response-removed',
+        operation: key,
+        target: code,
+        detail: `Response ${code} was removed`,
+        // Clients relying on a success status break when it disappears
+        breaking: code.startsWith('2'),
+      });
+    }
+  }
+  for (const code of newCodes) {
+    if (!oldCodes.includes(code)) {
+      changes.push({
+        kind: 'response-added',
+        operation: key,
+        target: code,
+        detail: `Response ${code} was added`,
+        breaking: false,
+      });
+    }
+  }
+}
+
+/**
+ * Compute the structured diff between two versions of a spec
+ */
+export function diffSpecs(oldDoc: SwaggerDoc, newDoc: SwaggerDoc): SpecDiff {
+  const before = collectOperations(oldDoc);
+  const after = collectOperations(newDoc);
+  const changes: SpecChange[] = [];
+
+  const removedOperations = [...before.keys()].filter(key => !after.has(key));
+  const addedOperations = [...after.keys()].filter(key => !before.has(key));
+
+  for (const [key, oldEntry] of before) {
+    const newEntry = after.get(key);
+    if (!newEntry) {
+      continue;
+    }
+    diffParameters(key, oldEntry, newEntry, oldDoc, newDoc, changes);
+    diffRequestBody(key, oldEntry, newEntry, oldDoc, newDoc, changes);
+    diffResponses(key, oldEntry, newEntry, changes);
+  }
+
+  return {
+    fromVersion: oldDoc.info?.version ?? null,
+    toVersion: newDoc.info?.version ?? null,
+    addedOperations,
+    removedOperations,
+    changes,
+    breakingCount: removedOperations.length + changes.filter(change => change.breaking).length,
+  };
+}
+
+export function hasSpecChanges(diff: SpecDiff): boolean {
+  return (
+    diff.addedOperations.length > 0 || diff.removedOperations.length > 0 || diff.changes.length > 0
+  );
+}
+
+/**
+ * Find the spec operation a workflow step calls
+ * Step endpoints may carry values or placeholders for path parameters ("/users/123",
+ * "/users/{{userId}}") and a base path prefix; literal segments win over templated ones
+ */
+export function matchOperation(
+  method: string,
+  endpoint: string,
+  operationKeys: Iterable<string>
+): string | null {
+  const path = endpoint
+    .replace(/^https?:\/\/[^/]+/, '')
+    .split(/[?#]/)[0]
+    .replace(/\/+$/, '');
+  let best: { key: string; literals: number } | null = null;
+
+  for (const key of operationKeys) {
+    const [keyMethod, template] = key.split(' ');
+    if (keyMethod !== method.toUpperCase()) {
+      continue;
+    }
+
+    const segments = template.replace(/\/+$/, '').split('/');
+    const pattern = segments
+      .map(segment =>
+        /^\{[^}]+\}$/.test(segment) ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('/');
+
+    if (new RegExp(`(?:^|/)${pattern.replace(/^\//, '')}$`).test(path)) {
+      const literals = segments.filter(segment => segment && !segment.startsWith('{')).length;
+      if (!best || literals > best.literals) {
+        best = { key, literals };
+      }
+    }
+  }
+
+  return best?.key ?? null;
+}
+
+/**
+ * Workflow steps that call operations removed or changed by a diff
+ * `currentOperations` are the operations of the new spec version (removed ones come from the diff)
+ */
+export function findAffectedSteps(
+  steps: WorkflowStep[],
+  diff: SpecDiff,
+  currentOperations: string[]
+): AffectedWorkflowStep[] {
+  const affected: AffectedWorkflowStep[] = [];
+  const operationKeys = [...currentOperations, ...diff.removedOperations];
+
+  for (const step of steps) {
+    if (!step.action?.endpoint || !step.action.method) {
+      continue;
+    }
+
+    const operation = matchOperation(step.action.method, step.action.endpoint, operationKeys);
+    if (!operation) {
+      continue;
+    }
+
+    if (diff.removedOperations.includes(operation)) {
+      affected.push({ stepNumber: step.stepNumber, operation, reason: 'removed', breaking: true });
+      continue;
+    }
+
+    const changes = diff.changes.filter(change => change.operation === operation);
+    if (changes.length > 0) {
+      affected.push({
+        stepNumber: step.stepNumber,
+        operation,
+        reason: 'changed',
+        breaking: changes.some(change => change.breaking),
+      });
+    }
+  }
+
+  return affected;
+}
+
+export function listOperationKeys(doc: SwaggerDoc): string[] {
+  return [...collectOperations(doc).keys()];
+}
@@ -0,0 +1,125 @@
+/**
+ * Workflow step dependency graph
+ * Works out which earlier steps each step waits for so independent steps can run concurrently
+ */
+
+import { WorkflowStep } from '@/lib/types';
+
+import { getConditionReferences } from './condition';
+import { isItemPlaceholder } from './for-each';
+
+// Methods without side effects; other methods order the steps around them
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const PLACEHOLDER_PATTERN = /\{\{([^}]+)\}\}/g;
+
+export function isReadStep(step: WorkflowStep): boolean {
+  return READ_METHODS.includes((step.action.method || 'GET').toUpperCase());
+}
+
+/**
+ * Names of the {{placeholders}} a step's endpoint and body refer to, plus its forEach source
+ * (forEach item placeholders are filled from the step's own items)
+ */
+export function getStepPlaceholders(step: WorkflowStep): string[] {
+  const source = `${step.action.endpoint || ''} ${JSON.stringify(step.action.body ?? {})}`;
+  const names = Array.from(source.matchAll(PLACEHOLDER_PATTERN), match => match[1].trim());
+  if (step.forEach?.source) {
+    names.push(step.forEach.source.replace(/^\{\{|\}\}$/g, '').trim());
+  }
+  return [...new Set(names.filter(name => !isItemPlaceholder(name)))];
+}
+
+/**
+ * Indexes of the earlier steps a placeholder can resolve from
+ * "{{step2_id}}" (or a forEach source like "step2.data") names its step; other names match
+ * earlier extractFields. Placeholders that match nothing are resolved heuristically from any
+ * earlier step, so they wait for all of them
+ */
+function placeholderSources(steps: WorkflowStep[], index: number, placeholder: string): number[] {
+  // Template inputs ({{input.name}}) are known before the run starts
+  if (placeholder.startsWith('input.')) {
+    return [];
+  }
+
+  const earlier = steps.slice(0, index).map((_, earlierIndex) => earlierIndex);
+
+  const prefixed = placeholder.match(/^step(\d+)(?:[_.]|$)/);
+  if (prefixed) {
+    const stepNumber = parseInt(prefixed[1], 10);
+    const source = earlier.filter(i => steps[i].stepNumber === stepNumber);
+    if (source.length > 0) {
+      return source;
+    }
+  }
+
+  const extracting = earlier.filter(i => steps[i].extractFields?.includes(placeholder));
+  return extracting.length > 0 ? extracting : earlier;
+}
+
+/**
+ * Indexes of the earlier steps a `when` condition reads: "status" is the previous step's
+ * status, other names resolve like placeholders. Malformed conditions wait for every earlier
+ * step (the step then fails when it is evaluated)
+ */
+function conditionSources(steps: WorkflowStep[], index: number, condition: string): number[] {
+  try {
+    return getConditionReferences(condition).flatMap(reference =>
+      reference.raw === 'status'
+        ? index > 0
+          ? [index - 1]
+          : []
+        : placeholderSources(steps, index, reference.raw)
+    );
+  } catch {
+    return steps.slice(0, index).map((_, earlierIndex) => earlierIndex);
+  }
+}
+
+/**
+ * Indexes of compensating steps: steps another step names as its onFailure handler
+ */
+export function getCompensationSteps(steps: WorkflowStep[]): Set<number> {
+  const targets = new Set(steps.map(step => step.onFailure).filter(target => target !== undefined));
+  return new Set(steps.flatMap((step, index) => (targets.has(step.stepNumber) ? [index] : [])));
+}
+
+/**
+ * Dependencies of every step, as indexes into `steps` (always earlier steps, so acyclic)
+ * - Steps wait for the steps their {{placeholders}} and `when` condition resolve from
+ * - An explicit `dependsOn` (step numbers) adds those steps and replaces the implicit ordering
+ * - Otherwise write steps (POST, PUT, PATCH, DELETE) wait for every earlier step and every
+ *   later step waits for earlier write steps; reads between writes run concurrently
+ * - Compensating steps only run after a failure, so no step waits for them
+ */
+export function buildStepGraph(steps: WorkflowStep[]): number[][] {
+  const compensations = getCompensationSteps(steps);
+
+  return steps.map((step, index) => {
+    const dependencies = new Set<number>();
+
+    for (const placeholder of getStepPlaceholders(step)) {
+      placeholderSources(steps, index, placeholder).forEach(i => dependencies.add(i));
+    }
+    if (step.when) {
+      conditionSources(steps, index, step.when).forEach(i => dependencies.add(i));
+    }
+
+    for (let earlier = 0; earlier < index; earlier++) {
+      const explicit = step.dependsOn?.includes(steps[earlier].stepNumber);
+      const implicit = !step.dependsOn && (!isReadStep(step) || !isReadStep(steps[earlier]));
+      if (explicit || implicit) {
+        dependencies.add(earlier);
+      }
+    }
+
+    return [...dependencies].filter(i => !compensations.has(i)).sort((a, b) => a - b);
+  });
+}
+
+/**
+ * Dependencies of every step as step numbers (for display)
+ */
+export function getStepDependsOn(steps: WorkflowStep[]): number[][] {
+  return buildStepGraph(steps).map(indexes => indexes.map(i => steps[i].stepNumber));
+}
@@ -0,0 +1,64 @@
+/**
+ * Step overrides
+ * Applies per-execution changes to a step's endpoint, body and parameters
+ */
+
+import { StepOverride, WorkflowStep } from '@/lib/types';
+
+function formatParameter(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Fill {name} path templates and set the remaining parameters in the query string
+ * Existing query parameters with the same name are replaced; {{placeholders}} are kept as is
+ */
+export function applyParameters(endpoint: string, parameters: Record<string, unknown>): string {
+  const queryStart = endpoint.indexOf('?');
+  const rawPath = queryStart >= 0 ? endpoint.slice(0, queryStart) : endpoint;
+  const rawQuery = queryStart >= 0 ? endpoint.slice(queryStart + 1) : '';
+
+  const query = new Map<string, string>();
+  for (const pair of rawQuery.split('&').filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    query.set(
+      separator >= 0 ? pair.slice(0, separator) : pair,
+      separator >= 0 ? pair.slice(separator + 1) : ''
+    );
+  }
+
+  let path = rawPath;
+  for (const [name, value] of Object.entries(parameters)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    // {id} but not the {{id}} placeholder
+    const template = `{${name}}`;
+    if (path.includes(template) && !path.includes(`{${template}}`)) {
+      path = path.replace(template, encodeURIComponent(formatParameter(value)));
+    } else {
+      query.set(encodeURIComponent(name), encodeURIComponent(formatParameter(value)));
+    }
+  }
+
+  const queryString = Array.from(query, ([key, value]) => `${key}=${value}`).join('&');
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * The step with an override applied; the body is replaced, parameters are merged
+ */
+export function applyStepOverride(step: WorkflowStep, override: StepOverride): WorkflowStep {
+  const action = { ...step.action };
+  if (override.endpoint !== undefined) {
+    action.endpoint = override.endpoint;
+  }
+  if (override.body !== undefined) {
+    action.body = override.body;
+  }
+  if (override.parameters !== undefined) {
+    action.parameters = { ...action.parameters, ...override.parameters };
+    action.endpoint = applyParameters(action.endpoint || '', override.parameters);
+  }
+  return { ...step, action };
+}
@@ -0,0 +1,106 @@
+/**
+ * Workflow step validation
+ * Checks edited steps before they are saved: every request has to call an operation of the
+ * session's spec, and step references (dependsOn, onFailure, {{stepN_...}} placeholders,
+ * {{input.name}} and `when` conditions) have to point at steps and inputs that exist, and
+ * assertions need valid JSONPaths and patterns
+ * Errors are keyed by "steps.<index>.<field>", like route validation errors
+ */
+
+import { WorkflowStep } from '@/lib/types';
+
+import { validateAssertion } from './assertions';
+import { getConditionReferences } from './condition';
+import { matchOperation } from './spec-diff';
+import { getStepPlaceholders } from './step-graph';
+
+export interface StepValidationContext {
+  // "METHOD /path" keys of the spec's operations (see listOperationKeys)
+  operationKeys: string[];
+  // Declared template inputs
+  inputNames?: string[];
+}
+
+export function validateWorkflowSteps(
+  steps: WorkflowStep[],
+  context: StepValidationContext
+): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  const addError = (index: number, field: string, message: string) => {
+    const key = `steps.${index}.${field}`;
+    errors[key] = [...(errors[key] || []), message];
+  };
+
+  const stepNumbers = new Set(steps.map(step => step.stepNumber));
+  const inputNames = new Set(context.inputNames ?? []);
+  const seen = new Set<number>();
+
+  steps.forEach((step, index) => {
+    if (seen.has(step.stepNumber)) {
+      addError(index, 'stepNumber', `Step number ${step.stepNumber} is used twice`);
+    }
+    const earlier = new Set(seen);
+    seen.add(step.stepNumber);
+
+    const { method, endpoint } = step.action;
+    if (!matchOperation(method, endpoint, context.operationKeys)) {
+      addError(
+        index,
+        'action.endpoint',
+        `The spec has no ${method.toUpperCase()} ${endpoint.split('?')[0]} operation`
+      );
+    }
+
+    for (const dependency of step.dependsOn ?? []) {
+      if (!earlier.has(dependency)) {
+        addError(
+          index,
+          'dependsOn',
+          stepNumbers.has(dependency)
+            ? `Step ${dependency} does not run before this step`
+            : `There is no step ${dependency}`
+        );
+      }
+    }
+
+    if (step.onFailure !== undefined) {
+      if (step.onFailure === step.stepNumber) {
+        addError(index, 'onFailure', 'A step cannot compensate for itself');
+      } else if (!stepNumbers.has(step.onFailure)) {
+        addError(index, 'onFailure', `There is no step ${step.onFailure}`);
+      }
+    }
+
+    for (const placeholder of getStepPlaceholders(step)) {
+      const input = placeholder.match(/^input\.(\w+)/);
+      if (input && !inputNames.has(input[1])) {
+        addError(index, 'action', `{{${placeholder}}} refers to an undeclared input`);
+      }
+      const source = placeholder.match(/^step(\d+)(?:[_.]|$)/);
+      if (source && !earlier.has(parseInt(source[1], 10))) {
+        addError(
+          index,
+          'action',
+          `{{${placeholder}}} refers to step ${source[1]}, which does not run before this step`
+        );
+      }
+    }
+
+    if (step.when !== undefined) {
+      try {
+        getConditionReferences(step.when);
+      } catch (error) {
+        addError(index, 'when', error instanceof Error ? error.message : 'Invalid condition');
+      }
+    }
+
+    step.assertions?.forEach((assertion, position) => {
+      const problem = validateAssertion(assertion);
+      if (problem) {
+        addError(index, `assertions.${position}`, problem);
+      }
+    });
+  });
+
+  return errors;
+}
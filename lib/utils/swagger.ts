@@ -2,6 +2,26 @@ import yaml from 'js-yaml';
 
 import { SwaggerDoc } from '@/lib/types';
 
+import {
+  deref,
+  HTTP_METHODS,
+  mergeAllOf,
+  refName,
+  resolveOperationParameters,
+  SchemaObject,
+} from './openapi-refs';
+
+// Nested schemas deeper than this are summarized to keep prompts bounded
+const MAX_SCHEMA_DEPTH = 6;
+
+// Omitted operations listed by name when only a slice of the spec is formatted
+const MAX_OUTLINE_ENDPOINTS = 150;
+
+export interface FormatSwaggerOptions {
+  // Only describe these operations ("METHOD /path") in detail, the rest are listed by name
+  operations?: string[];
+}
+
 export function parseSwagger(content: string): SwaggerDoc {
   try {
     // Try JSON first
@@ -32,8 +52,14 @@ export function extractBaseUrl(doc: SwaggerDoc): string | null {
   return null;
 }
 
-export function formatSwaggerForLLM(doc: SwaggerDoc, baseUrlOverride?: string): string {
+export function formatSwaggerForLLM(
+  doc: SwaggerDoc,
+  baseUrlOverride?: string,
+  options: FormatSwaggerOptions = {}
+): string {
   const lines: string[] = [];
+  const selected = options.operations ? new Set(options.operations) : null;
+  const omitted: string[] = [];
 
   // Add info
   if (doc.info) {
@@ -56,14 +82,23 @@ export function formatSwaggerForLLM(doc: SwaggerDoc, baseUrlOverride?: string):
   lines.push('');
 
   if (doc.paths) {
-    for (const [path, methods] of Object.entries(doc.paths)) {
-      for (const [method, operation] of Object.entries(methods as Record<string, unknown>)) {
-        if (typeof operation !== 'object' || operation === null) {
+    for (const [path, pathItemValue] of Object.entries(doc.paths)) {
+      const pathItem = (deref(pathItemValue, doc).value || {}) as Record<string, unknown>;
+
+      for (const [method, operation] of Object.entries(pathItem)) {
+        // Skip path-level keys (parameters, summary, servers, ...)
+        if (!HTTP_METHODS.includes(method) || typeof operation !== 'object' || !operation) {
           continue;
         }
 
         const op = operation as Record<string, unknown>;
-        lines.push(`### ${method.toUpperCase()} ${path}`);
+        const key = `${method.toUpperCase()} ${path}`;
+        if (selected && !selected.has(key)) {
+          omitted.push(op.summary ? `${key} - ${op.summary}` : key);
+          continue;
+        }
+
+        lines.push(`### ${key}`);
 
         if (op.summary) {
           lines.push(`Summary: ${op.summary}`);
@@ -73,23 +108,30 @@ export function formatSwaggerForLLM(doc: SwaggerDoc, baseUrlOverride?: string):
           lines.push(`Description: ${op.description}`);
         }
 
-        // Parameters
-        if (op.parameters && Array.isArray(op.parameters) && op.parameters.length > 0) {
+        // Parameters (path-level ones are inherited, $refs resolved)
+        const parameters = resolveOperationParameters(doc, pathItem, op);
+        if (parameters.length > 0) {
           lines.push('Parameters:');
-          for (const param of op.parameters) {
-            const p = param as Record<string, unknown>;
+          for (const p of parameters) {
             const required = p.required ? ' (required)' : '';
-            const paramType = getParameterType(p);
+            const paramType = getParameterType(p, doc);
             lines.push(`  - ${p.name} (${p.in}): ${paramType} ${required}`);
             if (p.description) {
               lines.push(`    ${p.description}`);
             }
+            formatEnum(p.schema ? deref(p.schema, doc).value : p, lines, '    ');
+
+            // Swagger 2.x body parameter
+            if (p.in === 'body' && p.schema) {
+              lines.push('    Fields:');
+              formatSchemaFields(p.schema, doc, lines, '      ');
+            }
           }
         }
 
         // Request body with schema details
-        if (op.requestBody) {
-          const rb = op.requestBody as Record<string, unknown>;
+        const rb = op.requestBody ? deref(op.requestBody, doc).value : null;
+        if (rb) {
           lines.push('Request Body:');
           if (rb.description) {
             lines.push(`  Description: ${rb.description}`);
@@ -99,10 +141,13 @@ export function formatSwaggerForLLM(doc: SwaggerDoc, baseUrlOverride?: string):
           }
 
           // Extract schema details
-          const schema = extractRequestBodySchema(rb, doc);
-          if (schema) {
+          const media = extractMediaSchema(rb);
+          if (media) {
+            if (!media.contentType.includes('json')) {
+              lines.push(`  Content-Type: ${media.contentType}`);
+            }
             lines.push('  Fields:');
-            formatSchemaFields(schema, lines, '    ');
+            formatSchemaFields(media.schema, doc, lines, '    ');
           }
         }
 
@@ -110,8 +155,17 @@ export function formatSwaggerForLLM(doc: SwaggerDoc, baseUrlOverride?: string):
         if (op.responses) {
           lines.push('Responses:');
           for (const [code, response] of Object.entries(op.responses as Record<string, unknown>)) {
-            const resp = response as Record<string, unknown>;
+            const resp = deref(response, doc).value || {};
             lines.push(`  ${code}: ${resp.description || 'No description'}`);
+
+            // Only success payloads are described field by field
+            const schema = code.startsWith('2')
+              ? (extractMediaSchema(resp)?.schema ?? resp.schema)
+              : undefined;
+            if (schema) {
+              lines.push(`    Returns: ${describeSchemaType(schema, doc)}`);
+              formatSchemaFields(schema, doc, lines, '      ');
+            }
           }
         }
 
@@ -120,69 +174,147 @@ export function formatSwaggerForLLM(doc: SwaggerDoc, baseUrlOverride?: string):
     }
   }
 
+  if (omitted.length > 0) {
+    lines.push('## Other Endpoints');
+    lines.push('Listed by name only, their parameters and schemas are not shown.');
+    for (const entry of omitted.slice(0, MAX_OUTLINE_ENDPOINTS)) {
+      lines.push(`- ${entry}`);
+    }
+    if (omitted.length > MAX_OUTLINE_ENDPOINTS) {
+      lines.push(`- ... and ${omitted.length - MAX_OUTLINE_ENDPOINTS} more`);
+    }
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
 
-function getParameterType(param: Record<string, unknown>): string {
+function getParameterType(param: SchemaObject, doc: SwaggerDoc): string {
   if (param.type) {
-    return param.type as string;
+    // Swagger 2.x non-body parameters carry the schema keywords directly
+    return describeSchemaType(param, doc);
   }
   if (param.schema && typeof param.schema === 'object') {
-    return ((param.schema as Record<string, unknown>).type as string) || 'string';
+    return describeSchemaType(param.schema, doc);
   }
   return 'string';
 }
 
-function extractRequestBodySchema(
-  requestBody: Record<string, unknown>,
-  doc: SwaggerDoc
-): Record<string, unknown> | null {
-  if (!requestBody.content) {
+/**
+ * Find the schema of a request body or response, preferring JSON media types
+ */
+function extractMediaSchema(
+  container: SchemaObject
+): { contentType: string; schema: SchemaObject } | null {
+  if (!container.content || typeof container.content !== 'object') {
     return null;
   }
 
-  const content = requestBody.content as Record<string, unknown>;
-  const jsonContent = content['application/json'] || content['application/json; charset=utf-8'];
-
-  if (!jsonContent || typeof jsonContent !== 'object') {
+  const entries = Object.entries(container.content as Record<string, unknown>).filter(
+    ([, media]) =>
+      !!media && typeof media === 'object' && !!(media as Record<string, unknown>).schema
+  );
+  const match = entries.find(([contentType]) => contentType.includes('json')) || entries[0];
+  if (!match) {
     return null;
   }
 
-  const schema = (jsonContent as Record<string, unknown>).schema;
-  if (!schema || typeof schema !== 'object') {
-    return null;
-  }
+  const schema = (match[1] as Record<string, unknown>).schema;
+  return typeof schema === 'object'
+    ? { contentType: match[0], schema: schema as SchemaObject }
+    : null;
+}
 
-  // If schema has $ref, resolve it
-  const schemaObj = schema as Record<string, unknown>;
-  if (schemaObj.$ref && typeof schemaObj.$ref === 'string') {
-    return resolveRef(schemaObj.$ref, doc);
+/**
+ * Short type label such as "string (date-time)", "array of Pet" or "object (User)"
+ */
+function describeSchemaType(
+  value: unknown,
+  doc: SwaggerDoc,
+  seen: ReadonlySet<string> = new Set()
+): string {
+  const resolved = deref(value, doc, seen);
+  const name = resolved.ref ? refName(resolved.ref) : null;
+
+  if (resolved.circular) {
+    return `object (${name}, circular reference)`;
+  }
+  if (resolved.external) {
+    return `object (external reference ${resolved.ref})`;
+  }
+  if (!resolved.value) {
+    return 'unknown';
   }
 
-  return schemaObj;
-}
+  const schema = mergeAllOf(resolved.value, doc, resolved.seen);
+  const variants = (schema.oneOf || schema.anyOf) as unknown[] | undefined;
+
+  let type: string;
+  if (Array.isArray(schema.type)) {
+    type = schema.type.join(' | ');
+  } else if (typeof schema.type === 'string') {
+    type = schema.type;
+  } else if (schema.properties) {
+    type = 'object';
+  } else if (Array.isArray(variants)) {
+    type = variants.map(variant => describeSchemaType(variant, doc, resolved.seen)).join(' | ');
+  } else if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    type = typeof schema.enum[0];
+  } else {
+    type = 'unknown';
+  }
 
-function resolveRef(ref: string, doc: SwaggerDoc): Record<string, unknown> | null {
-  // Handle #/components/schemas/Name or #/definitions/Name
-  const parts = ref.replace('#/', '').split('/');
-  let current: unknown = doc;
+  if (type === 'array') {
+    type = schema.items ? `array of ${describeSchemaType(schema.items, doc, resolved.seen)}` : type;
+  } else if (name && type === 'object') {
+    type = `object (${name})`;
+  }
 
-  for (const part of parts) {
-    if (current && typeof current === 'object') {
-      current = (current as Record<string, unknown>)[part];
-    } else {
-      return null;
-    }
+  if (typeof schema.format === 'string') {
+    type += ` (${schema.format})`;
+  }
+  if (schema.nullable === true) {
+    type += ', nullable';
   }
 
-  return current as Record<string, unknown>;
+  return type;
+}
+
+function formatEnum(schema: SchemaObject | null, lines: string[], indent: string): void {
+  if (schema && Array.isArray(schema.enum) && schema.enum.length > 0) {
+    lines.push(
+      `${indent}Allowed values: ${schema.enum.map(value => JSON.stringify(value)).join(', ')}`
+    );
+  }
 }
 
 function formatSchemaFields(
-  schema: Record<string, unknown>,
+  value: unknown,
+  doc: SwaggerDoc,
   lines: string[],
-  indent: string
+  indent: string,
+  seen: ReadonlySet<string> = new Set(),
+  depth: number = 0
 ): void {
+  const resolved = deref(value, doc, seen);
+  if (!resolved.value) {
+    return;
+  }
+
+  const schema = mergeAllOf(resolved.value, doc, resolved.seen);
+
+  // Top-level arrays (e.g. list responses) describe their items
+  if (schema.type === 'array' && schema.items) {
+    formatSchemaFields(schema.items, doc, lines, indent, resolved.seen, depth);
+    return;
+  }
+
+  const variants = (schema.oneOf || schema.anyOf) as unknown[] | undefined;
+  if (Array.isArray(variants) && !schema.properties) {
+    formatVariants(schema, doc, lines, indent, resolved.seen, depth);
+    return;
+  }
+
   const properties = schema.properties as Record<string, unknown> | undefined;
   const required = (schema.required as string[]) || [];
 
@@ -190,20 +322,29 @@ function formatSchemaFields(
     return;
   }
 
+  if (depth >= MAX_SCHEMA_DEPTH) {
+    lines.push(`${indent}- ... (${Object.keys(properties).length} more fields, nesting too deep)`);
+    return;
+  }
+
   for (const [fieldName, fieldSchema] of Object.entries(properties)) {
     if (typeof fieldSchema !== 'object' || fieldSchema === null) {
       continue;
     }
 
-    const field = fieldSchema as Record<string, unknown>;
+    const fieldRef = deref(fieldSchema, doc, resolved.seen);
+    const field = fieldRef.value ? mergeAllOf(fieldRef.value, doc, fieldRef.seen) : {};
     const isRequired = required.includes(fieldName);
-    const fieldType = field.type || 'unknown';
+    const fieldType = describeSchemaType(fieldSchema, doc, resolved.seen);
     const isForeignKey = fieldName.endsWith('_id');
 
     let fieldDesc = `${fieldName}: ${fieldType}`;
     if (isRequired) {
       fieldDesc += ' (REQUIRED)';
     }
+    if (field.readOnly === true) {
+      fieldDesc += ' [READ ONLY]';
+    }
     if (isForeignKey) {
       fieldDesc += ' [FOREIGN KEY]';
     }
@@ -213,22 +354,57 @@ function formatSchemaFields(
     if (field.description) {
       lines.push(`${indent}  Description: ${field.description}`);
     }
+    formatEnum(field, lines, `${indent}  `);
+
+    if (!fieldRef.value) {
+      continue;
+    }
 
     // Handle nested objects
-    if (fieldType === 'object' && field.properties) {
+    if (field.properties) {
       lines.push(`${indent}  Nested fields:`);
-      formatSchemaFields(field, lines, `${indent}    `);
+      formatSchemaFields(field, doc, lines, `${indent}    `, fieldRef.seen, depth + 1);
+    } else if ((field.oneOf || field.anyOf) && field.type !== 'array') {
+      formatVariants(field, doc, lines, `${indent}  `, fieldRef.seen, depth + 1);
     }
 
     // Handle arrays with items
-    if (fieldType === 'array' && field.items && typeof field.items === 'object') {
-      const items = field.items as Record<string, unknown>;
-      if (items.$ref) {
-        lines.push(`${indent}  Array of referenced objects`);
-      } else if (items.properties) {
-        lines.push(`${indent}  Array items:`);
-        formatSchemaFields(items, lines, `${indent}    `);
+    if (field.type === 'array' && field.items && typeof field.items === 'object') {
+      const items = deref(field.items, doc, fieldRef.seen);
+      if (items.value) {
+        const itemSchema = mergeAllOf(items.value, doc, items.seen);
+        if (itemSchema.properties || itemSchema.oneOf || itemSchema.anyOf) {
+          lines.push(`${indent}  Array items:`);
+          formatSchemaFields(field.items, doc, lines, `${indent}    `, fieldRef.seen, depth + 1);
+        }
+        formatEnum(itemSchema, lines, `${indent}  `);
       }
     }
   }
 }
+
+/**
+ * List the alternatives of a oneOf / anyOf schema with their fields
+ */
+function formatVariants(
+  schema: SchemaObject,
+  doc: SwaggerDoc,
+  lines: string[],
+  indent: string,
+  seen: ReadonlySet<string>,
+  depth: number
+): void {
+  const keyword = schema.oneOf ? 'oneOf' : 'anyOf';
+  const variants = schema[keyword] as unknown[];
+  lines.push(`${indent}${keyword === 'oneOf' ? 'One of' : 'Any of'}:`);
+
+  const discriminator = schema.discriminator as Record<string, unknown> | undefined;
+  if (discriminator && typeof discriminator.propertyName === 'string') {
+    lines.push(`${indent}  (selected by the "${discriminator.propertyName}" field)`);
+  }
+
+  variants.forEach((variant, index) => {
+    lines.push(`${indent}  Option ${index + 1}: ${describeSchemaType(variant, doc, seen)}`);
+    formatSchemaFields(variant, doc, lines, `${indent}    `, seen, depth + 1);
+  });
+}
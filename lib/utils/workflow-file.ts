@@ -0,0 +1,118 @@
+/**
+ * Workflow files
+ * Saved workflows exported as JSON so they can run outside the app (e.g. in CI with
+ * scripts/run-workflows.ts). A file holds the steps with their assertions, the template inputs,
+ * the retry policy and, optionally, the base URL the workflow was built against
+ */
+
+import { RetryPolicy, WorkflowInput, WorkflowStep } from '@/lib/types';
+
+export const WORKFLOW_FILE_VERSION = 1;
+
+export interface WorkflowFile {
+  version: number;
+  name: string;
+  description?: string;
+  baseUrl?: string;
+  steps: WorkflowStep[];
+  inputs?: WorkflowInput[];
+  retry?: RetryPolicy;
+}
+
+// The saved workflow fields a file is made from (JSON columns as stored)
+export interface ExportableWorkflow {
+  name: string;
+  description: string;
+  steps: string;
+  inputs: string | null;
+  retryPolicy: string | null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON columns come back as strings from the database and as values from the API
+function parseJsonField<T>(value: unknown): T | undefined {
+  if (typeof value === 'string') {
+    return value ? (JSON.parse(value) as T) : undefined;
+  }
+  return value === null ? undefined : (value as T | undefined);
+}
+
+/**
+ * A saved workflow as a workflow file
+ */
+export function toWorkflowFile(
+  workflow: ExportableWorkflow,
+  baseUrl?: string | null
+): WorkflowFile {
+  const inputs = parseJsonField<WorkflowInput[]>(workflow.inputs);
+  const retry = parseJsonField<RetryPolicy>(workflow.retryPolicy);
+  return {
+    version: WORKFLOW_FILE_VERSION,
+    name: workflow.name,
+    description: workflow.description,
+    ...(baseUrl && { baseUrl }),
+    steps: JSON.parse(workflow.steps) as WorkflowStep[],
+    ...(inputs && inputs.length > 0 && { inputs }),
+    ...(retry && { retry }),
+  };
+}
+
+/**
+ * Read a workflow file. Also accepts the response of GET /api/workflow/:id (or its workflow
+ * object) and a bare array of steps; throws with the reason when the content is not a workflow
+ */
+export function parseWorkflowFile(content: string, fallbackName = 'Workflow'): WorkflowFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Workflow file is not valid JSON');
+  }
+
+  if (isObject(parsed) && isObject(parsed.data) && isObject(parsed.data.workflow)) {
+    parsed = parsed.data.workflow;
+  } else if (isObject(parsed) && isObject(parsed.workflow)) {
+    parsed = parsed.workflow;
+  }
+
+  const source = Array.isArray(parsed) ? { steps: parsed } : parsed;
+  if (!isObject(source)) {
+    throw new Error('Workflow file must hold a workflow object or an array of steps');
+  }
+
+  const steps = parseJsonField<unknown>(source.steps);
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('Workflow file has no steps');
+  }
+  steps.forEach((step, index) => {
+    const valid =
+      isObject(step) &&
+      typeof step.stepNumber === 'number' &&
+      isObject(step.action) &&
+      typeof step.action.endpoint === 'string' &&
+      typeof step.action.method === 'string';
+    if (!valid) {
+      throw new Error(
+        `Step ${index + 1} of the workflow file needs a stepNumber and an action with method and endpoint`
+      );
+    }
+  });
+
+  const inputs = parseJsonField<WorkflowInput[]>(source.inputs);
+  const retry = parseJsonField<RetryPolicy>(source.retry ?? source.retryPolicy);
+  return {
+    version: typeof source.version === 'number' ? source.version : WORKFLOW_FILE_VERSION,
+    name: typeof source.name === 'string' && source.name ? source.name : fallbackName,
+    ...(typeof source.description === 'string' && { description: source.description }),
+    ...(typeof source.baseUrl === 'string' && source.baseUrl && { baseUrl: source.baseUrl }),
+    steps: (steps as WorkflowStep[]).map(step => ({
+      ...step,
+      description: step.description || `Step ${step.stepNumber}`,
+    })),
+    ...(Array.isArray(inputs) && inputs.length > 0 && { inputs }),
+    ...(isObject(retry) && { retry }),
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Workflow template inputs
+ * Templates declare input variables that their steps reference as {{input.name}}. Values are
+ * checked against the declarations before a run, then filled into the steps:
+ * - A string that is just "{{input.name}}" becomes the value itself (numbers stay numbers)
+ * - References inside longer strings are replaced by the value as text
+ * - References in `when` conditions are replaced by the value as a literal
+ */
+
+import { WorkflowInput, WorkflowInputType, WorkflowStep } from '@/lib/types';
+
+const INPUT_REFERENCE = /\{\{\s*input\.([A-Za-z_]\w*)\s*\}\}/g;
+const WHOLE_INPUT_REFERENCE = /^\{\{\s*input\.([A-Za-z_]\w*)\s*\}\}$/;
+
+export const INPUT_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+export function inputReference(name: string): string {
+  return `{{input.${name}}}`;
+}
+
+/**
+ * Names of the inputs referenced anywhere in the steps
+ */
+export function getInputReferences(steps: WorkflowStep[]): Set<string> {
+  const names = new Set<string>();
+  for (const match of JSON.stringify(steps).matchAll(INPUT_REFERENCE)) {
+    names.add(match[1]);
+  }
+  return names;
+}
+
+/**
+ * A value given for an input, converted to its declared type where that is unambiguous
+ * (form fields and query strings send everything as text)
+ */
+export function coerceInputValue(
+  type: WorkflowInputType,
+  value: unknown
+): { value: unknown } | { error: string } {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? { value } : { error: 'Expected a string' };
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && isFinite(number)
+        ? { value: number }
+        : { error: 'Expected a number' };
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return { value };
+      }
+      return value === 'true' || value === 'false'
+        ? { value: value === 'true' }
+        : { error: 'Expected true or false' };
+    case 'object':
+    case 'array': {
+      let parsed = value;
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return { error: `Expected ${type === 'array' ? 'a JSON array' : 'a JSON object'}` };
+        }
+      }
+      if (type === 'array') {
+        return Array.isArray(parsed) ? { value: parsed } : { error: 'Expected a JSON array' };
+      }
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+        ? { value: parsed }
+        : { error: 'Expected a JSON object' };
+    }
+  }
+}
+
+/**
+ * Check the given values against the declared inputs; defaults fill the missing ones
+ * Errors are keyed by input name, like route validation errors
+ */
+export function resolveInputValues(
+  inputs: WorkflowInput[],
+  values: Record<string, unknown> = {}
+): { values: Record<string, unknown>; errors: Record<string, string[]> } {
+  const resolved: Record<string, unknown> = {};
+  const errors: Record<string, string[]> = {};
+  const declared = new Set(inputs.map(input => input.name));
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      errors[name] = ['Not an input of this workflow'];
+    }
+  }
+
+  for (const input of inputs) {
+    const given = values[input.name];
+    if (given === undefined || given === null || given === '') {
+      if (input.default === undefined) {
+        errors[input.name] = ['Required'];
+      } else {
+        resolved[input.name] = input.default;
+      }
+      continue;
+    }
+
+    const coerced = coerceInputValue(input.type, given);
+    if ('error' in coerced) {
+      errors[input.name] = [coerced.error];
+    } else {
+      resolved[input.name] = coerced.value;
+    }
+  }
+
+  return { values: resolved, errors };
+}
+
+export function formatInputErrors(errors: Record<string, string[]>): string {
+  return Object.entries(errors)
+    .map(([name, messages]) => `${name}: ${messages.join(', ')}`)
+    .join('; ');
+}
+
+function formatInputValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function fillInputs(value: unknown, values: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_INPUT_REFERENCE);
+    if (whole && whole[1] in values) {
+      return values[whole[1]];
+    }
+    return value.replace(INPUT_REFERENCE, (reference, name: string) =>
+      name in values ? formatInputValue(values[name]) : reference
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillInputs(item, values));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillInputs(item, values)])
+    );
+  }
+  return value;
+}
+
+/**
+ * The steps with {{input.name}} references replaced by the values; unknown names are kept
+ */
+export function applyInputs(
+  steps: WorkflowStep[],
+  values: Record<string, unknown>
+): WorkflowStep[] {
+  return steps.map(({ when, ...step }) => {
+    const filled = fillInputs(step, values) as WorkflowStep;
+    if (when === undefined) {
+      return filled;
+    }
+    return {
+      ...filled,
+      when: when.replace(INPUT_REFERENCE, (reference, name: string) =>
+        name in values ? JSON.stringify(values[name]) : reference
+      ),
+    };
+  });
+}
+
+function decodeQueryValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    // Malformed escapes (e.g. %zz) are kept as they were saved
+    return value;
+  }
+}
+
+function setQueryReference(endpoint: string, name: string): { endpoint: string; value?: string } {
+  const queryStart = endpoint.indexOf('?');
+  if (queryStart < 0) {
+    return { endpoint };
+  }
+
+  let value: string | undefined;
+  const pairs = endpoint
+    .slice(queryStart + 1)
+    .split('&')
+    .map(pair => {
+      const separator = pair.indexOf('=');
+      const key = separator >= 0 ? pair.slice(0, separator) : pair;
+      if (key !== name) {
+        return pair;
+      }
+      value = separator >= 0 ? decodeQueryValue(pair.slice(separator + 1)) : '';
+      return `${key}=${inputReference(name)}`;
+    });
+
+  return { endpoint: `${endpoint.slice(0, queryStart)}?${pairs.join('&')}`, value };
+}
+
+/**
+ * Turn saved steps into a template: top-level body fields, declared parameters and query
+ * parameters named like an input are replaced by its {{input.name}} reference, unless they hold
+ * a {{placeholder}} for an earlier step's data. The first value replaced becomes the default of
+ * an input declared without one
+ */
+export function parameterizeSteps(
+  steps: WorkflowStep[],
+  inputs: WorkflowInput[]
+): { steps: WorkflowStep[]; inputs: WorkflowInput[] } {
+  const replaced = new Map<string, unknown>();
+  // Remembers the value and tells whether it can be replaced
+  const replace = (name: string, value: unknown): boolean => {
+    if (typeof value === 'string' && value.includes('{{')) {
+      return false;
+    }
+    if (!replaced.has(name)) {
+      replaced.set(name, value);
+    }
+    return true;
+  };
+
+  const parameterized = steps.map(step => {
+    const action = { ...step.action };
+    for (const { name } of inputs) {
+      if (action.body && name in action.body && replace(name, action.body[name])) {
+        action.body = { ...action.body, [name]: inputReference(name) };
+      }
+      if (
+        action.parameters &&
+        name in action.parameters &&
+        replace(name, action.parameters[name])
+      ) {
+        action.parameters = { ...action.parameters, [name]: inputReference(name) };
+      }
+      const query = setQueryReference(action.endpoint || '', name);
+      if (query.value !== undefined && replace(name, query.value)) {
+        action.endpoint = query.endpoint;
+      }
+    }
+    return { ...step, action };
+  });
+
+  return {
+    steps: parameterized,
+    inputs: inputs.map(input => {
+      if (input.default !== undefined || !replaced.has(input.name)) {
+        return input;
+      }
+      const coerced = coerceInputValue(input.type, replaced.get(input.name));
+      return 'error' in coerced ? input : { ...input, default: coerced.value };
+    }),
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Workflow references in chat
+ * Recognizes messages asking to run an earlier workflow again ("run that workflow again",
+ * "run it again with name=Bob") and turns their key=value pairs into step overrides
+ */
+
+import { StepOverride, WorkflowStep } from '@/lib/types';
+
+// Phrases that only make sense about an earlier run
+const RERUN_PHRASES = [
+  'run it again',
+  'execute it again',
+  'do it again',
+  'run that again',
+  'one more time',
+  're-run',
+  'rerun',
+];
+
+// Phrases naming an earlier workflow; they count when the message also asks to run it
+const WORKFLOW_PHRASES = [
+  'that workflow',
+  'this workflow',
+  'previous workflow',
+  'last workflow',
+  'same workflow',
+];
+
+const RUN_WORDS = /\b(run|execute|repeat|again)\b/;
+
+const PARAMETER_PATTERN = /([A-Za-z_][\w.-]*)\s*=\s*("([^"]*)"|'([^']*)'|[^\s,;]+)/g;
+
+export function isWorkflowReference(message: string): boolean {
+  const lowerMessage = message.toLowerCase();
+  if (RERUN_PHRASES.some(phrase => lowerMessage.includes(phrase))) {
+    return true;
+  }
+  return (
+    WORKFLOW_PHRASES.some(phrase => lowerMessage.includes(phrase)) && RUN_WORDS.test(lowerMessage)
+  );
+}
+
+/**
+ * key=value pairs in a message (values may be quoted to include spaces)
+ */
+export function parseParameterOverrides(message: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const match of message.matchAll(PARAMETER_PATTERN)) {
+    const [, key, raw, doubleQuoted, singleQuoted] = match;
+    values[key] = doubleQuoted ?? singleQuoted ?? raw.replace(/[.!?]+$/, '');
+  }
+  return values;
+}
+
+// Keep numbers and booleans typed like the value they replace
+function coerceLike(existing: unknown, value: string): unknown {
+  if (typeof existing === 'number' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (typeof existing === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+function hasQueryParameter(endpoint: string, name: string): boolean {
+  const query = endpoint.split('?')[1] ?? '';
+  return query.split('&').some(pair => pair.split('=')[0] === name);
+}
+
+/**
+ * Step overrides setting the given values wherever the steps use them: top-level body fields,
+ * declared parameters and query or {path} parameters of the endpoint
+ * Values no step uses are returned as `unused`
+ */
+export function buildParameterOverrides(
+  steps: WorkflowStep[],
+  values: Record<string, string>
+): { overrides: Record<number, StepOverride>; unused: string[] } {
+  const overrides: Record<number, StepOverride> = {};
+  const used = new Set<string>();
+
+  for (const step of steps) {
+    const { body, parameters, endpoint = '' } = step.action;
+    const override: StepOverride = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      if (body && key in body) {
+        override.body = { ...(override.body ?? body), [key]: coerceLike(body[key], value) };
+        used.add(key);
+      } else if (
+        (parameters && key in parameters) ||
+        hasQueryParameter(endpoint, key) ||
+        (endpoint.includes(`{${key}}`) && !endpoint.includes(`{{${key}}}`))
+      ) {
+        override.parameters = {
+          ...override.parameters,
+          [key]: coerceLike(parameters?.[key], value),
+        };
+        used.add(key);
+      }
+    }
+
+    if (override.body || override.parameters) {
+      overrides[step.stepNumber] = override;
+    }
+  }
+
+  return { overrides, unused: Object.keys(values).filter(key => !used.has(key)) };
+}
@@ -0,0 +1,235 @@
+/**
+ * Workflow run reports
+ * Results of headless workflow runs (scripts/run-workflows.ts) as a JSON report and as JUnit XML,
+ * which CI servers show as test results: one test suite per workflow, one test case per step
+ */
+
+import { AssertionResult, WorkflowStep } from '@/lib/types';
+
+export type StepReportStatus = 'passed' | 'failed' | 'skipped' | 'not run';
+
+// What a report needs from an executed step (RequestExecutor's StepResult)
+export interface ReportedStepResult {
+  step: number;
+  success: boolean;
+  skipped?: boolean;
+  httpCode?: number;
+  error?: string;
+  attempts?: number;
+  assertions?: AssertionResult[];
+}
+
+export interface StepReport {
+  step: number;
+  description: string;
+  method: string;
+  endpoint: string;
+  status: StepReportStatus;
+  httpCode?: number;
+  durationMs?: number;
+  attempts?: number;
+  error?: string;
+  assertions?: AssertionResult[];
+}
+
+export interface WorkflowReport {
+  name: string;
+  // Workflow ID or file the workflow was loaded from
+  source: string;
+  success: boolean;
+  startedAt: string;
+  durationMs: number;
+  steps: StepReport[];
+  // Why the workflow could not run at all (e.g. an unreadable file or missing input)
+  error?: string;
+  cancelled?: boolean;
+}
+
+export interface RunReport {
+  success: boolean;
+  totals: { workflows: number; failedWorkflows: number; steps: number } & Record<
+    StepReportStatus,
+    number
+  >;
+  workflows: WorkflowReport[];
+}
+
+export interface WorkflowReportInput {
+  name: string;
+  source: string;
+  steps: WorkflowStep[];
+  results: ReportedStepResult[];
+  startedAt: Date;
+  durationMs: number;
+  // Time each step took, by step number
+  stepDurations?: Record<number, number>;
+  error?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Report of one workflow run; steps that never started (after a failure or cancellation) are
+ * listed as "not run"
+ */
+export function buildWorkflowReport(input: WorkflowReportInput): WorkflowReport {
+  const steps = input.steps.map((step): StepReport => {
+    const result = input.results.find(candidate => candidate.step === step.stepNumber);
+    const status: StepReportStatus = !result
+      ? 'not run'
+      : result.skipped
+        ? 'skipped'
+        : result.success
+          ? 'passed'
+          : 'failed';
+    return {
+      step: step.stepNumber,
+      description: step.description,
+      method: step.action.method.toUpperCase(),
+      endpoint: step.action.endpoint,
+      status,
+      ...(result?.httpCode && { httpCode: result.httpCode }),
+      ...(input.stepDurations?.[step.stepNumber] !== undefined && {
+        durationMs: input.stepDurations[step.stepNumber],
+      }),
+      ...(result?.attempts && result.attempts > 1 && { attempts: result.attempts }),
+      ...(result?.error && { error: result.error }),
+      ...(result?.assertions && { assertions: result.assertions }),
+    };
+  });
+
+  return {
+    name: input.name,
+    source: input.source,
+    success: !input.error && !input.cancelled && steps.every(step => step.status !== 'failed'),
+    startedAt: input.startedAt.toISOString(),
+    durationMs: input.durationMs,
+    steps,
+    ...(input.error && { error: input.error }),
+    ...(input.cancelled && { cancelled: true }),
+  };
+}
+
+/**
+ * Totals over every workflow of a run
+ */
+export function buildRunReport(workflows: WorkflowReport[]): RunReport {
+  const steps = workflows.flatMap(workflow => workflow.steps);
+  const count = (status: StepReportStatus) => steps.filter(step => step.status === status).length;
+  const failedWorkflows = workflows.filter(workflow => !workflow.success).length;
+  return {
+    success: failedWorkflows === 0,
+    totals: {
+      workflows: workflows.length,
+      failedWorkflows,
+      steps: steps.length,
+      passed: count('passed'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      'not run': count('not run'),
+    },
+    workflows,
+  };
+}
+
+// Control characters XML 1.0 does not allow are dropped
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function seconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+// JUnit counts; a workflow that could not run is one errored test
+function suiteCounts(workflow: WorkflowReport) {
+  if (workflow.error) {
+    return { tests: 1, failures: 0, errors: 1, skipped: 0 };
+  }
+  return {
+    tests: workflow.steps.length,
+    failures: workflow.steps.filter(step => step.status === 'failed').length,
+    errors: 0,
+    skipped: workflow.steps.filter(step => step.status === 'skipped' || step.status === 'not run')
+      .length,
+  };
+}
+
+function testCase(workflow: WorkflowReport, name: string, time: string, body?: string): string {
+  const open = `    <testcase classname="${escapeXml(workflow.name)}" name="${escapeXml(name)}" time="${time}"`;
+  return body ? `${open}>\n      ${body}\n    </testcase>` : `${open}/>`;
+}
+
+function stepCase(workflow: WorkflowReport, step: StepReport): string {
+  const name = `Step ${step.step}: ${step.description} (${step.method} ${step.endpoint})`;
+  const time = seconds(step.durationMs);
+
+  if (step.status === 'passed') {
+    return testCase(workflow, name, time);
+  }
+  if (step.status === 'skipped' || step.status === 'not run') {
+    const message =
+      step.status === 'skipped'
+        ? 'Condition did not hold'
+        : workflow.cancelled
+          ? 'Not run: the run was cancelled'
+          : 'Not run: an earlier step failed';
+    return testCase(workflow, name, time, `<skipped message="${escapeXml(message)}"/>`);
+  }
+
+  const failedAssertions = (step.assertions ?? []).filter(assertion => !assertion.passed);
+  const type = failedAssertions.length > 0 ? 'AssertionError' : 'RequestError';
+  const details = [
+    step.httpCode && `HTTP ${step.httpCode}`,
+    step.attempts && `${step.attempts} attempts`,
+    ...failedAssertions.map(assertion => `Failed: ${assertion.message}`),
+  ].filter(Boolean);
+  return testCase(
+    workflow,
+    name,
+    time,
+    `<failure message="${escapeXml(step.error || 'Step failed')}" type="${type}">${escapeXml(details.join('\n'))}</failure>`
+  );
+}
+
+/**
+ * JUnit XML for a run: one test suite per workflow and one test case per step
+ */
+export function toJUnitXml(report: RunReport): string {
+  const totals = { tests: 0, failures: 0, errors: 0, skipped: 0 };
+  const lines = report.workflows.flatMap(workflow => {
+    const counts = suiteCounts(workflow);
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += counts[key];
+    }
+
+    const cases = workflow.error
+      ? [
+          testCase(
+            workflow,
+            'Run workflow',
+            seconds(0),
+            `<error message="${escapeXml(workflow.error)}" type="WorkflowError"/>`
+          ),
+        ]
+      : workflow.steps.map(step => stepCase(workflow, step));
+    return [
+      `  <testsuite name="${escapeXml(workflow.name)}" tests="${counts.tests}" failures="${counts.failures}" errors="${counts.errors}" skipped="${counts.skipped}" time="${seconds(workflow.durationMs)}" timestamp="${workflow.startedAt}">`,
+      ...cases,
+      '  </testsuite>',
+    ];
+  });
+  const time = report.workflows.reduce((sum, workflow) => sum + workflow.durationMs, 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="swaggbot" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" time="${seconds(time)}">`,
+    ...lines,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -10,9 +10,26 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { sessionService } from '../lib/services/session.js';
+import { sessionFileService } from '../lib/services/session-file.js';
 import { chatService } from '../lib/services/chat.js';
 import { workflowService } from '../lib/services/workflow.js';
-import { executeCurl } from '../lib/utils/curl.js';
+import { scheduleService, ScheduleWithStatus } from '../lib/services/schedule.js';
+import { oauthService } from '../lib/services/oauth.js';
+import { describeAuthConfig, getSecuritySchemes } from '../lib/utils/auth.js';
+import { resolveOperationParameters } from '../lib/utils/openapi-refs.js';
+import { formatDryRunRequests, previewRequest } from '../lib/utils/dry-run.js';
+import { buildRequestBody, getRequestBodyTypes } from '../lib/utils/request-body.js';
+import { formatInputErrors, resolveInputValues } from '../lib/utils/workflow-inputs.js';
+import { validateCron } from '../lib/utils/cron.js';
+import { sortResponseHeaders, summarizeResponseMeta } from '../lib/utils/response-meta.js';
+import {
+  AuthConfig,
+  HttpRequest,
+  OAuth2Flow,
+  ResponseMeta,
+  SwaggerDoc as OpenApiDoc,
+} from '../lib/types/index.js';
+import { Session, Workflow } from '../lib/db/schema.js';
 
 // Error types for structured error handling
 interface MCPError {
@@ -45,7 +62,7 @@ const errorToText = (error: MCPError): string => {
 // Swagger/OpenAPI types
 interface SwaggerParameter {
   name: string;
-  in: 'path' | 'query' | 'header' | 'body';
+  in: 'path' | 'query' | 'header' | 'body' | 'formData';
   required?: boolean;
   type?: string;
   schema?: {
@@ -62,15 +79,16 @@ interface SwaggerOperation {
   description?: string;
   parameters?: SwaggerParameter[];
   requestBody?: {
-    content?: {
-      'application/json'?: {
+    content?: Record<
+      string,
+      {
         schema?: {
           type?: string;
           properties?: Record<string, unknown>;
           required?: string[];
         };
-      };
-    };
+      }
+    >;
   };
 }
 
@@ -91,6 +109,8 @@ interface EndpointInfo {
   description: string;
   parameters: SwaggerParameter[];
   hasRequestBody: boolean;
+  // Media types accepted for the body (requestBody.content, or Swagger 2 consumes)
+  requestContentTypes: string[];
 }
 
 // Helper function to parse swagger and extract endpoints
@@ -122,9 +142,14 @@ function parseSwaggerEndpoints(swaggerDoc: SwaggerDoc): EndpointInfo[] {
       }));
       params.push(...pathParams);
 
-      // Add operation parameters
-      if (operation.parameters) {
-        for (const param of operation.parameters) {
+      // Add operation parameters (inherited path-level and $ref parameters resolved)
+      const declaredParams = resolveOperationParameters(
+        swaggerDoc as unknown as OpenApiDoc,
+        pathItem as unknown as Record<string, unknown>,
+        operation as unknown as Record<string, unknown>
+      ) as unknown as SwaggerParameter[];
+      if (declaredParams.length > 0) {
+        for (const param of declaredParams) {
           // Skip if already added as path param
           if (params.some(p => p.name === param.name && p.in === 'path')) {
             continue;
@@ -133,8 +158,13 @@ function parseSwaggerEndpoints(swaggerDoc: SwaggerDoc): EndpointInfo[] {
         }
       }
 
-      // Check for request body (OpenAPI 3.0+)
-      const hasRequestBody = !!operation.requestBody;
+      // Request body media types (OpenAPI 3 requestBody, Swagger 2 body or formData parameters)
+      const requestContentTypes = getRequestBodyTypes(
+        swaggerDoc as unknown as OpenApiDoc,
+        method,
+        path
+      ).map(type => type.contentType);
+      const hasRequestBody = !!operation.requestBody || requestContentTypes.length > 0;
 
       endpoints.push({
         path,
@@ -143,6 +173,7 @@ function parseSwaggerEndpoints(swaggerDoc: SwaggerDoc): EndpointInfo[] {
         description: operation.description || '',
         parameters: params,
         hasRequestBody,
+        requestContentTypes,
       });
     }
   }
@@ -172,7 +203,7 @@ function formatEndpointList(endpoints: EndpointInfo[]): string {
     }
 
     if (endpoint.hasRequestBody) {
-      result += `   Request body: JSON object\n`;
+      result += `   Request body: ${endpoint.requestContentTypes.join(', ') || 'JSON object'}\n`;
     }
 
     result += '\n';
@@ -185,12 +216,14 @@ function formatEndpointList(endpoints: EndpointInfo[]): string {
 function validateEndpointParameters(
   endpoint: EndpointInfo,
   parameters: Record<string, unknown>,
-  body?: Record<string, unknown>
+  body?: Record<string, unknown>,
+  bodyFile?: string
 ): { valid: boolean; error?: string } {
   const missingParams: string[] = [];
 
   for (const param of endpoint.parameters) {
-    if (param.required && param.in !== 'body') {
+    // Body and form fields are sent in the body
+    if (param.required && param.in !== 'body' && param.in !== 'formData') {
       const value = parameters[param.name];
       if (value === undefined || value === null || value === '') {
         missingParams.push(param.name);
@@ -198,10 +231,11 @@ function validateEndpointParameters(
     }
   }
 
-  if (endpoint.hasRequestBody && !body) {
+  if (endpoint.hasRequestBody && !body && !bodyFile) {
     return {
       valid: false,
-      error: 'This endpoint requires a request body. Please provide the body parameter.',
+      error:
+        'This endpoint requires a request body. Please provide the body (or bodyFile) parameter.',
     };
   }
 
@@ -215,13 +249,15 @@ function validateEndpointParameters(
   return { valid: true };
 }
 
-// Helper function to build and execute endpoint curl command
-async function executeEndpoint(
-  session: { baseUrl: string | null; authToken: string | null },
+// Helper function to build an endpoint request (without auth); throws when the body cannot be
+// encoded as a media type the endpoint accepts
+function buildEndpointRequest(
+  session: Session,
   endpoint: EndpointInfo,
   parameters: Record<string, unknown>,
-  body?: Record<string, unknown>
-): Promise<{ success: boolean; response?: unknown; error?: string; httpCode?: number }> {
+  body?: Record<string, unknown>,
+  options: { contentType?: string; bodyFile?: string } = {}
+): HttpRequest {
   // Build URL with path parameters
   let url = endpoint.path;
   for (const [key, value] of Object.entries(parameters)) {
@@ -251,34 +287,90 @@ async function executeEndpoint(
     fullUrl += `?${queryString}`;
   }
 
-  // Build curl command
-  let curl = `curl -X ${endpoint.method} '${fullUrl}'`;
-  curl += ` -H 'Content-Type: application/json'`;
-
-  // Add auth header if session has auth token
-  if (session.authToken) {
-    const authHeader = session.authToken.startsWith('Bearer ')
-      ? session.authToken
-      : `Bearer ${session.authToken}`;
-    curl += ` -H 'Authorization: ${authHeader}'`;
+  const request: HttpRequest = { method: endpoint.method, url: fullUrl, headers: {} };
+
+  // Encode the body as a media type the endpoint accepts; "@name" values and bodyFile
+  // reference files uploaded into the session
+  const encoded = buildRequestBody(
+    getRequestBodyTypes(
+      JSON.parse(session.swaggerDoc) as OpenApiDoc,
+      endpoint.method,
+      endpoint.path
+    ),
+    { body, bodyFile: options.bodyFile, contentType: options.contentType }
+  );
+  if (encoded) {
+    Object.assign(request, encoded);
   }
 
-  // Add body if present
-  if (body && Object.keys(body).length > 0) {
-    curl += ` -d '${JSON.stringify(body)}'`;
+  return request;
+}
+
+// Helper function to build and execute an endpoint request
+async function executeEndpoint(
+  session: Session,
+  endpoint: EndpointInfo,
+  parameters: Record<string, unknown>,
+  body?: Record<string, unknown>,
+  options: { contentType?: string; bodyFile?: string } = {}
+): Promise<{
+  success: boolean;
+  response?: unknown;
+  error?: string;
+  httpCode?: number;
+  meta?: ResponseMeta;
+}> {
+  let request: HttpRequest;
+  try {
+    request = buildEndpointRequest(session, endpoint, parameters, body, options);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid request body',
+    };
   }
 
-  // Execute curl
-  const result = await executeCurl(curl);
+  // Apply the session's auth scheme and execute (OAuth2 tokens are renewed on 401)
+  const { result } = await oauthService.executeWithAuth(session, request);
 
   return {
     success: result.success,
     response: result.response,
     error: result.stderr || undefined,
     httpCode: result.httpCode,
+    meta: result.meta,
   };
 }
 
+// Status, timing, size and headers of an executed request as tool output
+function formatResponseDetails(httpCode: number | undefined, meta: ResponseMeta): string {
+  const headers = sortResponseHeaders(meta.headers)
+    .map(([name, value]) => `${name}: ${value.replace(/\n/g, `\n${name}: `)}`)
+    .join('\n');
+  return `Response: ${summarizeResponseMeta(meta, httpCode)}\n\nHeaders:\n${headers}`;
+}
+
+// One schedule as a line of tool output, with its next run and the result of its last one
+function formatSchedule(schedule: ScheduleWithStatus): string {
+  const status =
+    schedule.lastStatus === 'failed' ? '❌' : schedule.lastStatus === 'completed' ? '✅' : '⏳';
+  const next = !schedule.enabled
+    ? 'paused'
+    : schedule.nextRunAt
+      ? `next run ${schedule.nextRunAt.toISOString()}`
+      : 'never runs';
+  const last = schedule.lastRunAt
+    ? `\n   Last run ${schedule.lastRunAt.toISOString()}: ${schedule.lastStatus ?? 'unknown'}${schedule.lastError ? ` (${schedule.lastError})` : ''}`
+    : '';
+  return `${status} ${schedule.workflowName} — ${schedule.cron} (ID: ${schedule.id}), ${next}${last}`;
+}
+
+// Why a template's inputs can't be used for scheduled runs, or null when they can
+function scheduleInputErrors(workflow: Workflow, inputs?: Record<string, unknown>): string | null {
+  const { errors } = resolveInputValues(workflowService.getInputs(workflow), inputs);
+  return Object.keys(errors).length > 0 ? `Invalid inputs: ${formatInputErrors(errors)}` : null;
+}
+
 // Initialize MCP Server
 const server = new Server(
   {
@@ -300,7 +392,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: 'swaggbot_create_session',
-        description: 'Create a new API session from a Swagger/OpenAPI URL',
+        description:
+          'Create a new API session from a Swagger/OpenAPI URL or raw spec content (JSON or YAML)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -312,8 +405,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'URL to the Swagger/OpenAPI documentation',
             },
+            swaggerContent: {
+              type: 'string',
+              description:
+                'Raw Swagger/OpenAPI document (JSON or YAML), used instead of swaggerUrl',
+            },
+            baseUrl: {
+              type: 'string',
+              description:
+                'Base URL for API requests (required when the spec declares no absolute server URL)',
+            },
           },
-          required: ['name', 'swaggerUrl'],
+          required: ['name'],
         },
       },
       {
@@ -352,6 +455,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Natural language message describing what you want to do',
             },
+            dryRun: {
+              type: 'boolean',
+              description:
+                'Return the requests the message would send (credentials redacted, checked against the spec) without sending anything',
+            },
           },
           required: ['sessionId', 'message'],
         },
@@ -401,10 +509,126 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'ID of the workflow to execute',
             },
+            resume: {
+              type: 'boolean',
+              description:
+                'Continue a failed workflow from its failed step instead of running every step again (steps that succeeded are not repeated)',
+            },
+            dryRun: {
+              type: 'boolean',
+              description:
+                'Return the requests each step would send (credentials redacted, checked against the spec) without sending anything',
+            },
           },
           required: ['workflowId'],
         },
       },
+      {
+        name: 'swaggbot_run_template',
+        description:
+          'Run a workflow template with values for its inputs. swaggbot_list_workflows shows the inputs each template declares; inputs with a default can be left out. Input values are checked before any request is sent.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            workflowId: {
+              type: 'string',
+              description: 'ID of the workflow template to run',
+            },
+            inputs: {
+              type: 'object',
+              description: 'Input values by name (e.g. { "userName": "Bob", "age": 42 })',
+              additionalProperties: true,
+            },
+            dryRun: {
+              type: 'boolean',
+              description:
+                'Return the requests each step would send with these inputs (credentials redacted) without sending anything',
+            },
+          },
+          required: ['workflowId'],
+        },
+      },
+      {
+        name: 'swaggbot_schedule_workflow',
+        description:
+          'Run a saved workflow on a cron schedule (5 fields in UTC, e.g. "0 2 * * *" nightly, or @hourly/@daily/@weekly). Runs are queued by the Swaggbot web server; a run is skipped while the previous one is still going.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            workflowId: {
+              type: 'string',
+              description: 'ID of the workflow to schedule',
+            },
+            cron: {
+              type: 'string',
+              description: 'Cron expression: minute hour day-of-month month day-of-week (UTC)',
+            },
+            inputs: {
+              type: 'object',
+              description: 'Input values for a workflow template, by name',
+              additionalProperties: true,
+            },
+          },
+          required: ['workflowId', 'cron'],
+        },
+      },
+      {
+        name: 'swaggbot_list_schedules',
+        description:
+          'List the workflow schedules of a session with their next run and the result of their last run (failed runs are flagged)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'ID of the session to list schedules for',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'swaggbot_update_schedule',
+        description: 'Change the cron expression or inputs of a schedule, or pause/resume it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scheduleId: {
+              type: 'string',
+              description: 'ID of the schedule to change',
+            },
+            cron: {
+              type: 'string',
+              description: 'New cron expression (UTC)',
+            },
+            enabled: {
+              type: 'boolean',
+              description: 'false pauses the schedule, true resumes it',
+            },
+            inputs: {
+              type: 'object',
+              description: 'New input values for a workflow template, by name',
+              additionalProperties: true,
+            },
+          },
+          required: ['scheduleId'],
+        },
+      },
+      {
+        name: 'swaggbot_delete_schedule',
+        description:
+          'Delete a workflow schedule; runs it already made stay in the workflow history',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scheduleId: {
+              type: 'string',
+              description: 'ID of the schedule to delete',
+            },
+          },
+          required: ['scheduleId'],
+        },
+      },
       {
         name: 'swaggbot_list_endpoints',
         description:
@@ -445,12 +669,60 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             body: {
               type: 'object',
-              description: 'Request body for POST/PUT/PATCH (optional)',
+              description:
+                'Request body for POST/PUT/PATCH (optional). For multipart endpoints, a value "@name" sends the session file uploaded as "name"',
+            },
+            contentType: {
+              type: 'string',
+              description:
+                'Media type to send the body as, one the endpoint accepts (optional, e.g. "application/x-www-form-urlencoded"; defaults to JSON when accepted)',
+            },
+            bodyFile: {
+              type: 'string',
+              description:
+                'Name of a session file to send as the raw request body, for binary uploads (optional)',
+            },
+            dryRun: {
+              type: 'boolean',
+              description:
+                'Return the request that would be sent (credentials redacted, checked against the spec) without sending it',
             },
           },
           required: ['sessionId', 'endpoint', 'method'],
         },
       },
+      {
+        name: 'swaggbot_upload_file',
+        description:
+          'Upload a file into a session so requests can send it: as a multipart field value "@name" or as a raw body with bodyFile in swaggbot_execute_endpoint, or mentioned as @name in swaggbot_chat. Uploading the same name again replaces the file.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'ID of the session to upload the file into',
+            },
+            name: {
+              type: 'string',
+              description: 'File name used to reference the file (e.g., "avatar.png")',
+            },
+            content: {
+              type: 'string',
+              description: 'File contents, base64 encoded unless encoding is "text"',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['base64', 'text'],
+              description: 'Encoding of content (default: base64)',
+            },
+            contentType: {
+              type: 'string',
+              description: 'Media type of the file (e.g., "image/png")',
+            },
+          },
+          required: ['sessionId', 'name', 'content'],
+        },
+      },
       {
         name: 'swaggbot_set_auth_token',
         description:
@@ -471,6 +743,82 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['sessionId', 'token'],
         },
       },
+      {
+        name: 'swaggbot_set_auth_config',
+        description:
+          'Configure how a session authenticates requests: Bearer token, API key (header or query), HTTP Basic, custom header, cookie or OAuth2 (client credentials, password, refresh token). Use schemeName to pick a security scheme declared in the spec. OAuth2 tokens are fetched and renewed automatically.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'ID of the session to configure',
+            },
+            schemeName: {
+              type: 'string',
+              description:
+                'Name of a security scheme from the spec (securitySchemes/securityDefinitions). Overrides type/name/in.',
+            },
+            type: {
+              type: 'string',
+              enum: ['bearer', 'apiKey', 'basic', 'header', 'cookie', 'oauth2'],
+              description: 'Auth scheme type (required when schemeName is not given)',
+            },
+            name: {
+              type: 'string',
+              description: 'Header, query parameter or cookie name (apiKey, header, cookie)',
+            },
+            in: {
+              type: 'string',
+              enum: ['header', 'query'],
+              description: 'Where to send the API key (apiKey only, default: header)',
+            },
+            prefix: {
+              type: 'string',
+              description: 'Optional value prefix for custom headers (e.g., "Token")',
+            },
+            username: {
+              type: 'string',
+              description: 'Username for Basic auth or the OAuth2 password grant',
+            },
+            password: {
+              type: 'string',
+              description: 'Password for Basic auth or the OAuth2 password grant',
+            },
+            flow: {
+              type: 'string',
+              enum: ['clientCredentials', 'password', 'refreshToken'],
+              description: 'OAuth2 grant to use (oauth2 only)',
+            },
+            tokenUrl: {
+              type: 'string',
+              description: 'OAuth2 token endpoint, absolute or relative to the API base URL',
+            },
+            clientId: {
+              type: 'string',
+              description: 'OAuth2 client ID',
+            },
+            clientSecret: {
+              type: 'string',
+              description: 'OAuth2 client secret (stored encrypted)',
+            },
+            scopes: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'OAuth2 scopes to request',
+            },
+            refreshToken: {
+              type: 'string',
+              description: 'OAuth2 refresh token (refreshToken flow)',
+            },
+            credential: {
+              type: 'string',
+              description: 'Token, API key or cookie value to store (optional)',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
     ],
   };
 });
@@ -482,8 +830,20 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
   try {
     switch (name) {
       case 'swaggbot_create_session': {
-        const { name, swaggerUrl } = args as { name: string; swaggerUrl: string };
-        const session = await sessionService.create({ name, swaggerUrl });
+        const { name, swaggerUrl, swaggerContent, swaggerFiles, baseUrl } = args as {
+          name: string;
+          swaggerUrl?: string;
+          swaggerContent?: string;
+          swaggerFiles?: Record<string, string>;
+          baseUrl?: string;
+        };
+        const session = await sessionService.create({
+          name,
+          swaggerUrl,
+          swaggerContent,
+          swaggerFiles,
+          baseUrl,
+        });
         return {
           content: [
             {
@@ -531,8 +891,12 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
       }
 
       case 'swaggbot_chat': {
-        const { sessionId, message } = args as { sessionId: string; message: string };
-        const response = await chatService.processMessage({ sessionId, message });
+        const { sessionId, message, dryRun } = args as {
+          sessionId: string;
+          message: string;
+          dryRun?: boolean;
+        };
+        const response = await chatService.processMessage({ sessionId, message, dryRun });
 
         let responseText = '';
 
@@ -543,6 +907,9 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
           }
           if (response.executed) {
             responseText += `✅ Executed successfully\n\n`;
+            if (response.responseMeta) {
+              responseText += `${formatResponseDetails(response.httpCode, response.responseMeta)}\n\n`;
+            }
             if (response.result) {
               responseText += `Result:\n\`\`\`json\n${JSON.stringify(response.result, null, 2)}\n\`\`\``;
             }
@@ -550,7 +917,7 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
           if (response.note) {
             responseText += `\nNote: ${response.note}`;
           }
-        } else if (response.type === 'api_info') {
+        } else if (response.type === 'api_info' || response.type === 'dry_run') {
           responseText = response.explanation;
         } else if (response.type === 'error') {
           responseText = `❌ Error: ${response.message}`;
@@ -648,8 +1015,16 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                   ? '❌'
                   : w.status === 'running'
                     ? '🔄'
-                    : '⏳';
-            return `${status} ${w.name} (ID: ${w.id}) - ${w.status}${w.executionCount > 0 ? ` (${w.executionCount} executions)` : ''}`;
+                    : w.status === 'cancelled'
+                      ? '⏹️'
+                      : '⏳';
+            const inputs = workflowService
+              .getInputs(w)
+              .map(
+                input =>
+                  `${input.name}: ${input.type}${input.default !== undefined ? ` = ${JSON.stringify(input.default)}` : ''}`
+              );
+            return `${status} ${w.name} (ID: ${w.id}) - ${w.status}${w.executionCount > 0 ? ` (${w.executionCount} executions)` : ''}${inputs.length > 0 ? `\n   Template inputs: ${inputs.join(', ')}` : ''}`;
           })
           .join('\n');
 
@@ -664,7 +1039,11 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
       }
 
       case 'swaggbot_execute_workflow': {
-        const { workflowId } = args as { workflowId: string };
+        const { workflowId, resume, dryRun } = args as {
+          workflowId: string;
+          resume?: boolean;
+          dryRun?: boolean;
+        };
 
         // Verify workflow exists
         const workflow = await workflowService.findById(workflowId);
@@ -681,7 +1060,100 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
           };
         }
 
-        const result = await workflowService.execute(workflowId);
+        if (resume && workflow.status !== 'failed') {
+          const error = createError(
+            'WORKFLOW_NOT_RESUMABLE',
+            `Workflow ${workflowId} is ${workflow.status}; only failed workflows can be resumed`,
+            { workflowId, status: workflow.status },
+            'Execute it without resume to run every step again'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        if (dryRun) {
+          const requests = await workflowService.dryRun(workflowId, {
+            mode: resume ? 'resume' : 'full',
+          });
+          return {
+            content: [{ type: 'text', text: formatDryRunRequests(requests) }],
+          };
+        }
+
+        const result = await workflowService.execute(workflowId, {
+          mode: resume ? 'resume' : 'full',
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.summary,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'swaggbot_run_template': {
+        const { workflowId, inputs, dryRun } = args as {
+          workflowId: string;
+          inputs?: Record<string, unknown>;
+          dryRun?: boolean;
+        };
+
+        const workflow = await workflowService.findById(workflowId);
+        if (!workflow) {
+          const error = createError(
+            'WORKFLOW_NOT_FOUND',
+            `Workflow ${workflowId} not found`,
+            { workflowId },
+            'Use swaggbot_list_workflows to see available workflows for a session'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const declared = workflowService.getInputs(workflow);
+        if (declared.length === 0) {
+          const error = createError(
+            'WORKFLOW_NOT_TEMPLATE',
+            `Workflow ${workflowId} declares no inputs`,
+            { workflowId },
+            'Use swaggbot_execute_workflow to run it'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const { errors } = resolveInputValues(declared, inputs);
+        if (Object.keys(errors).length > 0) {
+          const error = createError(
+            'INVALID_INPUTS',
+            `Invalid inputs: ${formatInputErrors(errors)}`,
+            { workflowId, errors },
+            `The template declares: ${declared.map(input => `${input.name} (${input.type}${input.default === undefined ? ', required' : ''})`).join(', ')}`
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        if (dryRun) {
+          const requests = await workflowService.dryRun(workflowId, { inputs });
+          return {
+            content: [{ type: 'text', text: formatDryRunRequests(requests) }],
+          };
+        }
+
+        const result = await workflowService.execute(workflowId, { inputs });
 
         return {
           content: [
@@ -694,6 +1166,161 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
         };
       }
 
+      case 'swaggbot_schedule_workflow': {
+        const { workflowId, cron, inputs } = args as {
+          workflowId: string;
+          cron: string;
+          inputs?: Record<string, unknown>;
+        };
+
+        const workflow = await workflowService.findById(workflowId);
+        if (!workflow) {
+          const error = createError(
+            'WORKFLOW_NOT_FOUND',
+            `Workflow ${workflowId} not found`,
+            { workflowId },
+            'Use swaggbot_list_workflows to see available workflows for a session'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const invalid = validateCron(cron) ?? scheduleInputErrors(workflow, inputs);
+        if (invalid) {
+          const error = createError(
+            'INVALID_SCHEDULE',
+            invalid,
+            { workflowId, cron },
+            'Use 5 fields in UTC, e.g. "0 2 * * *" for 02:00 every night, and give values for the template inputs without a default'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const schedule = await scheduleService.create(workflowId, { cron, inputs });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Scheduled "${schedule.workflowName}" (schedule ID: ${schedule.id})\n\n${formatSchedule(schedule)}`,
+            },
+          ],
+        };
+      }
+
+      case 'swaggbot_list_schedules': {
+        const { sessionId } = args as { sessionId: string };
+
+        const session = await sessionService.findById(sessionId);
+        if (!session) {
+          const error = createError(
+            'SESSION_NOT_FOUND',
+            `Session ${sessionId} not found`,
+            { sessionId },
+            'Use swaggbot_list_sessions to see available sessions'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const schedules = await scheduleService.findBySessionId(sessionId);
+        if (schedules.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No schedules for session "${session.name}". Create one with swaggbot_schedule_workflow.`,
+              },
+            ],
+          };
+        }
+
+        const failing = schedules.filter(schedule => schedule.lastStatus === 'failed').length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Schedules for session "${session.name}"${failing > 0 ? ` (⚠️ ${failing} failing)` : ''}:\n\n${schedules.map(formatSchedule).join('\n')}`,
+            },
+          ],
+        };
+      }
+
+      case 'swaggbot_update_schedule': {
+        const { scheduleId, cron, enabled, inputs } = args as {
+          scheduleId: string;
+          cron?: string;
+          enabled?: boolean;
+          inputs?: Record<string, unknown>;
+        };
+
+        const existing = await scheduleService.findById(scheduleId);
+        if (!existing) {
+          const error = createError(
+            'SCHEDULE_NOT_FOUND',
+            `Schedule ${scheduleId} not found`,
+            { scheduleId },
+            'Use swaggbot_list_schedules to see the schedules of a session'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const workflow = await workflowService.findById(existing.workflowId);
+        const invalid =
+          (cron !== undefined ? validateCron(cron) : null) ??
+          (inputs !== undefined && workflow ? scheduleInputErrors(workflow, inputs) : null);
+        if (invalid) {
+          const error = createError(
+            'INVALID_SCHEDULE',
+            invalid,
+            { scheduleId, cron },
+            'Use 5 fields in UTC, e.g. "0 2 * * *" for 02:00 every night'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const schedule = await scheduleService.update(scheduleId, { cron, enabled, inputs });
+
+        return {
+          content: [{ type: 'text', text: `Schedule updated\n\n${formatSchedule(schedule)}` }],
+        };
+      }
+
+      case 'swaggbot_delete_schedule': {
+        const { scheduleId } = args as { scheduleId: string };
+
+        const deleted = await scheduleService.delete(scheduleId);
+        if (!deleted) {
+          const error = createError(
+            'SCHEDULE_NOT_FOUND',
+            `Schedule ${scheduleId} not found`,
+            { scheduleId },
+            'Use swaggbot_list_schedules to see the schedules of a session'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text: `Schedule ${scheduleId} deleted` }],
+        };
+      }
+
       case 'swaggbot_list_endpoints': {
         const { sessionId } = args as { sessionId: string };
 
@@ -740,13 +1367,17 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
       }
 
       case 'swaggbot_execute_endpoint': {
-        const { sessionId, endpoint, method, parameters, body } = args as {
-          sessionId: string;
-          endpoint: string;
-          method: string;
-          parameters?: Record<string, unknown>;
-          body?: Record<string, unknown>;
-        };
+        const { sessionId, endpoint, method, parameters, body, contentType, bodyFile, dryRun } =
+          args as {
+            sessionId: string;
+            endpoint: string;
+            method: string;
+            parameters?: Record<string, unknown>;
+            body?: Record<string, unknown>;
+            contentType?: string;
+            bodyFile?: string;
+            dryRun?: boolean;
+          };
 
         // Verify session exists
         const session = await sessionService.findById(sessionId);
@@ -785,7 +1416,12 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
         }
 
         // Validate parameters
-        const validation = validateEndpointParameters(targetEndpoint, parameters || {}, body);
+        const validation = validateEndpointParameters(
+          targetEndpoint,
+          parameters || {},
+          body,
+          bodyFile
+        );
 
         if (!validation.valid) {
           const error = createError(
@@ -800,8 +1436,28 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
           };
         }
 
+        if (dryRun) {
+          const preview = previewRequest(
+            buildEndpointRequest(session, targetEndpoint, parameters || {}, body, {
+              contentType,
+              bodyFile,
+            }),
+            {
+              description: `${targetEndpoint.method} ${targetEndpoint.path}`,
+              swaggerDoc: sessionService.getSpecDoc(session),
+              auth: sessionService.getRequestAuth(session),
+            }
+          );
+          return {
+            content: [{ type: 'text', text: formatDryRunRequests([preview]) }],
+          };
+        }
+
         // Execute the endpoint
-        const result = await executeEndpoint(session, targetEndpoint, parameters || {}, body);
+        const result = await executeEndpoint(session, targetEndpoint, parameters || {}, body, {
+          contentType,
+          bodyFile,
+        });
 
         if (!result.success) {
           let suggestion = 'Check that all parameters are correct.';
@@ -817,22 +1473,75 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
           const error = createError(
             'EXECUTION_ERROR',
             result.error || `Request failed with HTTP ${result.httpCode}`,
-            { endpoint, method, httpCode: result.httpCode },
+            {
+              endpoint,
+              method,
+              httpCode: result.httpCode,
+              ...(result.response !== undefined && { response: result.response }),
+            },
             suggestion
           );
           return {
-            content: [{ type: 'text', text: errorToText(error) }],
+            content: [
+              { type: 'text', text: errorToText(error) },
+              ...(result.meta
+                ? [{ type: 'text', text: formatResponseDetails(result.httpCode, result.meta) }]
+                : []),
+            ],
             isError: true,
           };
         }
 
-        // Return raw JSON response
+        // Return raw JSON response, followed by the response details
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(result.response, null, 2),
             },
+            ...(result.meta
+              ? [{ type: 'text', text: formatResponseDetails(result.httpCode, result.meta) }]
+              : []),
+          ],
+        };
+      }
+
+      case 'swaggbot_upload_file': {
+        const { sessionId, name, content, encoding, contentType } = args as {
+          sessionId: string;
+          name: string;
+          content: string;
+          encoding?: 'base64' | 'text';
+          contentType?: string;
+        };
+
+        // Verify session exists
+        const session = await sessionService.findById(sessionId);
+        if (!session) {
+          const error = createError(
+            'SESSION_NOT_FOUND',
+            `Session ${sessionId} not found`,
+            { sessionId },
+            'Use swaggbot_list_sessions to see available sessions'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        const data =
+          encoding === 'text'
+            ? new TextEncoder().encode(content)
+            : new Uint8Array(Buffer.from(content, 'base64'));
+        const file = await sessionFileService.upload(sessionId, { name, contentType, data });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Uploaded "${file.name}" (${file.contentType}, ${file.size} bytes) to session "${session.name}".\n\nReference it as "@${file.name}" in multipart body fields, or pass bodyFile: "${file.name}" to send it as the raw body.`,
+            },
           ],
         };
       }
@@ -865,7 +1574,141 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
           content: [
             {
               type: 'text',
-              text: `✅ Authentication token set successfully for session "${session.name}".\n\nSubsequent API calls will now include the Authorization header.`,
+              text: `✅ Authentication token set successfully for session "${session.name}".\n\nSubsequent API calls will now be authenticated.`,
+            },
+          ],
+        };
+      }
+
+      case 'swaggbot_set_auth_config': {
+        const { sessionId, schemeName, credential, ...options } = args as {
+          sessionId: string;
+          schemeName?: string;
+          type?: AuthConfig['type'];
+          name?: string;
+          in?: 'header' | 'query';
+          prefix?: string;
+          username?: string;
+          password?: string;
+          flow?: OAuth2Flow;
+          tokenUrl?: string;
+          clientId?: string;
+          clientSecret?: string;
+          scopes?: string[];
+          refreshToken?: string;
+          credential?: string;
+        };
+
+        const session = await sessionService.findById(sessionId);
+        if (!session) {
+          const error = createError(
+            'SESSION_NOT_FOUND',
+            `Session ${sessionId} not found`,
+            { sessionId },
+            'Use swaggbot_list_sessions to see available sessions'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        let config: AuthConfig | null = null;
+        if (schemeName) {
+          const schemes = getSecuritySchemes(
+            JSON.parse(session.swaggerDoc) as Parameters<typeof getSecuritySchemes>[0]
+          );
+          const scheme = schemes.find(s => s.name === schemeName);
+          if (!scheme) {
+            const error = createError(
+              'VALIDATION_ERROR',
+              `Security scheme "${schemeName}" not found in the spec`,
+              { available: schemes.map(s => s.name) },
+              schemes.length > 0
+                ? `Available schemes: ${schemes.map(s => s.name).join(', ')}`
+                : 'The spec declares no security schemes; pass type instead'
+            );
+            return {
+              content: [{ type: 'text', text: errorToText(error) }],
+              isError: true,
+            };
+          }
+          config = scheme.config;
+          if (config.type === 'basic') {
+            config = { ...config, username: options.username, password: options.password };
+          } else if (config.type === 'oauth2') {
+            config = {
+              ...config,
+              flow: options.flow || config.flow,
+              clientId: options.clientId,
+              clientSecret: options.clientSecret,
+              username: options.username,
+              password: options.password,
+              refreshToken: options.refreshToken,
+              scopes: options.scopes || config.scopes,
+            };
+          }
+        } else {
+          switch (options.type) {
+            case 'bearer':
+              config = { type: 'bearer' };
+              break;
+            case 'basic':
+              config = { type: 'basic', username: options.username, password: options.password };
+              break;
+            case 'apiKey':
+            case 'header':
+            case 'cookie':
+              if (options.name) {
+                config =
+                  options.type === 'apiKey'
+                    ? { type: 'apiKey', in: options.in || 'header', name: options.name }
+                    : options.type === 'header'
+                      ? { type: 'header', name: options.name, prefix: options.prefix }
+                      : { type: 'cookie', name: options.name };
+              }
+              break;
+            case 'oauth2':
+              if (options.tokenUrl) {
+                config = {
+                  type: 'oauth2',
+                  flow: options.flow || 'clientCredentials',
+                  tokenUrl: options.tokenUrl,
+                  clientId: options.clientId,
+                  clientSecret: options.clientSecret,
+                  username: options.username,
+                  password: options.password,
+                  refreshToken: options.refreshToken,
+                  scopes: options.scopes,
+                };
+              }
+              break;
+          }
+        }
+
+        if (!config) {
+          const error = createError(
+            'VALIDATION_ERROR',
+            'Invalid auth configuration',
+            { type: options.type },
+            'Provide schemeName, or type plus name (apiKey/header/cookie) or tokenUrl (oauth2)'
+          );
+          return {
+            content: [{ type: 'text', text: errorToText(error) }],
+            isError: true,
+          };
+        }
+
+        await sessionService.updateAuthConfig(sessionId, config);
+        if (credential !== undefined) {
+          await sessionService.updateAuthToken(sessionId, credential || null);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Authentication for session "${session.name}" now uses: ${describeAuthConfig(config)}.${credential ? '\n\nThe credential has been saved.' : ''}`,
             },
           ],
         };
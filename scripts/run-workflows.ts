@@ -0,0 +1,408 @@
+/**
+ * Headless workflow runner for CI
+ * Runs saved workflows (by ID, from the database) or exported workflow files against an API
+ * without the web UI or an LLM, straight through RequestExecutor. Progress goes to stdout and
+ * results can be written as JUnit XML and JSON reports.
+ *
+ *   tsx scripts/run-workflows.ts <workflow ID or file>... [options]
+ *
+ * Exits with 0 when every workflow passed, 1 when one failed and 2 on usage errors
+ */
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, dirname } from 'path';
+import { parseArgs } from 'util';
+
+import type {
+  ExecutionResult,
+  RequestContext,
+  StepResult,
+} from '../lib/services/request-executor.js';
+import type { SessionAuth } from '../lib/utils/auth.js';
+import type { WorkflowFile } from '../lib/utils/workflow-file.js';
+import type { WorkflowReport } from '../lib/utils/workflow-report.js';
+import type { SwaggerDoc, WorkflowStep } from '../lib/types/index.js';
+
+// App logs would drown the progress output; set LOG_LEVEL to see them
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+const USAGE = `Usage: tsx scripts/run-workflows.ts <workflow ID or file>... [options]
+
+Runs saved workflows (by ID, from DATABASE_URL) or workflow files and reports pass/fail.
+
+Options:
+  --base-url <url>        Send requests to this base URL instead of the saved one
+  --spec <file>           OpenAPI spec (JSON or YAML) for workflow files: body media types,
+                          schema assertions and the default base URL
+  --bearer <token>        Authenticate with a bearer token
+  --api-key <name=value>  Send an API key header (--api-key-query for a query parameter)
+  --api-key-query <name=value>
+  --basic <user:password> Authenticate with HTTP basic auth
+  --no-auth               Send no credentials, even when the session has some
+  --input <name=value>    Value for a template input (repeatable)
+  --concurrency <n>       Steps of a workflow running at once
+  --junit <file>          Write a JUnit XML report
+  --json <file>           Write a JSON report
+  --export <file>         Write the saved workflow (one ID) as a workflow file instead of running it
+  -h, --help              Show this help`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+interface Options {
+  baseUrl?: string;
+  spec?: string;
+  auth?: SessionAuth | null;
+  inputs: Record<string, string>;
+  concurrency?: number;
+  junit?: string;
+  json?: string;
+  export?: string;
+}
+
+// A workflow ready to run: its steps and where the requests go
+interface LoadedWorkflow {
+  name: string;
+  source: string;
+  steps: WorkflowStep[];
+  inputs: NonNullable<WorkflowFile['inputs']>;
+  context: RequestContext;
+  retry?: WorkflowFile['retry'];
+}
+
+function splitPair(value: string, separator: string, flag: string): [string, string] {
+  const index = value.indexOf(separator);
+  if (index <= 0) {
+    throw new UsageError(`${flag} expects ${separator === '=' ? 'name=value' : 'user:password'}`);
+  }
+  return [value.slice(0, index), value.slice(index + 1)];
+}
+
+function parseOptions(argv: string[]): { targets: string[]; options: Options } | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'base-url': { type: 'string' },
+      spec: { type: 'string' },
+      bearer: { type: 'string' },
+      'api-key': { type: 'string' },
+      'api-key-query': { type: 'string' },
+      basic: { type: 'string' },
+      'no-auth': { type: 'boolean' },
+      input: { type: 'string', multiple: true },
+      concurrency: { type: 'string' },
+      junit: { type: 'string' },
+      json: { type: 'string' },
+      export: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('Name at least one workflow ID or file');
+  }
+
+  const authFlags = ['bearer', 'api-key', 'api-key-query', 'basic', 'no-auth'] as const;
+  if (authFlags.filter(flag => values[flag] !== undefined).length > 1) {
+    throw new UsageError(`Use only one of ${authFlags.map(flag => `--${flag}`).join(', ')}`);
+  }
+
+  let auth: SessionAuth | null | undefined;
+  if (values['no-auth']) {
+    auth = null;
+  } else if (values.bearer) {
+    auth = { config: { type: 'bearer' }, credential: values.bearer };
+  } else if (values['api-key'] || values['api-key-query']) {
+    const query = !!values['api-key-query'];
+    const flag = query ? '--api-key-query' : '--api-key';
+    const [name, credential] = splitPair(
+      (values['api-key-query'] ?? values['api-key'])!,
+      '=',
+      flag
+    );
+    auth = { config: { type: 'apiKey', in: query ? 'query' : 'header', name }, credential };
+  } else if (values.basic) {
+    const [username, password] = splitPair(values.basic, ':', '--basic');
+    auth = { config: { type: 'basic', username, password } };
+  }
+
+  const concurrency = values.concurrency ? parseInt(values.concurrency, 10) : undefined;
+  if (concurrency !== undefined && !(concurrency >= 1)) {
+    throw new UsageError('--concurrency expects a number of at least 1');
+  }
+  if (values.export && positionals.length !== 1) {
+    throw new UsageError('--export takes exactly one saved workflow ID');
+  }
+
+  return {
+    targets: positionals,
+    options: {
+      baseUrl: values['base-url']?.replace(/\/+$/, ''),
+      spec: values.spec,
+      auth,
+      inputs: Object.fromEntries((values.input ?? []).map(pair => splitPair(pair, '=', '--input'))),
+      concurrency,
+      junit: values.junit,
+      json: values.json,
+      export: values.export,
+    },
+  };
+}
+
+// Targets that exist on disk or look like paths are workflow files, anything else an ID
+async function isWorkflowFile(target: string): Promise<boolean> {
+  try {
+    return (await stat(target)).isFile();
+  } catch {
+    return /[\\/]|\.json$/i.test(target);
+  }
+}
+
+async function loadFromFile(path: string, options: Options): Promise<LoadedWorkflow> {
+  const { parseWorkflowFile } = await import('../lib/utils/workflow-file.js');
+  const { extractBaseUrl, parseSwagger } = await import('../lib/utils/swagger.js');
+
+  const content = await readFile(path, 'utf-8').catch(() => {
+    throw new Error(`Cannot read workflow file ${path}`);
+  });
+  const file = parseWorkflowFile(content, basename(path));
+  const swaggerDoc: SwaggerDoc | undefined = options.spec
+    ? parseSwagger(await readFile(options.spec, 'utf-8'))
+    : undefined;
+  const baseUrl =
+    options.baseUrl ?? file.baseUrl ?? (swaggerDoc ? extractBaseUrl(swaggerDoc) : null);
+  if (!baseUrl) {
+    throw new Error('No base URL: pass --base-url (or a --spec that declares a server)');
+  }
+
+  return {
+    name: file.name,
+    source: path,
+    steps: file.steps,
+    inputs: file.inputs ?? [],
+    retry: file.retry,
+    context: { baseUrl, auth: options.auth, swaggerDoc },
+  };
+}
+
+async function loadFromDatabase(id: string, options: Options): Promise<LoadedWorkflow> {
+  const { workflowService } = await import('../lib/services/workflow.js');
+  const { sessionService } = await import('../lib/services/session.js');
+  const { sessionFileService } = await import('../lib/services/session-file.js');
+  const { oauthService } = await import('../lib/services/oauth.js');
+
+  const workflow = await workflowService.findById(id);
+  if (!workflow) {
+    throw new Error(`No workflow file or saved workflow "${id}"`);
+  }
+  const session = await sessionService.findById(workflow.sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+
+  const baseUrl = options.baseUrl ?? session.baseUrl;
+  if (!baseUrl) {
+    throw new Error("The workflow's session has no base URL: pass --base-url");
+  }
+
+  // Overridden credentials are used as given; the session's are renewed like in the app
+  const overridden = options.auth !== undefined;
+  return {
+    name: workflow.name,
+    source: id,
+    steps: JSON.parse(workflow.steps) as WorkflowStep[],
+    inputs: workflowService.getInputs(workflow),
+    retry: workflow.retryPolicy ? JSON.parse(workflow.retryPolicy) : undefined,
+    context: {
+      baseUrl,
+      auth: overridden ? options.auth : sessionService.getRequestAuth(session),
+      refreshAuth: overridden ? undefined : oauthService.createAuthRefresher(session),
+      swaggerDoc: sessionService.getSpecDoc(session),
+      loadFile: sessionFileService.createLoader(session.id),
+    },
+  };
+}
+
+async function exportWorkflow(id: string, path: string): Promise<void> {
+  const { workflowService } = await import('../lib/services/workflow.js');
+  const { sessionService } = await import('../lib/services/session.js');
+  const { toWorkflowFile } = await import('../lib/utils/workflow-file.js');
+
+  const workflow = await workflowService.findById(id);
+  if (!workflow) {
+    throw new UsageError(`No saved workflow "${id}"`);
+  }
+  const session = await sessionService.findById(workflow.sessionId);
+
+  await writeOutput(
+    path,
+    `${JSON.stringify(toWorkflowFile(workflow, session?.baseUrl), null, 2)}\n`
+  );
+  console.log(`Exported "${workflow.name}" to ${path}`);
+}
+
+async function writeOutput(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content);
+}
+
+function describeResult(result: StepResult): string {
+  const label = result.skipped ? 'SKIP' : result.success ? 'PASS' : 'FAIL';
+  const details = [
+    result.httpCode ? `HTTP ${result.httpCode}` : null,
+    result.meta ? `${result.meta.durationMs} ms` : null,
+    result.attempts && result.attempts > 1 ? `${result.attempts} attempts` : null,
+  ].filter(Boolean);
+  const failedAssertions = (result.assertions ?? []).filter(assertion => !assertion.passed);
+  const lines = [
+    `  ${label} Step ${result.step}: ${result.description}${details.length > 0 ? ` (${details.join(', ')})` : ''}`,
+    ...failedAssertions.map(assertion => `       Failed: ${assertion.message}`),
+  ];
+  if (!result.success && failedAssertions.length === 0 && result.error) {
+    lines.push(`       ${result.error}`);
+  }
+  return lines.join('\n');
+}
+
+async function runWorkflow(
+  target: string,
+  options: Options,
+  signal: AbortSignal
+): Promise<WorkflowReport> {
+  const { RequestExecutor } = await import('../lib/services/request-executor.js');
+  const { buildWorkflowReport } = await import('../lib/utils/workflow-report.js');
+  const { applyInputs, formatInputErrors, resolveInputValues } =
+    await import('../lib/utils/workflow-inputs.js');
+
+  const startedAt = new Date();
+  let workflow: LoadedWorkflow | null = null;
+  try {
+    workflow = (await isWorkflowFile(target))
+      ? await loadFromFile(target, options)
+      : await loadFromDatabase(target, options);
+
+    // Values for inputs other workflows of the run declare are left out
+    const declared = new Set(workflow.inputs.map(input => input.name));
+    const inputs = resolveInputValues(
+      workflow.inputs,
+      Object.fromEntries(Object.entries(options.inputs).filter(([name]) => declared.has(name)))
+    );
+    if (Object.keys(inputs.errors).length > 0) {
+      throw new Error(`Invalid inputs: ${formatInputErrors(inputs.errors)}`);
+    }
+    const steps = applyInputs(workflow.steps, inputs.values);
+
+    console.log(`\n▶ ${workflow.name} (${workflow.source}) → ${workflow.context.baseUrl}`);
+    const stepStarts: Record<number, number> = {};
+    const stepDurations: Record<number, number> = {};
+    const executor = new RequestExecutor(workflow.context, {
+      concurrency: options.concurrency,
+      retry: workflow.retry,
+      signal,
+      onStepStart: step => {
+        stepStarts[step] = Date.now();
+      },
+      onStepRetry: (step, attempt, result, delayMs) => {
+        console.log(
+          `  RETRY Step ${step}: attempt ${attempt} failed (${result.error}), retrying in ${delayMs} ms`
+        );
+      },
+      onStepComplete: (step, result) => {
+        stepDurations[step] = Date.now() - (stepStarts[step] ?? Date.now());
+        console.log(describeResult(result));
+      },
+    });
+
+    const result: ExecutionResult = await executor.executeSteps(steps);
+    const report = buildWorkflowReport({
+      name: workflow.name,
+      source: workflow.source,
+      steps,
+      results: result.steps,
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      stepDurations,
+      cancelled: result.cancelled,
+    });
+    console.log(
+      `${report.success ? '✔ PASSED' : result.cancelled ? '✖ CANCELLED' : '✖ FAILED'}: ${workflow.name}`
+    );
+    return report;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`\n✖ ${workflow?.name ?? target}: ${message}`);
+    return buildWorkflowReport({
+      name: workflow?.name ?? target,
+      source: target,
+      steps: [],
+      results: [],
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      error: message,
+    });
+  }
+}
+
+async function main(): Promise<number> {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!parsed) {
+    console.log(USAGE);
+    return 0;
+  }
+  const { targets, options } = parsed;
+
+  if (options.export) {
+    await exportWorkflow(targets[0], options.export);
+    return 0;
+  }
+
+  // Ctrl+C (or the CI job being stopped) cancels the run; in-flight requests are aborted
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  process.once('SIGINT', cancel);
+  process.once('SIGTERM', cancel);
+
+  const { buildRunReport, toJUnitXml } = await import('../lib/utils/workflow-report.js');
+  const reports: WorkflowReport[] = [];
+  for (const target of targets) {
+    if (controller.signal.aborted) {
+      break;
+    }
+    reports.push(await runWorkflow(target, options, controller.signal));
+  }
+
+  const report = buildRunReport(reports);
+  const { totals } = report;
+  console.log(
+    `\n${totals.workflows - totals.failedWorkflows} of ${totals.workflows} workflows passed · steps: ${totals.passed} passed, ${totals.failed} failed, ${totals.skipped} skipped, ${totals['not run']} not run`
+  );
+
+  if (options.junit) {
+    await writeOutput(options.junit, toJUnitXml(report));
+    console.log(`JUnit report: ${options.junit}`);
+  }
+  if (options.json) {
+    await writeOutput(options.json, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`JSON report: ${options.json}`);
+  }
+
+  return report.success ? 0 : EXIT_FAILED;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof UsageError ? error.message : error);
+    process.exit(error instanceof UsageError ? EXIT_USAGE : EXIT_FAILED);
+  });
@@ -0,0 +1,69 @@
+// @vitest-environment node
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest } from 'next/server';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { POST } from '@/app/api/session/[id]/refresh/route';
+import { sessionService } from '@/lib/services/session';
+import { MAX_SPEC_SIZE } from '@/lib/utils/spec-bundle';
+
+const spec = JSON.stringify({ openapi: '3.0.0', info: { title: 'Pets' }, paths: {} });
+
+function refresh(body: unknown) {
+  return POST(
+    new NextRequest('http://localhost/api/session/session-1/refresh', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: 'session-1' }) }
+  );
+}
+
+describe('POST /api/session/[id]/refresh', () => {
+  let refreshSpec: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(sessionService, 'findById').mockResolvedValue({
+      id: 'session-1',
+      specSource: 'upload',
+    } as any);
+    refreshSpec = vi
+      .spyOn(sessionService, 'refreshSpec')
+      .mockResolvedValue({ session: { id: 'session-1', authConfig: null } } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refresh an uploaded spec with its referenced files', async () => {
+    const swaggerFiles = { 'schemas/pet.yaml': 'Pet:\n  type: object\n' };
+    const response = await refresh({ swaggerContent: spec, swaggerFiles });
+
+    expect(response.status).toBe(200);
+    expect(refreshSpec).toHaveBeenCalledWith('session-1', { swaggerContent: spec, swaggerFiles });
+  });
+
+  it('should reject referenced files without the spec that uses them', async () => {
+    const response = await refresh({ swaggerFiles: { 'schemas/pet.yaml': 'Pet: {}' } });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.details.fields.swaggerFiles).toEqual([
+      'swaggerFiles can only be used with swaggerContent',
+    ]);
+    expect(refreshSpec).not.toHaveBeenCalled();
+  });
+
+  it('should reject a bundle whose files push it over the size limit', async () => {
+    const response = await refresh({
+      swaggerContent: spec,
+      swaggerFiles: { 'schemas/big.yaml': 'x'.repeat(MAX_SPEC_SIZE) },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.details.fields.swaggerFiles).toEqual(['Spec bundle is too large (max 5 MB)']);
+    expect(refreshSpec).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+// @vitest-environment node
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest } from 'next/server';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { POST } from '@/app/api/session/route';
+import { sessionService } from '@/lib/services/session';
+
+const spec = JSON.stringify({ openapi: '3.0.0', info: { title: 'Pets' }, paths: {} });
+
+function upload(fields: Record<string, string>, files: File[]): NextRequest {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  for (const file of files) {
+    form.append('file', file);
+  }
+  return new NextRequest('http://localhost/api/session', { method: 'POST', body: form });
+}
+
+describe('POST /api/session (multipart)', () => {
+  let create: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    create = vi
+      .spyOn(sessionService, 'create')
+      .mockResolvedValue({ id: 'session-1', authConfig: null } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create a session from an uploaded spec file', async () => {
+    const response = await POST(
+      upload({ name: 'Pets', baseUrl: 'https://api.example.com' }, [
+        new File([spec], 'openapi.json'),
+      ])
+    );
+
+    expect(response.status).toBe(201);
+    expect(create).toHaveBeenCalledWith({
+      name: 'Pets',
+      swaggerContent: spec,
+      baseUrl: 'https://api.example.com',
+    });
+  });
+
+  it('should split a multi-file upload into the root spec and its referenced files', async () => {
+    const response = await POST(
+      upload({ name: 'Pets' }, [
+        new File(['Pet:\n  type: object\n'], 'schemas/pet.yaml'),
+        new File([spec], 'openapi.json'),
+      ])
+    );
+
+    expect(response.status).toBe(201);
+    expect(create).toHaveBeenCalledWith({
+      name: 'Pets',
+      swaggerContent: spec,
+      swaggerFiles: { 'schemas/pet.yaml': 'Pet:\n  type: object\n' },
+    });
+  });
+
+  it('should reject uploads without a spec document', async () => {
+    const response = await POST(
+      upload({ name: 'Pets' }, [new File(['a: 1'], 'a.yaml'), new File(['b: 2'], 'b.yaml')])
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details.fields.file).toEqual([
+      'None of the uploaded files is an OpenAPI or Swagger document',
+    ]);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should reject oversized uploads without reading them', async () => {
+    const text = vi.spyOn(Blob.prototype, 'text');
+    const response = await POST(
+      upload({ name: 'Pets' }, [new File([new Uint8Array(5 * 1024 * 1024 + 1)], 'openapi.json')])
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details.fields.file).toEqual([
+      'Spec bundle is too large (max 5 MB)',
+    ]);
+    expect(text).not.toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ChatService } from '@/lib/services/chat';
+import { messageService } from '@/lib/services/message';
+import { oauthService } from '@/lib/services/oauth';
+import { sessionService } from '@/lib/services/session';
+import { sessionFileService } from '@/lib/services/session-file';
+import { workflowService } from '@/lib/services/workflow';
+import { WorkflowStep } from '@/lib/types';
+
+const session = {
+  id: 'session-1',
+  baseUrl: 'http://localhost:4000',
+  swaggerDoc: JSON.stringify({
+    openapi: '3.0.0',
+    info: { title: 'Users', version: '1' },
+    paths: {},
+  }),
+  authToken: null,
+  authConfig: null,
+} as any;
+
+const steps: WorkflowStep[] = [
+  {
+    stepNumber: 1,
+    description: 'Create user',
+    action: { method: 'POST', endpoint: '/users', purpose: '', body: { name: 'Bob' } },
+  },
+];
+
+describe('ChatService', () => {
+  let service: ChatService;
+  let llm: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    service = new ChatService();
+    llm = { planWorkflow: vi.fn().mockResolvedValue(steps) };
+    (service as any).llm = llm;
+    vi.spyOn(sessionService, 'getFormattedSwagger').mockReturnValue('## API');
+    vi.spyOn(sessionService, 'hasAuth').mockReturnValue(false);
+    vi.spyOn(sessionFileService, 'appendToPrompt').mockImplementation(async prompt => prompt);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('workflow dry runs', () => {
+    it('should preview the planned steps without saving a workflow', async () => {
+      const createFromSteps = vi.spyOn(workflowService, 'createFromSteps');
+
+      const response = await (service as any).handleWorkflow(session, 'Create Bob', [], true);
+
+      expect(createFromSteps).not.toHaveBeenCalled();
+      expect(response.type).toBe('dry_run');
+      expect(response.workflowId).toBeUndefined();
+      expect(response.requests.map((request: any) => [request.method, request.url])).toEqual([
+        ['POST', 'http://localhost:4000/users'],
+      ]);
+      expect(response.explanation).toContain('this plan was not saved');
+    });
+  });
+
+  describe('requests that do not match the spec', () => {
+    const invalid = {
+      type: 'curl_command',
+      explanation: 'Create a user',
+      curl: `curl -X POST 'http://localhost:4000/users' -H 'Content-Type: application/json' -d '{"nickname":"Bob"}'`,
+      shouldExecute: true,
+      isAuthEndpoint: false,
+    };
+
+    it('should not send a write that is still invalid after the correction', async () => {
+      llm.generateCurl = vi.fn().mockResolvedValue(invalid);
+      const execute = vi.spyOn(oauthService, 'executeCurlWithAuth');
+
+      const response = await (service as any).handleSingleRequest(session, 'Create user Bob', []);
+
+      expect(llm.generateCurl).toHaveBeenCalledTimes(2);
+      expect(execute).not.toHaveBeenCalled();
+      expect(response).toMatchObject({
+        type: 'curl_command',
+        curl: invalid.curl,
+        shouldExecute: false,
+      });
+      expect(response.specErrors.length).toBeGreaterThan(0);
+      expect(response.explanation).toContain('I did not send this request');
+    });
+
+    it('should not skip the check for a first message that says anyway', async () => {
+      llm.generateCurl = vi.fn().mockResolvedValue(invalid);
+      const execute = vi.spyOn(oauthService, 'executeCurlWithAuth');
+
+      const response = await (service as any).handleSingleRequest(
+        session,
+        'Create user Bob anyway',
+        []
+      );
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(response.shouldExecute).toBe(false);
+    });
+
+    describe('confirmations', () => {
+      let saved: any[];
+
+      const reply = (content: string, metadata: Record<string, unknown>) =>
+        ({ role: 'assistant', content, metadata: JSON.stringify(metadata) }) as any;
+
+      beforeEach(() => {
+        saved = [];
+        vi.spyOn(sessionService, 'findById').mockResolvedValue(session);
+        vi.spyOn(sessionService, 'updateLastAccessed').mockResolvedValue();
+        vi.spyOn(messageService, 'create').mockImplementation(async message => {
+          saved.push(message);
+          return { id: `message-${saved.length}` } as any;
+        });
+        llm.classifyIntent = vi.fn().mockResolvedValue({ type: 'single_request' });
+        llm.generateCurl = vi.fn().mockResolvedValue({
+          ...invalid,
+          curl: `curl -X POST 'http://localhost:4000/users' -d '{"nick":"Robert"}'`,
+        });
+      });
+
+      const confirm = (history: any[]) => {
+        vi.spyOn(messageService, 'getRecentMessages').mockResolvedValue({
+          messages: history,
+        } as any);
+        return service.processMessage({ sessionId: session.id, message: 'Send it anyway' });
+      };
+
+      it('should send exactly the request that was held back', async () => {
+        const execute = vi.spyOn(oauthService, 'executeCurlWithAuth').mockResolvedValue({
+          result: { success: true, httpCode: 201, response: { id: 1 } },
+        } as any);
+
+        const response = await confirm([
+          { role: 'user', content: 'Create user Bob' },
+          reply('I did not send this request', {
+            type: 'curl_command',
+            curl: invalid.curl,
+            specErrors: ['body.nickname is not a property of the request body'],
+          }),
+        ]);
+
+        expect(llm.classifyIntent).not.toHaveBeenCalled();
+        expect(llm.generateCurl).not.toHaveBeenCalled();
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(execute).toHaveBeenCalledWith(session, invalid.curl);
+        expect(response).toMatchObject({ type: 'curl_command', executed: true, httpCode: 201 });
+        expect((response as any).explanation).toContain('may not match the API spec');
+        expect(JSON.parse(saved[1].metadata).specErrors).toBeUndefined();
+      });
+
+      it('should only confirm a request held back in the previous reply', async () => {
+        const execute = vi.spyOn(oauthService, 'executeCurlWithAuth');
+
+        const response = await confirm([
+          reply('I did not send this request', {
+            type: 'curl_command',
+            curl: invalid.curl,
+            specErrors: ['body.nickname is not a property of the request body'],
+          }),
+          { role: 'user', content: 'What endpoints are there?' },
+          reply('There is POST /users', { type: 'api_info' }),
+        ]);
+
+        expect(llm.classifyIntent).toHaveBeenCalled();
+        expect(execute).not.toHaveBeenCalled();
+        expect(response).toMatchObject({ type: 'curl_command', shouldExecute: false });
+        expect(JSON.parse(saved[1].metadata)).toMatchObject({
+          curl: `curl -X POST 'http://localhost:4000/users' -d '{"nick":"Robert"}'`,
+          specErrors: expect.any(Array),
+        });
+      });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unused-vars */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SQLiteSyncDialect } from 'drizzle-orm/sqlite-core';
 
 import { cleanupService, CleanupService } from '@/lib/services/cleanup';
 import { sessions, workflows, messages } from '@/lib/db/schema';
@@ -96,6 +97,17 @@ describe('CleanupService', () => {
       expect(deletedCount).toBe(3);
     });
 
+    it('should keep templates and scheduled workflows', async () => {
+      const where = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) });
+      vi.spyOn(dbModule.db, 'delete').mockReturnValue({ where } as any);
+
+      await service.cleanupWorkflows();
+
+      const { sql } = new SQLiteSyncDialect().sqlToQuery(where.mock.calls[0][0]);
+      expect(sql).toContain('"workflows"."inputs" IS NULL');
+      expect(sql).toContain('NOT IN (SELECT "workflow_schedules"."workflow_id"');
+    });
+
     it('should return 0 when no old workflows to delete', async () => {
       vi.spyOn(dbModule.db, 'delete').mockReturnValue({
         where: vi.fn().mockReturnValue({
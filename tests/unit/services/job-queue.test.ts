@@ -0,0 +1,91 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { JobQueueService, JobDetails, JobEvent } from '@/lib/services/job-queue';
+import * as dbModule from '@/lib/db';
+
+function makeJob(overrides: Partial<JobDetails> = {}): JobDetails {
+  return {
+    id: 'job-1',
+    workflowId: 'workflow-1',
+    status: 'queued',
+    options: {},
+    result: null,
+    error: null,
+    createdAt: new Date(),
+    startedAt: null,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    service = new JobQueueService();
+  });
+
+  describe('cancel', () => {
+    it('should cancel a queued job and tell its subscribers', async () => {
+      const where = vi.fn().mockResolvedValue(undefined);
+      const set = vi.fn().mockReturnValue({ where });
+      vi.spyOn(dbModule.db, 'update').mockReturnValue({ set } as any);
+      vi.spyOn(service, 'findById')
+        .mockResolvedValueOnce(makeJob())
+        .mockResolvedValueOnce(makeJob({ status: 'cancelled' }));
+
+      const events: JobEvent[] = [];
+      service.subscribe('job-1', event => events.push(event));
+
+      const job = await service.cancel('job-1');
+
+      expect(job.status).toBe('cancelled');
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'cancelled' }));
+      expect(events).toEqual([{ type: 'job_finished', jobId: 'job-1', status: 'cancelled' }]);
+    });
+
+    it('should refuse to cancel a finished job', async () => {
+      vi.spyOn(service, 'findById').mockResolvedValue(makeJob({ status: 'completed' }));
+
+      await expect(service.cancel('job-1')).rejects.toThrow(
+        'Only queued or running jobs can be cancelled (status: completed)'
+      );
+    });
+
+    it('should throw when the job does not exist', async () => {
+      vi.spyOn(service, 'findById').mockResolvedValue(null);
+
+      await expect(service.cancel('missing')).rejects.toThrow('Job not found');
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should stop sending events after unsubscribing', async () => {
+      const where = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(dbModule.db, 'update').mockReturnValue({
+        set: vi.fn().mockReturnValue({ where }),
+      } as any);
+      vi.spyOn(service, 'findById').mockResolvedValue(makeJob());
+
+      const listener = vi.fn();
+      const unsubscribe = service.subscribe('job-1', listener);
+      unsubscribe();
+
+      await service.cancel('job-1');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isFinished', () => {
+    it('should treat completed, failed and cancelled jobs as finished', () => {
+      expect(service.isFinished({ status: 'completed' })).toBe(true);
+      expect(service.isFinished({ status: 'failed' })).toBe(true);
+      expect(service.isFinished({ status: 'cancelled' })).toBe(true);
+      expect(service.isFinished({ status: 'queued' })).toBe(false);
+      expect(service.isFinished({ status: 'running' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+// @vitest-environment node
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+
+import { OAuthService } from '@/lib/services/oauth';
+import { RequestExecutor } from '@/lib/services/request-executor';
+import { OAuth2Config } from '@/lib/types';
+import { executeRequest } from '@/lib/utils/http-client';
+
+vi.mock('@/lib/utils/http-client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/utils/http-client')>()),
+  executeRequest: vi.fn(),
+}));
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise(resolve => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => resolve(data));
+  });
+}
+
+describe('OAuthService', () => {
+  let server: Server;
+  let tokenUrl: string;
+  let lastRequest: URLSearchParams;
+
+  beforeAll(async () => {
+    // Local mock authorization server
+    server = createServer(async (req, res) => {
+      lastRequest = new URLSearchParams(await readBody(req));
+      const grantType = lastRequest.get('grant_type');
+      res.setHeader('Content-Type', 'application/json');
+
+      if (lastRequest.get('client_secret') === 'wrong') {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: 'invalid_client', error_description: 'Bad secret' }));
+        return;
+      }
+
+      if (grantType === 'refresh_token' && lastRequest.get('refresh_token') === 'expired') {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'invalid_grant' }));
+        return;
+      }
+
+      res.end(
+        JSON.stringify({
+          access_token: `token-for-${grantType}`,
+          token_type: 'Bearer',
+          expires_in: 3600,
+          refresh_token: 'next-refresh',
+        })
+      );
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    tokenUrl = `http://127.0.0.1:${port}/oauth/token`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const service = new OAuthService();
+
+  describe('requestToken', () => {
+    it('should run the client credentials grant', async () => {
+      const config: OAuth2Config = {
+        type: 'oauth2',
+        flow: 'clientCredentials',
+        tokenUrl,
+        clientId: 'client',
+        clientSecret: 'secret',
+        scopes: ['read', 'write'],
+      };
+
+      const before = Date.now();
+      const result = await service.requestToken(config);
+
+      expect(result.accessToken).toBe('token-for-client_credentials');
+      expect(result.refreshToken).toBe('next-refresh');
+      expect(result.expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+      expect(lastRequest.get('client_id')).toBe('client');
+      expect(lastRequest.get('client_secret')).toBe('secret');
+      expect(lastRequest.get('scope')).toBe('read write');
+    });
+
+    it('should send credentials for the password grant', async () => {
+      const result = await service.requestToken({
+        type: 'oauth2',
+        flow: 'password',
+        tokenUrl,
+        clientId: 'client',
+        username: 'alice',
+        password: 'pw',
+      });
+
+      expect(result.accessToken).toBe('token-for-password');
+      expect(lastRequest.get('username')).toBe('alice');
+      expect(lastRequest.get('password')).toBe('pw');
+    });
+
+    it('should use the refresh token grant when requested', async () => {
+      const result = await service.requestToken(
+        { type: 'oauth2', flow: 'clientCredentials', tokenUrl, refreshToken: 'r1' },
+        'refreshToken'
+      );
+
+      expect(result.accessToken).toBe('token-for-refresh_token');
+      expect(lastRequest.get('refresh_token')).toBe('r1');
+    });
+
+    it('should resolve relative token URLs against the base URL', async () => {
+      const origin = tokenUrl.replace('/oauth/token', '');
+      const result = await service.requestToken(
+        { type: 'oauth2', flow: 'clientCredentials', tokenUrl: '/oauth/token', clientId: 'c' },
+        'clientCredentials',
+        origin
+      );
+
+      expect(result.accessToken).toBe('token-for-client_credentials');
+    });
+
+    it('should surface the error description on failure', async () => {
+      await expect(
+        service.requestToken({
+          type: 'oauth2',
+          flow: 'clientCredentials',
+          tokenUrl,
+          clientId: 'client',
+          clientSecret: 'wrong',
+        })
+      ).rejects.toThrow('OAuth2 token request failed: Bad secret');
+    });
+  });
+});
+
+describe('RequestExecutor auth renewal', () => {
+  const mockedExecuteRequest = vi.mocked(executeRequest);
+  const step = {
+    stepNumber: 1,
+    description: 'List users',
+    action: { endpoint: '/users', method: 'GET', purpose: 'List users' },
+  };
+
+  beforeEach(() => {
+    mockedExecuteRequest.mockReset();
+  });
+
+  it('should renew the token and retry once after a 401', async () => {
+    mockedExecuteRequest
+      .mockResolvedValueOnce({ success: false, stdout: '', stderr: '', exitCode: 0, httpCode: 401 })
+      .mockResolvedValueOnce({
+        success: true,
+        stdout: '[]',
+        stderr: '',
+        exitCode: 0,
+        httpCode: 200,
+        response: [],
+      });
+
+    const refreshAuth = vi.fn().mockResolvedValue({
+      config: { type: 'oauth2', flow: 'clientCredentials', tokenUrl: '/token' },
+      credential: 'new-token',
+    });
+
+    const executor = new RequestExecutor({
+      baseUrl: 'https://api.example.com',
+      auth: {
+        config: { type: 'oauth2', flow: 'clientCredentials', tokenUrl: '/token' },
+        credential: 'old-token',
+      },
+      refreshAuth,
+    });
+
+    const result = await executor.executeSteps([step]);
+
+    expect(result.success).toBe(true);
+    expect(refreshAuth).toHaveBeenCalledTimes(1);
+    expect(mockedExecuteRequest).toHaveBeenCalledTimes(2);
+    expect(mockedExecuteRequest.mock.calls[0][0].headers.Authorization).toBe('Bearer old-token');
+    expect(mockedExecuteRequest.mock.calls[1][0].headers.Authorization).toBe('Bearer new-token');
+  });
+
+  it('should fetch a token before the first request when none is stored', async () => {
+    mockedExecuteRequest.mockResolvedValue({
+      success: true,
+      stdout: '[]',
+      stderr: '',
+      exitCode: 0,
+      httpCode: 200,
+      response: [],
+    });
+
+    const refreshAuth = vi.fn().mockResolvedValue({
+      config: { type: 'oauth2', flow: 'clientCredentials', tokenUrl: '/token' },
+      credential: 'fresh-token',
+    });
+
+    const executor = new RequestExecutor({
+      baseUrl: 'https://api.example.com',
+      auth: { config: { type: 'oauth2', flow: 'clientCredentials', tokenUrl: '/token' } },
+      refreshAuth,
+    });
+
+    await executor.executeSteps([step]);
+
+    expect(refreshAuth).toHaveBeenCalledTimes(1);
+    expect(mockedExecuteRequest.mock.calls[0][0].headers.Authorization).toBe('Bearer fresh-token');
+  });
+
+  it('should not retry when no refresher is configured', async () => {
+    mockedExecuteRequest.mockResolvedValue({
+      success: false,
+      stdout: '',
+      stderr: '',
+      exitCode: 0,
+      httpCode: 401,
+    });
+
+    const executor = new RequestExecutor({
+      baseUrl: 'https://api.example.com',
+      auth: { config: { type: 'bearer' }, credential: 'static' },
+    });
+
+    const result = await executor.executeSteps([step]);
+
+    expect(result.success).toBe(false);
+    expect(mockedExecuteRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,473 @@
+// @vitest-environment node
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+
+import { RequestExecutor } from '@/lib/services/request-executor';
+import { WorkflowStep } from '@/lib/types';
+import { parseCsv, parseXml } from '@/lib/utils/response-body';
+
+describe('RequestExecutor', () => {
+  const executor = new RequestExecutor({ baseUrl: 'http://localhost' });
+
+  describe('extractFieldFromResponse', () => {
+    it('should accept bracket and dot index notation', () => {
+      const response = { items: [{ id: 5, tags: ['a', 'b'] }] };
+      expect(executor.extractFieldFromResponse(response, 'items[0].id')).toBe(5);
+      expect(executor.extractFieldFromResponse(response, 'items.0.tags[1]')).toBe('b');
+      expect(executor.extractFieldFromResponse([{ id: 9 }], '[0].id')).toBe(9);
+      expect(executor.extractFieldFromResponse(response, 'items[3].id')).toBeUndefined();
+    });
+
+    it('should extract from parsed CSV and XML responses', () => {
+      const rows = parseCsv('id,name\n7,Rex\n8,Fido');
+      expect(executor.extractFieldFromResponse(rows, '[0].id')).toBe('7');
+      expect(executor.extractFieldFromResponse(rows, '[name=Fido].id')).toBe('8');
+
+      const pets = parseXml('<pets><pet id="3"><name>Tom</name></pet><pet id="4"/></pets>');
+      expect(executor.extractFieldFromResponse(pets, '[1].@id')).toBe('4');
+      expect(executor.extractFieldFromResponse(pets, '[0].name')).toBe('Tom');
+    });
+  });
+
+  describe('previewSteps', () => {
+    it('should build every request with redacted auth and list what runs later', () => {
+      const executor = new RequestExecutor({
+        baseUrl: 'http://localhost',
+        auth: { config: { type: 'bearer' }, credential: 'secret' },
+      });
+      const requests = executor.previewSteps([
+        {
+          stepNumber: 1,
+          description: 'Create user',
+          action: { method: 'POST', endpoint: '/users', purpose: '', body: { name: 'Bob' } },
+          onFailure: 3,
+        },
+        {
+          stepNumber: 2,
+          description: 'Tag user',
+          action: { method: 'PUT', endpoint: '/users/{{step1_id}}/tags', purpose: '' },
+          when: 'step1.status == 201',
+        },
+        {
+          stepNumber: 3,
+          description: 'Clean up',
+          action: { method: 'DELETE', endpoint: '/users/{{step1_id}}', purpose: '' },
+        },
+      ]);
+
+      expect(requests.map(request => [request.method, request.url, request.note])).toEqual([
+        ['POST', 'http://localhost/users', undefined],
+        ['PUT', 'http://localhost/users/{{step1_id}}/tags', 'Runs when step1.status == 201'],
+        ['DELETE', 'http://localhost/users/{{step1_id}}', 'Runs only if step 1 fails'],
+      ]);
+      expect(requests[0]).toMatchObject({
+        body: '{"name":"Bob"}',
+        headers: { Authorization: '[REDACTED]' },
+        unresolved: [],
+      });
+      expect(requests[1].unresolved).toEqual(['step1_id']);
+    });
+  });
+
+  describe('executeSteps', () => {
+    let server: Server;
+    let baseUrl: string;
+    let active = 0;
+    let maxActive = 0;
+    let order: string[] = [];
+    // Requests to /flaky answered with 503 before it succeeds
+    let flakyFailures = 0;
+    // Requests to /drop, which closes the connection without answering (like a timeout)
+    let dropped = 0;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === '/drop') {
+          dropped++;
+          req.socket.destroy();
+          return;
+        }
+        active++;
+        maxActive = Math.max(maxActive, active);
+        order.push(`start ${req.method} ${req.url}`);
+        setTimeout(() => {
+          active--;
+          order.push(`end ${req.method} ${req.url}`);
+          const failed = req.url === '/fail' || req.url === '/users/u3';
+          if (req.url === '/flaky' && flakyFailures > 0) {
+            flakyFailures--;
+            res.writeHead(503, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+            res.end(JSON.stringify({ error: 'unavailable' }));
+            return;
+          }
+          const body =
+            req.url === '/users'
+              ? [
+                  { id: 'u1', active: 'yes' },
+                  { id: 'u2', active: 'no' },
+                  { id: 'u3', active: 'yes' },
+                ]
+              : [{ id: req.url!.slice(1) }];
+          res.writeHead(failed ? 500 : 200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(failed ? { error: 'boom' } : body));
+        }, 40);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const step = (stepNumber: number, method: string, endpoint: string): WorkflowStep => ({
+      stepNumber,
+      description: `Step ${stepNumber}`,
+      action: { method, endpoint, purpose: '' },
+      extractFields: ['[0].id'],
+    });
+
+    const reset = () => {
+      active = 0;
+      maxActive = 0;
+      order = [];
+    };
+
+    it('should run independent steps concurrently and report them in step order', async () => {
+      reset();
+      const events: string[] = [];
+      const executor = new RequestExecutor(
+        { baseUrl },
+        {
+          onStepStart: step => {
+            events.push(`start ${step}`);
+          },
+          onStepComplete: (step, result) => {
+            events.push(`${result.success ? 'done' : 'failed'} ${step}`);
+          },
+        }
+      );
+
+      const result = await executor.executeSteps([
+        step(1, 'GET', '/a'),
+        step(2, 'GET', '/b'),
+        step(3, 'GET', '/c'),
+        step(4, 'POST', '/d'),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.steps.map(s => s.step)).toEqual([1, 2, 3, 4]);
+      expect(maxActive).toBe(3);
+      // The write waits for every earlier step
+      expect(order.indexOf('start POST /d')).toBeGreaterThan(order.lastIndexOf('end GET /c'));
+      expect(events.slice(0, 3)).toEqual(['start 1', 'start 2', 'start 3']);
+      expect(result.extractedData).toMatchObject({ 'step1_[0].id': 'a', 'step4_[0].id': 'd' });
+    });
+
+    it('should respect the concurrency limit', async () => {
+      reset();
+      const executor = new RequestExecutor({ baseUrl }, { concurrency: 2 });
+      await executor.executeSteps([
+        step(1, 'GET', '/a'),
+        step(2, 'GET', '/b'),
+        step(3, 'GET', '/c'),
+      ]);
+      expect(maxActive).toBe(2);
+
+      reset();
+      const sequential = new RequestExecutor({ baseUrl }, { concurrency: 1 });
+      await sequential.executeSteps([step(1, 'GET', '/a'), step(2, 'GET', '/b')]);
+      expect(order).toEqual(['start GET /a', 'end GET /a', 'start GET /b', 'end GET /b']);
+    });
+
+    it('should not start new steps after a failure', async () => {
+      reset();
+      const executor = new RequestExecutor({ baseUrl });
+      const result = await executor.executeSteps([
+        step(1, 'GET', '/fail'),
+        step(2, 'GET', '/b'),
+        step(3, 'POST', '/c'),
+      ]);
+
+      expect(result.success).toBe(false);
+      // Step 2 was already running alongside step 1; step 3 never starts
+      expect(result.steps.map(s => [s.step, s.success])).toEqual([
+        [1, false],
+        [2, true],
+      ]);
+      expect(order).not.toContain('start POST /c');
+    });
+
+    it('should run forEach steps once per item and aggregate the results', async () => {
+      reset();
+      const items: string[] = [];
+      const executor = new RequestExecutor(
+        { baseUrl },
+        {
+          onItemComplete: (step, item, total, result) => {
+            items.push(`${step}:${item}/${total}:${result.success}`);
+          },
+        }
+      );
+
+      const result = await executor.executeSteps([
+        step(1, 'GET', '/users'),
+        {
+          ...step(2, 'GET', '/users/{{item.id}}/orders'),
+          forEach: { source: 'step1', filter: '[active=yes]' },
+        },
+        {
+          ...step(3, 'GET', '/orders/{{item}}'),
+          forEach: { source: 'step2_[0].id' },
+        },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.steps[1].response).toEqual([
+        [{ id: 'users/u1/orders' }],
+        [{ id: 'users/u3/orders' }],
+      ]);
+      expect(result.extractedData['step2_[0].id']).toEqual(['users/u1/orders', 'users/u3/orders']);
+      expect(order).toContain('start GET /orders/users/u3/orders');
+      expect(items.sort()).toEqual(['2:1/2:true', '2:2/2:true', '3:1/2:true', '3:2/2:true']);
+    });
+
+    it('should fail forEach steps on failed items, bad sources and too many items', async () => {
+      const executor = new RequestExecutor({ baseUrl }, { concurrency: 1 });
+      const forEachStep = (forEach: WorkflowStep['forEach']) => ({
+        ...step(2, 'GET', '/users/{{item.id}}'),
+        forEach,
+      });
+
+      const failed = await executor.executeSteps([
+        step(1, 'GET', '/users'),
+        forEachStep({ source: 'step1' }),
+      ]);
+      expect(failed.steps[1]).toMatchObject({
+        success: false,
+        error: 'Item 3 of 3 failed: HTTP 500: Request failed',
+        httpCode: 500,
+      });
+
+      const limited = await executor.executeSteps([
+        step(1, 'GET', '/users'),
+        forEachStep({ source: 'step1', maxItems: 2 }),
+      ]);
+      expect(limited.success).toBe(true);
+      expect(limited.steps[1].response).toHaveLength(2);
+
+      const notArray = await executor.executeSteps([
+        step(1, 'GET', '/users'),
+        forEachStep({ source: 'step1.0' }),
+      ]);
+      expect(notArray.steps[1].error).toBe('forEach source "step1.0" is not an array');
+    });
+
+    it('should retry transient failures and report each retried attempt', async () => {
+      reset();
+      flakyFailures = 2;
+      const retries: string[] = [];
+      const executor = new RequestExecutor(
+        { baseUrl },
+        {
+          retry: { maxAttempts: 3, backoffMs: 5 },
+          onStepRetry: (step, attempt, result, delayMs) => {
+            retries.push(`${step}:${attempt}:${result.httpCode}:${delayMs}`);
+          },
+        }
+      );
+
+      const result = await executor.executeSteps([step(1, 'GET', '/flaky')]);
+      expect(result.success).toBe(true);
+      expect(result.steps[0].attempts).toBe(3);
+      expect(retries).toEqual(['1:1:503:5', '1:2:503:10']);
+
+      // Steps can lower the workflow's attempts; statuses outside retryOn fail right away
+      flakyFailures = 2;
+      const single = await executor.executeSteps([
+        { ...step(1, 'GET', '/flaky'), retry: { maxAttempts: 2 } },
+        step(2, 'GET', '/fail'),
+      ]);
+      expect(single.steps.map(s => [s.step, s.httpCode, s.attempts])).toEqual([
+        [1, 503, 2],
+        [2, 500, 1],
+      ]);
+      flakyFailures = 0;
+    });
+
+    it('should send a request that got no response only once unless retries are enabled', async () => {
+      reset();
+      dropped = 0;
+      const executor = new RequestExecutor({ baseUrl });
+
+      const result = await executor.executeSteps([step(1, 'POST', '/drop')]);
+      expect(result.success).toBe(false);
+      expect(result.steps[0].attempts).toBe(1);
+      expect(dropped).toBe(1);
+    });
+
+    it('should resume after the steps an earlier run completed', async () => {
+      reset();
+      const executor = new RequestExecutor({ baseUrl });
+      const result = await executor.executeSteps(
+        [
+          step(1, 'POST', '/users'),
+          step(2, 'GET', '/orders/{{step1_[0].id}}'),
+          { ...step(3, 'GET', '/c'), when: 'step1.status == 201' },
+        ],
+        {
+          results: [
+            { step: 1, description: 'Step 1', success: true, httpCode: 201, response: [] },
+            { step: 2, description: 'Step 2', success: false, httpCode: 500 },
+          ],
+          extractedData: { 'step1_[0].id': 'u9' },
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.steps.map(s => [s.step, s.httpCode])).toEqual([
+        [1, 201],
+        [2, 200],
+        [3, 200],
+      ]);
+      expect(order).not.toContain('start POST /users');
+      expect(order).toContain('start GET /orders/u9');
+      expect(result.extractedData['step2_[0].id']).toBe('orders/u9');
+    });
+
+    it('should skip steps whose when condition does not hold', async () => {
+      reset();
+      const events: string[] = [];
+      const executor = new RequestExecutor(
+        { baseUrl },
+        {
+          onStepStart: step => {
+            events.push(`start ${step}`);
+          },
+          onStepComplete: (step, result) => {
+            events.push(`${result.skipped ? 'skipped' : 'done'} ${step}`);
+          },
+        }
+      );
+
+      const result = await executor.executeSteps([
+        step(1, 'GET', '/users'),
+        { ...step(2, 'POST', '/tags'), when: 'step1.length == 0' },
+        { ...step(3, 'GET', '/b'), when: "step1.status == 200 && step1_[0].id == 'u1'" },
+        { ...step(4, 'GET', '/c'), when: 'status == 200 && !step2.success' },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.steps.map(s => [s.step, s.skipped ?? false])).toEqual([
+        [1, false],
+        [2, true],
+        [3, false],
+        [4, true],
+      ]);
+      expect(order).not.toContain('start POST /tags');
+      expect(events).not.toContain('start 2');
+      expect(events).toContain('skipped 2');
+    });
+
+    it('should fail steps with malformed conditions', async () => {
+      const executor = new RequestExecutor({ baseUrl });
+      const result = await executor.executeSteps([
+        step(1, 'GET', '/a'),
+        { ...step(2, 'GET', '/b'), when: 'step1.status ==' },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.steps[1]).toMatchObject({
+        success: false,
+        error: 'Invalid condition "step1.status ==": Unexpected end of condition',
+      });
+    });
+
+    it('should fail steps whose assertions fail and accept asserted error statuses', async () => {
+      const executor = new RequestExecutor({ baseUrl });
+      const result = await executor.executeSteps([
+        {
+          ...step(1, 'GET', '/fail'),
+          assertions: [
+            { type: 'status', equals: 500 },
+            { type: 'equals', path: '$.error', value: 'boom' },
+          ],
+        },
+        {
+          ...step(2, 'GET', '/users'),
+          dependsOn: [1],
+          assertions: [
+            { type: 'length', path: '$', equals: 3 },
+            { type: 'contains', path: '$[*].id', value: 'u9' },
+          ],
+        },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.steps[0]).toMatchObject({ success: true, httpCode: 500 });
+      expect(result.steps[0].assertions?.every(assertion => assertion.passed)).toBe(true);
+      expect(result.steps[1]).toMatchObject({
+        success: false,
+        httpCode: 200,
+        error: '1 of 2 assertions failed: $[*].id contains "u9" (got ["u1","u2","u3"])',
+      });
+      expect(result.steps[1].assertions?.map(assertion => assertion.passed)).toEqual([true, false]);
+    });
+
+    it('should run the onFailure compensating step after a failure', async () => {
+      reset();
+      const executor = new RequestExecutor({ baseUrl });
+      const result = await executor.executeSteps([
+        step(1, 'POST', '/a'),
+        { ...step(2, 'POST', '/fail'), onFailure: 4 },
+        { ...step(3, 'POST', '/c'), onFailure: 5 },
+        { ...step(4, 'DELETE', '/a'), when: 'status == 500' },
+        step(5, 'DELETE', '/c'),
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.steps.map(s => [s.step, s.success, s.skipped ?? false])).toEqual([
+        [1, true, false],
+        [2, false, false],
+        [4, true, false],
+        [5, true, true],
+      ]);
+      expect(order).not.toContain('start POST /c');
+      expect(order.indexOf('start DELETE /a')).toBeGreaterThan(order.indexOf('end POST /fail'));
+      expect(order).not.toContain('start DELETE /c');
+    });
+
+    it('should abort the request in flight and start nothing else once cancelled', async () => {
+      reset();
+      const controller = new AbortController();
+      const executor = new RequestExecutor(
+        { baseUrl },
+        {
+          signal: controller.signal,
+          onStepStart: step => {
+            if (step === 2) {
+              setTimeout(() => controller.abort(), 10);
+            }
+          },
+        }
+      );
+
+      const result = await executor.executeSteps([
+        step(1, 'POST', '/a'),
+        { ...step(2, 'POST', '/b'), onFailure: 4 },
+        step(3, 'POST', '/c'),
+        step(4, 'DELETE', '/a'),
+      ]);
+
+      expect(result).toMatchObject({ success: false, cancelled: true });
+      expect(result.steps.map(s => [s.step, s.success, s.error])).toEqual([
+        [1, true, undefined],
+        [2, false, 'Request cancelled'],
+      ]);
+      expect(order).not.toContain('start POST /c');
+      expect(order).not.toContain('start DELETE /a');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { ScheduleService } from '@/lib/services/schedule';
+import { jobQueueService } from '@/lib/services/job-queue';
+import { WorkflowSchedule } from '@/lib/db/schema';
+import * as dbModule from '@/lib/db';
+
+const now = new Date('2026-03-10T02:00:10Z');
+
+function makeSchedule(overrides: Partial<WorkflowSchedule> = {}): WorkflowSchedule {
+  return {
+    id: 'schedule-1',
+    workflowId: 'workflow-1',
+    cron: '0 2 * * *',
+    enabled: true,
+    inputs: null,
+    nextRunAt: new Date('2026-03-10T02:00:00Z'),
+    lastRunAt: null,
+    lastJobId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+// Due schedules come from select(); update() claims them and records the queued job
+function mockDb(due: WorkflowSchedule[], claimed = true) {
+  vi.spyOn(dbModule.db, 'select').mockReturnValue({
+    from: () => ({ where: () => Promise.resolve(due) }),
+  } as any);
+  const set = vi.fn().mockReturnValue({
+    where: vi.fn().mockReturnValue({
+      returning: vi.fn().mockResolvedValue(claimed ? [{ id: 'schedule-1' }] : []),
+      then: (resolve: (value: unknown) => void) => resolve(undefined),
+    }),
+  });
+  vi.spyOn(dbModule.db, 'update').mockReturnValue({ set } as any);
+  return set;
+}
+
+describe('ScheduleService', () => {
+  let service: ScheduleService;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    service = new ScheduleService();
+  });
+
+  describe('runDue', () => {
+    it('should queue a due run and move the schedule to its next run', async () => {
+      const set = mockDb([makeSchedule({ inputs: JSON.stringify({ env: 'staging' }) })]);
+      const enqueue = vi
+        .spyOn(jobQueueService, 'enqueue')
+        .mockResolvedValue({ id: 'job-1', status: 'queued' } as any);
+
+      const queued = await service.runDue(now);
+
+      expect(queued).toBe(1);
+      expect(enqueue).toHaveBeenCalledWith('workflow-1', {
+        inputs: { env: 'staging' },
+        scheduleId: 'schedule-1',
+      });
+      expect(set).toHaveBeenCalledWith({
+        nextRunAt: new Date('2026-03-11T02:00:00Z'),
+        updatedAt: now,
+      });
+      expect(set).toHaveBeenCalledWith({ lastRunAt: now, lastJobId: 'job-1' });
+    });
+
+    it('should skip the run while the previous one has not finished', async () => {
+      mockDb([makeSchedule({ lastJobId: 'job-0' })]);
+      vi.spyOn(jobQueueService, 'findById').mockResolvedValue({
+        id: 'job-0',
+        status: 'running',
+      } as any);
+      const enqueue = vi.spyOn(jobQueueService, 'enqueue');
+
+      expect(await service.runDue(now)).toBe(0);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should not queue a run another pass already claimed', async () => {
+      mockDb([makeSchedule()], false);
+      const enqueue = vi.spyOn(jobQueueService, 'enqueue');
+
+      expect(await service.runDue(now)).toBe(0);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRuns', () => {
+    it('should load only the executions of the latest runs', async () => {
+      const execution = (runId: string, stepNumber: number, status: string, minute: number) => ({
+        runId,
+        stepNumber,
+        status,
+        executedAt: new Date(`2026-03-10T02:0${minute}:00Z`),
+      });
+      const limit = vi.fn().mockResolvedValue([{ runId: 'run-2' }, { runId: 'run-1' }]);
+      const select = vi
+        .spyOn(dbModule.db, 'select')
+        .mockReturnValueOnce({
+          from: () => ({ where: () => ({ groupBy: () => ({ orderBy: () => ({ limit }) }) }) }),
+        } as any)
+        .mockReturnValueOnce({
+          from: () => ({
+            where: () => ({
+              orderBy: () =>
+                Promise.resolve([
+                  execution('run-2', 2, 'failed', 4),
+                  execution('run-2', 1, 'completed', 3),
+                  execution('run-1', 1, 'completed', 1),
+                ]),
+            }),
+          }),
+        } as any);
+
+      const runs = await service.getRuns('schedule-1', 2);
+
+      expect(limit).toHaveBeenCalledWith(2);
+      expect(runs.map(run => [run.runId, run.success, run.stepCount, run.failedSteps])).toEqual([
+        ['run-2', false, 2, [2]],
+        ['run-1', true, 1, []],
+      ]);
+      expect(runs[0].startedAt).toEqual(new Date('2026-03-10T02:03:00Z'));
+
+      select.mockReturnValueOnce({
+        from: () => ({
+          where: () => ({
+            groupBy: () => ({ orderBy: () => ({ limit: () => Promise.resolve([]) }) }),
+          }),
+        }),
+      } as any);
+      expect(await service.getRuns('schedule-2')).toEqual([]);
+      expect(select).toHaveBeenCalledTimes(3);
+    });
+  });
+});
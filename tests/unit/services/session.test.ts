@@ -1,5 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { sessionService } from '@/lib/services/session';
+import { specHistoryService } from '@/lib/services/spec-history';
+import * as dbModule from '@/lib/db';
 
 // Import the functions we need to test
 // Note: These functions are not exported from session.ts, so we need to test them indirectly
@@ -184,3 +188,103 @@ function combineBaseUrl(origin: string, docBaseUrl: string): string {
     return `${origin}${docBaseUrl}`.replace(/\/+$/, '');
   }
 }
+
+describe('Session Service - Uploaded and pasted specs', () => {
+  const spec = {
+    openapi: '3.0.0',
+    info: { title: 'Pets', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com/v1/' }],
+    paths: { '/pets': { get: { responses: { '200': { description: 'OK' } } } } },
+  };
+  let inserted: any;
+
+  beforeEach(() => {
+    inserted = undefined;
+    vi.spyOn(dbModule.db, 'insert').mockReturnValue({
+      values: vi.fn(async (values: any) => {
+        inserted = values;
+      }),
+    } as any);
+    vi.spyOn(specHistoryService, 'recordVersion').mockResolvedValue(undefined as any);
+  });
+
+  it('should create a session from an uploaded JSON spec with its declared server', async () => {
+    const session = await sessionService.create({
+      name: 'Pets',
+      swaggerContent: JSON.stringify(spec),
+    });
+
+    expect(session.specSource).toBe('upload');
+    expect(session.swaggerUrl).toBe('');
+    expect(session.baseUrl).toBe('https://api.example.com/v1');
+    expect(JSON.parse(inserted.swaggerDoc).paths).toEqual(spec.paths);
+  });
+
+  it('should accept a pasted YAML spec', async () => {
+    const session = await sessionService.create({
+      name: 'Pets',
+      swaggerContent:
+        'openapi: 3.0.0\ninfo:\n  title: Pets\n  version: 1.0.0\nservers:\n  - url: https://pets.example.com\npaths:\n  /pets: {}\n',
+    });
+
+    expect(session.baseUrl).toBe('https://pets.example.com');
+  });
+
+  it('should reject content that is not an OpenAPI or Swagger document', async () => {
+    await expect(
+      sessionService.create({ name: 'Bad', swaggerContent: '{"hello":"world"}' })
+    ).rejects.toThrow('expected an OpenAPI 3 or Swagger 2 document with paths');
+    expect(inserted).toBeUndefined();
+  });
+
+  it('should require a baseUrl when the spec declares no absolute server', async () => {
+    const withoutServers = { ...spec, servers: [{ url: '/v1' }] };
+
+    await expect(
+      sessionService.create({ name: 'Pets', swaggerContent: JSON.stringify(withoutServers) })
+    ).rejects.toThrow('please provide a baseUrl');
+
+    const session = await sessionService.create({
+      name: 'Pets',
+      swaggerContent: JSON.stringify(withoutServers),
+      baseUrl: 'https://staging.example.com/',
+    });
+    expect(session.baseUrl).toBe('https://staging.example.com');
+  });
+
+  it('should inline the files a multi-file spec references', async () => {
+    const root = {
+      ...spec,
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: './schemas/pet.yaml#/Pet' } } },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    await sessionService.create({
+      name: 'Pets',
+      swaggerContent: JSON.stringify(root),
+      swaggerFiles: { 'schemas/pet.yaml': 'Pet:\n  type: object\n' },
+    });
+
+    const doc = JSON.parse(inserted.swaggerDoc);
+    const schema = doc.paths['/pets'].get.responses['200'].content['application/json'].schema;
+    expect(schema.$ref).toMatch(/^#\/.+\/schemas~1pet\.yaml\/Pet$/);
+
+    await expect(
+      sessionService.create({
+        name: 'Pets',
+        swaggerContent: JSON.stringify(root),
+        swaggerFiles: { 'schemas/pet.yaml': 'Pet: [unclosed' },
+      })
+    ).rejects.toThrow('referenced file "schemas/pet.yaml" is invalid');
+  });
+});
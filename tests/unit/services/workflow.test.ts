@@ -0,0 +1,69 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { WorkflowService } from '@/lib/services/workflow';
+import { sessionService } from '@/lib/services/session';
+
+const workflow = { id: 'workflow-1', sessionId: 'session-1', status: 'pending', steps: '[]' };
+const result = { success: true, steps: [], completedSteps: [] };
+
+describe('WorkflowService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('execute', () => {
+    it('should start a workflow only once when runs are requested at the same time', async () => {
+      const service = new WorkflowService();
+      vi.spyOn(service, 'findById').mockResolvedValue(workflow as any);
+      vi.spyOn(sessionService, 'findById').mockResolvedValue({ id: 'session-1' } as any);
+      const prepareRun = vi
+        .spyOn(service as any, 'prepareRun')
+        .mockResolvedValue({ steps: [], runId: 'run-1' });
+      const run = vi.spyOn(service as any, 'run').mockResolvedValue(result);
+
+      const [first, second] = await Promise.allSettled([
+        service.execute('workflow-1'),
+        service.execute('workflow-1'),
+      ]);
+
+      expect(first).toEqual({ status: 'fulfilled', value: result });
+      expect(second).toMatchObject({
+        status: 'rejected',
+        reason: new Error('Workflow is already running'),
+      });
+      expect(run).toHaveBeenCalledTimes(1);
+
+      // The run is released once it finishes, and when preparing it fails
+      prepareRun.mockRejectedValueOnce(new Error('Invalid inputs: id: Required'));
+      await expect(service.execute('workflow-1')).rejects.toThrow('Invalid inputs');
+      await expect(service.execute('workflow-1')).resolves.toEqual(result);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a run that is still being prepared', async () => {
+      const service = new WorkflowService();
+      vi.spyOn(service, 'findById').mockResolvedValue(workflow as any);
+      vi.spyOn(sessionService, 'findById').mockResolvedValue({ id: 'session-1' } as any);
+      let prepared!: () => void;
+      vi.spyOn(service as any, 'prepareRun').mockReturnValue(
+        new Promise(resolve => {
+          prepared = () => resolve({ steps: [], runId: 'run-1' });
+        })
+      );
+      const run = vi.spyOn(service as any, 'run').mockImplementation(async (...args: any[]) => ({
+        ...result,
+        cancelled: (args[4] as AbortSignal).aborted,
+      }));
+
+      const execution = service.execute('workflow-1');
+      const cancelled = service.cancel('workflow-1');
+      prepared();
+
+      await expect(cancelled).resolves.toEqual({ workflowId: 'workflow-1', completedSteps: [] });
+      await expect(execution).resolves.toMatchObject({ cancelled: true });
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+
+import { SwaggerDoc } from '@/lib/types';
+import {
+  evaluateAssertions,
+  getResponseSchema,
+  parseJsonPath,
+  queryJsonPath,
+  summarizeFailedAssertions,
+  validateAssertion,
+} from '@/lib/utils/assertions';
+
+const meta = { headers: {}, durationMs: 120, ttfbMs: 80, sizeBytes: 64 };
+
+const body = {
+  user: { id: 7, name: 'Ada Lovelace', email: 'ada@example.com', tags: ['admin', 'math'] },
+  items: [
+    { id: 'a', price: 3 },
+    { id: 'b', price: 5 },
+  ],
+};
+
+const doc: SwaggerDoc = {
+  openapi: '3.0.0',
+  info: { title: 'Users', version: '1.0.0' },
+  paths: {
+    '/users/{id}': {
+      get: {
+        responses: {
+          '200': {
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/User' } },
+            },
+          },
+          '4XX': {
+            content: {
+              'application/json': {
+                schema: { type: 'object', required: ['message'] },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: { id: { type: 'integer' }, name: { type: 'string' } },
+      },
+    },
+  },
+};
+
+const spec = { doc, method: 'GET', endpoint: '/users/{{step1_id}}' };
+
+describe('Step assertions', () => {
+  describe('JSONPath', () => {
+    it('should parse dot, bracket, index and wildcard parts', () => {
+      expect(parseJsonPath('$.user.tags[0]')).toEqual(['user', 'tags', 0]);
+      expect(parseJsonPath("$['user'].items[*].id")).toEqual(['user', 'items', null, 'id']);
+      expect(parseJsonPath('user.*')).toEqual(['user', null]);
+      expect(parseJsonPath('$')).toEqual([]);
+      expect(() => parseJsonPath('$.user..name')).toThrow('Invalid JSONPath "$.user..name"');
+    });
+
+    it('should select values, with wildcards yielding every match', () => {
+      expect(queryJsonPath(body, '$.user.name')).toEqual({ found: true, value: 'Ada Lovelace' });
+      expect(queryJsonPath(body, '$.items[-1].id')).toEqual({ found: true, value: 'b' });
+      expect(queryJsonPath(body, '$.items[*].price')).toEqual({ found: true, value: [3, 5] });
+      expect(queryJsonPath(body, '$.user.missing')).toEqual({ found: false, value: undefined });
+      expect(queryJsonPath(body, '$.nothing[*]')).toEqual({ found: true, value: [] });
+    });
+  });
+
+  describe('evaluateAssertions', () => {
+    it('should pass assertions that hold', () => {
+      const results = evaluateAssertions(
+        [
+          { type: 'status', equals: [200, 201] },
+          { type: 'equals', path: '$.user', value: { ...body.user } },
+          { type: 'contains', path: '$.user.tags', value: 'math' },
+          { type: 'contains', path: '$.user.name', value: 'Love' },
+          { type: 'contains', path: '$.user', value: 'email' },
+          { type: 'matches', path: '$.user.email', pattern: '^[^@]+@example\\.com$' },
+          { type: 'length', path: '$.items', min: 1, max: 2 },
+          { type: 'responseTime', maxMs: 500 },
+        ],
+        { httpCode: 200, body, meta }
+      );
+
+      expect(results.filter(result => !result.passed)).toEqual([]);
+      expect(results.map(result => result.message)).toEqual([
+        'status is one of 200, 201',
+        expect.stringMatching(/^\$\.user equals \{"id":7,"name":"Ada Lovelace"/),
+        '$.user.tags contains "math"',
+        '$.user.name contains "Love"',
+        '$.user contains "email"',
+        '$.user.email matches /^[^@]+@example\\.com$/',
+        'length of $.items is between 1 and 2',
+        'response time under 500 ms',
+      ]);
+      expect(summarizeFailedAssertions(results)).toBeNull();
+    });
+
+    it('should say what came back when assertions fail', () => {
+      const results = evaluateAssertions(
+        [
+          { type: 'status', equals: 201 },
+          { type: 'equals', path: '$.user.id', value: '7' },
+          { type: 'equals', path: '$.user.age', value: 36 },
+          { type: 'matches', path: '$.user.name', pattern: '^Grace' },
+          { type: 'length', path: '$.user.id', equals: 1 },
+          { type: 'length', path: '$.items', equals: 3 },
+          { type: 'responseTime', maxMs: 100 },
+          { type: 'matches', path: '$.user.name', pattern: '(' },
+        ],
+        { httpCode: 200, body, meta }
+      );
+
+      expect(results.map(result => [result.passed, result.message])).toEqual([
+        [false, 'status is 201 (got 200)'],
+        [false, '$.user.id equals "7" (got 7)'],
+        [false, '$.user.age equals 36 (not found)'],
+        [false, '$.user.name matches /^Grace/ (got "Ada Lovelace")'],
+        [false, 'length of $.user.id is 1 (got 7, which has no length)'],
+        [false, 'length of $.items is 3 (length 2)'],
+        [false, 'response time under 100 ms (took 120 ms)'],
+        [
+          false,
+          expect.stringMatching(/^\$\.user\.name matches \/\(\/ \(Invalid regular expression/),
+        ],
+      ]);
+      expect(summarizeFailedAssertions(results.slice(0, 1))).toBe(
+        '1 of 1 assertion failed: status is 201 (got 200)'
+      );
+    });
+
+    it('should check the body against the response schema for its status', () => {
+      const check = (httpCode: number, responseBody: unknown) =>
+        evaluateAssertions([{ type: 'schema' }], { httpCode, body: responseBody, meta }, spec)[0];
+
+      expect(check(200, { id: 7, name: 'Ada' }).passed).toBe(true);
+      expect(check(200, { id: 'seven' })).toMatchObject({
+        passed: false,
+        message:
+          'body matches the response schema (body.name: Required; body.id: Expected an integer)',
+      });
+      expect(check(404, { message: 'Not found' }).passed).toBe(true);
+      expect(check(500, {})).toMatchObject({
+        passed: false,
+        message:
+          'body matches the response schema (the spec declares no response schema for HTTP 500)',
+      });
+      expect(
+        evaluateAssertions([{ type: 'schema' }], { httpCode: 200, body: {}, meta })[0].passed
+      ).toBe(false);
+    });
+  });
+
+  it('should find response schemas by exact code, range and default', () => {
+    expect(getResponseSchema(spec, 200)?.label).toBe('GET /users/{id} 200');
+    expect(getResponseSchema(spec, 422)?.label).toBe('GET /users/{id} 4XX');
+    expect(getResponseSchema(spec, 500)).toBeNull();
+    expect(getResponseSchema({ ...spec, endpoint: '/teams' }, 200)).toBeNull();
+  });
+
+  it('should reject assertions that can never be checked', () => {
+    expect(validateAssertion({ type: 'equals', path: '$.id', value: 1 })).toBeNull();
+    expect(validateAssertion({ type: 'equals', path: '$.[', value: 1 })).toBe(
+      'Invalid JSONPath "$.[" at ".["'
+    );
+    expect(validateAssertion({ type: 'matches', path: '$.id', pattern: '[' })).toMatch(
+      /^Invalid regular expression/
+    );
+    expect(validateAssertion({ type: 'length', path: '$.items' })).toBe(
+      'A length assertion needs equals, min or max'
+    );
+    expect(validateAssertion({ type: 'length', path: '$.items', min: 3, max: 1 })).toBe(
+      'Minimum length 3 is above the maximum 1'
+    );
+  });
+});
@@ -0,0 +1,333 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyAuthToCurl,
+  applyRedactedAuth,
+  detectAuthConfig,
+  getSecuritySchemes,
+  hasAuthCredentials,
+  isAuthExpired,
+  keepStoredSecrets,
+  parseAuthConfig,
+  REDACTED,
+  redactAuthConfig,
+  redactSessionAuth,
+  resolveAuthParts,
+} from '@/lib/utils/auth';
+
+const baseDoc = {
+  openapi: '3.0.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths: {},
+};
+
+describe('Auth Utilities', () => {
+  describe('getSecuritySchemes', () => {
+    it('should map OpenAPI 3 securitySchemes', () => {
+      const doc = {
+        ...baseDoc,
+        components: {
+          securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer' },
+            basicAuth: { type: 'http', scheme: 'basic' },
+            apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            apiKeyQuery: { type: 'apiKey', in: 'query', name: 'api_key' },
+            sessionCookie: { type: 'apiKey', in: 'cookie', name: 'SESSIONID' },
+          },
+        },
+      };
+
+      const schemes = getSecuritySchemes(doc as any);
+      expect(schemes.map(s => s.config)).toEqual([
+        { type: 'bearer', schemeName: 'bearerAuth' },
+        { type: 'basic', schemeName: 'basicAuth' },
+        { type: 'apiKey', in: 'header', name: 'X-API-Key', schemeName: 'apiKeyHeader' },
+        { type: 'apiKey', in: 'query', name: 'api_key', schemeName: 'apiKeyQuery' },
+        { type: 'cookie', name: 'SESSIONID', schemeName: 'sessionCookie' },
+      ]);
+    });
+
+    it('should map Swagger 2 securityDefinitions', () => {
+      const doc = {
+        swagger: '2.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        paths: {},
+        securityDefinitions: {
+          basic: { type: 'basic' },
+          oauth: { type: 'oauth2', flow: 'password', tokenUrl: '/token' },
+        },
+      };
+
+      const schemes = getSecuritySchemes(doc as any);
+      expect(schemes.map(s => s.config.type)).toEqual(['basic', 'oauth2']);
+    });
+
+    it('should map OAuth2 flows that need no user interaction', () => {
+      const doc = {
+        ...baseDoc,
+        components: {
+          securitySchemes: {
+            machine: {
+              type: 'oauth2',
+              flows: {
+                clientCredentials: { tokenUrl: '/oauth/token', scopes: { read: 'Read' } },
+              },
+            },
+            browser: {
+              type: 'oauth2',
+              flows: { authorizationCode: { authorizationUrl: '/auth', tokenUrl: '/token' } },
+            },
+          },
+        },
+      };
+
+      const schemes = getSecuritySchemes(doc as any);
+      expect(schemes[0].config).toEqual({
+        type: 'oauth2',
+        flow: 'clientCredentials',
+        tokenUrl: '/oauth/token',
+        scopes: ['read'],
+        schemeName: 'machine',
+      });
+      expect(schemes[1].config).toEqual({ type: 'bearer', schemeName: 'browser' });
+    });
+
+    it('should skip unsupported schemes', () => {
+      const doc = {
+        ...baseDoc,
+        components: { securitySchemes: { digest: { type: 'http', scheme: 'digest' } } },
+      };
+
+      expect(getSecuritySchemes(doc as any)).toEqual([]);
+    });
+  });
+
+  describe('detectAuthConfig', () => {
+    it('should prefer the scheme referenced by global security', () => {
+      const doc = {
+        ...baseDoc,
+        components: {
+          securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer' },
+            apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+          },
+        },
+        security: [{ apiKey: [] }],
+      };
+
+      expect(detectAuthConfig(doc as any)).toEqual({
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        schemeName: 'apiKey',
+      });
+    });
+
+    it('should return null when the spec declares no schemes', () => {
+      expect(detectAuthConfig(baseDoc as any)).toBeNull();
+    });
+  });
+
+  describe('parseAuthConfig', () => {
+    it('should parse a stored config', () => {
+      expect(parseAuthConfig('{"type":"cookie","name":"sid"}')).toEqual({
+        type: 'cookie',
+        name: 'sid',
+      });
+    });
+
+    it('should reject malformed or unknown configs', () => {
+      expect(parseAuthConfig(null)).toBeNull();
+      expect(parseAuthConfig('not json')).toBeNull();
+      expect(parseAuthConfig('{"type":"kerberos"}')).toBeNull();
+    });
+  });
+
+  describe('redactAuthConfig', () => {
+    const oauth2 = {
+      type: 'oauth2' as const,
+      flow: 'password' as const,
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'app',
+      clientSecret: 'client-secret',
+      username: 'ada',
+      password: 'hunter2',
+    };
+
+    it('should replace secrets with flags saying which ones are stored', () => {
+      expect(redactAuthConfig(oauth2)).toEqual({
+        type: 'oauth2',
+        flow: 'password',
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'app',
+        username: 'ada',
+        hasClientSecret: true,
+        hasPassword: true,
+      });
+      expect(redactAuthConfig({ type: 'basic', username: 'ada', password: '' })).toEqual({
+        type: 'basic',
+        username: 'ada',
+      });
+    });
+
+    it('should redact the auth config of a session', () => {
+      const session = redactSessionAuth({ id: 's1', authConfig: JSON.stringify(oauth2) });
+      expect(session.id).toBe('s1');
+      expect(session.authConfig).not.toContain('hunter2');
+      expect(session.authConfig).not.toContain('client-secret');
+      expect(redactSessionAuth({ id: 's2', authConfig: null }).authConfig).toBeNull();
+    });
+
+    it('should keep stored secrets that an update leaves empty', () => {
+      expect(
+        keepStoredSecrets({ ...oauth2, clientSecret: undefined, password: '' }, oauth2)
+      ).toEqual(oauth2);
+      expect(keepStoredSecrets({ ...oauth2, password: 'new' }, oauth2)).toMatchObject({
+        password: 'new',
+      });
+      expect(keepStoredSecrets({ type: 'basic', username: 'ada', password: '' }, oauth2)).toEqual({
+        type: 'basic',
+        username: 'ada',
+        password: '',
+      });
+    });
+  });
+
+  describe('hasAuthCredentials', () => {
+    it('should require a credential for token based schemes', () => {
+      expect(hasAuthCredentials({ config: { type: 'bearer' } })).toBe(false);
+      expect(hasAuthCredentials({ config: { type: 'bearer' }, credential: 'abc' })).toBe(true);
+    });
+
+    it('should require a username for Basic auth', () => {
+      expect(hasAuthCredentials({ config: { type: 'basic' } })).toBe(false);
+      expect(hasAuthCredentials({ config: { type: 'basic', username: 'admin' } })).toBe(true);
+    });
+  });
+
+  describe('isAuthExpired', () => {
+    const oauth = { type: 'oauth2' as const, flow: 'clientCredentials' as const, tokenUrl: '/t' };
+
+    it('should treat a missing OAuth2 token as expired', () => {
+      expect(isAuthExpired({ config: oauth })).toBe(true);
+    });
+
+    it('should compare the expiry with a safety margin', () => {
+      const now = 1_000_000;
+      expect(
+        isAuthExpired({ config: { ...oauth, expiresAt: now + 10_000 }, credential: 't' }, now)
+      ).toBe(true);
+      expect(
+        isAuthExpired({ config: { ...oauth, expiresAt: now + 120_000 }, credential: 't' }, now)
+      ).toBe(false);
+    });
+
+    it('should never expire static credentials', () => {
+      expect(isAuthExpired({ config: { type: 'bearer' }, credential: 't' })).toBe(false);
+    });
+  });
+
+  describe('resolveAuthParts', () => {
+    it('should build a Basic authorization header', () => {
+      const parts = resolveAuthParts({
+        config: { type: 'basic', username: 'admin', password: 'secret' },
+      });
+      expect(parts.headers.Authorization).toBe(`Basic ${btoa('admin:secret')}`);
+    });
+
+    it('should not double the Bearer prefix', () => {
+      const parts = resolveAuthParts({ config: { type: 'bearer' }, credential: 'Bearer abc' });
+      expect(parts.headers.Authorization).toBe('Bearer abc');
+    });
+
+    it('should apply a custom header prefix', () => {
+      const parts = resolveAuthParts({
+        config: { type: 'header', name: 'X-Auth', prefix: 'Token' },
+        credential: 'abc',
+      });
+      expect(parts.headers).toEqual({ 'X-Auth': 'Token abc' });
+    });
+  });
+
+  describe('applyAuthToCurl', () => {
+    const curl = "curl -X GET 'https://api.example.com/users' -H 'Content-Type: application/json'";
+
+    it('should add a Bearer header', () => {
+      const result = applyAuthToCurl(curl, { config: { type: 'bearer' }, credential: 'abc' });
+      expect(result).toContain("-H 'Authorization: Bearer abc'");
+    });
+
+    it('should add an API key header', () => {
+      const result = applyAuthToCurl(curl, {
+        config: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        credential: 'key123',
+      });
+      expect(result).toContain("-H 'X-API-Key: key123'");
+    });
+
+    it('should add an API key query parameter', () => {
+      const result = applyAuthToCurl(curl, {
+        config: { type: 'apiKey', in: 'query', name: 'api_key' },
+        credential: 'key 123',
+      });
+      expect(result).toContain("'https://api.example.com/users?api_key=key%20123'");
+    });
+
+    it('should append to an existing query string', () => {
+      const result = applyAuthToCurl("curl 'https://api.example.com/users?page=2'", {
+        config: { type: 'apiKey', in: 'query', name: 'api_key' },
+        credential: 'k',
+      });
+      expect(result).toBe("curl 'https://api.example.com/users?page=2&api_key=k'");
+    });
+
+    it('should add a cookie header', () => {
+      const result = applyAuthToCurl(curl, {
+        config: { type: 'cookie', name: 'SESSIONID' },
+        credential: 's1',
+      });
+      expect(result).toContain("-H 'Cookie: SESSIONID=s1'");
+    });
+
+    it('should not override headers already present in the command', () => {
+      const withAuth = `${curl} -H 'authorization: Bearer existing'`;
+      const result = applyAuthToCurl(withAuth, { config: { type: 'bearer' }, credential: 'abc' });
+      expect(result).toBe(withAuth);
+    });
+
+    it('should leave the command untouched without credentials', () => {
+      expect(applyAuthToCurl(curl, null)).toBe(curl);
+      expect(applyAuthToCurl(curl, { config: { type: 'bearer' } })).toBe(curl);
+    });
+  });
+
+  describe('applyRedactedAuth', () => {
+    const request = { method: 'GET', url: 'https://api.example.com/users/{{id}}', headers: {} };
+
+    it('should add auth headers with their values masked', () => {
+      const result = applyRedactedAuth(
+        { ...request, headers: { authorization: 'Bearer leaked' } },
+        { config: { type: 'bearer' }, credential: 'secret' }
+      );
+      expect(result.headers).toEqual({ authorization: REDACTED });
+      expect(JSON.stringify(result)).not.toContain('secret');
+    });
+
+    it('should mask query credentials without encoding the rest of the URL', () => {
+      const auth = {
+        config: { type: 'apiKey', in: 'query', name: 'api_key' },
+        credential: 'k',
+      } as const;
+      expect(applyRedactedAuth(request, auth).url).toBe(
+        `https://api.example.com/users/{{id}}?api_key=${REDACTED}`
+      );
+      expect(
+        applyRedactedAuth(
+          { ...request, url: 'https://api.example.com/users?api_key=k&page=2' },
+          auth
+        ).url
+      ).toBe(`https://api.example.com/users?api_key=${REDACTED}&page=2`);
+    });
+  });
+});
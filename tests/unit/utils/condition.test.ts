@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  ConditionReference,
+  evaluateCondition,
+  getConditionReferences,
+  getPathValue,
+} from '@/lib/utils/condition';
+
+const data: Record<string, unknown> = {
+  status: 404,
+  tags: [],
+  users: [{ id: 'u1', role: 'admin' }],
+  name: 'Rex',
+  count: '3',
+  flags: { active: true },
+};
+
+const resolve = (reference: ConditionReference) =>
+  getPathValue(data[reference.root], reference.path);
+const evaluate = (expression: string) => evaluateCondition(expression, resolve);
+
+describe('Workflow conditions', () => {
+  it('should compare references with literals', () => {
+    expect(evaluate('status == 404')).toBe(true);
+    expect(evaluate('status === 404 && name != "Fido"')).toBe(true);
+    expect(evaluate("users[0].role == 'admin'")).toBe(true);
+    expect(evaluate("users[0]['id'] !== 'u1'")).toBe(false);
+    expect(evaluate('count >= 3 and count < 10')).toBe(true);
+    expect(evaluate('flags.active == true')).toBe(true);
+    expect(evaluate('missing == null')).toBe(true);
+  });
+
+  it('should combine conditions with precedence and parentheses', () => {
+    expect(evaluate('status == 200 || status == 404 && name == "Rex"')).toBe(true);
+    expect(evaluate('(status == 200 || status == 404) && name == "Fido"')).toBe(false);
+    expect(evaluate('!(status == 200) && not empty(users)')).toBe(true);
+  });
+
+  it('should treat empty values as false and support functions', () => {
+    expect(evaluate('tags')).toBe(false);
+    expect(evaluate('users')).toBe(true);
+    expect(evaluate('tags.length == 0 && users.length == 1')).toBe(true);
+    expect(evaluate('empty(tags) && exists(name) && !exists(missing)')).toBe(true);
+    expect(evaluate("length(name) == 3 && contains(name, 'ex')")).toBe(true);
+    expect(evaluate('contains(tags, 1)')).toBe(false);
+  });
+
+  it('should reject malformed conditions instead of running them', () => {
+    expect(() => evaluate('')).toThrow('Invalid condition "": Empty condition');
+    expect(() => evaluate('status ==')).toThrow('Unexpected end of condition');
+    expect(() => evaluate('(status == 404')).toThrow('Expected ")"');
+    expect(() => evaluate('status = 404')).toThrow('Unexpected "=" at position 8');
+    expect(() => evaluate('process.exit(1)')).toThrow('Unknown function "process.exit"');
+    expect(() => evaluate('status == 404 name')).toThrow('Unexpected "name"');
+  });
+
+  it('should list the references a condition reads', () => {
+    expect(
+      getConditionReferences("empty(step1_tags) || step2[0].name == 'x' && !status").map(
+        reference => reference.raw
+      )
+    ).toEqual(['step1_tags', 'step2[0].name', 'status']);
+    expect(getConditionReferences('step2[0].name')[0]).toEqual({
+      raw: 'step2[0].name',
+      root: 'step2',
+      path: [0, 'name'],
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+
+import { nextCronRun, parseCron, validateCron } from '@/lib/utils/cron';
+
+const next = (expression: string, after: string) =>
+  nextCronRun(expression, new Date(after))?.toISOString() ?? null;
+
+describe('Cron expressions', () => {
+  it('should parse lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17 1,15 JAN-MAR mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.size).toBe(9);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should explain invalid expressions', () => {
+    expect(validateCron('0 0 * *')).toBe(
+      'Expected 5 fields: minute hour day-of-month month day-of-week'
+    );
+    expect(validateCron('60 * * * *')).toBe('Invalid minute "60" (expected 0-59)');
+    expect(validateCron('*/0 * * * *')).toBe('Invalid step "0" in minute');
+    expect(validateCron('0 5-2 * * *')).toBe('Invalid range "5-2" in hour');
+    expect(validateCron('@daily')).toBeNull();
+  });
+
+  it('should find the next run after a time, in UTC', () => {
+    expect(next('0 2 * * *', '2026-03-10T01:59:30Z')).toBe('2026-03-10T02:00:00.000Z');
+    expect(next('0 2 * * *', '2026-03-10T02:00:00Z')).toBe('2026-03-11T02:00:00.000Z');
+    expect(next('@hourly', '2026-12-31T23:30:00Z')).toBe('2027-01-01T00:00:00.000Z');
+    expect(next('30 9 * * MON', '2026-10-15T12:00:00Z')).toBe('2026-10-19T09:30:00.000Z');
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Friday
+    expect(next('0 0 1 * FRI', '2026-10-19T00:00:00Z')).toBe('2026-10-23T00:00:00.000Z');
+    expect(next('0 0 1 * FRI', '2026-10-30T00:00:00Z')).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('should treat day fields starting with * as unrestricted', () => {
+    // Mondays on odd days of the month, not every odd day or every Monday
+    expect(parseCron('0 0 */2 * 1').anyDayOfMonth).toBe(true);
+    expect(next('0 0 */2 * 1', '2026-10-19T00:00:00Z')).toBe('2026-11-09T00:00:00.000Z');
+    expect(next('0 0 1 * */2', '2026-10-19T00:00:00Z')).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('should return null for expressions that never run', () => {
+    expect(next('0 0 30 2 *', '2026-01-01T00:00:00Z')).toBeNull();
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi } from 'vitest';
 
-import { executeCurl, extractTokenFromResponse, validateCurlCommand } from '@/lib/utils/curl';
+import {
+  executeCurl,
+  extractTokenFromResponse,
+  parseCurl,
+  toCurl,
+  validateCurlCommand,
+} from '@/lib/utils/curl';
 
 describe('Curl Utilities', () => {
   describe('validateCurlCommand', () => {
@@ -122,6 +128,174 @@ describe('Curl Utilities', () => {
     });
   });
 
+  describe('validateCurlCommand rules', () => {
+    it('should allow shell characters inside quoted arguments', () => {
+      expect(validateCurlCommand("curl 'http://api.com/items?a=1&b=2'").valid).toBe(true);
+      expect(validateCurlCommand(`curl -d '{"price":"$5; cheap"}' http://api.com`).valid).toBe(
+        true
+      );
+    });
+
+    it('should reject data and cookies read from files', () => {
+      expect(validateCurlCommand('curl -d @/etc/passwd http://api.com').error).toContain(
+        'from files'
+      );
+      expect(validateCurlCommand('curl -b cookies.txt http://api.com').error).toContain(
+        'from files'
+      );
+    });
+
+    it('should reject dangerous flags inside short option clusters', () => {
+      const result = validateCurlCommand('curl -so out.json http://api.com');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('-o');
+    });
+
+    it('should reject unsupported options and protocols', () => {
+      expect(validateCurlCommand('curl --frobnicate http://api.com').error).toBe(
+        'Unsupported curl option: --frobnicate'
+      );
+      expect(validateCurlCommand('curl file:///etc/passwd').error).toContain('protocol');
+      expect(validateCurlCommand('curl -X GET').error).toBe('No URL found in curl command');
+    });
+  });
+
+  describe('parseCurl', () => {
+    it('should parse method, URL, headers and body', () => {
+      const request = parseCurl(
+        `curl -X POST 'https://api.example.com/users' -H 'Content-Type: application/json' -H "Authorization: Bearer abc" -d '{"name":"O'\\''Brien"}'`
+      );
+
+      expect(request).toEqual({
+        method: 'POST',
+        url: 'https://api.example.com/users',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc' },
+        body: `{"name":"O'Brien"}`,
+        followRedirects: false,
+      });
+    });
+
+    it('should default the method and content type from the data', () => {
+      const request = parseCurl('curl -sS api.example.com/login -d user=a -d pass=b');
+      expect(request.method).toBe('POST');
+      expect(request.url).toBe('http://api.example.com/login');
+      expect(request.body).toBe('user=a&pass=b');
+      expect(request.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    });
+
+    it('should handle --json, -G, -I and -L', () => {
+      const json = parseCurl(`curl --json '{"a":1}' https://api.example.com/items`);
+      expect(json.headers).toEqual({
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      });
+
+      const get = parseCurl(
+        "curl -G 'https://api.example.com/search?page=1' --data-urlencode 'q=a b'"
+      );
+      expect(get.method).toBe('GET');
+      expect(get.url).toBe('https://api.example.com/search?page=1&q=a%20b');
+      expect(get.body).toBeUndefined();
+
+      expect(parseCurl('curl -I https://api.example.com').method).toBe('HEAD');
+      expect(parseCurl('curl -L -XDELETE https://api.example.com/a/1')).toMatchObject({
+        method: 'DELETE',
+        followRedirects: true,
+      });
+    });
+
+    it('should turn -u, -b and -A into headers', () => {
+      const request = parseCurl(
+        "curl -u admin:secret -b 'sid=1' -b 'theme=dark' -A 'swaggbot' https://api.example.com"
+      );
+      expect(request.headers).toEqual({
+        Authorization: `Basic ${Buffer.from('admin:secret').toString('base64')}`,
+        Cookie: 'sid=1; theme=dark',
+        'User-Agent': 'swaggbot',
+      });
+    });
+  });
+
+  describe('parseCurl form and file data', () => {
+    it('should parse -F fields and session file references', () => {
+      const request = parseCurl(
+        "curl https://api.example.com/pets/1/photo -F 'caption=My cat' -F 'photo=@cat.png;type=image/png;filename=\"c.png\"'"
+      );
+
+      expect(request.method).toBe('POST');
+      expect(request.body).toBeUndefined();
+      expect(request.form).toEqual([
+        { name: 'caption', value: 'My cat' },
+        { name: 'photo', file: { name: 'cat.png', contentType: 'image/png', filename: 'c.png' } },
+      ]);
+    });
+
+    it('should send --data-binary @name as a file body', () => {
+      const request = parseCurl(
+        "curl -X PUT https://api.example.com/files -H 'Content-Type: image/png' --data-binary @cat.png"
+      );
+      expect(request.bodyFile).toEqual({ name: 'cat.png' });
+      expect(request.body).toBeUndefined();
+    });
+
+    it('should reject file content fields and mixed body options', () => {
+      expect(validateCurlCommand("curl -F 'bio=<bio.txt' http://api.com").error).toContain(
+        'from files'
+      );
+      expect(validateCurlCommand("curl -F 'a=1' -d 'b=2' http://api.com").error).toContain(
+        'Only one of'
+      );
+      expect(validateCurlCommand('curl --data-binary @- http://api.com').error).toContain('stdin');
+    });
+  });
+
+  describe('toCurl', () => {
+    it('should render a request that parses back to itself', () => {
+      const request = {
+        method: 'PUT',
+        url: 'https://api.example.com/notes/1?draft=true&x=1',
+        headers: { 'Content-Type': 'application/json', 'X-Note': "it's" },
+        body: `{"text":"it's $HOME"}`,
+        followRedirects: true,
+      };
+
+      const curl = toCurl(request);
+      expect(curl).toBe(
+        `curl -X PUT 'https://api.example.com/notes/1?draft=true&x=1' -L -H 'Content-Type: application/json' -H 'X-Note: it'\\''s' -d '{"text":"it'\\''s $HOME"}'`
+      );
+      expect(parseCurl(curl)).toEqual(request);
+    });
+  });
+
+  describe('toCurl form and file data', () => {
+    it('should render multipart fields and file bodies that parse back to themselves', () => {
+      const multipart = {
+        method: 'POST',
+        url: 'https://api.example.com/upload',
+        headers: {},
+        form: [
+          { name: 'handle', value: '@swaggbot' },
+          { name: 'doc', file: { name: 'spec.yaml', contentType: 'text/yaml' } },
+        ],
+        followRedirects: false,
+      };
+      const curl = toCurl(multipart);
+      expect(curl).toBe(
+        "curl -X POST 'https://api.example.com/upload' --form-string 'handle=@swaggbot' -F 'doc=@spec.yaml;type=text/yaml'"
+      );
+      expect(parseCurl(curl)).toEqual(multipart);
+
+      expect(
+        toCurl({
+          method: 'PUT',
+          url: 'https://api.example.com/a',
+          headers: {},
+          bodyFile: { name: 'a.bin' },
+        })
+      ).toBe("curl -X PUT 'https://api.example.com/a' --data-binary '@a.bin'");
+    });
+  });
+
   describe('extractTokenFromResponse', () => {
     it('should extract token from simple path', () => {
       const response = { access_token: 'token123' };
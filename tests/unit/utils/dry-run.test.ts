@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+
+import { SwaggerDoc } from '@/lib/types';
+import { REDACTED } from '@/lib/utils/auth';
+import {
+  findUnresolvedPlaceholders,
+  formatDryRunRequests,
+  previewRequest,
+} from '@/lib/utils/dry-run';
+
+const doc = {
+  openapi: '3.0.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths: {
+    '/teams/{teamId}/users': {
+      post: {
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { age: { type: 'integer' } } },
+            },
+          },
+        },
+      },
+    },
+  },
+} as unknown as SwaggerDoc;
+
+describe('Dry runs', () => {
+  const request = {
+    method: 'post',
+    url: 'https://api.example.com/teams/%7B%7Bstep1_id%7D%7D/users',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: '{{step2_name}}', age: 'old' }),
+  };
+
+  it('should list the placeholders left in a request', () => {
+    expect(findUnresolvedPlaceholders(request)).toEqual(['step1_id', 'step2_name']);
+  });
+
+  it('should preview a request with redacted credentials and schema errors', () => {
+    const preview = previewRequest(request, {
+      description: 'Add a user',
+      swaggerDoc: doc,
+      auth: { config: { type: 'bearer' }, credential: 'secret' },
+      step: 2,
+    });
+
+    expect(preview).toMatchObject({
+      step: 2,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: REDACTED },
+      operation: 'POST /teams/{teamId}/users',
+      errors: ['body.age: Expected an integer'],
+      unresolved: ['step1_id', 'step2_name'],
+    });
+    expect(preview.curl).toContain(`Authorization: ${REDACTED}`);
+    expect(JSON.stringify(preview)).not.toContain('secret');
+
+    const text = formatDryRunRequests([preview]);
+    expect(text).toContain('### Dry run: 1 request, nothing was sent (1 with schema errors)');
+    expect(text).toContain('**Step 2:** Add a user — `POST /teams/{teamId}/users`');
+    expect(text).toContain('- ❌ body.age: Expected an integer');
+  });
+});
@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildEndpointIndex,
+  buildSearchQuery,
+  searchEndpoints,
+  tokenize,
+} from '@/lib/utils/endpoint-index';
+
+const doc = {
+  openapi: '3.0.0',
+  info: { title: 'Gateway', version: '1.0.0' },
+  paths: {
+    '/users': {
+      get: { operationId: 'listUsers', summary: 'List users', tags: ['Users'] },
+      post: { operationId: 'createUser', summary: 'Create a user', tags: ['Users'] },
+    },
+    '/users/{userId}/orders': {
+      parameters: [{ name: 'userId', in: 'path', required: true }],
+      get: { operationId: 'listUserOrders', summary: 'Orders placed by a user', tags: ['Orders'] },
+    },
+    '/invoices/{invoiceId}': {
+      delete: { operationId: 'deleteInvoice', summary: 'Void an invoice', tags: ['Billing'] },
+    },
+    '/health': {
+      get: { summary: 'Health check' },
+    },
+  },
+} as any;
+
+describe('Endpoint Index', () => {
+  describe('tokenize', () => {
+    it('should split identifiers and paths and drop stop words', () => {
+      expect(tokenize('listUserOrders')).toEqual(['list', 'user', 'order']);
+      expect(tokenize('/users/{userId}/orders')).toEqual(['user', 'user', 'id', 'order']);
+      expect(tokenize('Show me the categories')).toEqual(['show', 'category']);
+    });
+  });
+
+  describe('buildEndpointIndex', () => {
+    it('should index every operation but skip path-level keys', () => {
+      const index = buildEndpointIndex(doc);
+      expect(index.endpoints.map(e => e.key)).toEqual([
+        'GET /users',
+        'POST /users',
+        'GET /users/{userId}/orders',
+        'DELETE /invoices/{invoiceId}',
+        'GET /health',
+      ]);
+      expect(index.endpoints[0]).toMatchObject({ operationId: 'listUsers', tags: ['Users'] });
+    });
+  });
+
+  describe('searchEndpoints', () => {
+    const index = buildEndpointIndex(doc);
+
+    it('should rank the most relevant operations first', () => {
+      const results = searchEndpoints(index, 'what orders did user 42 place?', 3);
+      expect(results[0].key).toBe('GET /users/{userId}/orders');
+    });
+
+    it('should use request verbs to prefer the matching method', () => {
+      expect(searchEndpoints(index, 'create a new user named Bob', 1)[0].key).toBe('POST /users');
+      expect(searchEndpoints(index, 'remove invoice 7', 1)[0].key).toBe(
+        'DELETE /invoices/{invoiceId}'
+      );
+    });
+
+    it('should limit the results and drop operations without matching terms', () => {
+      const results = searchEndpoints(index, 'users', 10);
+      expect(results.map(r => r.key)).not.toContain('GET /health');
+      expect(searchEndpoints(index, 'users', 1)).toHaveLength(1);
+      expect(searchEndpoints(index, 'weather forecast', 5)).toEqual([]);
+    });
+  });
+
+  describe('buildSearchQuery', () => {
+    it('should include recent user turns', () => {
+      const query = buildSearchQuery('now for id 5', [
+        { role: 'user', content: 'first question' },
+        { role: 'user', content: 'show invoices' },
+        { role: 'assistant', content: 'Here are the invoices' },
+        { role: 'user', content: 'delete invoice 4' },
+      ]);
+      expect(query).toBe('show invoices\ndelete invoice 4\nnow for id 5');
+    });
+  });
+});
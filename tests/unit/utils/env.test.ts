@@ -0,0 +1,24 @@
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { readIntEnv } from '@/lib/utils/env';
+
+describe('readIntEnv', () => {
+  afterEach(() => {
+    delete process.env.TEST_INT_SETTING;
+  });
+
+  it('should read whole numbers', () => {
+    process.env.TEST_INT_SETTING = '8';
+    expect(readIntEnv('TEST_INT_SETTING', 4)).toBe(8);
+    process.env.TEST_INT_SETTING = '0';
+    expect(readIntEnv('TEST_INT_SETTING', 500, 0)).toBe(0);
+  });
+
+  it('should fall back to the default for unset, malformed and too small values', () => {
+    expect(readIntEnv('TEST_INT_SETTING', 4)).toBe(4);
+    for (const value of ['', 'abc', '0', '-2']) {
+      process.env.TEST_INT_SETTING = value;
+      expect(readIntEnv('TEST_INT_SETTING', 4)).toBe(4);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowStep } from '@/lib/types';
+import {
+  applyItemTemplate,
+  filterItems,
+  isItemPlaceholder,
+  mapWithConcurrency,
+} from '@/lib/utils/for-each';
+
+describe('forEach helpers', () => {
+  const users = [
+    { id: 1, name: 'Ann', role: { name: 'admin' } },
+    { id: 2, name: 'Bob', role: { name: 'user' } },
+    { id: 3, name: 'Cid', role: { name: 'admin' } },
+  ];
+
+  it('should filter items by field value', () => {
+    expect(filterItems(users, '[role.name=admin]').map(user => user.id)).toEqual([1, 3]);
+    expect(filterItems(users, 'id=2')).toEqual([users[1]]);
+    expect(filterItems(users)).toBe(users);
+    expect(() => filterItems(users, 'admin')).toThrow('Invalid forEach filter');
+  });
+
+  it('should fill item placeholders in the endpoint, body and body file', () => {
+    const step: WorkflowStep = {
+      stepNumber: 2,
+      description: 'Copy users',
+      action: {
+        endpoint: '/users/{{item.id}}/orders?n={{index}}',
+        method: 'POST',
+        purpose: '',
+        body: {
+          owner: '{{item}}',
+          ownerId: '{{ item.id }}',
+          label: 'User {{item.name}} ({{item.role}})',
+          role: '{{role_id}}',
+          nested: [{ missing: '{{item.nope}}' }],
+        },
+        bodyFile: '{{item.name}}.png',
+      },
+      forEach: { source: 'step1' },
+    };
+
+    const templated = applyItemTemplate(step, users[0], 0);
+    expect(templated.forEach).toBeUndefined();
+    expect(templated.action).toMatchObject({
+      endpoint: '/users/1/orders?n=0',
+      bodyFile: 'Ann.png',
+      body: {
+        owner: users[0],
+        ownerId: 1,
+        label: 'User Ann ({"name":"admin"})',
+        // Other placeholders are resolved later from extracted data
+        role: '{{role_id}}',
+        nested: [{ missing: '{{item.nope}}' }],
+      },
+    });
+  });
+
+  it('should recognize item placeholders', () => {
+    expect(['item', 'item.id', 'item[0].id', 'index'].every(isItemPlaceholder)).toBe(true);
+    expect(['items', 'item_id', 'step1_id'].some(isItemPlaceholder)).toBe(false);
+  });
+
+  it('should limit the tasks in flight', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const seen: number[] = [];
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (item, index) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      seen[index] = item;
+      active--;
+    });
+
+    expect(maxActive).toBe(2);
+    expect(seen).toEqual([1, 2, 3, 4, 5]);
+  });
+});
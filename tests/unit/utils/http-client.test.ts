@@ -0,0 +1,254 @@
+// @vitest-environment node
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+
+import { executeCurl } from '@/lib/utils/curl';
+import { executeRequest, getHeader } from '@/lib/utils/http-client';
+
+describe('HTTP client', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        if (req.url === '/raw') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ contentType: req.headers['content-type'] || null, body }));
+        } else if (req.url === '/echo') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ method: req.method, headers: req.headers, body: body || null }));
+        } else if (req.url === '/created') {
+          res.setHeader('Set-Cookie', ['sid=abc; HttpOnly', 'theme=dark']);
+          res.writeHead(201, { Location: '/items/7', ETag: '"v1"' });
+          res.end('{"id":7,"name":"Café"}');
+        } else if (req.url === '/text') {
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end('plain text\n');
+        } else if (req.url === '/pets.xml') {
+          res.writeHead(200, { 'Content-Type': 'application/xml' });
+          res.end('<pets><pet><id>1</id></pet><pet><id>2</id></pet></pets>');
+        } else if (req.url === '/pets.csv') {
+          res.writeHead(200, { 'Content-Type': 'text/csv; charset=utf-8' });
+          res.end('id,name\n1,Rex\n');
+        } else if (req.url === '/photo') {
+          res.writeHead(200, {
+            'Content-Type': 'image/png',
+            'Content-Disposition': 'attachment; filename="rex.png"',
+          });
+          res.end(Buffer.from([137, 80, 78, 71, 0, 255]));
+        } else if (req.url === '/redirect') {
+          res.writeHead(302, { Location: '/text' });
+          res.end();
+        } else if (req.url === '/slow') {
+          setTimeout(() => res.end('late'), 500);
+        } else {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end('{"error":"Not found"}');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should send the method, headers and body and parse JSON responses', async () => {
+    const result = await executeRequest({
+      method: 'POST',
+      url: `${baseUrl}/echo`,
+      headers: { 'Content-Type': 'application/json', 'X-Trace': 'abc' },
+      body: '{"name":"test"}',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.httpCode).toBe(200);
+    expect(result.response).toMatchObject({
+      method: 'POST',
+      headers: { 'x-trace': 'abc', 'content-type': 'application/json' },
+      body: '{"name":"test"}',
+    });
+  });
+
+  it('should capture response headers, timings and size', async () => {
+    const result = await executeRequest({ method: 'POST', url: `${baseUrl}/created`, headers: {} });
+
+    expect(result.httpCode).toBe(201);
+    expect(result.meta?.headers).toMatchObject({
+      location: '/items/7',
+      etag: '"v1"',
+      'set-cookie': 'sid=abc; HttpOnly\ntheme=dark',
+    });
+    // Byte size, not string length ("é" is two bytes)
+    expect(result.meta?.sizeBytes).toBe(23);
+    expect(result.meta?.ttfbMs).toBeGreaterThanOrEqual(0);
+    expect(result.meta?.durationMs).toBeGreaterThanOrEqual(result.meta!.ttfbMs);
+  });
+
+  it('should return text responses as strings', async () => {
+    const result = await executeRequest({ method: 'GET', url: `${baseUrl}/text`, headers: {} });
+    expect(result.response).toBe('plain text');
+    expect(result.stdout).toBe('plain text');
+  });
+
+  it('should report HTTP errors without throwing', async () => {
+    const result = await executeRequest({ method: 'GET', url: `${baseUrl}/missing`, headers: {} });
+    expect(result.success).toBe(false);
+    expect(result.httpCode).toBe(404);
+    expect(result.response).toEqual({ error: 'Not found' });
+  });
+
+  it('should parse XML and CSV responses into structures', async () => {
+    const xml = await executeRequest({ method: 'GET', url: `${baseUrl}/pets.xml`, headers: {} });
+    expect(xml.response).toEqual([{ id: '1' }, { id: '2' }]);
+    expect(xml.stdout).toBe('<pets><pet><id>1</id></pet><pet><id>2</id></pet></pets>');
+    expect(xml.meta?.format).toBe('xml');
+
+    const csv = await executeRequest({ method: 'GET', url: `${baseUrl}/pets.csv`, headers: {} });
+    expect(csv.response).toEqual([{ id: '1', name: 'Rex' }]);
+    expect(csv.meta?.format).toBe('csv');
+  });
+
+  it('should hand binary responses to the artifact saver', async () => {
+    const request = { method: 'GET', url: `${baseUrl}/photo`, headers: {} };
+    const saved: Array<{ name: string; contentType: string; data: Uint8Array }> = [];
+
+    const result = await executeRequest(request, {
+      saveArtifact: async file => {
+        saved.push(file);
+        return {
+          type: 'artifact',
+          name: file.name,
+          contentType: file.contentType,
+          size: 6,
+          url: '/f/1',
+        };
+      },
+    });
+    expect(saved).toHaveLength(1);
+    expect(saved[0].name).toBe('rex.png');
+    expect(Array.from(saved[0].data)).toEqual([137, 80, 78, 71, 0, 255]);
+    expect(result.response).toMatchObject({ type: 'artifact', name: 'rex.png', url: '/f/1' });
+    expect(result.stdout).toBe('[binary response: image/png, 6 B]');
+    expect(result.meta).toMatchObject({ format: 'binary', sizeBytes: 6 });
+
+    // Without a saver (or when saving fails) the body is only described
+    const unsaved = await executeRequest(request, {
+      saveArtifact: async () => {
+        throw new Error('File is too large');
+      },
+    });
+    expect(unsaved.success).toBe(true);
+    expect(unsaved.response).toEqual({
+      type: 'artifact',
+      name: 'rex.png',
+      contentType: 'image/png',
+      size: 6,
+    });
+  });
+
+  it('should only follow redirects when asked to', async () => {
+    const request = { method: 'GET', url: `${baseUrl}/redirect`, headers: {} };
+
+    expect((await executeRequest(request)).httpCode).toBe(302);
+    expect((await executeRequest({ ...request, followRedirects: true })).response).toBe(
+      'plain text'
+    );
+  });
+
+  it('should report timeouts and connection failures', async () => {
+    const slow = await executeRequest(
+      { method: 'GET', url: `${baseUrl}/slow`, headers: {} },
+      { timeout: 50 }
+    );
+    expect(slow.success).toBe(false);
+    expect(slow.httpCode).toBe(0);
+    expect(slow.stderr).toBe('Request timed out after 50ms');
+    expect(slow.meta).toBeUndefined();
+    expect(slow.networkError).toBe(true);
+
+    const refused = await executeRequest({
+      method: 'GET',
+      url: 'http://127.0.0.1:1/unreachable',
+      headers: {},
+    });
+    expect(refused.success).toBe(false);
+    expect(refused.stderr).toMatch(/^Request failed/);
+  });
+
+  it('should abort requests when their signal does', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const cancelled = await executeRequest(
+      { method: 'GET', url: `${baseUrl}/slow`, headers: {} },
+      { signal: controller.signal }
+    );
+    expect(cancelled.success).toBe(false);
+    expect(cancelled.httpCode).toBe(0);
+    expect(cancelled.stderr).toBe('Request cancelled');
+  });
+
+  it('should execute curl commands through the parser', async () => {
+    const result = await executeCurl(`curl -X PATCH '${baseUrl}/echo' --json '{"done":true}'`);
+    expect(result.response).toMatchObject({
+      method: 'PATCH',
+      headers: { accept: 'application/json' },
+      body: '{"done":true}',
+    });
+
+    const invalid = await executeCurl(`curl -o out.json ${baseUrl}/echo`);
+    expect(invalid.success).toBe(false);
+    expect(invalid.stderr).toContain('-o');
+  });
+
+  it('should send multipart parts and file bodies from session files', async () => {
+    const loadFile = async (name: string) =>
+      name === 'note.txt'
+        ? { name, contentType: 'text/plain', data: new TextEncoder().encode('hello file') }
+        : null;
+
+    const multipart = await executeRequest(
+      {
+        method: 'POST',
+        url: `${baseUrl}/raw`,
+        headers: { 'Content-Type': 'multipart/form-data' },
+        form: [
+          { name: 'title', value: 'Notes' },
+          { name: 'doc', file: { name: 'note.txt', filename: 'renamed.txt' } },
+        ],
+      },
+      { loadFile }
+    );
+    const echoed = multipart.response as { contentType: string; body: string };
+    expect(echoed.contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(echoed.body).toContain('name="title"\r\n\r\nNotes');
+    expect(echoed.body).toContain('filename="renamed.txt"');
+    expect(echoed.body).toContain('Content-Type: text/plain\r\n\r\nhello file');
+
+    const raw = await executeRequest(
+      { method: 'PUT', url: `${baseUrl}/raw`, headers: {}, bodyFile: { name: 'note.txt' } },
+      { loadFile }
+    );
+    expect(raw.response).toEqual({ contentType: 'text/plain', body: 'hello file' });
+
+    const missing = await executeRequest(
+      { method: 'PUT', url: `${baseUrl}/raw`, headers: {}, bodyFile: { name: 'gone.bin' } },
+      { loadFile }
+    );
+    expect(missing.success).toBe(false);
+    expect(missing.stderr).toBe('File not found in session: gone.bin');
+    expect(missing.networkError).toBeUndefined();
+  });
+
+  it('should look up headers case-insensitively', () => {
+    expect(getHeader({ 'content-type': 'text/xml' }, 'Content-Type')).toBe('text/xml');
+    expect(getHeader({}, 'Accept')).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+
+import {
+  BUNDLED_FILES_KEY,
+  bundleExternalRefs,
+  deref,
+  findSpecRoot,
+  mergeAllOf,
+  refName,
+  resolveOperationParameters,
+  resolveRef,
+} from '@/lib/utils/openapi-refs';
+
+const doc = {
+  openapi: '3.0.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' } },
+      },
+      Dog: {
+        allOf: [
+          { $ref: '#/components/schemas/Pet' },
+          { type: 'object', required: ['breed'], properties: { breed: { type: 'string' } } },
+        ],
+      },
+      Alias: { $ref: '#/components/schemas/Pet' },
+      Node: {
+        type: 'object',
+        properties: { next: { $ref: '#/components/schemas/Node' } },
+      },
+      'a/b': { type: 'string' },
+    },
+    parameters: {
+      Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } },
+    },
+  },
+} as any;
+
+describe('OpenAPI ref utilities', () => {
+  describe('resolveRef', () => {
+    it('should resolve local refs and escaped pointer segments', () => {
+      expect(resolveRef('#/components/schemas/Pet', doc)).toBe(doc.components.schemas.Pet);
+      expect(resolveRef('#/components/schemas/a~1b', doc)).toEqual({ type: 'string' });
+    });
+
+    it('should return null for external or dangling refs', () => {
+      expect(resolveRef('./pet.yaml#/Pet', doc)).toBeNull();
+      expect(resolveRef('#/components/schemas/Missing', doc)).toBeNull();
+    });
+  });
+
+  describe('refName', () => {
+    it('should return the last pointer segment', () => {
+      expect(refName('#/components/schemas/Pet')).toBe('Pet');
+      expect(refName('./schemas/pet.yaml#/Pet')).toBe('Pet');
+    });
+  });
+
+  describe('deref', () => {
+    it('should follow ref chains', () => {
+      const result = deref({ $ref: '#/components/schemas/Alias' }, doc);
+      expect(result.value).toBe(doc.components.schemas.Pet);
+      expect(result.ref).toBe('#/components/schemas/Pet');
+      expect(result.seen.has('#/components/schemas/Alias')).toBe(true);
+    });
+
+    it('should detect cycles against refs already being expanded', () => {
+      const first = deref({ $ref: '#/components/schemas/Node' }, doc);
+      const cyclic = deref((first.value!.properties as any).next, doc, first.seen);
+      expect(cyclic.circular).toBe(true);
+      expect(cyclic.value).toBeNull();
+    });
+
+    it('should flag external refs', () => {
+      const result = deref({ $ref: 'https://example.com/pet.json' }, doc);
+      expect(result.external).toBe(true);
+      expect(result.value).toBeNull();
+    });
+  });
+
+  describe('mergeAllOf', () => {
+    it('should merge properties and required fields of all members', () => {
+      const merged = mergeAllOf(doc.components.schemas.Dog, doc);
+      expect(merged.type).toBe('object');
+      expect(Object.keys(merged.properties as object)).toEqual(['name', 'breed']);
+      expect(merged.required).toEqual(['name', 'breed']);
+    });
+
+    it('should skip members that reference a schema already being expanded', () => {
+      const schema = { allOf: [{ $ref: '#/components/schemas/Pet' }] };
+      const merged = mergeAllOf(schema, doc, new Set(['#/components/schemas/Pet']));
+      expect(merged.properties).toBeUndefined();
+    });
+  });
+
+  describe('resolveOperationParameters', () => {
+    it('should resolve refs and inherit path-level parameters', () => {
+      const pathItem = {
+        parameters: [
+          { name: 'id', in: 'path', required: true },
+          { name: 'verbose', in: 'query' },
+        ],
+      };
+      const operation = {
+        parameters: [{ $ref: '#/components/parameters/Limit' }, { name: 'verbose', in: 'query' }],
+      };
+
+      const params = resolveOperationParameters(doc, pathItem, operation);
+      expect(params.map(p => p.name)).toEqual(['id', 'limit', 'verbose']);
+    });
+  });
+
+  describe('findSpecRoot', () => {
+    it('should pick the file declaring openapi or swagger', () => {
+      expect(
+        findSpecRoot({
+          'schemas/pet.yaml': 'Pet:\n  type: object\n',
+          'openapi.yaml': 'openapi: 3.0.0\npaths: {}\n',
+        })
+      ).toBe('openapi.yaml');
+      expect(findSpecRoot({ 'api.json': '{"swagger":"2.0","paths":{}}' })).toBe('api.json');
+      expect(findSpecRoot({ 'a.yaml': 'type: object' })).toBeNull();
+    });
+  });
+
+  describe('bundleExternalRefs', () => {
+    const root = {
+      openapi: '3.0.0',
+      info: { title: 'Bundle', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': { schema: { $ref: './schemas/pet.yaml#/Pet' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    } as any;
+
+    const files = {
+      'schemas/pet.yaml': {
+        Pet: {
+          type: 'object',
+          properties: {
+            owner: { $ref: '../common/owner.yaml' },
+            parent: { $ref: '#/Pet' },
+          },
+        },
+      },
+      'common/owner.yaml': { type: 'object', properties: { name: { type: 'string' } } },
+    };
+
+    it('should rewrite relative file refs to bundled local pointers', () => {
+      const bundled = bundleExternalRefs(root, files) as any;
+      const schemaRef =
+        bundled.paths['/pets'].get.responses['200'].content['application/json'].schema.$ref;
+
+      expect(schemaRef).toBe(`#/${BUNDLED_FILES_KEY}/schemas~1pet.yaml/Pet`);
+      expect(resolveRef(schemaRef, bundled)?.type).toBe('object');
+    });
+
+    it('should resolve nested and self refs relative to the referencing file', () => {
+      const bundled = bundleExternalRefs(root, files) as any;
+      const pet = resolveRef(`#/${BUNDLED_FILES_KEY}/schemas~1pet.yaml/Pet`, bundled) as any;
+
+      expect(pet.properties.owner.$ref).toBe(`#/${BUNDLED_FILES_KEY}/common~1owner.yaml`);
+      expect(pet.properties.parent.$ref).toBe(`#/${BUNDLED_FILES_KEY}/schemas~1pet.yaml/Pet`);
+      expect(resolveRef(pet.properties.owner.$ref, bundled)?.properties).toEqual({
+        name: { type: 'string' },
+      });
+    });
+
+    it('should leave refs to missing files untouched', () => {
+      const bundled = bundleExternalRefs(root, {}) as any;
+      expect(bundled[BUNDLED_FILES_KEY]).toBeUndefined();
+      expect(
+        bundled.paths['/pets'].get.responses['200'].content['application/json'].schema.$ref
+      ).toBe('./schemas/pet.yaml#/Pet');
+    });
+  });
+});
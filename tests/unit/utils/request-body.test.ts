@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+
+import { SwaggerDoc } from '@/lib/types';
+import {
+  buildRequestBody,
+  encodeRequestBody,
+  getBodyKind,
+  getRequestBodyTypes,
+  selectRequestBodyType,
+  toXml,
+} from '@/lib/utils/request-body';
+
+const openApiDoc = {
+  openapi: '3.0.0',
+  info: { title: 'Test', version: '1.0.0' },
+  paths: {
+    '/login': {
+      post: {
+        requestBody: {
+          content: { 'application/x-www-form-urlencoded': { schema: { type: 'object' } } },
+        },
+      },
+    },
+    '/pets/{petId}/photo': {
+      post: {
+        requestBody: {
+          content: {
+            'multipart/form-data': { schema: { type: 'object' } },
+            'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
+          },
+        },
+      },
+    },
+    '/pets': {
+      post: {
+        requestBody: {
+          content: {
+            'application/xml': { schema: { $ref: '#/components/schemas/Pet' } },
+            'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+          },
+        },
+      },
+    },
+  },
+  components: { schemas: { Pet: { type: 'object', xml: { name: 'pet' } } } },
+} as SwaggerDoc;
+
+const swagger2Doc = {
+  swagger: '2.0',
+  info: { title: 'Test', version: '1.0.0' },
+  consumes: ['application/json', 'application/xml'],
+  paths: {
+    '/pet/{petId}/uploadImage': {
+      post: {
+        consumes: ['multipart/form-data'],
+        parameters: [{ name: 'file', in: 'formData', type: 'file' }],
+      },
+    },
+    '/pet/{petId}': {
+      post: {
+        parameters: [
+          { name: 'name', in: 'formData', type: 'string' },
+          { name: 'status', in: 'formData', type: 'string' },
+        ],
+      },
+    },
+    '/pet': {
+      put: { parameters: [{ name: 'body', in: 'body', schema: { type: 'object' } }] },
+    },
+  },
+} as unknown as SwaggerDoc;
+
+describe('Request body encoding', () => {
+  describe('getRequestBodyTypes', () => {
+    it('should read OpenAPI 3 requestBody content types', () => {
+      expect(getRequestBodyTypes(openApiDoc, 'POST', '/login')).toEqual([
+        { contentType: 'application/x-www-form-urlencoded', xmlRoot: undefined },
+      ]);
+      expect(
+        getRequestBodyTypes(openApiDoc, 'post', '/pets/42/photo').map(type => type.contentType)
+      ).toEqual(['multipart/form-data', 'application/octet-stream']);
+      expect(getRequestBodyTypes(openApiDoc, 'POST', '/pets')[0]).toEqual({
+        contentType: 'application/xml',
+        xmlRoot: 'pet',
+      });
+    });
+
+    it('should derive Swagger 2 types from consumes and formData parameters', () => {
+      expect(getRequestBodyTypes(swagger2Doc, 'POST', '/pet/1/uploadImage')).toEqual([
+        { contentType: 'multipart/form-data' },
+      ]);
+      expect(getRequestBodyTypes(swagger2Doc, 'POST', '/pet/1')).toEqual([
+        { contentType: 'application/x-www-form-urlencoded' },
+      ]);
+      expect(getRequestBodyTypes(swagger2Doc, 'PUT', '/pet').map(type => type.contentType)).toEqual(
+        ['application/json', 'application/xml']
+      );
+    });
+
+    it('should return no types for unknown operations', () => {
+      expect(getRequestBodyTypes(openApiDoc, 'DELETE', '/pets')).toEqual([]);
+    });
+  });
+
+  describe('selectRequestBodyType', () => {
+    const types = getRequestBodyTypes(openApiDoc, 'POST', '/pets/1/photo');
+
+    it('should prefer JSON, then multipart for file fields and binary for file bodies', () => {
+      expect(
+        selectRequestBodyType(getRequestBodyTypes(openApiDoc, 'POST', '/pets'), {})
+      ).toMatchObject({ contentType: 'application/json' });
+      expect(selectRequestBodyType(types, { body: { photo: '@cat.png' } }).contentType).toBe(
+        'multipart/form-data'
+      );
+      expect(selectRequestBodyType(types, { bodyFile: 'cat.png' }).contentType).toBe(
+        'application/octet-stream'
+      );
+      expect(selectRequestBodyType([], {}).contentType).toBe('application/json');
+    });
+
+    it('should reject content types the operation does not accept', () => {
+      expect(() => selectRequestBodyType(types, { contentType: 'application/json' })).toThrow(
+        'not accepted'
+      );
+      expect(
+        selectRequestBodyType(types, { contentType: 'application/octet-stream' }).contentType
+      ).toBe('application/octet-stream');
+    });
+  });
+
+  describe('encodeRequestBody', () => {
+    it('should encode urlencoded forms with repeated array fields', () => {
+      expect(
+        encodeRequestBody(
+          { user: 'a b', tags: ['x', 'y'], meta: { n: 1 }, skip: null },
+          { contentType: 'application/x-www-form-urlencoded' }
+        )
+      ).toEqual({
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'user=a+b&tags=x&tags=y&meta=%7B%22n%22%3A1%7D',
+      });
+    });
+
+    it('should turn "@name" multipart values into session file parts', () => {
+      expect(
+        encodeRequestBody(
+          { photo: '@cat.png', caption: 'Cat', count: 2 },
+          { contentType: 'multipart/form-data' }
+        )
+      ).toEqual({
+        headers: {},
+        form: [
+          { name: 'photo', file: { name: 'cat.png' } },
+          { name: 'caption', value: 'Cat' },
+          { name: 'count', value: '2' },
+        ],
+      });
+    });
+
+    it('should serialize XML bodies under the schema root element', () => {
+      expect(
+        encodeRequestBody(
+          { name: 'Tom & Jerry', tags: ['a', 'b'] },
+          { contentType: 'application/xml', xmlRoot: 'pet' }
+        ).body
+      ).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><pet><name>Tom &amp; Jerry</name><tags>a</tags><tags>b</tags></pet>'
+      );
+      expect(toXml({ a: null })).toBe('<?xml version="1.0" encoding="UTF-8"?><root><a/></root>');
+    });
+
+    it('should require a session file for binary bodies', () => {
+      expect(() =>
+        encodeRequestBody({ data: 'x' }, { contentType: 'application/octet-stream' })
+      ).toThrow('session file');
+    });
+  });
+
+  describe('buildRequestBody', () => {
+    it('should send session files as the raw body', () => {
+      const types = getRequestBodyTypes(openApiDoc, 'POST', '/pets/1/photo');
+      expect(buildRequestBody(types, { bodyFile: 'cat.png' })).toEqual({
+        headers: { 'Content-Type': 'application/octet-stream' },
+        bodyFile: { name: 'cat.png' },
+      });
+      // Without spec information the file's own content type is used
+      expect(buildRequestBody([], { bodyFile: 'cat.png' })).toEqual({
+        headers: {},
+        bodyFile: { name: 'cat.png' },
+      });
+    });
+
+    it('should return null when there is no body', () => {
+      expect(buildRequestBody([], { body: {} })).toBeNull();
+    });
+  });
+
+  it('should classify media types', () => {
+    expect(getBodyKind('application/vnd.api+json; charset=utf-8')).toBe('json');
+    expect(getBodyKind('text/xml')).toBe('xml');
+    expect(getBodyKind('text/plain')).toBe('text');
+    expect(getBodyKind('image/png')).toBe('binary');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+
+import { HttpRequest, SwaggerDoc } from '@/lib/types';
+import { REDACTED } from '@/lib/utils/auth';
+import { validateRequest } from '@/lib/utils/request-validation';
+
+const doc = {
+  openapi: '3.0.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths: {
+    '/users': {
+      get: {
+        parameters: [
+          { name: 'limit', in: 'query', required: true, schema: { type: 'integer' } },
+          {
+            name: 'role',
+            in: 'query',
+            schema: { type: 'array', items: { type: 'string', enum: ['admin', 'member'] } },
+          },
+        ],
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/NewUser' } } },
+        },
+      },
+    },
+    '/users/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: {},
+    },
+    '/events': {
+      get: {
+        parameters: [
+          { name: 'X-Api-Key', in: 'header', required: true, schema: { type: 'string' } },
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string', format: 'uuid' } },
+          { name: 'since', in: 'query', schema: { type: 'string', format: 'date-time' } },
+        ],
+      },
+    },
+  },
+  components: {
+    schemas: {
+      NewUser: {
+        type: 'object',
+        required: ['name', 'age'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'integer' },
+          status: { type: 'string', enum: ['active', 'disabled'] },
+          email: { type: 'string', format: 'email' },
+          tags: { type: 'array', items: { type: 'string' } },
+          manager: { type: 'object', nullable: true, properties: { id: { type: 'integer' } } },
+        },
+      },
+    },
+  },
+} as unknown as SwaggerDoc;
+
+const request = (method: string, path: string, body?: unknown): HttpRequest => ({
+  method,
+  url: `https://api.example.com/v1${path}`,
+  headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+  ...(body !== undefined && { body: JSON.stringify(body) }),
+});
+
+describe('Request validation', () => {
+  it('should accept requests that match their operation', () => {
+    expect(validateRequest(doc, request('GET', '/users?limit=10&role=admin'))).toEqual({
+      operation: 'GET /users',
+      errors: [],
+    });
+    expect(
+      validateRequest(
+        doc,
+        request('POST', '/users', { name: 'Bob', age: 42, tags: ['a'], manager: null })
+      ).errors
+    ).toEqual([]);
+  });
+
+  it('should report unknown operations', () => {
+    expect(validateRequest(doc, request('DELETE', '/users/1'))).toEqual({
+      operation: null,
+      errors: ['The spec has no DELETE /v1/users/1 operation'],
+    });
+  });
+
+  it('should check path and query parameters against their schemas', () => {
+    expect(validateRequest(doc, request('GET', '/users/abc')).errors).toEqual([
+      'path.id: Expected an integer',
+    ]);
+    expect(validateRequest(doc, request('GET', '/users?role=owner')).errors).toEqual([
+      'query.limit: Required',
+      'query.role: Must be one of "admin", "member"',
+    ]);
+  });
+
+  it('should check JSON bodies for required fields, types, enums and unknown properties', () => {
+    expect(validateRequest(doc, request('POST', '/users')).errors).toEqual(['body: Required']);
+    expect(
+      validateRequest(
+        doc,
+        request('POST', '/users', { age: '42', status: 'gone', tags: [1], nickname: 'b' })
+      ).errors
+    ).toEqual([
+      'body.name: Required',
+      'body.age: Expected an integer',
+      'body.status: Must be one of "active", "disabled"',
+      'body.tags[0]: Expected a string',
+      'body.nickname: Not a property of this schema',
+    ]);
+  });
+
+  it('should check header parameters and string formats', () => {
+    const events = (headers: Record<string, string>, query = '') => ({
+      ...request('GET', `/events${query}`),
+      headers,
+    });
+
+    expect(
+      validateRequest(doc, events({ 'x-request-id': 'abc' }, '?since=yesterday')).errors
+    ).toEqual([
+      'header.X-Api-Key: Required',
+      'header.X-Request-Id: Not a valid uuid',
+      'query.since: Not a valid date-time',
+    ]);
+    expect(
+      validateRequest(
+        doc,
+        events(
+          { 'X-Api-Key': REDACTED, 'X-Request-Id': 'a3bb189e-8bf9-3888-9912-ace4e6543002' },
+          '?since=2024-05-01T10:00:00Z'
+        )
+      ).errors
+    ).toEqual([]);
+    expect(
+      validateRequest(doc, request('POST', '/users', { name: 'Bob', age: 42, email: 'bob' })).errors
+    ).toEqual(['body.email: Not a valid email']);
+  });
+
+  it('should not check values that are still placeholders', () => {
+    expect(validateRequest(doc, request('GET', '/users/{{step1_id}}')).errors).toEqual([]);
+    expect(
+      validateRequest(doc, request('POST', '/users', { name: 'Bob', age: '{{input.age}}' })).errors
+    ).toEqual([]);
+  });
+});
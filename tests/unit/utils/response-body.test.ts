@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  getArtifactName,
+  getResponseFormat,
+  isResponseArtifact,
+  parseCsv,
+  parseResponseBody,
+  parseXml,
+} from '@/lib/utils/response-body';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('Response body parsing', () => {
+  describe('getResponseFormat', () => {
+    it('should classify responses by Content-Type', () => {
+      const data = encode('x');
+      expect(getResponseFormat('application/problem+json', data)).toBe('json');
+      expect(getResponseFormat('application/xml; charset=utf-8', data)).toBe('xml');
+      expect(getResponseFormat('text/csv', data)).toBe('csv');
+      expect(getResponseFormat('text/html', data)).toBe('text');
+      expect(getResponseFormat('application/x-yaml', data)).toBe('text');
+      expect(getResponseFormat('image/svg+xml', data)).toBe('binary');
+      expect(getResponseFormat('application/pdf', data)).toBe('binary');
+      expect(getResponseFormat('application/octet-stream', data)).toBe('binary');
+    });
+
+    it('should sniff bodies without a Content-Type', () => {
+      expect(getResponseFormat(null, encode('{"a":1}'))).toBe('text');
+      expect(getResponseFormat(undefined, new Uint8Array([0xff, 0xd8, 0xff]))).toBe('binary');
+    });
+  });
+
+  describe('parseXml', () => {
+    it('should turn elements, attributes and repeated elements into values', () => {
+      expect(
+        parseXml(
+          '<?xml version="1.0"?><!-- pet --><Pet status="sold"><id>1</id><name>Tom &amp; Jerry</name>' +
+            '<tags><tag>a</tag><tag>b</tag></tags><note><![CDATA[<b>hi</b>]]></note><photo/></Pet>'
+        )
+      ).toEqual({
+        '@status': 'sold',
+        id: '1',
+        name: 'Tom & Jerry',
+        tags: ['a', 'b'],
+        note: '<b>hi</b>',
+        photo: null,
+      });
+    });
+
+    it('should return lists for roots wrapping repeated elements', () => {
+      expect(parseXml('<pets><pet><id>1</id></pet><pet><id>2</id></pet></pets>')).toEqual([
+        { id: '1' },
+        { id: '2' },
+      ]);
+      expect(parseXml('<ArrayOfPet><Pet><id>1</id></Pet></ArrayOfPet>')).toEqual([{ id: '1' }]);
+      expect(parseXml('<response><data><id>1</id></data></response>')).toEqual({
+        data: { id: '1' },
+      });
+    });
+
+    it('should keep text next to child elements', () => {
+      expect(parseXml('<p lang="en">Hello <b>world</b></p>')).toEqual({
+        '@lang': 'en',
+        b: 'world',
+        '#text': 'Hello',
+      });
+    });
+
+    it('should reject malformed documents', () => {
+      expect(() => parseXml('<a><b></a>')).toThrow('unexpected closing tag');
+      expect(() => parseXml('<a>')).toThrow('unclosed tag');
+      expect(() => parseXml('<a/><b/>')).toThrow('single root element');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should return one object per row keyed by the header', () => {
+      expect(parseCsv('id,name,bio\r\n1,Ann,"Likes ""quotes"", commas"\n2,Bob\n\n')).toEqual([
+        { id: '1', name: 'Ann', bio: 'Likes "quotes", commas' },
+        { id: '2', name: 'Bob', bio: '' },
+      ]);
+    });
+
+    it('should keep line breaks inside quoted fields and support other delimiters', () => {
+      expect(parseCsv('id\tnote\n1\t"two\nlines"', '\t')).toEqual([
+        { id: '1', note: 'two\nlines' },
+      ]);
+      expect(parseCsv('')).toEqual([]);
+    });
+  });
+
+  describe('parseResponseBody', () => {
+    it('should parse bodies according to their format', () => {
+      expect(parseResponseBody(encode('id,name\n7,Rex'), 'text/csv')).toEqual({
+        format: 'csv',
+        body: [{ id: '7', name: 'Rex' }],
+        text: 'id,name\n7,Rex',
+      });
+      expect(parseResponseBody(encode('<pet><id>7</id></pet>'), 'application/xml').body).toEqual({
+        id: '7',
+      });
+      expect(parseResponseBody(encode('{"id":7}'), 'text/plain')).toMatchObject({
+        format: 'json',
+        body: { id: 7 },
+      });
+    });
+
+    it('should fall back to text when a body does not parse', () => {
+      expect(parseResponseBody(encode('<html><br></html>'), 'text/xml')).toMatchObject({
+        format: 'text',
+        body: '<html><br></html>',
+      });
+      expect(parseResponseBody(encode('not json'), 'application/json').format).toBe('text');
+    });
+
+    it('should leave binary bodies unparsed', () => {
+      expect(parseResponseBody(new Uint8Array([137, 80, 78, 71]), 'image/png')).toEqual({
+        format: 'binary',
+        body: undefined,
+        text: '',
+      });
+      expect(parseResponseBody(new Uint8Array(0), 'image/png').format).toBe('text');
+    });
+  });
+
+  it('should name artifacts from Content-Disposition or the media type', () => {
+    const now = new Date('2026-03-01T12:30:45.000Z');
+    expect(getArtifactName('application/pdf', 'attachment; filename="report 1.pdf"')).toBe(
+      'report 1.pdf'
+    );
+    expect(getArtifactName('image/png', "attachment; filename*=UTF-8''caf%C3%A9.png")).toBe(
+      'café.png'
+    );
+    expect(getArtifactName('image/jpeg', null, now)).toBe('response-20260301T123045.jpg');
+    expect(getArtifactName(null, 'inline', now)).toBe('response-20260301T123045.bin');
+  });
+
+  it('should recognize artifact responses', () => {
+    expect(
+      isResponseArtifact({ type: 'artifact', name: 'a.png', contentType: 'image/png', size: 1 })
+    ).toBe(true);
+    expect(isResponseArtifact({ type: 'artifact' })).toBe(false);
+    expect(isResponseArtifact('artifact')).toBe(false);
+  });
+});
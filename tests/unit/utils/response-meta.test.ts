@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  formatBytes,
+  parseStoredResponse,
+  serializeStoredResponse,
+  sortResponseHeaders,
+  summarizeResponseMeta,
+} from '@/lib/utils/response-meta';
+
+const meta = {
+  headers: { 'x-powered-by': 'Express', etag: '"v1"', 'content-type': 'application/json' },
+  durationMs: 1340,
+  ttfbMs: 95,
+  sizeBytes: 2048,
+};
+
+describe('Response metadata utilities', () => {
+  describe('formatBytes', () => {
+    it('should format bytes, kilobytes and megabytes', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+    });
+  });
+
+  describe('summarizeResponseMeta', () => {
+    it('should summarize status, timings and size', () => {
+      expect(summarizeResponseMeta(meta, 200)).toBe('HTTP 200 · 1.34 s (TTFB 95 ms) · 2.0 KB');
+      expect(summarizeResponseMeta(meta)).toBe('1.34 s (TTFB 95 ms) · 2.0 KB');
+    });
+
+    it('should label bodies converted from XML or CSV', () => {
+      expect(summarizeResponseMeta({ ...meta, format: 'csv' })).toBe(
+        '1.34 s (TTFB 95 ms) · 2.0 KB · CSV'
+      );
+      expect(summarizeResponseMeta({ ...meta, format: 'json' })).toBe(
+        '1.34 s (TTFB 95 ms) · 2.0 KB'
+      );
+    });
+  });
+
+  describe('sortResponseHeaders', () => {
+    it('should list debugging headers first', () => {
+      expect(sortResponseHeaders(meta.headers).map(([name]) => name)).toEqual([
+        'content-type',
+        'etag',
+        'x-powered-by',
+      ]);
+    });
+  });
+
+  describe('stored responses', () => {
+    it('should round-trip the body with its metadata', () => {
+      const stored = serializeStoredResponse({ id: 1 }, meta);
+      expect(parseStoredResponse(stored)).toEqual({ body: { id: 1 }, meta });
+    });
+
+    it('should read rows stored before metadata was captured', () => {
+      expect(parseStoredResponse('{"id":1}')).toEqual({ body: { id: 1 }, meta: null });
+      expect(parseStoredResponse('[1,2]')).toEqual({ body: [1, 2], meta: null });
+      expect(parseStoredResponse(null)).toEqual({ body: null, meta: null });
+    });
+
+    it('should skip storing when there is neither a body nor metadata', () => {
+      expect(serializeStoredResponse(undefined, null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+
+import { ExecutionResult } from '@/lib/types';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryable,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '@/lib/utils/retry';
+
+const failure = (httpCode: number, headers: Record<string, string> = {}): ExecutionResult => ({
+  success: false,
+  stdout: '',
+  stderr: '',
+  exitCode: 0,
+  httpCode,
+  meta: { headers, durationMs: 1, ttfbMs: 1, sizeBytes: 0 },
+});
+
+describe('Retry policies', () => {
+  it('should merge step settings over workflow settings over the defaults', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    expect(
+      resolveRetryPolicy(
+        { maxAttempts: 5, backoffMs: 100, retryOn: [500] },
+        { maxAttempts: 2, backoffMs: undefined }
+      )
+    ).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 2, backoffMs: 100, retryOn: [500] });
+    expect(resolveRetryPolicy(null, { maxAttempts: 0 }).maxAttempts).toBe(1);
+  });
+
+  it('should retry network errors and listed status codes only', () => {
+    const policy = resolveRetryPolicy();
+    expect(isRetryable(policy, failure(503))).toBe(true);
+    expect(isRetryable(policy, failure(500))).toBe(false);
+    expect(isRetryable(policy, { ...failure(0), networkError: true })).toBe(true);
+    expect(isRetryable(policy, failure(0))).toBe(false);
+    expect(isRetryable(policy, { ...failure(200), success: true })).toBe(false);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('2026-03-01T12:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('should back off exponentially and honour longer Retry-After waits', () => {
+    const policy = resolveRetryPolicy({ backoffMs: 100, maxDelayMs: 5000 });
+    expect(getRetryDelay(policy, 1, failure(503))).toBe(100);
+    expect(getRetryDelay(policy, 3, failure(503))).toBe(400);
+    expect(getRetryDelay(policy, 1, failure(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryDelay(policy, 1, failure(429, { 'retry-after': '60' }))).toBe(5000);
+  });
+});
@@ -0,0 +1,198 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+
+import {
+  diffSpecs,
+  findAffectedSteps,
+  hasSpecChanges,
+  listOperationKeys,
+  matchOperation,
+} from '@/lib/utils/spec-diff';
+
+const baseDoc = {
+  openapi: '3.0.0',
+  info: { title: 'Shop API', version: '1.0.0' },
+  paths: {
+    '/users': {
+      get: {
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+        responses: { '200': { description: 'OK' } },
+      },
+      post: {
+        requestBody: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/NewUser' } } },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/users/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      get: { responses: { '200': { description: 'OK' }, '404': { description: 'Missing' } } },
+      delete: { responses: { '204': { description: 'Deleted' } } },
+    },
+    '/users/me': {
+      get: { responses: { '200': { description: 'OK' } } },
+    },
+  },
+  components: {
+    schemas: {
+      NewUser: {
+        allOf: [
+          { $ref: '#/components/schemas/Named' },
+          { type: 'object', properties: { email: { type: 'string' } } },
+        ],
+      },
+      Named: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, nickname: { type: 'string' } },
+      },
+    },
+  },
+} as any;
+
+function clone(doc: any): any {
+  return JSON.parse(JSON.stringify(doc));
+}
+
+describe('Spec diff utilities', () => {
+  describe('diffSpecs', () => {
+    it('should report no changes for identical documents', () => {
+      const diff = diffSpecs(baseDoc, clone(baseDoc));
+      expect(hasSpecChanges(diff)).toBe(false);
+      expect(diff.breakingCount).toBe(0);
+    });
+
+    it('should report added and removed operations', () => {
+      const next = clone(baseDoc);
+      delete next.paths['/users/{id}'].delete;
+      next.paths['/orders'] = { get: { responses: { '200': { description: 'OK' } } } };
+      next.info.version = '1.1.0';
+
+      const diff = diffSpecs(baseDoc, next);
+      expect(diff.addedOperations).toEqual(['GET /orders']);
+      expect(diff.removedOperations).toEqual(['DELETE /users/{id}']);
+      expect(diff.fromVersion).toBe('1.0.0');
+      expect(diff.toVersion).toBe('1.1.0');
+      expect(diff.breakingCount).toBe(1);
+    });
+
+    it('should flag removed, retyped and newly required parameters as breaking', () => {
+      const next = clone(baseDoc);
+      next.paths['/users'].get.parameters = [
+        { name: 'limit', in: 'query', required: true, schema: { type: 'string' } },
+        { name: 'sort', in: 'query', schema: { type: 'string' } },
+      ];
+      next.paths['/users/{id}'].parameters = [];
+      next.paths['/users/{id}'].get.parameters = [
+        { name: 'userId', in: 'path', required: true, schema: { type: 'string' } },
+      ];
+
+      const diff = diffSpecs(baseDoc, next);
+      const byOperation = (key: string) => diff.changes.filter(change => change.operation === key);
+
+      expect(byOperation('GET /users').map(change => [change.kind, change.breaking])).toEqual(
+        expect.arrayContaining([
+          ['parameter-changed', true],
+          ['parameter-required', true],
+          ['parameter-added', false],
+        ])
+      );
+      expect(byOperation('GET /users/{id}').map(change => change.kind)).toEqual(
+        expect.arrayContaining(['parameter-removed', 'parameter-added'])
+      );
+    });
+
+    it('should compare request fields through refs and allOf', () => {
+      const next = clone(baseDoc);
+      delete next.components.schemas.Named.properties.name;
+      next.components.schemas.Named.required = ['nickname'];
+
+      const diff = diffSpecs(baseDoc, next);
+      const changes = diff.changes.filter(change => change.operation === 'POST /users');
+
+      expect(changes).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ kind: 'field-removed', target: 'name', breaking: true }),
+          expect.objectContaining({ kind: 'field-required', target: 'nickname', breaking: true }),
+        ])
+      );
+    });
+
+    it('should only treat removed success responses as breaking', () => {
+      const next = clone(baseDoc);
+      next.paths['/users/{id}'].get.responses = { '200': { description: 'OK' } };
+      next.paths['/users/me'].get.responses = { '401': { description: 'Unauthorized' } };
+
+      const diff = diffSpecs(baseDoc, next);
+      const responses = diff.changes.map(change => [
+        change.operation,
+        change.target,
+        change.breaking,
+      ]);
+
+      expect(responses).toEqual(
+        expect.arrayContaining([
+          ['GET /users/{id}', '404', false],
+          ['GET /users/me', '200', true],
+          ['GET /users/me', '401', false],
+        ])
+      );
+      expect(diff.breakingCount).toBe(1);
+    });
+  });
+
+  describe('matchOperation', () => {
+    const keys = listOperationKeys(baseDoc);
+
+    it('should match concrete values and placeholders against path templates', () => {
+      expect(matchOperation('GET', '/users/123', keys)).toBe('GET /users/{id}');
+      expect(matchOperation('delete', '/users/{{userId}}', keys)).toBe('DELETE /users/{id}');
+      expect(matchOperation('GET', '/users?limit=5', keys)).toBe('GET /users');
+    });
+
+    it('should prefer literal segments over templated ones', () => {
+      expect(matchOperation('GET', '/users/me', keys)).toBe('GET /users/me');
+    });
+
+    it('should tolerate base path prefixes and full URLs', () => {
+      expect(matchOperation('GET', '/api/v1/users/42', keys)).toBe('GET /users/{id}');
+      expect(matchOperation('GET', 'https://api.example.com/users', keys)).toBe('GET /users');
+    });
+
+    it('should return null when no operation matches', () => {
+      expect(matchOperation('PUT', '/users/1', keys)).toBeNull();
+      expect(matchOperation('GET', '/orders', keys)).toBeNull();
+    });
+  });
+
+  describe('findAffectedSteps', () => {
+    const step = (stepNumber: number, method: string, endpoint: string) => ({
+      stepNumber,
+      description: `Step ${stepNumber}`,
+      action: { method, endpoint, purpose: 'test' },
+    });
+
+    it('should report steps calling removed or changed operations', () => {
+      const next = clone(baseDoc);
+      delete next.paths['/users/{id}'].delete;
+      next.paths['/users'].get.parameters.push({ name: 'sort', in: 'query' });
+
+      const diff = diffSpecs(baseDoc, next);
+      const affected = findAffectedSteps(
+        [
+          step(1, 'GET', '/users'),
+          step(2, 'GET', '/users/me'),
+          step(3, 'DELETE', '/users/{{userId}}'),
+        ],
+        diff,
+        listOperationKeys(next)
+      );
+
+      expect(affected).toEqual([
+        { stepNumber: 1, operation: 'GET /users', reason: 'changed', breaking: false },
+        { stepNumber: 3, operation: 'DELETE /users/{id}', reason: 'removed', breaking: true },
+      ]);
+    });
+  });
+});
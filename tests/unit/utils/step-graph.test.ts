@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowStep } from '@/lib/types';
+import {
+  buildStepGraph,
+  getCompensationSteps,
+  getStepDependsOn,
+  getStepPlaceholders,
+} from '@/lib/utils/step-graph';
+
+function step(
+  stepNumber: number,
+  method: string,
+  endpoint: string,
+  extra: Partial<WorkflowStep> & { body?: Record<string, unknown> } = {}
+): WorkflowStep {
+  const { body, ...rest } = extra;
+  return {
+    stepNumber,
+    description: `Step ${stepNumber}`,
+    action: { method, endpoint, purpose: '', body },
+    ...rest,
+  };
+}
+
+describe('Workflow step graph', () => {
+  it('should collect placeholders from the endpoint and body', () => {
+    expect(
+      getStepPlaceholders(
+        step(1, 'POST', '/users/{{user_id}}/roles', {
+          body: { role: '{{role_id}}', meta: { owner: '{{ user_id }}' } },
+        })
+      )
+    ).toEqual(['user_id', 'role_id']);
+  });
+
+  it('should run independent reads in parallel and order writes after them', () => {
+    const steps = [
+      step(1, 'GET', '/roles', { extractFields: ['role_id'] }),
+      step(2, 'GET', '/areas', { extractFields: ['area_id'] }),
+      step(3, 'GET', '/payment-methods'),
+      step(4, 'POST', '/users', { body: { role: '{{role_id}}' }, extractFields: ['id'] }),
+      step(5, 'GET', '/users'),
+    ];
+    expect(buildStepGraph(steps)).toEqual([[], [], [], [0, 1, 2], [3]]);
+  });
+
+  it('should follow placeholders and explicit dependsOn', () => {
+    const steps = [
+      step(1, 'GET', '/roles', { extractFields: ['[0].id'] }),
+      step(2, 'GET', '/areas', { extractFields: ['area_id'] }),
+      step(3, 'GET', '/areas/{{area_id}}'),
+      step(4, 'GET', '/roles/{{step1_[0].id}}', { dependsOn: [] }),
+      step(5, 'POST', '/audit', { dependsOn: [2] }),
+      // Unknown placeholders may resolve from any earlier step
+      step(6, 'GET', '/things/{{thing_id}}', { dependsOn: [] }),
+      // Template inputs are known up front
+      step(7, 'GET', '/users?name={{input.name}}', { dependsOn: [] }),
+    ];
+    expect(getStepDependsOn(steps)).toEqual([[], [], [2], [1], [2], [1, 2, 3, 4, 5], []]);
+  });
+
+  it('should make forEach steps wait for their source only', () => {
+    const steps = [
+      step(1, 'GET', '/users'),
+      step(2, 'GET', '/roles', { extractFields: ['roles'] }),
+      step(3, 'GET', '/users/{{item.id}}/orders', { forEach: { source: 'step1.data' } }),
+      step(4, 'GET', '/roles/{{item}}', { forEach: { source: '{{roles}}' } }),
+    ];
+    expect(getStepDependsOn(steps)).toEqual([[], [], [1], [2]]);
+  });
+
+  it('should make conditional steps wait for the steps their condition reads', () => {
+    const steps = [
+      step(1, 'GET', '/tags', { extractFields: ['tags'] }),
+      step(2, 'GET', '/labels'),
+      step(3, 'GET', '/colors', { dependsOn: [], when: 'empty(tags)' }),
+      step(4, 'GET', '/shapes', { dependsOn: [], when: 'status == 404 || step2.length > 0' }),
+    ];
+    expect(getStepDependsOn(steps)).toEqual([[], [], [1], [2, 3]]);
+  });
+
+  it('should keep compensating steps out of the normal ordering', () => {
+    const steps = [
+      step(1, 'POST', '/users', { extractFields: ['id'], onFailure: 3 }),
+      step(2, 'POST', '/roles'),
+      step(3, 'DELETE', '/users/{{id}}'),
+      step(4, 'POST', '/audit'),
+    ];
+    expect(getCompensationSteps(steps)).toEqual(new Set([2]));
+    expect(buildStepGraph(steps)).toEqual([[], [0], [0, 1], [0, 1]]);
+  });
+});
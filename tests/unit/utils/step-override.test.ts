@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowStep } from '@/lib/types';
+import { applyParameters, applyStepOverride } from '@/lib/utils/step-override';
+
+const step: WorkflowStep = {
+  stepNumber: 7,
+  description: 'Create order',
+  action: {
+    method: 'POST',
+    endpoint: '/users/{{step1_id}}/orders?dryRun=true',
+    purpose: '',
+    body: { item: 'book', quantity: 1 },
+    parameters: { dryRun: true },
+  },
+};
+
+describe('Step overrides', () => {
+  it('should fill path templates and set query parameters', () => {
+    expect(applyParameters('/pets/{petId}', { petId: 'a b', limit: 5 })).toBe(
+      '/pets/a%20b?limit=5'
+    );
+    expect(applyParameters('/pets?limit=1&sort=name', { limit: 10, tags: ['x'] })).toBe(
+      '/pets?limit=10&sort=name&tags=%5B%22x%22%5D'
+    );
+    expect(applyParameters('/pets/{{id}}', { id: 3, skip: null })).toBe('/pets/{{id}}?id=3');
+  });
+
+  it('should replace the body and merge parameters', () => {
+    const overridden = applyStepOverride(step, {
+      body: { item: 'pen' },
+      parameters: { dryRun: false },
+    });
+    expect(overridden.action).toMatchObject({
+      endpoint: '/users/{{step1_id}}/orders?dryRun=false',
+      body: { item: 'pen' },
+      parameters: { dryRun: false },
+    });
+    expect(step.action.body).toEqual({ item: 'book', quantity: 1 });
+  });
+
+  it('should replace the endpoint before applying parameters', () => {
+    expect(
+      applyStepOverride(step, { endpoint: '/orders/{orderId}', parameters: { orderId: 9 } }).action
+        .endpoint
+    ).toBe('/orders/9');
+    expect(applyStepOverride(step, {})).toEqual(step);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowStep } from '@/lib/types';
+import { validateWorkflowSteps } from '@/lib/utils/step-validation';
+
+const step = (
+  stepNumber: number,
+  action: Partial<WorkflowStep['action']>,
+  extra: Partial<WorkflowStep> = {}
+): WorkflowStep => ({
+  stepNumber,
+  description: `Step ${stepNumber}`,
+  action: { endpoint: '/users', method: 'GET', purpose: 'test', ...action },
+  ...extra,
+});
+
+const context = {
+  operationKeys: ['GET /users', 'POST /users', 'GET /users/{id}'],
+  inputNames: ['name'],
+};
+
+describe('Workflow step validation', () => {
+  it('should accept steps that call spec operations and reference earlier steps', () => {
+    const errors = validateWorkflowSteps(
+      [
+        step(1, { method: 'POST', body: { name: '{{input.name}}' } }, { extractFields: ['id'] }),
+        step(2, { endpoint: '/users/{{step1_id}}?expand=true' }, { dependsOn: [1] }),
+        step(3, {}, { when: 'step2.status == 200', onFailure: 1 }),
+      ],
+      context
+    );
+
+    expect(errors).toEqual({});
+  });
+
+  it('should report operations missing from the spec and duplicate step numbers', () => {
+    const errors = validateWorkflowSteps(
+      [step(1, { method: 'DELETE', endpoint: '/users/5' }), step(1, { endpoint: '/teams' })],
+      context
+    );
+
+    expect(errors).toEqual({
+      'steps.0.action.endpoint': ['The spec has no DELETE /users/5 operation'],
+      'steps.1.stepNumber': ['Step number 1 is used twice'],
+      'steps.1.action.endpoint': ['The spec has no GET /teams operation'],
+    });
+  });
+
+  it('should report references to later, missing or undeclared steps and inputs', () => {
+    const errors = validateWorkflowSteps(
+      [
+        step(1, { endpoint: '/users/{{step2_id}}' }, { dependsOn: [2, 7], onFailure: 1 }),
+        step(2, { method: 'POST', body: { role: '{{input.role}}' } }, { onFailure: 9 }),
+        step(
+          3,
+          {},
+          {
+            when: 'step2.status ==',
+            assertions: [
+              { type: 'status', equals: 200 },
+              { type: 'length', path: '$.items[' },
+            ],
+          }
+        ),
+      ],
+      context
+    );
+
+    expect(errors['steps.0.dependsOn']).toEqual([
+      'Step 2 does not run before this step',
+      'There is no step 7',
+    ]);
+    expect(errors['steps.0.onFailure']).toEqual(['A step cannot compensate for itself']);
+    expect(errors['steps.0.action']).toEqual([
+      '{{step2_id}} refers to step 2, which does not run before this step',
+    ]);
+    expect(errors['steps.1.onFailure']).toEqual(['There is no step 9']);
+    expect(errors['steps.1.action']).toEqual(['{{input.role}} refers to an undeclared input']);
+    expect(errors['steps.2.when']).toHaveLength(1);
+    expect(errors['steps.2.assertions.1']).toEqual(['Invalid JSONPath "$.items[" at "["']);
+  });
+});
@@ -306,6 +306,184 @@ info:
       expect(result).toContain('name: string');
     });
 
+    it('should merge allOf schemas and show enums and formats', () => {
+      const doc = {
+        openapi: '3.0.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Base: {
+              type: 'object',
+              required: ['id'],
+              properties: { id: { type: 'string', format: 'uuid' } },
+            },
+            Order: {
+              allOf: [
+                { $ref: '#/components/schemas/Base' },
+                {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', enum: ['open', 'closed'] },
+                    lines: { type: 'array', items: { $ref: '#/components/schemas/Line' } },
+                  },
+                },
+              ],
+            },
+            Line: {
+              type: 'object',
+              properties: { sku: { type: 'string' }, quantity: { type: 'integer' } },
+            },
+          },
+        },
+        paths: {
+          '/orders': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': { schema: { $ref: '#/components/schemas/Order' } },
+                },
+              },
+            },
+          },
+        },
+      };
+      const result = formatSwaggerForLLM(doc as any);
+      expect(result).toContain('id: string (uuid) (REQUIRED)');
+      expect(result).toContain('status: string');
+      expect(result).toContain('Allowed values: "open", "closed"');
+      expect(result).toContain('lines: array of object (Line)');
+      expect(result).toContain('Array items:');
+      expect(result).toContain('sku: string');
+    });
+
+    it('should list oneOf alternatives', () => {
+      const doc = {
+        openapi: '3.0.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Card: { type: 'object', properties: { number: { type: 'string' } } },
+            Transfer: { type: 'object', properties: { iban: { type: 'string' } } },
+          },
+        },
+        paths: {
+          '/payments': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      oneOf: [
+                        { $ref: '#/components/schemas/Card' },
+                        { $ref: '#/components/schemas/Transfer' },
+                      ],
+                      discriminator: { propertyName: 'method' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      const result = formatSwaggerForLLM(doc as any);
+      expect(result).toContain('One of:');
+      expect(result).toContain('(selected by the "method" field)');
+      expect(result).toContain('Option 1: object (Card)');
+      expect(result).toContain('number: string');
+      expect(result).toContain('Option 2: object (Transfer)');
+      expect(result).toContain('iban: string');
+    });
+
+    it('should stop at recursive schemas', () => {
+      const doc = {
+        openapi: '3.0.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Category: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                parent: { $ref: '#/components/schemas/Category' },
+                children: { type: 'array', items: { $ref: '#/components/schemas/Category' } },
+              },
+            },
+          },
+        },
+        paths: {
+          '/categories': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': { schema: { $ref: '#/components/schemas/Category' } },
+                },
+              },
+            },
+          },
+        },
+      };
+      const result = formatSwaggerForLLM(doc as any);
+      expect(result).toContain('parent: object (Category, circular reference)');
+      expect(result).toContain('children: array of object (Category, circular reference)');
+    });
+
+    it('should resolve shared parameters, request bodies and responses', () => {
+      const doc = {
+        swagger: '2.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        parameters: {
+          PetId: { name: 'petId', in: 'path', required: true, type: 'integer', format: 'int64' },
+        },
+        definitions: {
+          Pet: { type: 'object', properties: { name: { type: 'string' } } },
+        },
+        responses: {
+          PetResponse: { description: 'A pet', schema: { $ref: '#/definitions/Pet' } },
+        },
+        paths: {
+          '/pets/{petId}': {
+            parameters: [{ $ref: '#/parameters/PetId' }],
+            put: {
+              parameters: [
+                { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+              ],
+              responses: { '200': { $ref: '#/responses/PetResponse' } },
+            },
+          },
+        },
+      };
+      const result = formatSwaggerForLLM(doc as any);
+      expect(result).not.toContain('### PARAMETERS');
+      expect(result).toContain('petId (path): integer (int64)');
+      expect(result).toContain('body (body): object (Pet)');
+      expect(result).toContain('200: A pet');
+      expect(result).toContain('Returns: object (Pet)');
+      expect(result.match(/name: string/g)).toHaveLength(2);
+    });
+
+    it('should describe only the selected operations and list the others', () => {
+      const doc = {
+        openapi: '3.0.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        paths: {
+          '/users': {
+            get: { summary: 'List users', parameters: [{ name: 'page', in: 'query' }] },
+          },
+          '/orders': {
+            get: { summary: 'List orders', parameters: [{ name: 'status', in: 'query' }] },
+          },
+        },
+      };
+      const result = formatSwaggerForLLM(doc as any, undefined, { operations: ['GET /orders'] });
+      expect(result).toContain('### GET /orders');
+      expect(result).toContain('status (query)');
+      expect(result).not.toContain('### GET /users');
+      expect(result).not.toContain('page (query)');
+      expect(result).toContain('## Other Endpoints');
+      expect(result).toContain('- GET /users - List users');
+    });
+
     describe('baseUrl override', () => {
       it('should use override baseUrl instead of extracted one', () => {
         const doc = {
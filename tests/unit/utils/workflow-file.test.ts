@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseWorkflowFile, toWorkflowFile } from '@/lib/utils/workflow-file';
+
+const steps = [
+  {
+    stepNumber: 1,
+    description: 'Get user',
+    action: { method: 'GET', endpoint: '/users/{{input.id}}', purpose: '' },
+    assertions: [{ type: 'status', equals: 200 }],
+  },
+];
+
+describe('Workflow files', () => {
+  it('should export a saved workflow and read it back', () => {
+    const file = toWorkflowFile(
+      {
+        name: 'Smoke test',
+        description: 'Get a user',
+        steps: JSON.stringify(steps),
+        inputs: JSON.stringify([{ name: 'id', type: 'number', default: 1 }]),
+        retryPolicy: null,
+      },
+      'https://api.example.com'
+    );
+
+    expect(file).toEqual({
+      version: 1,
+      name: 'Smoke test',
+      description: 'Get a user',
+      baseUrl: 'https://api.example.com',
+      steps,
+      inputs: [{ name: 'id', type: 'number', default: 1 }],
+    });
+    expect(parseWorkflowFile(JSON.stringify(file))).toEqual(file);
+  });
+
+  it('should read API responses and bare step arrays', () => {
+    const response = {
+      success: true,
+      data: {
+        workflow: { name: 'Saved', steps, inputs: [], retryPolicy: '{"maxAttempts":3}' },
+      },
+    };
+
+    expect(parseWorkflowFile(JSON.stringify(response))).toEqual({
+      version: 1,
+      name: 'Saved',
+      steps,
+      retry: { maxAttempts: 3 },
+    });
+    expect(
+      parseWorkflowFile(JSON.stringify([{ ...steps[0], description: '' }]), 'smoke.json')
+    ).toMatchObject({ name: 'smoke.json', steps: [{ description: 'Step 1' }] });
+  });
+
+  it('should reject content that is not a workflow', () => {
+    expect(() => parseWorkflowFile('{')).toThrow('Workflow file is not valid JSON');
+    expect(() => parseWorkflowFile('{"name":"Empty","steps":[]}')).toThrow(
+      'Workflow file has no steps'
+    );
+    expect(() => parseWorkflowFile('[{"stepNumber":1,"action":{"method":"GET"}}]')).toThrow(
+      'Step 1 of the workflow file needs a stepNumber and an action with method and endpoint'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowInput, WorkflowStep } from '@/lib/types';
+import {
+  applyInputs,
+  getInputReferences,
+  parameterizeSteps,
+  resolveInputValues,
+} from '@/lib/utils/workflow-inputs';
+
+const step = (
+  stepNumber: number,
+  action: Partial<WorkflowStep['action']>,
+  extra: Partial<WorkflowStep> = {}
+): WorkflowStep => ({
+  stepNumber,
+  description: `Step ${stepNumber}`,
+  action: { endpoint: '/users', method: 'GET', purpose: 'test', ...action },
+  ...extra,
+});
+
+const inputs: WorkflowInput[] = [
+  { name: 'name', type: 'string' },
+  { name: 'age', type: 'number', default: 30 },
+  { name: 'admin', type: 'boolean', default: false },
+  { name: 'tags', type: 'array', default: [] },
+];
+
+describe('Workflow template inputs', () => {
+  it('should check values against the declared inputs and fill defaults', () => {
+    expect(resolveInputValues(inputs, { name: 'Bob', age: '42', admin: 'true' })).toEqual({
+      values: { name: 'Bob', age: 42, admin: true, tags: [] },
+      errors: {},
+    });
+    expect(resolveInputValues(inputs, { tags: '["a"]', name: 'Bob' }).values.tags).toEqual(['a']);
+
+    expect(resolveInputValues(inputs, { age: 'old', admin: 'yes', tags: '{}', extra: 1 })).toEqual({
+      values: {},
+      errors: {
+        name: ['Required'],
+        age: ['Expected a number'],
+        admin: ['Expected true or false'],
+        tags: ['Expected a JSON array'],
+        extra: ['Not an input of this workflow'],
+      },
+    });
+  });
+
+  it('should fill references with typed values, text or condition literals', () => {
+    const [filled] = applyInputs(
+      [
+        step(
+          1,
+          {
+            endpoint: '/users?role={{input.role}}&team={{step0_id}}',
+            method: 'POST',
+            body: { name: '{{input.name}}', age: '{{input.age}}', note: 'Hi {{input.name}}' },
+          },
+          { when: 'step0.body.name != {{input.name}}' }
+        ),
+      ],
+      { name: 'Bob', age: 42 }
+    );
+
+    expect(filled.action.endpoint).toBe('/users?role={{input.role}}&team={{step0_id}}');
+    expect(filled.action.body).toEqual({ name: 'Bob', age: 42, note: 'Hi Bob' });
+    expect(filled.when).toBe('step0.body.name != "Bob"');
+  });
+
+  it('should parameterize step values named like an input and keep them as defaults', () => {
+    const result = parameterizeSteps(
+      [
+        step(1, { endpoint: '/users?name=Alice&limit=5' }),
+        step(2, { method: 'POST', body: { name: 'Alice', age: 31, team: '{{step1_teamId}}' } }),
+      ],
+      [
+        { name: 'name', type: 'string' },
+        { name: 'age', type: 'number' },
+        { name: 'team', type: 'string' },
+      ]
+    );
+
+    expect(result.steps[0].action.endpoint).toBe('/users?name={{input.name}}&limit=5');
+    expect(result.steps[1].action.body).toEqual({
+      name: '{{input.name}}',
+      age: '{{input.age}}',
+      team: '{{step1_teamId}}',
+    });
+    expect(result.inputs).toEqual([
+      { name: 'name', type: 'string', default: 'Alice' },
+      { name: 'age', type: 'number', default: 31 },
+      { name: 'team', type: 'string' },
+    ]);
+    expect([...getInputReferences(result.steps)]).toEqual(['name', 'age']);
+  });
+
+  it('should keep query values with malformed escapes as they were saved', () => {
+    const result = parameterizeSteps(
+      [step(1, { endpoint: '/search?q=%zz&name=Ada%20Lovelace' })],
+      [
+        { name: 'q', type: 'string' },
+        { name: 'name', type: 'string' },
+      ]
+    );
+
+    expect(result.steps[0].action.endpoint).toBe('/search?q={{input.q}}&name={{input.name}}');
+    expect(result.inputs).toEqual([
+      { name: 'q', type: 'string', default: '%zz' },
+      { name: 'name', type: 'string', default: 'Ada Lovelace' },
+    ]);
+  });
+});
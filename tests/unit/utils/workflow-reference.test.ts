@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowStep } from '@/lib/types';
+import {
+  buildParameterOverrides,
+  isWorkflowReference,
+  parseParameterOverrides,
+} from '@/lib/utils/workflow-reference';
+
+const step = (stepNumber: number, action: Partial<WorkflowStep['action']>): WorkflowStep => ({
+  stepNumber,
+  description: `Step ${stepNumber}`,
+  action: { endpoint: '/users', method: 'GET', purpose: 'test', ...action },
+});
+
+describe('Workflow references', () => {
+  it('should recognize requests to run an earlier workflow again', () => {
+    expect(isWorkflowReference('Run that workflow again')).toBe(true);
+    expect(isWorkflowReference('run it again with name=Bob')).toBe(true);
+    expect(isWorkflowReference('Please rerun')).toBe(true);
+    expect(isWorkflowReference('execute the previous workflow')).toBe(true);
+    expect(isWorkflowReference('what did that workflow return?')).toBe(false);
+    expect(isWorkflowReference('create a user named Bob')).toBe(false);
+  });
+
+  it('should parse key=value pairs with quoted values', () => {
+    expect(
+      parseParameterOverrides('run it again with name="Bob Smith", age=42 and active=true.')
+    ).toEqual({ name: 'Bob Smith', age: '42', active: 'true' });
+    expect(parseParameterOverrides('run it again')).toEqual({});
+  });
+
+  it('should override the body fields and parameters steps use', () => {
+    const steps = [
+      step(1, { endpoint: '/users?limit=10' }),
+      step(2, { endpoint: '/users/{id}', method: 'PUT', body: { name: 'Alice', age: 30 } }),
+      step(3, { endpoint: '/teams/{{step2_teamId}}' }),
+    ];
+
+    const { overrides, unused } = buildParameterOverrides(
+      steps,
+      parseParameterOverrides('run it again with name=Bob age=31 limit=5 id=7 step2_teamId=1 x=1')
+    );
+
+    expect(overrides).toEqual({
+      1: { parameters: { limit: '5' } },
+      2: { body: { name: 'Bob', age: 31 }, parameters: { id: '7' } },
+    });
+    expect(unused).toEqual(['step2_teamId', 'x']);
+  });
+});
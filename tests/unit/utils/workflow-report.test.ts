@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+
+import { WorkflowStep } from '@/lib/types';
+import {
+  buildRunReport,
+  buildWorkflowReport,
+  toJUnitXml,
+  WorkflowReportInput,
+} from '@/lib/utils/workflow-report';
+
+const step = (stepNumber: number, method: string, endpoint: string): WorkflowStep => ({
+  stepNumber,
+  description: `Step <${stepNumber}>`,
+  action: { method, endpoint, purpose: '' },
+});
+
+const run: WorkflowReportInput = {
+  name: 'Users & teams',
+  source: 'smoke.json',
+  steps: [
+    step(1, 'post', '/users'),
+    step(2, 'GET', '/users/{{step1_id}}'),
+    step(3, 'GET', '/teams'),
+    step(4, 'DELETE', '/users/{{step1_id}}'),
+  ],
+  results: [
+    { step: 1, success: true, httpCode: 201 },
+    {
+      step: 2,
+      success: false,
+      httpCode: 200,
+      attempts: 2,
+      error: '1 of 1 assertion failed: $.name equals "Ada" (got "Bob")',
+      assertions: [
+        {
+          assertion: { type: 'equals', path: '$.name', value: 'Ada' },
+          passed: false,
+          message: '$.name equals "Ada" (got "Bob")',
+        },
+      ],
+    },
+    { step: 3, success: true, skipped: true },
+  ],
+  startedAt: new Date('2026-01-02T03:04:05.000Z'),
+  durationMs: 1500,
+  stepDurations: { 1: 120, 2: 340 },
+};
+
+describe('Workflow run reports', () => {
+  it('should report every step, including the ones that never ran', () => {
+    const report = buildWorkflowReport(run);
+
+    expect(report.success).toBe(false);
+    expect(report.steps.map(s => [s.step, s.status, s.method])).toEqual([
+      [1, 'passed', 'POST'],
+      [2, 'failed', 'GET'],
+      [3, 'skipped', 'GET'],
+      [4, 'not run', 'DELETE'],
+    ]);
+    expect(report.steps[1]).toMatchObject({ httpCode: 200, durationMs: 340, attempts: 2 });
+
+    expect(buildRunReport([report, buildWorkflowReport({ ...run, results: [] })]).totals).toEqual({
+      workflows: 2,
+      failedWorkflows: 1,
+      steps: 8,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      'not run': 5,
+    });
+  });
+
+  it('should write JUnit XML with failures, skips and workflows that could not run', () => {
+    const xml = toJUnitXml(
+      buildRunReport([
+        buildWorkflowReport(run),
+        buildWorkflowReport({
+          ...run,
+          name: 'Broken',
+          steps: [],
+          results: [],
+          error: 'Invalid inputs: id: Required',
+        }),
+      ])
+    );
+
+    expect(xml).toContain(
+      '<testsuites name="swaggbot" tests="5" failures="1" errors="1" skipped="2" time="3.000">'
+    );
+    expect(xml).toContain(
+      '<testsuite name="Users &amp; teams" tests="4" failures="1" errors="0" skipped="2" time="1.500" timestamp="2026-01-02T03:04:05.000Z">'
+    );
+    expect(xml).toContain(
+      '<testcase classname="Users &amp; teams" name="Step 1: Step &lt;1&gt; (POST /users)" time="0.120"/>'
+    );
+    expect(xml).toContain(
+      '<failure message="1 of 1 assertion failed: $.name equals &quot;Ada&quot; (got &quot;Bob&quot;)" type="AssertionError">HTTP 200\n2 attempts\nFailed: $.name equals &quot;Ada&quot; (got &quot;Bob&quot;)</failure>'
+    );
+    expect(xml).toContain('<skipped message="Condition did not hold"/>');
+    expect(xml).toContain('<skipped message="Not run: an earlier step failed"/>');
+    expect(xml).toContain('<error message="Invalid inputs: id: Required" type="WorkflowError"/>');
+  });
+});